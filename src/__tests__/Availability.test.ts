@@ -0,0 +1,152 @@
+/**
+ * Inventory and availability tests
+ * Validates room and tour seat holds, their timeout, and that the booking tools never oversell
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { INVENTORY_HOLD_TTL_MS } from '../data/inventoryData';
+import type { InventoryItem } from '../types';
+import { testCardTokens } from '../data/paymentData';
+
+// The outbound stopover lands after the 06:30 departure, so the tour runs on its second day
+const whaleSharkSeats = (quantity: number): InventoryItem => ({
+  type: 'tour', productId: 'whale-sharks-qatar', date: '2026-11-13', quantity
+});
+const rafflesRooms = (quantity: number): InventoryItem => ({
+  type: 'room', productId: 'raffles-doha', date: '2026-11-12', quantity
+});
+
+describe('Availability', () => {
+  let now: number;
+  let availability: AvailabilityManager;
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 10, 1);
+    availability = new AvailabilityManager(new InMemoryInventoryStore(), () => now);
+  });
+
+  describe('Holds', () => {
+    it('should count another conversation\'s hold against capacity but not its own', async () => {
+      await availability.hold('conv_a', [whaleSharkSeats(10)]);
+
+      expect(await availability.getRemaining([whaleSharkSeats(1)])).toEqual([2]);
+      expect(await availability.getRemaining([whaleSharkSeats(1)], 'conv_a')).toEqual([12]);
+      expect(await availability.hold('conv_b', [whaleSharkSeats(3)])).toEqual({
+        shortfalls: [{ item: whaleSharkSeats(3), remaining: 2 }]
+      });
+    });
+
+    it('should release a hold when it times out', async () => {
+      await availability.hold('conv_a', [rafflesRooms(4)]);
+      now += INVENTORY_HOLD_TTL_MS;
+
+      expect(await availability.getRemaining([rafflesRooms(1)])).toEqual([4]);
+      expect(await availability.confirm('conv_a', 'K7QM2P')).toBe(false);
+    });
+
+    it('should keep sold inventory until the booking is cancelled', async () => {
+      await availability.hold('conv_a', [rafflesRooms(3)]);
+      await availability.confirm('conv_a', 'K7QM2P');
+      now += INVENTORY_HOLD_TTL_MS;
+
+      expect(await availability.getRemaining([rafflesRooms(1)])).toEqual([1]);
+      await availability.cancel('K7QM2P');
+      expect(await availability.getRemaining([rafflesRooms(1)])).toEqual([4]);
+    });
+
+    it('should keep a booking\'s inventory when a rebooking does not fit', async () => {
+      await availability.hold('conv_a', [rafflesRooms(2)]);
+      await availability.confirm('conv_a', 'K7QM2P');
+
+      expect(await availability.rebook('K7QM2P', [rafflesRooms(5)])).toEqual([{ item: rafflesRooms(5), remaining: 4 }]);
+      expect(await availability.getRemaining([rafflesRooms(1)])).toEqual([2]);
+    });
+  });
+
+  describe('Booking tools', () => {
+    const createTools = (conversationId: string) => {
+      const session = new BookingSession(conversationId, new InMemoryBookingSessionStore());
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+      return { session, tools: createBookingFunctions(session, ledger, localFxRateSource, availability) };
+    };
+
+    const selectStay = async (tools: ReturnType<typeof createBookingFunctions>, hotelId = 'millennium-doha') => {
+      await tools.selectStopoverCategory.execute({ categoryId: hotelId === 'raffles-doha' ? 'luxury' : 'premium', categoryName: 'Stopover' });
+      await tools.selectHotel.execute({ hotelId, hotelName: hotelId });
+      return tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 1 });
+    };
+
+    const selectWhaleSharks = (tools: ReturnType<typeof createBookingFunctions>) => tools.selectExtras.execute({
+      includeTransfers: false,
+      selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+      totalExtrasPrice: 390
+    });
+
+    it('should hold rooms and seats when the summary is shown', async () => {
+      const { session, tools } = createTools('conv_hold');
+      await selectStay(tools);
+      await selectWhaleSharks(tools);
+
+      expect(session.getState().hold!.expiresAt).toBe(now + INVENTORY_HOLD_TTL_MS);
+      expect(await availability.getRemaining([whaleSharkSeats(1)])).toEqual([10]);
+    });
+
+    it('should restart the hold when a promo code reissues the quote', async () => {
+      const { session, tools } = createTools('conv_promo_hold');
+      await selectStay(tools);
+      await selectWhaleSharks(tools);
+      now += INVENTORY_HOLD_TTL_MS - 1000;
+
+      const result = await tools.applyPromoCode.execute({ code: 'DOHA10' });
+
+      expect(result.success).toBe(true);
+      expect(session.getState().hold!.expiresAt).toBe(now + INVENTORY_HOLD_TTL_MS);
+      now += 2000;
+      expect(await availability.getRemaining([whaleSharkSeats(1)])).toEqual([10]);
+    });
+
+    it('should reject extras with more tour places than are left', async () => {
+      await availability.hold('conv_other', [whaleSharkSeats(11)]);
+      const { session, tools } = createTools('conv_full');
+      const options = await selectStay(tools);
+
+      const whaleSharks = options.uiComponent!.data.tours.find((tour: any) => tour.id === 'whale-sharks-qatar');
+      expect(whaleSharks.availabilityStatus).toBe('unavailable');
+      expect(options.uiComponent!.data.recommendedTour.id).not.toBe('whale-sharks-qatar');
+
+      const result = await selectWhaleSharks(tools);
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+      expect(result.message).toContain('only 1 place left on 13 Nov 2026');
+      expect(session.getState().pricing).toBeUndefined();
+    });
+
+    it('should reject stopover nights when the hotel is full', async () => {
+      await availability.hold('conv_other', [rafflesRooms(4)]);
+      const { tools } = createTools('conv_raffles');
+
+      const result = await selectStay(tools, 'raffles-doha');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Raffles Doha has no rooms left on 12 Nov 2026');
+    });
+
+    it('should take the inventory again when the hold timed out during payment', async () => {
+      const { tools } = createTools('conv_slow');
+      await selectStay(tools);
+      const { quoteId } = await selectWhaleSharks(tools);
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      now += INVENTORY_HOLD_TTL_MS;
+
+      const result = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+
+      expect(result.success).toBe(true);
+      now += INVENTORY_HOLD_TTL_MS;
+      expect(await availability.getRemaining([whaleSharkSeats(1)])).toEqual([10]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Avios redemption tests
+ * Validates tier-based redemption rates, Cash + Avios splits and checks against the member's balance
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { calculateAviosRequired, calculateCashFromAvios } from '../data/pricingData';
+import type { ConversationBookingState } from '../lib/durable-objects/ConversationState';
+import { testCardTokens } from '../data/paymentData';
+
+describe('Avios Redemption', () => {
+  describe('Tier rates', () => {
+    it('should redeem fewer Avios per dollar at higher tiers', () => {
+      expect(calculateAviosRequired(100)).toBe(12500);
+      expect(calculateAviosRequired(100, 'Silver')).toBe(12000);
+      expect(calculateAviosRequired(100, 'Gold')).toBe(11500);
+      expect(calculateAviosRequired(100, 'Platinum')).toBe(10500);
+      expect(calculateCashFromAvios(10500, 'Platinum')).toBe(100);
+    });
+  });
+
+  describe('Booking tools', () => {
+    let ledger: BookingLedger;
+    let session: BookingSession;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    // The Gold member the server loaded from Privilege Club after they signed in
+    const signedIn: ConversationBookingState = { privilegeClub: { memberId: 'QR12345678', tierStatus: 'Gold', aviosBalance: 275000 } };
+
+    // Millennium Hotel Doha for 2 nights with transfers and 2 whale shark seats: $976.50 with the tourism fee and VAT, or 112,298 Avios for Gold
+    const quote = async (state: ConversationBookingState = signedIn) => {
+      session = new BookingSession('conv_avios', new InMemoryBookingSessionStore(), state);
+      tools = createBookingFunctions(session, ledger);
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      return tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+        totalExtrasPrice: 450
+      });
+    };
+
+    beforeEach(() => {
+      ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+    });
+
+    it('should charge Avios at the member\'s tier rate', async () => {
+      const { quoteId } = await quote();
+      const result = await tools.initiatePayment.execute({ paymentMethod: 'avios', quoteId });
+
+      expect(result.uiComponent!.data.data).toMatchObject({ totalAviosPrice: 112298, aviosBalance: 275000, tierStatus: 'Gold' });
+      expect(session.getState().payment).toMatchObject({
+        amount: 112298,
+        currency: 'AVIOS',
+        avios: { aviosUsed: 112298, remainingBalance: 162702, conversionRate: 115, cashAmount: 0 }
+      });
+    });
+
+    it('should ask the customer to sign in before pricing in Avios', async () => {
+      const { quoteId } = await quote({});
+      const result = await tools.initiatePayment.execute({ paymentMethod: 'avios', quoteId });
+
+      expect(result).toMatchObject({ success: true, signInRequired: true });
+      expect(result.uiComponent!.data).toMatchObject({ type: 'login', data: { quoteId, paymentMethod: 'avios' } });
+      expect(result.uiComponent!.data.fields.map((field: { id: string }) => field.id)).toEqual(['email', 'password']);
+      expect(session.getState().payment).toBeUndefined();
+
+      const booking = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'avios', confirmed: true } });
+      expect(booking.success).toBe(false);
+      expect(booking.errorType).toBe('validation');
+    });
+
+    it('should refuse an Avios payment the balance cannot cover', async () => {
+      const { quoteId } = await quote({ privilegeClub: { memberId: 'QR87654321', tierStatus: 'Silver', aviosBalance: 50000 } });
+      const result = await tools.initiatePayment.execute({ paymentMethod: 'avios', quoteId });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+      expect(result.error).toContain('117180 needed, 50000 available');
+      expect(session.getState().payment).toBeUndefined();
+    });
+
+    it('should split a Cash + Avios payment and charge the rest to card', async () => {
+      const { quoteId } = await quote();
+      const result = await tools.initiatePayment.execute({ paymentMethod: 'cash-avios', quoteId, aviosToUse: 53000 });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('53,000 Avios + $523.36 (including a $7.73 card surcharge)');
+      expect(session.getState().payment).toMatchObject({
+        amount: 523.36,
+        currency: 'USD',
+        avios: { aviosUsed: 53000, remainingBalance: 222000, cashAmount: 515.63 }
+      });
+    });
+
+    it('should refuse a Cash + Avios split that uses the whole Avios price', async () => {
+      const { quoteId } = await quote();
+      const result = await tools.initiatePayment.execute({ paymentMethod: 'cash-avios', quoteId, aviosToUse: 112298 });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+    });
+
+    it('should confirm the slider allocation and deduct it from the balance', async () => {
+      const { quoteId } = await quote();
+      await tools.initiatePayment.execute({ paymentMethod: 'cash-avios', quoteId });
+      const result = await tools.completeBooking.execute({
+        quoteId,
+        paymentData: { method: 'cash-avios', confirmed: true, cardToken: testCardTokens.approved, aviosToUse: 50000 }
+      });
+
+      expect(result.uiComponent!.data.items).toEqual(expect.arrayContaining([
+        { label: 'Card surcharge', value: '$8.13' },
+        { label: 'Total', value: '50,000 Avios + $549.85' },
+        { label: 'Payment Method', value: 'Cash + Avios' },
+        { label: 'Remaining Avios', value: '225,000 Avios' }
+      ]));
+      expect(session.getState().privilegeClub!.aviosBalance).toBe(225000);
+      expect((await ledger.get(result.newPNR!))!.aviosRedemption).toMatchObject({ aviosUsed: 50000, cashAmount: 541.72 });
+    });
+
+    it('should return both the cash and the Avios when a Cash + Avios booking is cancelled', async () => {
+      const { quoteId } = await quote();
+      await tools.initiatePayment.execute({ paymentMethod: 'cash-avios', quoteId, aviosToUse: 50000 });
+      const { newPNR } = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'cash-avios', confirmed: true, cardToken: testCardTokens.approved } });
+
+      const result = await tools.cancelStopover.execute({ pnr: newPNR });
+
+      expect(result.adjustment).toMatchObject({ type: 'refund', amount: 541.72, currency: 'USD', aviosAmount: 50000 });
+      expect(result.message).toContain('$541.72 and 50,000 Avios');
+    });
+  });
+});
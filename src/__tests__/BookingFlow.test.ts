@@ -0,0 +1,119 @@
+/**
+ * Booking flow state machine tests
+ * Validates the step transition table and the guard applied to booking tools
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import {
+  STEP_TRANSITIONS,
+  TOOL_STEPS,
+  POST_BOOKING_TOOLS,
+  READ_ONLY_TOOLS,
+  QUOTE_TOOLS,
+  canTransition,
+  getAllowedTools,
+  guardBookingFunctions
+} from '../lib/booking-flow';
+import { testCardTokens } from '../data/paymentData';
+
+describe('Booking Flow State Machine', () => {
+  describe('Transition table', () => {
+    it('should define transitions for every conversation step', () => {
+      expect(Object.keys(STEP_TRANSITIONS)).toEqual([
+        'welcome',
+        'category-selection',
+        'hotel-selection',
+        'timing-duration',
+        'extras-selection',
+        'booking-summary',
+        'payment',
+        'confirmation'
+      ]);
+    });
+
+    it('should map every booking tool to a step or mark it as read-only, quote or post-booking', () => {
+      const tools = createBookingFunctions(new BookingSession('conv_map', new InMemoryBookingSessionStore()));
+      expect([...Object.keys(TOOL_STEPS), ...READ_ONLY_TOOLS, ...QUOTE_TOOLS, ...POST_BOOKING_TOOLS].sort()).toEqual(Object.keys(tools).sort());
+    });
+
+    it('should only reach confirmation from payment', () => {
+      const steps = Object.keys(STEP_TRANSITIONS) as Array<keyof typeof STEP_TRANSITIONS>;
+      const fromSteps = steps.filter(step => canTransition(step, 'confirmation'));
+      expect(fromSteps).toEqual(['payment']);
+    });
+
+    it('should allow going back to change an earlier selection', () => {
+      expect(canTransition('booking-summary', 'hotel-selection')).toBe(true);
+      expect(canTransition('extras-selection', 'category-selection')).toBe(true);
+    });
+
+    it('should treat confirmation as terminal', () => {
+      expect(getAllowedTools('confirmation')).toEqual([]);
+    });
+  });
+
+  describe('Guarded booking tools', () => {
+    let session: BookingSession;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    beforeEach(() => {
+      session = new BookingSession('conv_flow', new InMemoryBookingSessionStore());
+      tools = guardBookingFunctions(createBookingFunctions(session), session);
+    });
+
+    it('should reject completeBooking before initiatePayment with a recoverable error', async () => {
+      const result = await tools.completeBooking.execute({
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorType: 'step-order',
+        retryable: true,
+        currentStep: 'welcome',
+        attemptedStep: 'confirmation'
+      });
+      expect(result.allowedTools).toEqual(['showStopoverCategories', 'selectStopoverCategory']);
+    });
+
+    it('should record each transition in conversation state', async () => {
+      await tools.showStopoverCategories.execute({});
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+
+      const state = session.getState();
+      expect(state.currentStep).toBe('hotel-selection');
+      expect(state.stepHistory).toEqual([
+        expect.objectContaining({ from: 'welcome', to: 'category-selection', tool: 'showStopoverCategories' }),
+        expect.objectContaining({ from: 'category-selection', to: 'hotel-selection', tool: 'selectStopoverCategory' })
+      ]);
+    });
+
+    it('should not advance the step when a tool fails validation', async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'invalid', categoryName: 'Invalid' });
+
+      expect(session.getState().currentStep).toBeUndefined();
+      expect(session.getState().stepHistory).toBeUndefined();
+    });
+
+    it('should run the complete journey in order', async () => {
+      await tools.showStopoverCategories.execute({});
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      const extras = await tools.selectExtras.execute({ includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 });
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: extras.quoteId });
+      const confirmation = await tools.completeBooking.execute({
+        quoteId: extras.quoteId,
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
+      });
+
+      expect(confirmation.success).toBe(true);
+      expect(session.getState().currentStep).toBe('confirmation');
+      expect(session.getState().stepHistory).toHaveLength(7);
+
+      const again = await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      expect(again.errorType).toBe('step-order');
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { bookingFunctions } from '../lib/booking-functions';
+import { testCardTokens } from '../data/paymentData';
 
 /**
  * Integration tests to verify booking functions work in scenarios
@@ -25,7 +26,7 @@ describe('Booking Functions Integration Tests', () => {
         });
       }).not.toThrow();
       
-      expect(Object.keys(registeredTools)).toHaveLength(7);
+      expect(Object.keys(registeredTools)).toHaveLength(11);
     });
   });
 
@@ -50,7 +51,7 @@ describe('Booking Functions Integration Tests', () => {
       
       // Step 3: Select hotel
       const hotelResult = await bookingFunctions.selectHotel.execute({
-        hotelId: 'hotel-1',
+        hotelId: 'millennium-doha',
         hotelName: 'Test Hotel'
       });
       results.push(hotelResult);
@@ -69,7 +70,7 @@ describe('Booking Functions Integration Tests', () => {
         includeTransfers: true,
         selectedTours: [
           {
-            tourId: 'tour-1',
+            tourId: 'doha-city-skyline-tour',
             tourName: 'City Tour',
             quantity: 2,
             totalPrice: 100
@@ -84,16 +85,18 @@ describe('Booking Functions Integration Tests', () => {
       // Step 6: Initiate payment
       const paymentResult = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: extrasResult.pricing.totalCashPrice
+        quoteId: extrasResult.quoteId
       });
       results.push(paymentResult);
       expect(paymentResult.success).toBe(true);
       
       // Step 7: Complete booking
       const completionResult = await bookingFunctions.completeBooking.execute({
+        quoteId: extrasResult.quoteId,
         paymentData: {
           method: 'credit-card',
-          confirmed: true
+          confirmed: true,
+          cardToken: testCardTokens.approved
         }
       });
       results.push(completionResult);
@@ -121,8 +124,8 @@ describe('Booking Functions Integration Tests', () => {
         },
         {
           tool: 'initiatePayment',
-          validParams: { paymentMethod: 'avios', totalAmount: 500 },
-          invalidParams: { paymentMethod: 'bitcoin', totalAmount: -100 }
+          validParams: { paymentMethod: 'avios', quoteId: 'QT-test' },
+          invalidParams: { paymentMethod: 'bitcoin', quoteId: 'QT-test' }
         }
       ];
 
@@ -161,7 +164,7 @@ describe('Booking Functions Integration Tests', () => {
         },
         {
           tool: bookingFunctions.selectHotel,
-          params: { hotelId: 'hotel-1', hotelName: 'Test Hotel' },
+          params: { hotelId: 'millennium-doha', hotelName: 'Test Hotel' },
           expectedUIType: 'stopover-options'
         },
         {
@@ -185,7 +188,7 @@ describe('Booking Functions Integration Tests', () => {
   describe('Error Resilience', () => {
     test('should handle malformed parameters gracefully', async () => {
       const toolsWithRequiredFields = Object.entries(bookingFunctions).filter(
-        ([toolName]) => toolName !== 'showStopoverCategories'
+        ([toolName]) => !['showStopoverCategories', 'showItinerary'].includes(toolName)
       );
       
       for (const [toolName, tool] of toolsWithRequiredFields) {
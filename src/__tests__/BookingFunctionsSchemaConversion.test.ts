@@ -70,8 +70,8 @@ describe('Booking Functions Schema Conversion', () => {
         selectHotel: ['hotelId', 'hotelName'],
         selectTimingAndDuration: ['timing', 'duration'],
         selectExtras: ['includeTransfers', 'selectedTours', 'totalExtrasPrice'],
-        initiatePayment: ['paymentMethod', 'totalAmount'],
-        completeBooking: ['paymentData']
+        initiatePayment: ['paymentMethod', 'quoteId', 'aviosToUse'],
+        completeBooking: ['quoteId', 'paymentData']
       };
 
       Object.entries(expectedShapes).forEach(([toolName, expectedKeys]) => {
@@ -122,16 +122,17 @@ describe('Booking Functions Schema Conversion', () => {
     test('should handle schema parsing like AI SDK does', () => {
       const testData = {
         showStopoverCategories: {},
-        selectStopoverCategory: { categoryId: 'cat-1', categoryName: 'Category 1' },
-        selectHotel: { hotelId: 'hotel-1', hotelName: 'Hotel 1' },
+        selectStopoverCategory: { categoryId: 'premium', categoryName: 'Category 1' },
+        selectHotel: { hotelId: 'millennium-doha', hotelName: 'Hotel 1' },
         selectTimingAndDuration: { timing: 'outbound', duration: 2 },
         selectExtras: {
           includeTransfers: false,
           selectedTours: [],
           totalExtrasPrice: 0
         },
-        initiatePayment: { paymentMethod: 'avios', totalAmount: 250 },
+        initiatePayment: { paymentMethod: 'avios', quoteId: 'QT-test' },
         completeBooking: {
+          quoteId: 'QT-test',
           paymentData: { method: 'avios', confirmed: true }
         }
       };
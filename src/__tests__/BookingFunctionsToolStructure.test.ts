@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { bookingFunctions } from '../lib/booking-functions';
+import { testCardTokens } from '../data/paymentData';
 
 describe('Booking Functions Tool Structure Validation', () => {
   const toolNames = [
@@ -8,8 +9,12 @@ describe('Booking Functions Tool Structure Validation', () => {
     'selectHotel',
     'selectTimingAndDuration',
     'selectExtras',
+    'showItinerary',
+    'applyPromoCode',
     'initiatePayment',
-    'completeBooking'
+    'completeBooking',
+    'amendStopover',
+    'cancelStopover'
   ];
 
   describe('Tool Structure Requirements', () => {
@@ -72,10 +77,10 @@ describe('Booking Functions Tool Structure Validation', () => {
               validInput = {};
               break;
             case 'selectStopoverCategory':
-              validInput = { categoryId: 'test-id', categoryName: 'Test Category' };
+              validInput = { categoryId: 'premium', categoryName: 'Test Category' };
               break;
             case 'selectHotel':
-              validInput = { hotelId: 'hotel-1', hotelName: 'Test Hotel' };
+              validInput = { hotelId: 'millennium-doha', hotelName: 'Test Hotel' };
               break;
             case 'selectTimingAndDuration':
               validInput = { timing: 'outbound', duration: 2 };
@@ -85,7 +90,7 @@ describe('Booking Functions Tool Structure Validation', () => {
                 includeTransfers: true,
                 selectedTours: [
                   {
-                    tourId: 'tour-1',
+                    tourId: 'doha-city-skyline-tour',
                     tourName: 'Test Tour',
                     quantity: 1,
                     totalPrice: 50
@@ -94,14 +99,27 @@ describe('Booking Functions Tool Structure Validation', () => {
                 totalExtrasPrice: 50
               };
               break;
+            case 'showItinerary':
+              validInput = {};
+              break;
+            case 'applyPromoCode':
+              validInput = { code: 'DOHA10' };
+              break;
             case 'initiatePayment':
-              validInput = { paymentMethod: 'credit-card', totalAmount: 100 };
+              validInput = { paymentMethod: 'credit-card', quoteId: 'QT-test' };
               break;
             case 'completeBooking':
               validInput = {
-                paymentData: { method: 'credit-card', confirmed: true }
+                quoteId: 'QT-test',
+                paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
               };
               break;
+            case 'amendStopover':
+              validInput = { pnr: 'K7QM2P', duration: 3 };
+              break;
+            case 'cancelStopover':
+              validInput = { pnr: 'K7QM2P' };
+              break;
           }
           
           expect(() => schema.parse(validInput)).not.toThrow();
@@ -197,14 +215,14 @@ describe('Booking Functions Tool Structure Validation', () => {
       // Test with proper parameters for each function
       const testParams = {
         showStopoverCategories: {},
-        selectStopoverCategory: { categoryId: 'test-id', categoryName: 'Test Category' },
-        selectHotel: { hotelId: 'hotel-1', hotelName: 'Test Hotel' },
+        selectStopoverCategory: { categoryId: 'premium', categoryName: 'Test Category' },
+        selectHotel: { hotelId: 'millennium-doha', hotelName: 'Test Hotel' },
         selectTimingAndDuration: { timing: 'outbound', duration: 2 },
         selectExtras: {
           includeTransfers: true,
           selectedTours: [
             {
-              tourId: 'tour-1',
+              tourId: 'doha-city-skyline-tour',
               tourName: 'Test Tour',
               quantity: 1,
               totalPrice: 50
@@ -212,21 +230,30 @@ describe('Booking Functions Tool Structure Validation', () => {
           ],
           totalExtrasPrice: 50
         },
-        initiatePayment: { paymentMethod: 'credit-card', totalAmount: 100 },
+        showItinerary: {},
+        applyPromoCode: { code: 'DOHA10' },
+        initiatePayment: { paymentMethod: 'credit-card' },
         completeBooking: {
-          paymentData: { method: 'credit-card', confirmed: true }
-        }
+          paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
+        },
+        amendStopover: { duration: 3 },
+        cancelStopover: {}
       };
 
+      // Payment is taken against the quote selectExtras issued; post-booking tools act on the PNR issued by completeBooking
+      let quoteId: string | undefined;
+      let pnr: string | undefined;
       for (const [toolName, tool] of Object.entries(bookingFunctions)) {
-        const params = testParams[toolName as keyof typeof testParams];
-        const result = tool.execute(params);
+        const params = { ...testParams[toolName as keyof typeof testParams], ...(quoteId ? { quoteId } : {}), ...(pnr ? { pnr } : {}) };
+        const result = tool.execute(params as any);
         expect(result).toBeInstanceOf(Promise);
         
         // Verify the promise resolves successfully
-        const resolved = await result;
+        const resolved: any = await result;
         expect(resolved).toBeDefined();
         expect(resolved.success).toBe(true);
+        quoteId = resolved.quoteId || quoteId;
+        pnr = resolved.newPNR || pnr;
       }
     });
   });
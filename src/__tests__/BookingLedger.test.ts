@@ -0,0 +1,167 @@
+/**
+ * Booking ledger tests
+ * Validates PNR allocation and that confirmed bookings are stored and retrievable by PNR
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore, generatePNR } from '../lib/booking-ledger';
+import type { NewConfirmedBooking } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { MockPaymentProvider } from '../lib/payment-provider';
+import { localFxRateSource } from '../lib/fx-rates';
+import { sampleCustomer, sampleBooking } from '../data/customerData';
+import { testCardTokens } from '../data/paymentData';
+
+const newBooking = (conversationId: string): NewConfirmedBooking => ({
+  conversationId,
+  status: 'confirmed',
+  bookingState: {
+    customer: sampleCustomer,
+    originalBooking: sampleBooking,
+    paymentStatus: 'captured'
+  },
+  paymentMethod: 'credit-card'
+});
+
+describe('Booking Ledger', () => {
+  describe('PNR generation', () => {
+    it('should generate 6-character PNRs without ambiguous characters', () => {
+      for (let i = 0; i < 50; i++) {
+        expect(generatePNR()).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+      }
+    });
+
+    it('should skip PNRs that are already allocated', async () => {
+      const candidates = ['AAAAAA', 'AAAAAA', 'BBBBBB'];
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore(), () => candidates.shift()!);
+
+      const first = await ledger.create(newBooking('conv_1'));
+      const second = await ledger.create(newBooking('conv_2'));
+
+      expect(first.pnr).toBe('AAAAAA');
+      expect(second.pnr).toBe('BBBBBB');
+      expect((await ledger.get('AAAAAA'))!.conversationId).toBe('conv_1');
+    });
+
+    it('should give up when no unique PNR can be allocated', async () => {
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore(), () => 'AAAAAA');
+      await ledger.create(newBooking('conv_1'));
+
+      await expect(ledger.create(newBooking('conv_2'))).rejects.toThrow('Unable to allocate a unique PNR');
+    });
+  });
+
+  describe('Lookup', () => {
+    it('should look up bookings by PNR regardless of case', async () => {
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore(), () => 'K7QM2P');
+      await ledger.create(newBooking('conv_1'));
+
+      expect(await ledger.get(' k7qm2p ')).toMatchObject({ pnr: 'K7QM2P', status: 'confirmed' });
+      expect(await ledger.get('ZZZZZZ')).toBeNull();
+    });
+
+    it('should update the status of a stored booking', async () => {
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore(), () => 'K7QM2P');
+      await ledger.create(newBooking('conv_1'));
+
+      const updated = await ledger.update('K7QM2P', { status: 'cancelled' });
+
+      expect(updated!.status).toBe('cancelled');
+      expect((await ledger.get('K7QM2P'))!.status).toBe('cancelled');
+    });
+  });
+
+  describe('completeBooking', () => {
+    const chooseStopover = async (tools: ReturnType<typeof createBookingFunctions>) => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      return tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+        totalExtrasPrice: 450
+      });
+    };
+
+    it('should store the full confirmed booking under the returned PNR', async () => {
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+      const session = new BookingSession('conv_ledger', new InMemoryBookingSessionStore(), {
+        privilegeClub: { memberId: 'QR12345678', tierStatus: 'Gold', aviosBalance: 275000 }
+      });
+      const tools = createBookingFunctions(session, ledger);
+
+      const extras = await chooseStopover(tools);
+      await tools.initiatePayment.execute({ paymentMethod: 'avios', quoteId: extras.quoteId });
+      const result = await tools.completeBooking.execute({ quoteId: extras.quoteId, paymentData: { method: 'avios', confirmed: true } });
+
+      const stored = await ledger.get(result.newPNR!);
+      expect(stored).toMatchObject({
+        pnr: result.newPNR,
+        conversationId: 'conv_ledger',
+        status: 'confirmed',
+        paymentMethod: 'avios'
+      });
+      expect(stored!.bookingState.stopoverSelection).toMatchObject({
+        timing: 'outbound',
+        duration: 2,
+        hotel: { id: 'millennium-doha' },
+        extras: { transfers: { id: expect.any(String) }, tours: [{ tour: { id: 'whale-sharks-qatar' }, quantity: 2 }] }
+      });
+      expect(stored!.bookingState.pricing!.totalCashPrice).toBe(extras.pricing!.totalCashPrice);
+      expect(session.getState().pnr).toBe(result.newPNR);
+    });
+
+    it('should record the conversation\'s customer and flight booking, not the sample ones', async () => {
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+      const session = new BookingSession('conv_customer', new InMemoryBookingSessionStore());
+      const tools = createBookingFunctions(session, ledger);
+      await session.update({
+        customer: { name: 'Sara Al-Marri', privilegeClubNumber: 'QR87654321', email: 'sara@example.com' },
+        flightBooking: { pnr: 'QK7M2P', status: 'confirmed' },
+        passengers: 2,
+        passengerMix: { adults: 1, children: 1, infants: 0 },
+        privilegeClub: { memberId: 'QR87654321', tierStatus: 'Silver', aviosBalance: 400000 }
+      });
+
+      const extras = await chooseStopover(tools);
+      await tools.initiatePayment.execute({ paymentMethod: 'avios', quoteId: extras.quoteId });
+      const result = await tools.completeBooking.execute({ quoteId: extras.quoteId, paymentData: { method: 'avios', confirmed: true } });
+
+      const { bookingState } = (await ledger.get(result.newPNR!))!;
+      expect(bookingState.customer).toEqual({ name: 'Sara Al-Marri', privilegeClubNumber: 'QR87654321', email: 'sara@example.com' });
+      expect(bookingState.originalBooking).toMatchObject({
+        pnr: 'QK7M2P',
+        status: 'confirmed',
+        passengers: 2,
+        passengerMix: { adults: 1, children: 1, infants: 0 },
+        route: { origin: sampleBooking.route.origin }
+      });
+    });
+
+    it('should refund the card and cancel the booking when its inventory cannot be confirmed', async () => {
+      const ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+      const session = new BookingSession('conv_lapsed', new InMemoryBookingSessionStore());
+      const availability = new AvailabilityManager(new InMemoryInventoryStore());
+      const provider = new MockPaymentProvider();
+      const tools = createBookingFunctions(session, ledger, localFxRateSource, availability, provider);
+      jest.spyOn(availability, 'confirm').mockResolvedValue(false);
+      const refund = jest.spyOn(provider, 'refund');
+
+      const extras = await chooseStopover(tools);
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: extras.quoteId });
+      const result = await tools.completeBooking.execute({
+        quoteId: extras.quoteId,
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
+      });
+
+      expect(result).toMatchObject({ success: false, errorType: 'validation' });
+      expect(result.message).toContain('your payment has been refunded');
+      expect(session.getState()).toMatchObject({ pnr: undefined, payment: undefined, hold: undefined });
+      expect(session.getState().pricing).toBeDefined();
+
+      expect(refund).toHaveBeenCalledWith(expect.any(String), 991.15);
+      expect(await provider.retrieve(refund.mock.calls[0][0])).toMatchObject({ status: 'refunded', refundedAmount: 991.15 });
+    });
+  });
+});
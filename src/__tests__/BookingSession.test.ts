@@ -0,0 +1,159 @@
+/**
+ * Booking session tests
+ * Validates that booking tools carry selections between calls and reject out-of-context steps
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { testCardTokens } from '../data/paymentData';
+
+describe('Booking Session', () => {
+  let store: InMemoryBookingSessionStore;
+  let session: BookingSession;
+  let tools: ReturnType<typeof createBookingFunctions>;
+
+  beforeEach(() => {
+    store = new InMemoryBookingSessionStore();
+    session = new BookingSession('conv_test', store);
+    tools = createBookingFunctions(session);
+  });
+
+  describe('State persistence', () => {
+    it('should record selections from each tool in the session store', async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'steigenberger-doha', hotelName: 'Steigenberger Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 3 });
+
+      const stored = await store.load('conv_test');
+      expect(stored).toEqual({
+        category: 'premium',
+        hotel: 'steigenberger-doha',
+        timing: 'return',
+        duration: 3,
+        stopoverDates: { checkIn: '2026-11-19', checkOut: '2026-11-22' }
+      });
+    });
+
+    it('should keep conversations isolated from each other', async () => {
+      const otherTools = createBookingFunctions(new BookingSession('conv_other', store));
+
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await otherTools.selectStopoverCategory.execute({ categoryId: 'luxury', categoryName: 'Luxury' });
+
+      expect((await store.load('conv_test')).category).toBe('premium');
+      expect((await store.load('conv_other')).category).toBe('luxury');
+    });
+
+    it('should resume a conversation from the store', async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+
+      const resumed = createBookingFunctions(await BookingSession.load('conv_test', store));
+      const result = await resumed.selectTimingAndDuration.execute({ timing: 'outbound', duration: 1 });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should clear later selections when the category changes', async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      await tools.selectStopoverCategory.execute({ categoryId: 'luxury', categoryName: 'Luxury' });
+
+      expect(session.getState()).toEqual({ category: 'luxury' });
+    });
+  });
+
+  describe('Step validation', () => {
+    it('should reject an unknown category', async () => {
+      const result = await tools.selectStopoverCategory.execute({ categoryId: 'invalid', categoryName: 'Invalid' });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+      expect(result.retryable).toBe(true);
+    });
+
+    it('should reject a hotel before a category is chosen', async () => {
+      const result = await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('category');
+    });
+
+    it('should reject extras before the stopover duration is chosen', async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+
+      const result = await tools.selectExtras.execute({ includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 });
+
+      expect(result.success).toBe(false);
+      expect(session.getState().pricing).toBeUndefined();
+    });
+
+    it('should reject completing a booking before payment is initiated', async () => {
+      const result = await tools.completeBooking.execute({ paymentData: { method: 'credit-card', confirmed: true } });
+
+      expect(result.success).toBe(false);
+      expect(result).not.toHaveProperty('newPNR');
+    });
+  });
+
+  describe('Hotel filtering by category', () => {
+    it('should only offer hotels from the selected category', async () => {
+      const result = await tools.selectStopoverCategory.execute({ categoryId: 'luxury', categoryName: 'Luxury' });
+
+      expect(result.hotels.map((hotel: any) => hotel.id)).toEqual(['souq-waqif-boutique', 'raffles-doha']);
+      expect(result.uiComponent.data.categoryPricePerNight).toBe(300);
+    });
+
+    it('should price hotels relative to the category rate', async () => {
+      const result = await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      const millennium = result.hotels.find((hotel: any) => hotel.id === 'millennium-doha');
+
+      expect(millennium.priceDifference).toBe(30);
+    });
+
+    it('should offer at least one hotel in every category', async () => {
+      for (const categoryId of ['standard', 'premium', 'premium-beach', 'luxury']) {
+        const result = await tools.selectStopoverCategory.execute({ categoryId, categoryName: categoryId });
+        expect(result.hotels.length).toBeGreaterThan(0);
+      }
+    });
+
+    it('should reject a hotel from a different category', async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'standard', categoryName: 'Standard' });
+      const result = await tools.selectHotel.execute({ hotelId: 'raffles-doha', hotelName: 'Raffles Doha' });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+      expect(session.getState().hotel).toBeUndefined();
+    });
+  });
+
+  describe('Booking summary', () => {
+    it('should confirm the real selections', async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'luxury', categoryName: 'Luxury' });
+      await tools.selectHotel.execute({ hotelId: 'souq-waqif-boutique', hotelName: 'Souq Waqif Boutique Hotel' });
+      await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 3 });
+      const extras = await tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'pearl-diving-experience', tourName: 'Pearl Diving', quantity: 2, totalPrice: 290 }],
+        totalExtrasPrice: 350
+      });
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: extras.quoteId });
+
+      const result = await tools.completeBooking.execute({ quoteId: extras.quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+      const items = result.uiComponent!.data.items;
+
+      expect(result.success).toBe(true);
+      expect(items).toEqual(expect.arrayContaining([
+        { label: 'Hotel', value: 'Souq Waqif Boutique Hotel' },
+        { label: 'Stopover', value: '3 nights, return journey' },
+        { label: 'Traditional Pearl Diving Experience', value: '2x' },
+        { label: 'Card surcharge', value: '$17.88' },
+        { label: 'Total', value: '$1,209.88' }
+      ]));
+      expect(session.getState().payment?.status).toBe('captured');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Card tokenisation tests
+ * Validates that the payment form's card goes to the tokenisation endpoint and comes back as a token,
+ * that the booking tools pay with the token, and that card numbers typed into the chat are masked
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+// Polyfill for Request and Response in the jsdom environment
+global.Request = class MockRequest {
+  method: string;
+  url: string;
+  headers: Map<string, string>;
+  body: string;
+
+  constructor(url: string, init?: any) {
+    this.url = url;
+    this.method = init?.method || 'GET';
+    this.headers = new Map(Object.entries(init?.headers || {}));
+    this.body = init?.body || '';
+  }
+
+  async json() {
+    return JSON.parse(this.body);
+  }
+} as any;
+
+global.Response = class MockResponse {
+  status: number;
+  headers: Map<string, string>;
+  body: string;
+
+  constructor(body?: string, init?: any) {
+    this.body = body || '';
+    this.status = init?.status || 200;
+    this.headers = new Map(Object.entries(init?.headers || {}));
+  }
+
+  async json() {
+    return JSON.parse(this.body);
+  }
+} as any;
+
+import { POST } from '../pages/api/payments/tokenize';
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { localPaymentProvider } from '../lib/payment-provider';
+import { security } from '../utils/security';
+import { omitCardDetails, omitLoginCredentials } from '../utils/form-utils';
+
+describe('Card Tokenization', () => {
+  const card = { cardNumber: '5555 5555 5555 4444', expiryDate: '12/30', cvv: '123', nameOnCard: 'Alex Johnson' };
+
+  const tokenise = async (body: Record<string, unknown>) => {
+    const request = new Request('http://localhost:4321/api/payments/tokenize', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'user-agent': 'jest' },
+      body: JSON.stringify(body)
+    });
+    const response = await POST({ request } as any);
+    return { response, body: await response.json(), raw: (response as any).body as string };
+  };
+
+  it('should exchange the card for a token and masked summary', async () => {
+    const { response, body, raw } = await tokenise(card);
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ success: true, token: expect.stringMatching(/^tok_/), brand: 'mastercard', last4: '4444' });
+    expect(raw).not.toContain('5555555555554444');
+    expect(raw).not.toContain('"cvv"');
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+  });
+
+  it('should refuse a request from another origin with 403', async () => {
+    const request = new Request('http://localhost:4321/api/payments/tokenize', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'user-agent': 'jest', origin: 'https://attacker.example' },
+      body: JSON.stringify(card)
+    });
+    const response = await POST({ request } as any);
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe('Origin not allowed');
+  });
+
+  it('should refuse invalid card details with the fields to fix', async () => {
+    const { response, body } = await tokenise({ ...card, cvv: '1' });
+
+    expect(response.status).toBe(400);
+    expect(body.success).toBe(false);
+    expect(body.errors).toContainEqual({ field: 'cvv', message: 'Please enter a valid CVV (3 digits)' });
+  });
+
+  it('should refuse a malformed or missing body with 400', async () => {
+    for (const body of ['{"cardNumber": "5555', '', 'null']) {
+      const request = new Request('http://localhost:4321/api/payments/tokenize', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'user-agent': 'jest' },
+        body
+      });
+      const response = await POST({ request } as any);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Invalid JSON body');
+    }
+  });
+
+  it('should complete a booking paid with the token', async () => {
+    const { body: token } = await tokenise(card);
+    const tools = createBookingFunctions(
+      new BookingSession('conv_tokens', new InMemoryBookingSessionStore()),
+      new BookingLedger(new InMemoryBookingLedgerStore()),
+      localFxRateSource,
+      new AvailabilityManager(new InMemoryInventoryStore()),
+      localPaymentProvider
+    );
+
+    await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+    await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+    await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    const { quoteId } = await tools.selectExtras.execute({ includeTransfers: false, selectedTours: [], totalExtrasPrice: 0 });
+    await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+
+    const result = await tools.completeBooking.execute({
+      quoteId: quoteId!,
+      paymentData: { method: 'credit-card', confirmed: true, cardToken: token.token }
+    });
+
+    expect(result.success).toBe(true);
+    expect(JSON.stringify(result)).not.toContain('5555555555554444');
+  });
+
+  it('should keep card details out of form submissions and chat messages', () => {
+    expect(omitCardDetails({ ...card, paymentMethod: 'credit-card', quoteId: 'QT-test' }))
+      .toEqual({ paymentMethod: 'credit-card', quoteId: 'QT-test' });
+    expect(omitLoginCredentials({ email: 'alex@example.com', password: 'secret', paymentMethod: 'cash-avios', aviosToUse: 50000 }))
+      .toEqual({ paymentMethod: 'cash-avios', aviosToUse: 50000 });
+
+    expect(security.redactCardData('My card is 4242 4242 4242 4242, expiry 12/30'))
+      .toBe('My card is •••• 4242, expiry 12/30');
+    expect(security.redactCardData('Booking for 2 adults on 2026-11-12')).toBe('Booking for 2 adults on 2026-11-12');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Card validation tests
+ * Validates the Luhn checksum, card brand detection from IIN ranges, per-brand lengths,
+ * brand-aware CVV lengths and digit grouping in form-utils
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  getCardType,
+  passesLuhnCheck,
+  validateCreditCardNumber,
+  validateCVV,
+  formatCreditCardNumber,
+  formatCVV,
+  validatePaymentForm
+} from '../utils/form-utils';
+
+describe('Card Validation', () => {
+  it('should detect each brand from its IIN range', () => {
+    expect(getCardType('4242 4242 4242 4242')).toBe('visa');
+    expect(getCardType('5555555555554444')).toBe('mastercard');
+    expect(getCardType('2223003122003222')).toBe('mastercard');
+    expect(getCardType('378282246310005')).toBe('amex');
+    expect(getCardType('30569309025904')).toBe('diners');
+    expect(getCardType('36227206271667')).toBe('diners');
+    expect(getCardType('3530111333300000')).toBe('jcb');
+    expect(getCardType('6200000000000005')).toBe('unionpay');
+
+    // Not one of our brands, or too few digits to tell yet
+    expect(getCardType('6011111111111117')).toBe('unknown');
+    expect(getCardType('2721000000000000')).toBe('unknown');
+    expect(getCardType('3')).toBe('unknown');
+    expect(getCardType('22')).toBe('unknown');
+  });
+
+  it('should accept only Luhn-valid numbers of the brand\'s length', () => {
+    expect(passesLuhnCheck('4242424242424242')).toBe(true);
+    expect(passesLuhnCheck('4242424242424241')).toBe(false);
+
+    expect(validateCreditCardNumber('4242 4242 4242 4242')).toBe(true);
+    expect(validateCreditCardNumber('4242-4242-4242-4242')).toBe(true);
+    expect(validateCreditCardNumber('378282246310005')).toBe(true);
+    expect(validateCreditCardNumber('30569309025904')).toBe(true);
+    expect(validateCreditCardNumber('4222222222222')).toBe(true);
+    expect(validateCreditCardNumber('6200000000000005')).toBe(true);
+
+    expect(validateCreditCardNumber('4242424242424241')).toBe(false);
+    expect(validateCreditCardNumber('1234567890123456')).toBe(false);
+    expect(validateCreditCardNumber('37828224631000')).toBe(false); // Amex is 15 digits
+    expect(validateCreditCardNumber('4242 4242 4242 424a')).toBe(false);
+  });
+
+  it('should check the CVV length for the card\'s brand', () => {
+    expect(validateCVV('1234', '378282246310005')).toBe(true);
+    expect(validateCVV('123', '378282246310005')).toBe(false);
+    expect(validateCVV('1234', '4242424242424242')).toBe(false);
+    expect(validateCVV('123', '4242424242424242')).toBe(true);
+    expect(validateCVV('1234')).toBe(true);
+
+    expect(formatCVV('12345', '378282246310005')).toBe('1234');
+    expect(formatCVV('1234', '4242424242424242')).toBe('123');
+
+    expect(validatePaymentForm({
+      paymentMethod: 'credit-card',
+      cardNumber: '3782 822463 10005',
+      expiryDate: '12/30',
+      cvv: '123',
+      nameOnCard: 'Alex Johnson'
+    })).toEqual([{ field: 'cvv', message: 'Please enter a valid CVV (4 digits)' }]);
+  });
+
+  it('should group digits the way each brand prints them', () => {
+    expect(formatCreditCardNumber('4242424242424242')).toBe('4242 4242 4242 4242');
+    expect(formatCreditCardNumber('378282246310005')).toBe('3782 822463 10005');
+    expect(formatCreditCardNumber('30569309025904')).toBe('3056 930902 5904');
+    expect(formatCreditCardNumber('4111111111111111111')).toBe('4111 1111 1111 1111 111');
+
+    // Amex stops at 15 digits, anything else at 19
+    expect(formatCreditCardNumber('3782822463100051')).toBe('3782 822463 10005');
+    expect(formatCreditCardNumber('41111111111111111111')).toBe('4111 1111 1111 1111 111');
+  });
+});
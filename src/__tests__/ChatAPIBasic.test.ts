@@ -1,5 +1,10 @@
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, beforeEach } from '@jest/globals';
 import { bookingFunctions } from '../lib/booking-functions';
+import { localBookingSessionStore } from '../lib/booking-session';
+import { testCardTokens } from '../data/paymentData';
+
+// Quote the shared local booking session was last priced at
+const currentQuoteId = async () => (await localBookingSessionStore.load('local')).pricing?.id;
 
 describe('Chat API Basic Integration Tests', () => {
   describe('Tool Parameter Validation', () => {
@@ -59,27 +64,35 @@ describe('Chat API Basic Integration Tests', () => {
       expect(() => {
         bookingFunctions.initiatePayment.parameters.parse({
           paymentMethod: 'credit-card',
-          totalAmount: 500
+          quoteId: 'QT-test'
         });
       }).not.toThrow();
 
       expect(() => {
         bookingFunctions.initiatePayment.parameters.parse({
           paymentMethod: 'avios',
-          totalAmount: 62500
+          quoteId: 'QT-test'
         });
       }).not.toThrow();
 
       expect(() => {
         bookingFunctions.initiatePayment.parameters.parse({
           paymentMethod: 'invalid',
-          totalAmount: 500
+          quoteId: 'QT-test'
         });
       }).toThrow();
     });
   });
 
   describe('Tool Execution', () => {
+    beforeEach(async () => {
+      // Each tool validates against the selections made before it
+      await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      await bookingFunctions.selectExtras.execute({ includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 });
+    });
+
     it('should execute showStopoverCategories successfully', async () => {
       const result = await bookingFunctions.showStopoverCategories.execute({});
       expect(result.success).toBe(true);
@@ -113,7 +126,7 @@ describe('Chat API Basic Integration Tests', () => {
     it('should execute initiatePayment with credit card', async () => {
       const result = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: 500
+        quoteId: await currentQuoteId()
       });
       expect(result.success).toBe(true);
       expect(result.paymentInitialized).toBe(true);
@@ -131,24 +144,32 @@ describe('Chat API Basic Integration Tests', () => {
     it('should execute initiatePayment with Avios', async () => {
       const result = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'avios',
-        totalAmount: 62500
+        quoteId: await currentQuoteId()
       });
+      // Avios are priced for the member's tier, so the customer signs in to Privilege Club first
       expect(result.success).toBe(true);
-      expect(result.paymentInitialized).toBe(true);
+      expect(result.signInRequired).toBe(true);
       expect(result.uiComponent.type).toBe('form');
       expect(result.uiComponent.data.fields).toEqual(
         expect.arrayContaining([
-          expect.objectContaining({ id: 'privilegeClubId' }),
+          expect.objectContaining({ id: 'email' }),
           expect.objectContaining({ id: 'password' })
         ])
       );
     });
 
     it('should execute completeBooking successfully', async () => {
+      await bookingFunctions.initiatePayment.execute({
+        paymentMethod: 'credit-card',
+        quoteId: await currentQuoteId()
+      });
+
       const result = await bookingFunctions.completeBooking.execute({
+        quoteId: await currentQuoteId(),
         paymentData: {
           method: 'credit-card',
-          confirmed: true
+          confirmed: true,
+          cardToken: testCardTokens.approved
         }
       });
       expect(result.success).toBe(true);
@@ -58,6 +58,10 @@ jest.mock('ai', () => ({
   streamText: jest.fn()
 }));
 
+jest.mock('@ai-sdk/openai', () => ({
+  createOpenAI: jest.fn(() => jest.fn())
+}));
+
 jest.mock('dotenv', () => ({
   config: jest.fn()
 }));
@@ -69,6 +73,10 @@ jest.mock('../lib/llm-config-server', () => ({
 }));
 
 jest.mock('../utils/security', () => ({
+  security: {
+    sanitizeInput: jest.fn((input: string) => input),
+    redactCardData: jest.fn((input: string) => input)
+  },
   securityMiddleware: jest.fn(() => ({
     allowed: true,
     headers: {},
@@ -115,6 +123,15 @@ jest.mock('../lib/cloudflare/error-handling', () => ({
 // Now import the modules after mocking
 import { POST } from '../pages/api/chat';
 import { bookingFunctions } from '../lib/booking-functions';
+import { modelCircuitBreaker } from '../lib/model-fallback';
+
+// streamText result whose stream starts with the given parts
+const streamResult = (toDataStreamResponse: () => Response, parts: any[] = [{ type: 'text-delta', textDelta: 'Hello' }]) => ({
+  fullStream: (async function* () {
+    yield* parts;
+  })(),
+  toDataStreamResponse
+});
 
 describe('Chat API Endpoint Integration Tests', () => {
   let mockStreamText: any;
@@ -123,6 +140,7 @@ describe('Chat API Endpoint Integration Tests', () => {
   beforeEach(() => {
     // Reset all mocks
     jest.clearAllMocks();
+    modelCircuitBreaker.reset();
     
     // Setup streamText mock
     const { streamText } = require('ai');
@@ -153,11 +171,9 @@ describe('Chat API Endpoint Integration Tests', () => {
   describe('Tool Integration with AI SDK', () => {
     it('should process tool calls without errors', async () => {
       // Mock successful streamText response
-      const mockResponse = {
-        toTextStreamResponse: () => new Response('Test response', {
-          headers: { 'Content-Type': 'text/plain' }
-        })
-      };
+      const mockResponse = streamResult(() => new Response('Test response', {
+        headers: { 'Content-Type': 'text/plain' }
+      }));
       mockStreamText.mockResolvedValue(mockResponse);
 
       const response = await POST({ request: mockRequest });
@@ -167,22 +183,24 @@ describe('Chat API Endpoint Integration Tests', () => {
       expect(mockStreamText).toHaveBeenCalledWith({
         model: expect.any(Object),
         messages: expect.any(Array),
-        tools: bookingFunctions,
+        tools: expect.objectContaining({
+          showStopoverCategories: expect.any(Object),
+          completeBooking: expect.any(Object)
+        }),
         system: expect.any(String),
-        temperature: 0.7
+        temperature: 0.7,
+        abortSignal: expect.any(Object)
       });
     });
 
     it('should pass all booking functions as tools to AI SDK', async () => {
-      const mockResponse = {
-        toTextStreamResponse: () => new Response('Test response')
-      };
+      const mockResponse = streamResult(() => new Response('Test response'));
       mockStreamText.mockResolvedValue(mockResponse);
 
       await POST({ request: mockRequest });
 
       const streamTextCall = mockStreamText.mock.calls[0][0];
-      expect(streamTextCall.tools).toBe(bookingFunctions);
+      expect(Object.keys(streamTextCall.tools)).toEqual(Object.keys(bookingFunctions));
       
       // Verify all expected tools are present
       const expectedTools = [
@@ -305,12 +323,10 @@ describe('Chat API Endpoint Integration Tests', () => {
     });
 
     it('should include security headers in successful responses', async () => {
-      const mockResponse = {
-        toTextStreamResponse: () => {
-          const response = new Response('Test response');
-          return response;
-        }
-      };
+      const mockResponse = streamResult(() => {
+        const response = new Response('Test response');
+        return response;
+      });
       mockStreamText.mockResolvedValue(mockResponse);
 
       const { securityMiddleware } = require('../utils/security');
@@ -325,6 +341,103 @@ describe('Chat API Endpoint Integration Tests', () => {
     });
   });
 
+  describe('Chat Profiles', () => {
+    const profileRequest = (profile: string) => new Request('http://localhost:3000/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        profile,
+        messages: [{ role: 'user', content: 'I want to book a stopover' }],
+        conversationContext: { customer: { name: 'Test User' } }
+      })
+    });
+
+    beforeEach(() => {
+      mockStreamText.mockImplementation(async () => streamResult(() => new Response('Test response')));
+    });
+
+    it('should answer without tools and with the terse prompt for the terse profile', async () => {
+      const response = await POST({ request: profileRequest('terse') });
+
+      expect(response.status).toBe(200);
+      const streamTextCall = mockStreamText.mock.calls[0][0];
+      expect(streamTextCall).not.toHaveProperty('tools');
+      expect(streamTextCall.system).toContain('Keep ALL responses under 2 sentences');
+      expect(streamTextCall.maxTokens).toBe(1000);
+    });
+
+    it('should refuse unknown profiles, and debug profiles in production', async () => {
+      const unknown = await POST({ request: profileRequest('unrestricted') });
+      expect(unknown.status).toBe(400);
+      expect((await unknown.json()).error).toBe('Unknown chat profile: unrestricted');
+
+      const nodeEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+      try {
+        expect((await POST({ request: profileRequest('no-tools') })).status).toBe(400);
+      } finally {
+        process.env.NODE_ENV = nodeEnv;
+      }
+      expect(mockStreamText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Model Fallback', () => {
+    beforeEach(() => {
+      const { getModelWithFallback, validateServerLLMConfig } = require('../lib/llm-config-server');
+      validateServerLLMConfig.mockReturnValue(true);
+      getModelWithFallback.mockImplementation((attempt: number) => ({ modelId: ['model-a', 'model-b', 'model-c'][attempt] }));
+    });
+
+    afterEach(() => {
+      const { getModelWithFallback } = require('../lib/llm-config-server');
+      getModelWithFallback.mockImplementation(() => ({ modelId: 'test-model' }));
+    });
+
+    it('should fall back to the next model when the stream fails before its first part', async () => {
+      mockStreamText
+        .mockResolvedValueOnce(streamResult(() => new Response('Broken'), [{ type: 'error', error: new Error('Provider returned 502') }]))
+        .mockResolvedValueOnce(streamResult(() => new Response('Test response')));
+
+      const response = await POST({ request: mockRequest });
+
+      expect(response.status).toBe(200);
+      expect(mockStreamText).toHaveBeenCalledTimes(2);
+      expect(mockStreamText.mock.calls[1][0].model).toEqual({ modelId: 'model-b' });
+      expect(response.headers.get('X-Model-Used')).toBe('model-b');
+      expect(response.headers.get('X-Model-Attempts')).toBe('2');
+
+      // Performance metrics name the model that answered, not the one first tried
+      const { measurePerformance } = require('../utils/performance');
+      expect(measurePerformance.llm.mock.calls[0][1]()).toBe('model-b');
+    });
+
+    it('should skip a model whose circuit breaker is open', async () => {
+      ['model-a', 'model-a', 'model-a'].forEach(modelId => modelCircuitBreaker.recordFailure(modelId));
+      mockStreamText.mockImplementation(async () => streamResult(() => new Response('Test response')));
+
+      const response = await POST({ request: mockRequest });
+
+      expect(mockStreamText).toHaveBeenCalledTimes(1);
+      expect(mockStreamText.mock.calls[0][0].model).toEqual({ modelId: 'model-b' });
+      expect(response.headers.get('X-Model-Used')).toBe('model-b');
+    });
+
+    it('should report the service unavailable when every model\'s circuit breaker is open', async () => {
+      ['model-a', 'model-b', 'model-c'].forEach(modelId => {
+        for (let i = 0; i < 3; i++) {
+          modelCircuitBreaker.recordFailure(modelId);
+        }
+      });
+
+      const response = await POST({ request: mockRequest });
+
+      expect(mockStreamText).not.toHaveBeenCalled();
+      expect(response.status).toBe(503);
+      expect((await response.json()).retryable).toBe(true);
+    });
+  });
+
   describe('Tool Parameter Edge Cases', () => {
     it('should handle edge case parameters correctly', async () => {
       // Test minimum and maximum duration values
@@ -355,14 +468,14 @@ describe('Chat API Endpoint Integration Tests', () => {
       expect(() => {
         bookingFunctions.initiatePayment.parameters.parse({
           paymentMethod: 'credit-card',
-          totalAmount: 500
+          quoteId: 'QT-test'
         });
       }).not.toThrow();
 
       expect(() => {
         bookingFunctions.initiatePayment.parameters.parse({
           paymentMethod: 'avios',
-          totalAmount: 62500
+          quoteId: 'QT-test'
         });
       }).not.toThrow();
     });
@@ -1,6 +1,7 @@
 import { describe, it, expect } from '@jest/globals';
 import fs from 'fs';
 import path from 'path';
+import { testCardTokens } from '../data/paymentData';
 
 describe('Chat Test Page Functional Validation', () => {
   describe('Page Structure Validation', () => {
@@ -93,7 +94,7 @@ describe('Chat Test Page Functional Validation', () => {
       // Verify API structure
       expect(content).toContain('export const POST: APIRoute');
       expect(content).toContain('streamText');
-      expect(content).toContain('bookingFunctions');
+      expect(content).toContain('createBookingFunctions');
       expect(content).toContain('generateSystemPrompt');
     });
 
@@ -103,9 +104,9 @@ describe('Chat Test Page Functional Validation', () => {
       
       // Verify AI SDK usage
       expect(content).toContain("import { streamText } from 'ai'");
-      expect(content).toContain('tools: bookingFunctions');
-      expect(content).toContain('system: generateSystemPrompt');
-      expect(content).toContain('toTextStreamResponse');
+      expect(content).toContain('guardBookingFunctions(createBookingFunctions(bookingSession, bookingLedger, fxRates, availability), bookingSession)');
+      expect(content).toContain('? generateSystemPrompt({ ...conversationContext, currentStep })');
+      expect(content).toContain('toDataStreamResponse');
     });
 
     it('should handle errors properly', () => {
@@ -116,7 +117,7 @@ describe('Chat Test Page Functional Validation', () => {
       expect(content).toContain('try {');
       expect(content).toContain('catch (error');
       expect(content).toContain('errorReporter.report');
-      expect(content).toContain('status: 500');
+      expect(content).toContain('errorResponse(500');
       expect(content).toContain('retryable');
     });
   });
@@ -177,11 +178,11 @@ describe('Chat Test Page Functional Validation', () => {
       
       // Test selectHotel
       const hotelResult = await bookingFunctions.selectHotel.execute({
-        hotelId: 'hotel-1',
+        hotelId: 'millennium-doha',
         hotelName: 'Test Hotel'
       });
       expect(hotelResult.success).toBe(true);
-      expect(hotelResult.selectedHotel).toBe('hotel-1');
+      expect(hotelResult.selectedHotel).toBe('millennium-doha');
       expect(hotelResult.uiComponent.type).toBe('stopover-options');
       
       // Test selectTimingAndDuration
@@ -325,7 +326,7 @@ describe('Chat Test Page Functional Validation', () => {
       expect(step2.success).toBe(true);
       
       const step3 = await bookingFunctions.selectHotel.execute({
-        hotelId: 'hotel-1',
+        hotelId: 'millennium-doha',
         hotelName: 'Premium Hotel'
       });
       expect(step3.success).toBe(true);
@@ -345,14 +346,16 @@ describe('Chat Test Page Functional Validation', () => {
       
       const step6 = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: 425
+        quoteId: step5.quoteId
       });
       expect(step6.success).toBe(true);
       
       const step7 = await bookingFunctions.completeBooking.execute({
+        quoteId: step5.quoteId,
         paymentData: {
           method: 'credit-card',
-          confirmed: true
+          confirmed: true,
+          cardToken: testCardTokens.approved
         }
       });
       expect(step7.success).toBe(true);
@@ -376,6 +379,15 @@ describe('Chat Test Page Functional Validation', () => {
       expect(hotelResult.uiComponent.type).toBe('hotels');
       expect(hotelResult.uiComponent.data.hotels).toBeDefined();
       
+      await bookingFunctions.selectHotel.execute({
+        hotelId: 'millennium-doha',
+        hotelName: 'Millennium Hotel Doha'
+      });
+      await bookingFunctions.selectTimingAndDuration.execute({
+        timing: 'outbound',
+        duration: 2
+      });
+      
       const summaryResult = await bookingFunctions.selectExtras.execute({
         includeTransfers: true,
         selectedTours: [],
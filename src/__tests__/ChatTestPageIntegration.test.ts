@@ -283,11 +283,11 @@ describe('Chat Test Page Integration (Live Server)', () => {
       
       // Test selectHotel
       const hotelResult = await bookingFunctions.selectHotel.execute({
-        hotelId: 'hotel-1',
+        hotelId: 'millennium-doha',
         hotelName: 'Test Hotel'
       });
       expect(hotelResult.success).toBe(true);
-      expect(hotelResult.selectedHotel).toBe('hotel-1');
+      expect(hotelResult.selectedHotel).toBe('millennium-doha');
     });
   });
 });
\ No newline at end of file
@@ -100,8 +100,8 @@ describe('Chat Test Page Validation Summary', () => {
       
       // Should use AI SDK streamText with tools
       expect(content).toContain("import { streamText } from 'ai'");
-      expect(content).toContain('tools: bookingFunctions');
-      expect(content).toContain('toTextStreamResponse');
+      expect(content).toContain('guardBookingFunctions(createBookingFunctions(bookingSession, bookingLedger, fxRates, availability), bookingSession)');
+      expect(content).toContain('toDataStreamResponse');
       
       // Should have proper error handling
       expect(content).toContain('try {');
@@ -251,14 +251,14 @@ describe('Chat Test Page Validation', () => {
       const { selectHotel } = require('../lib/booking-functions');
       
       const testParams = {
-        hotelId: 'hotel-1',
+        hotelId: 'millennium-doha',
         hotelName: 'Test Hotel'
       };
       
       const result = await selectHotel.execute(testParams);
       
       expect(result).toHaveProperty('success', true);
-      expect(result).toHaveProperty('selectedHotel', 'hotel-1');
+      expect(result).toHaveProperty('selectedHotel', 'millennium-doha');
       expect(result).toHaveProperty('uiComponent');
     });
   });
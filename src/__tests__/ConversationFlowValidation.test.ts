@@ -3,8 +3,14 @@
  * This test suite validates the complete LLM conversation flow from welcome to booking confirmation
  */
 
-import { bookingFunctions } from '../lib/booking-functions';
+import { bookingFunctions, localBookingSession } from '../lib/booking-functions';
 import type { CustomerData, BookingData } from '../types';
+import { testCardTokens } from '../data/paymentData';
+
+// The server records the member's account on the conversation once they sign in to Privilege Club
+const signInToPrivilegeClub = () => localBookingSession.update({
+  privilegeClub: { memberId: 'QR12345678', tierStatus: 'Gold', aviosBalance: 275000 }
+});
 
 describe('Complete Conversation Flow Validation', () => {
   const mockCustomer: CustomerData = {
@@ -49,12 +55,12 @@ describe('Complete Conversation Flow Validation', () => {
 
       // Step 3: Select Millennium Hotel
       const step3Result = await bookingFunctions.selectHotel.execute({
-        hotelId: 'millennium',
+        hotelId: 'millennium-doha',
         hotelName: 'Millennium Hotel Doha'
       });
 
       expect(step3Result.success).toBe(true);
-      expect(step3Result.selectedHotel).toBe('millennium');
+      expect(step3Result.selectedHotel).toBe('millennium-doha');
       expect(step3Result.uiComponent.type).toBe('stopover-options');
       expect(step3Result.message).toContain('Millennium Hotel Doha');
 
@@ -75,7 +81,7 @@ describe('Complete Conversation Flow Validation', () => {
         includeTransfers: true,
         selectedTours: [
           {
-            tourId: 'whale-sharks',
+            tourId: 'whale-sharks-qatar',
             tourName: 'Whale Sharks of Qatar',
             quantity: 2,
             totalPrice: 390
@@ -88,13 +94,13 @@ describe('Complete Conversation Flow Validation', () => {
       expect(step5Result.selectedExtras.transfers).toBe(true);
       expect(step5Result.selectedExtras.tours).toHaveLength(1);
       expect(step5Result.pricing.totalCashPrice).toBeGreaterThan(0);
-      expect(step5Result.pricing.totalAviosPrice).toBe(step5Result.pricing.totalCashPrice * 125);
+      expect(step5Result.pricing.totalAviosPrice).toBe(Math.round(step5Result.pricing.totalCashPrice * 125));
       expect(step5Result.uiComponent.type).toBe('summary');
 
       // Step 6: Initiate credit card payment
       const step6Result = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: step5Result.pricing.totalCashPrice
+        quoteId: step5Result.quoteId
       });
 
       expect(step6Result.success).toBe(true);
@@ -111,26 +117,28 @@ describe('Complete Conversation Flow Validation', () => {
 
       // Step 7: Complete booking
       const step7Result = await bookingFunctions.completeBooking.execute({
+        quoteId: step5Result.quoteId,
         paymentData: {
           method: 'credit-card',
-          confirmed: true
+          confirmed: true,
+          cardToken: testCardTokens.approved
         }
       });
 
       expect(step7Result.success).toBe(true);
       expect(step7Result.bookingComplete).toBe(true);
-      expect(step7Result.newPNR).toBe('X9FG1');
+      expect(step7Result.newPNR).toMatch(/^[A-Z2-9]{6}$/);
       expect(step7Result.uiComponent.type).toBe('summary');
       expect(step7Result.message).toContain('🎉');
-      expect(step7Result.message).toContain('X9FG1');
+      expect(step7Result.message).toContain(step7Result.newPNR);
 
       // Validate complete flow data consistency
       expect(step2Result.selectedCategory).toBe('premium');
-      expect(step3Result.selectedHotel).toBe('millennium');
+      expect(step3Result.selectedHotel).toBe('millennium-doha');
       expect(step4Result.selectedTiming).toBe('outbound');
       expect(step4Result.selectedDuration).toBe(2);
       expect(step5Result.selectedExtras.transfers).toBe(true);
-      expect(step7Result.newPNR).toBe('X9FG1');
+      expect(step7Result.newPNR).toMatch(/^[A-Z2-9]{6}$/);
     });
 
     it('should handle alternative flow: Avios payment path', async () => {
@@ -141,23 +149,33 @@ describe('Complete Conversation Flow Validation', () => {
         totalExtrasPrice: 0
       });
 
-      // Step 6: Initiate Avios payment
-      const paymentResult = await bookingFunctions.initiatePayment.execute({
+      // Step 6: Sign in to Privilege Club, then initiate Avios payment
+      const signInResult = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'avios',
-        totalAmount: extrasResult.pricing.totalCashPrice
+        quoteId: extrasResult.quoteId
       });
 
-      expect(paymentResult.success).toBe(true);
-      expect(paymentResult.uiComponent.data.fields).toEqual(
+      expect(signInResult.success).toBe(true);
+      expect(signInResult.uiComponent.data.fields).toEqual(
         expect.arrayContaining([
-          expect.objectContaining({ id: 'privilegeClubId' }),
+          expect.objectContaining({ id: 'email' }),
           expect.objectContaining({ id: 'password' })
         ])
       );
+
+      await signInToPrivilegeClub();
+      const paymentResult = await bookingFunctions.initiatePayment.execute({
+        paymentMethod: 'avios',
+        quoteId: extrasResult.quoteId
+      });
+
+      expect(paymentResult.success).toBe(true);
+      expect(paymentResult.uiComponent.data.data).toMatchObject({ tierStatus: 'Gold', aviosBalance: 275000 });
       expect(paymentResult.message).toContain('Privilege Club');
 
       // Step 7: Complete booking with Avios
       const confirmationResult = await bookingFunctions.completeBooking.execute({
+        quoteId: extrasResult.quoteId,
         paymentData: {
           method: 'avios',
           confirmed: true
@@ -165,7 +183,7 @@ describe('Complete Conversation Flow Validation', () => {
       });
 
       expect(confirmationResult.success).toBe(true);
-      expect(confirmationResult.newPNR).toBe('X9FG1');
+      expect(confirmationResult.newPNR).toMatch(/^[A-Z2-9]{6}$/);
     });
 
     it('should handle minimal booking flow: Standard category, no extras', async () => {
@@ -182,11 +200,11 @@ describe('Complete Conversation Flow Validation', () => {
 
       // Step 3: Select basic hotel
       const hotelResult = await bookingFunctions.selectHotel.execute({
-        hotelId: 'crowne-plaza',
-        hotelName: 'Crowne Plaza Doha'
+        hotelId: 'ibis-doha',
+        hotelName: 'Ibis Doha'
       });
 
-      expect(hotelResult.selectedHotel).toBe('crowne-plaza');
+      expect(hotelResult.selectedHotel).toBe('ibis-doha');
 
       // Step 4: Select return timing, 1 night
       const timingResult = await bookingFunctions.selectTimingAndDuration.execute({
@@ -210,35 +228,45 @@ describe('Complete Conversation Flow Validation', () => {
       // Complete payment and booking
       const paymentResult = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: extrasResult.pricing.totalCashPrice
+        quoteId: extrasResult.quoteId
       });
 
       const confirmationResult = await bookingFunctions.completeBooking.execute({
-        paymentData: { method: 'credit-card', confirmed: true }
+        quoteId: extrasResult.quoteId,
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
       });
 
       expect(confirmationResult.success).toBe(true);
-      expect(confirmationResult.newPNR).toBe('X9FG1');
+      expect(confirmationResult.newPNR).toMatch(/^[A-Z2-9]{6}$/);
     });
   });
 
   describe('Data Consistency Validation', () => {
+    beforeEach(async () => {
+      // selectExtras prices from the hotel and nights chosen in earlier steps
+      await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    });
+
     it('should maintain pricing consistency throughout the flow', async () => {
       const extrasResult = await bookingFunctions.selectExtras.execute({
         includeTransfers: true,
         selectedTours: [
-          { tourId: 'whale-sharks', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 }
+          { tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 }
         ],
         totalExtrasPrice: 450
       });
 
       // Validate pricing calculations
-      const expectedHotelCost = 150 * 2; // 2 nights at $150/night
+      const expectedHotelCost = 180 * 2; // 2 nights at Millennium Hotel Doha ($180/night)
       const expectedFlightDifference = 115;
       const expectedTransfersCost = 60;
       const expectedToursCost = 390;
-      const expectedTotal = expectedHotelCost + expectedFlightDifference + expectedTransfersCost + expectedToursCost;
-      const expectedAvios = expectedTotal * 125;
+      const expectedTourismFee = 5.5 * 2; // Qatar tourism fee for 1 room over 2 nights
+      const expectedVat = (expectedHotelCost + expectedTransfersCost + expectedToursCost) * 0.05;
+      const expectedTotal = expectedHotelCost + expectedFlightDifference + expectedTransfersCost + expectedToursCost + expectedTourismFee + expectedVat;
+      const expectedAvios = Math.round(expectedTotal * 125);
 
       expect(extrasResult.pricing.hotelCost).toBe(expectedHotelCost);
       expect(extrasResult.pricing.flightFareDifference).toBe(expectedFlightDifference);
@@ -252,14 +280,14 @@ describe('Complete Conversation Flow Validation', () => {
       const multiTourExtras = await bookingFunctions.selectExtras.execute({
         includeTransfers: true,
         selectedTours: [
-          { tourId: 'whale-sharks', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 },
-          { tourId: 'desert-safari', tourName: 'Desert Safari', quantity: 1, totalPrice: 150 },
-          { tourId: 'city-tour', tourName: 'Doha City Tour', quantity: 3, totalPrice: 225 }
+          { tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 },
+          { tourId: 'desert-safari-adventure', tourName: 'Desert Safari', quantity: 1, totalPrice: 175 },
+          { tourId: 'doha-city-skyline-tour', tourName: 'Doha City Tour', quantity: 2, totalPrice: 250 }
         ],
-        totalExtrasPrice: 825 // 60 (transfers) + 390 + 150 + 225
+        totalExtrasPrice: 875 // 60 (transfers) + 390 + 175 + 250
       });
 
-      const totalToursCost = 390 + 150 + 225;
+      const totalToursCost = 390 + 175 + 250;
       expect(multiTourExtras.pricing.toursCost).toBe(totalToursCost);
       
       const totalExtrasPrice = 60 + totalToursCost;
@@ -267,13 +295,23 @@ describe('Complete Conversation Flow Validation', () => {
     });
 
     it('should validate PNR generation and booking references', async () => {
+      const extrasResult = await bookingFunctions.selectExtras.execute({
+        includeTransfers: false,
+        selectedTours: [],
+        totalExtrasPrice: 0
+      });
+      await bookingFunctions.initiatePayment.execute({
+        paymentMethod: 'credit-card',
+        quoteId: extrasResult.quoteId
+      });
+
       const confirmationResult = await bookingFunctions.completeBooking.execute({
-        paymentData: { method: 'credit-card', confirmed: true }
+        quoteId: extrasResult.quoteId,
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
       });
 
-      // Validate PNR format (should be 5 characters, alphanumeric)
-      expect(confirmationResult.newPNR).toMatch(/^[A-Z0-9]{5}$/);
-      expect(confirmationResult.newPNR).toBe('X9FG1');
+      // Validate PNR format (should be 6 characters, alphanumeric)
+      expect(confirmationResult.newPNR).toMatch(/^[A-Z2-9]{6}$/);
       
       // Ensure it's different from original PNR
       expect(confirmationResult.newPNR).not.toBe(mockBooking.pnr);
@@ -281,6 +319,13 @@ describe('Complete Conversation Flow Validation', () => {
   });
 
   describe('Error Scenarios and Edge Cases', () => {
+    beforeEach(async () => {
+      // selectExtras prices from the hotel and nights chosen in earlier steps
+      await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    });
+
     it('should handle invalid category selection', async () => {
       try {
         await bookingFunctions.selectStopoverCategory.execute({
@@ -347,7 +392,7 @@ describe('Complete Conversation Flow Validation', () => {
         },
         {
           function: 'selectHotel',
-          params: { hotelId: 'millennium', hotelName: 'Millennium Hotel' },
+          params: { hotelId: 'millennium-doha', hotelName: 'Millennium Hotel' },
           expectedType: 'stopover-options'
         },
         {
@@ -362,18 +407,23 @@ describe('Complete Conversation Flow Validation', () => {
         },
         {
           function: 'initiatePayment',
-          params: { paymentMethod: 'credit-card', totalAmount: 500 },
+          params: { paymentMethod: 'credit-card' },
+          quoted: true,
           expectedType: 'form'
         },
         {
           function: 'completeBooking',
-          params: { paymentData: { method: 'credit-card', confirmed: true } },
+          params: { paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } },
+          quoted: true,
           expectedType: 'summary'
         }
       ];
 
+      // Payment is taken against the quote selectExtras issued
+      let quoteId: string | undefined;
       for (const test of uiComponentTests) {
-        const result = await bookingFunctions[test.function].execute(test.params);
+        const result = await bookingFunctions[test.function].execute(test.quoted ? { ...test.params, quoteId } : test.params);
+        quoteId = result.quoteId ?? quoteId;
         
         expect(result.success).toBe(true);
         expect(result.uiComponent).toBeDefined();
@@ -408,11 +458,11 @@ describe('Complete Conversation Flow Validation', () => {
       // Execute complete flow
       await bookingFunctions.showStopoverCategories.execute({});
       await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
-      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium', hotelName: 'Millennium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium' });
       await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
-      await bookingFunctions.selectExtras.execute({ includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 });
-      await bookingFunctions.initiatePayment.execute({ paymentMethod: 'credit-card', totalAmount: 500 });
-      await bookingFunctions.completeBooking.execute({ paymentData: { method: 'credit-card', confirmed: true } });
+      const { quoteId } = await bookingFunctions.selectExtras.execute({ includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 });
+      await bookingFunctions.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      await bookingFunctions.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
       
       const endTime = Date.now();
       const executionTime = endTime - startTime;
@@ -425,7 +475,7 @@ describe('Complete Conversation Flow Validation', () => {
       const promises = [
         bookingFunctions.showStopoverCategories.execute({}),
         bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' }),
-        bookingFunctions.selectHotel.execute({ hotelId: 'millennium', hotelName: 'Millennium' })
+        bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium' })
       ];
 
       const results = await Promise.all(promises);
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Customer session tests
+ * Validates that sessions are issued by the server, resumed from their cookie and reissued once they lapse
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  CustomerSessions,
+  InMemoryCustomerSessionStore,
+  CUSTOMER_SESSION_TTL_SECONDS,
+  customerSessionCookie,
+  readCustomerSessionId
+} from '../lib/customer-session';
+
+const requestWithCookie = (cookie?: string, url = 'http://localhost:4321/api/chat') =>
+  new Request(url, { method: 'POST', headers: cookie ? { cookie } : {} });
+
+describe('Customer Sessions', () => {
+  let now: number;
+  let sessions: CustomerSessions;
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 10, 1);
+    sessions = new CustomerSessions(new InMemoryCustomerSessionStore(), () => now);
+  });
+
+  it('should issue a session when the request has no cookie, and resume it from its cookie', async () => {
+    const issued = await sessions.resume(requestWithCookie());
+    expect(issued.issued).toBe(true);
+
+    const cookie = customerSessionCookie(issued.session, requestWithCookie()).split(';')[0];
+    const resumed = await sessions.resume(requestWithCookie(`theme=dark; ${cookie}`));
+
+    expect(resumed).toEqual({ session: expect.objectContaining({ id: issued.session.id }), issued: false });
+  });
+
+  it('should issue a new session for an unknown, malformed or lapsed session id', async () => {
+    const { session } = await sessions.resume(requestWithCookie());
+    const cookie = `qr_stopover_session=${session.id}`;
+
+    expect((await sessions.resume(requestWithCookie('qr_stopover_session=11111111-2222-4333-8444-555555555555'))).issued).toBe(true);
+    expect(readCustomerSessionId(requestWithCookie('qr_stopover_session=conv_123'))).toBeUndefined();
+
+    now += CUSTOMER_SESSION_TTL_SECONDS * 1000;
+    const lapsed = await sessions.resume(requestWithCookie(cookie));
+    expect(lapsed.issued).toBe(true);
+    expect(lapsed.session.id).not.toBe(session.id);
+  });
+
+  it('should keep the cookie away from scripts and other sites, and secure over HTTPS', async () => {
+    const { session } = await sessions.resume(requestWithCookie());
+
+    expect(customerSessionCookie(session, requestWithCookie())).toBe(
+      `qr_stopover_session=${session.id}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${CUSTOMER_SESSION_TTL_SECONDS}`
+    );
+    expect(customerSessionCookie(session, requestWithCookie(undefined, 'https://stopover.example/api/chat'))).toMatch(/; Secure$/);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Multi-segment itinerary tests
+ * Validates that journeys, trip types and stopover positions are read from the booking's flights,
+ * and that the booking tools only offer a stopover where the itinerary connects through Doha
+ */
+
+import type { FlightSegment } from '../types';
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import {
+  getJourneys,
+  getTripType,
+  getStopoverPositions,
+  getItineraryTravelDates,
+  getDohaFlightTimes,
+  buildFlightRoute
+} from '../data/itineraryData';
+import { sampleBooking } from '../data/customerData';
+
+const sampleFlightSegments = sampleBooking.route.segments!;
+
+const segment = (flightNumber: string, origin: string, destination: string, departure: string, arrival: string): FlightSegment =>
+  ({ flightNumber, origin, destination, departure, arrival });
+
+// One way from Manchester to Singapore through Doha
+const oneWay = [
+  segment('QR24', 'MAN', 'DOH', '2026-11-11T21:20', '2026-11-12T07:10'),
+  segment('QR944', 'DOH', 'SIN', '2026-11-12T08:50', '2026-11-12T21:40')
+];
+
+// Out to Bangkok, home from Singapore, connecting in Doha both ways
+const openJaw = [
+  segment('QR4', 'LHR', 'DOH', '2026-11-11T20:40', '2026-11-12T06:45'),
+  segment('QR836', 'DOH', 'BKK', '2026-11-12T20:05', '2026-11-13T06:55'),
+  segment('QR945', 'SIN', 'DOH', '2026-11-19T22:15', '2026-11-20T01:15'),
+  segment('QR3', 'DOH', 'LHR', '2026-11-20T07:40', '2026-11-20T12:35')
+];
+
+// Return trip to Paris that flies direct on the way out
+const directOutbound = [
+  segment('QR8101', 'LHR', 'CDG', '2026-11-11T09:00', '2026-11-11T11:15'),
+  segment('QR40', 'CDG', 'DOH', '2026-11-18T15:55', '2026-11-18T23:50'),
+  segment('QR3', 'DOH', 'LHR', '2026-11-19T07:40', '2026-11-19T12:35')
+];
+
+describe('Multi-segment itineraries', () => {
+  describe('Itinerary data', () => {
+    it('should split flights into journeys at long or disconnected gaps', () => {
+      expect(getJourneys(sampleFlightSegments).map(journey => journey.map(flight => flight.flightNumber)))
+        .toEqual([['QR4', 'QR836'], ['QR837', 'QR3']]);
+      expect(getJourneys(openJaw)).toHaveLength(2);
+      expect(getJourneys(oneWay)).toHaveLength(1);
+    });
+
+    it('should classify one-way, return, open-jaw and multi-city trips', () => {
+      expect(getTripType(oneWay)).toBe('one-way');
+      expect(getTripType(sampleFlightSegments)).toBe('return');
+      expect(getTripType(openJaw)).toBe('open-jaw');
+      expect(getTripType([
+        ...oneWay,
+        segment('QR945', 'SIN', 'DOH', '2026-11-19T22:15', '2026-11-20T01:15'),
+        segment('QR39', 'DOH', 'CDG', '2026-11-23T08:10', '2026-11-23T13:15')
+      ])).toBe('multi-city');
+    });
+
+    it('should find a stopover position on each journey that connects through Doha', () => {
+      expect(getStopoverPositions(oneWay)).toEqual([
+        { timing: 'outbound', from: 'MAN', to: 'SIN', arrival: oneWay[0], departure: oneWay[1] }
+      ]);
+      expect(getStopoverPositions(openJaw).map(({ timing, from, to }) => ({ timing, from, to }))).toEqual([
+        { timing: 'outbound', from: 'LHR', to: 'BKK' },
+        { timing: 'return', from: 'SIN', to: 'LHR' }
+      ]);
+      expect(getStopoverPositions(directOutbound).map(position => position.timing)).toEqual(['return']);
+    });
+
+    it('should read Doha dates, times and the route summary from the flights', () => {
+      expect(getItineraryTravelDates(oneWay)).toEqual({ outbound: '2026-11-12' });
+      expect(getDohaFlightTimes(openJaw).return).toEqual({
+        arrival: '01:15',
+        departure: '07:40',
+        arrivalFlight: 'QR945',
+        departureFlight: 'QR3'
+      });
+      expect(buildFlightRoute(openJaw)).toMatchObject({ origin: 'LHR', destination: 'BKK', routing: 'LHR-BKK / SIN-LHR' });
+      expect(buildFlightRoute(sampleFlightSegments)).toMatchObject({ routing: 'LHR-BKK-LHR', stops: ['DOH'] });
+    });
+  });
+
+  describe('Booking tools', () => {
+    const createTools = async (segments: FlightSegment[]) => {
+      const session = new BookingSession('conv_itineraries', new InMemoryBookingSessionStore());
+      await session.update({ segments });
+      const tools = createBookingFunctions(
+        session,
+        new BookingLedger(new InMemoryBookingLedgerStore()),
+        localFxRateSource,
+        new AvailabilityManager(new InMemoryInventoryStore())
+      );
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      return tools;
+    };
+
+    it('should offer only the journeys a one-way booking connects through Doha on', async () => {
+      const tools = await createTools(oneWay);
+
+      const hotel = await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      expect(hotel.success).toBe(true);
+      expect(hotel.uiComponent!.data).toMatchObject({
+        originalRoute: { origin: 'MAN', destination: 'SIN' },
+        travelDates: { outbound: '2026-11-12' }
+      });
+      expect(hotel.uiComponent!.data.stopoverPositions).toHaveLength(1);
+
+      const refused = await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 1 });
+      expect(refused.success).toBe(false);
+      expect(refused.errorType).toBe('validation');
+      expect(refused.message).toContain('the outbound journey (MAN → DOH → SIN)');
+
+      const accepted = await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 1 });
+      expect(accepted.success).toBe(true);
+    });
+
+    it('should date a return stopover on an open-jaw trip from the journey home', async () => {
+      const tools = await createTools(openJaw);
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+
+      const result = await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 2 });
+
+      expect(result.success).toBe(true);
+      expect(result.stopoverDates).toEqual({ checkIn: '2026-11-20', checkOut: '2026-11-22' });
+    });
+
+    it('should refuse a stopover on a booking that never connects through Doha', async () => {
+      const tools = await createTools([segment('QR8101', 'LHR', 'CDG', '2026-11-11T09:00', '2026-11-11T11:15')]);
+
+      const result = await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('doesn\'t connect through Doha');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Stopover itinerary planner tests
+ * Validates that tours are scheduled day by day between the flights, and that clashing
+ * or ill-fitting tours are refused before the booking is priced
+ */
+
+import { planStopover } from '../lib/stopover-planner';
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { getTourById, parseTourDuration } from '../data/tourData';
+import { calculatePricingBreakdown } from '../data/pricingData';
+import { getInventoryItems } from '../data/inventoryData';
+import { sampleStopoverSelection } from '../data/sampleJourney';
+import { getDohaFlightTimes } from '../data/itineraryData';
+import { sampleBooking } from '../data/customerData';
+
+const tours = (...ids: string[]) => ids.map(id => getTourById(id)!);
+
+describe('Itinerary Planner', () => {
+  const outbound = {
+    dates: { checkIn: '2026-11-12', checkOut: '2026-11-13' },
+    nights: 1,
+    times: { arrival: '06:45', departure: '20:05', arrivalFlight: 'QR4', departureFlight: 'QR836' }
+  };
+
+  describe('Flight times and durations', () => {
+    it('should read the Doha connections from the booking\'s flights', () => {
+      expect(getDohaFlightTimes(sampleBooking.route.segments!)).toEqual({
+        outbound: { arrival: '06:45', departure: '20:05', arrivalFlight: 'QR4', departureFlight: 'QR836' },
+        return: { arrival: '23:55', departure: '07:40', arrivalFlight: 'QR837', departureFlight: 'QR3' }
+      });
+    });
+
+    it('should parse tour durations into minutes', () => {
+      expect(parseTourDuration('6 hours')).toBe(360);
+      expect(parseTourDuration('1 hour 30 minutes')).toBe(90);
+      expect(parseTourDuration('45 mins')).toBe(45);
+    });
+  });
+
+  describe('planStopover', () => {
+    it('should lay out flights, transfers and tours day by day', () => {
+      const plan = planStopover({ ...outbound, tours: tours('pearl-diving-experience', 'whale-sharks-qatar'), includeTransfers: true });
+
+      expect(plan.days).toEqual([
+        {
+          date: '2026-11-12',
+          events: [
+            { type: 'flight', title: 'QR4 lands in Doha', startTime: '06:45' },
+            { type: 'transfer', title: 'Airport transfer to your hotel', startTime: '08:00', endTime: '08:45' },
+            { type: 'tour', title: 'Traditional Pearl Diving Experience', startTime: '09:00', endTime: '13:00', tourId: 'pearl-diving-experience' }
+          ]
+        },
+        {
+          date: '2026-11-13',
+          events: [
+            { type: 'tour', title: 'Whale Sharks of Qatar', startTime: '06:30', endTime: '12:30', tourId: 'whale-sharks-qatar' },
+            { type: 'transfer', title: 'Transfer to Hamad International Airport', startTime: '17:05', endTime: '17:50' },
+            { type: 'flight', title: 'QR836 departs Doha', startTime: '20:05' }
+          ]
+        }
+      ]);
+      expect(plan.issues).toEqual([{
+        severity: 'warning',
+        tourId: 'pearl-diving-experience',
+        message: 'Traditional Pearl Diving Experience starts at 09:00, soon after you reach your hotel.'
+      }]);
+    });
+
+    it('should refuse a tour that does not fit between a late arrival and an early departure', () => {
+      const plan = planStopover({
+        ...outbound,
+        times: { arrival: '23:00', departure: '07:40' },
+        tours: tours('desert-safari-adventure'),
+        includeTransfers: false
+      });
+
+      expect(plan.issues).toEqual([{
+        severity: 'error',
+        tourId: 'desert-safari-adventure',
+        message: 'Desert Safari Adventure (7 hours from 14:30) doesn\'t fit between your 23:00 arrival and 07:40 departure.'
+      }]);
+      expect(plan.days.flatMap(day => day.events).some(event => event.type === 'tour')).toBe(false);
+    });
+
+    it('should move a clashing tour to another day, and refuse it when no day is free', () => {
+      const twoNights = planStopover({
+        ...outbound,
+        nights: 2,
+        tours: tours('desert-safari-adventure', 'doha-city-skyline-tour'),
+        includeTransfers: false
+      });
+      expect(twoNights.days[1].events.map(event => event.tourId)).toEqual(['doha-city-skyline-tour']);
+
+      const oneNight = planStopover({ ...outbound, tours: tours('desert-safari-adventure', 'doha-city-skyline-tour'), includeTransfers: false });
+      expect(oneNight.issues[0].message).toBe('Doha City & Skyline Tour clashes with Desert Safari Adventure on every day of your stopover.');
+    });
+
+    it('should warn when a tour ends close to leaving for the airport', () => {
+      const plan = planStopover({
+        ...outbound,
+        times: { arrival: '06:45', departure: '16:00' },
+        tours: tours('whale-sharks-qatar'),
+        includeTransfers: true
+      });
+
+      expect(plan.issues).toEqual([{
+        severity: 'warning',
+        tourId: 'whale-sharks-qatar',
+        message: 'Whale Sharks of Qatar ends at 12:30, less than an hour before your airport transfer.'
+      }]);
+    });
+  });
+
+  describe('Booking tools', () => {
+    let session: BookingSession;
+    let inventory: InMemoryInventoryStore;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    beforeEach(async () => {
+      session = new BookingSession('conv_itinerary', new InMemoryBookingSessionStore());
+      inventory = new InMemoryInventoryStore();
+      const availability = new AvailabilityManager(inventory);
+      tools = createBookingFunctions(session, new BookingLedger(new InMemoryBookingLedgerStore()), localFxRateSource, availability);
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+    });
+
+    it('should refuse extras whose tours cannot be scheduled', async () => {
+      await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 1 });
+
+      const result = await tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'doha-city-skyline-tour', tourName: 'Doha City & Skyline Tour', totalPrice: 0 }],
+        totalExtrasPrice: 0
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+      expect(result.message).toContain('doesn\'t fit between your 23:55 arrival and 07:40 departure');
+    });
+
+    it('should hold and price each tour for the day it is planned on', async () => {
+      // The return flight lands at 23:55, so the first day has no time for a tour
+      await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 2 });
+      const result = await tools.selectExtras.execute({
+        includeTransfers: false,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', totalPrice: 0 }],
+        totalExtrasPrice: 0
+      });
+
+      expect(result.success).toBe(true);
+      expect((await inventory.load()).holds['conv_itinerary'].items).toContainEqual(
+        expect.objectContaining({ type: 'tour', productId: 'whale-sharks-qatar', date: '2026-11-20' })
+      );
+      expect(session.getState().extras!.tours).toEqual([expect.objectContaining({ id: 'whale-sharks-qatar', date: '2026-11-20' })]);
+
+      // A tour planned into whale shark season is priced at the season's rate, whatever day the stay starts
+      const [selected] = sampleStopoverSelection.extras.tours;
+      const selection = {
+        ...sampleStopoverSelection,
+        dates: { checkIn: '2027-04-30', checkOut: '2027-05-02' },
+        extras: { ...sampleStopoverSelection.extras, tours: [{ ...selected, tour: getTourById('whale-sharks-qatar')!, quantity: 1, date: '2027-05-01' }] }
+      };
+      expect(calculatePricingBreakdown(selection, selection.duration).toursCost).toBe(225);
+      expect(getInventoryItems(selection)).toContainEqual(expect.objectContaining({ type: 'tour', date: '2027-05-01' }));
+    });
+
+    it('should show the planned stopover as a timeline', async () => {
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 1 });
+      await tools.selectExtras.execute({
+        includeTransfers: false,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', totalPrice: 0 }],
+        totalExtrasPrice: 0
+      });
+
+      const result = await tools.showItinerary.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.uiComponent!.type).toBe('itinerary-timeline');
+      expect(result.uiComponent!.data.days[1].events[0]).toMatchObject({ tourId: 'whale-sharks-qatar', startTime: '06:30' });
+    });
+  });
+});
@@ -3,7 +3,17 @@
  * Tests the core conversation flow without complex AI SDK mocking
  */
 
-import { bookingFunctions } from '../lib/booking-functions';
+import { bookingFunctions, localBookingSession } from '../lib/booking-functions';
+import { localBookingSessionStore } from '../lib/booking-session';
+import { testCardTokens } from '../data/paymentData';
+
+// Quote the shared local booking session was last priced at
+const currentQuoteId = async () => (await localBookingSessionStore.load('local')).pricing?.id;
+
+// The server records the member's account on the conversation once they sign in to Privilege Club
+const signInToPrivilegeClub = () => localBookingSession.update({
+  privilegeClub: { memberId: 'QR12345678', tierStatus: 'Gold', aviosBalance: 275000 }
+});
 
 describe('LLM Conversation Flow - Core Functionality', () => {
   describe('Function Call Validation', () => {
@@ -34,7 +44,11 @@ describe('LLM Conversation Flow - Core Functionality', () => {
         type: 'hotels',
         data: {
           hotels: expect.any(Array),
-          selectedCategoryId: 'premium'
+          selectedCategoryId: 'premium',
+          categoryName: 'Premium',
+          categoryPricePerNight: 150,
+          currency: 'USD',
+          exchangeRate: 1
         }
       });
       expect(result.message).toContain('Premium');
@@ -42,20 +56,25 @@ describe('LLM Conversation Flow - Core Functionality', () => {
 
     it('should execute selectHotel and show timing options', async () => {
       const result = await bookingFunctions.selectHotel.execute({
-        hotelId: 'millennium',
+        hotelId: 'millennium-doha',
         hotelName: 'Millennium Hotel Doha'
       });
       
       expect(result.success).toBe(true);
-      expect(result.selectedHotel).toBe('millennium');
+      expect(result.selectedHotel).toBe('millennium-doha');
       expect(result.uiComponent).toEqual({
         type: 'stopover-options',
         data: {
-          selectedHotelId: 'millennium',
+          selectedHotelId: 'millennium-doha',
           originalRoute: {
             origin: 'LHR',
             destination: 'BKK'
-          }
+          },
+          stopoverPositions: [
+            expect.objectContaining({ timing: 'outbound', from: 'LHR', to: 'BKK' }),
+            expect.objectContaining({ timing: 'return', from: 'BKK', to: 'LHR' })
+          ],
+          travelDates: { outbound: '2026-11-12', return: '2026-11-19' }
         }
       });
       expect(result.message).toContain('Millennium Hotel Doha');
@@ -79,7 +98,7 @@ describe('LLM Conversation Flow - Core Functionality', () => {
         includeTransfers: true,
         selectedTours: [
           {
-            tourId: 'whale-sharks',
+            tourId: 'whale-sharks-qatar',
             tourName: 'Whale Sharks of Qatar',
             quantity: 2,
             totalPrice: 390
@@ -92,14 +111,14 @@ describe('LLM Conversation Flow - Core Functionality', () => {
       expect(result.selectedExtras.transfers).toBe(true);
       expect(result.selectedExtras.tours).toHaveLength(1);
       expect(result.pricing.totalCashPrice).toBeGreaterThan(0);
-      expect(result.pricing.totalAviosPrice).toBe(result.pricing.totalCashPrice * 125);
+      expect(result.pricing.totalAviosPrice).toBe(Math.round(result.pricing.totalCashPrice * 125));
       expect(result.uiComponent.type).toBe('summary');
     });
 
     it('should execute initiatePayment for credit card', async () => {
       const result = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: 500
+        quoteId: await currentQuoteId()
       });
       
       expect(result.success).toBe(true);
@@ -118,13 +137,16 @@ describe('LLM Conversation Flow - Core Functionality', () => {
     it('should execute initiatePayment for Avios', async () => {
       const result = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'avios',
-        totalAmount: 500
+        quoteId: await currentQuoteId()
       });
       
       expect(result.success).toBe(true);
+      // Avios are priced for the member's tier, so the customer signs in to Privilege Club first
+      expect(result.signInRequired).toBe(true);
+      expect(result.uiComponent.data.type).toBe('login');
       expect(result.uiComponent.data.fields).toEqual(
         expect.arrayContaining([
-          expect.objectContaining({ id: 'privilegeClubId', type: 'text' }),
+          expect.objectContaining({ id: 'email', type: 'email' }),
           expect.objectContaining({ id: 'password', type: 'password' })
         ])
       );
@@ -133,18 +155,20 @@ describe('LLM Conversation Flow - Core Functionality', () => {
 
     it('should execute completeBooking and generate confirmation', async () => {
       const result = await bookingFunctions.completeBooking.execute({
+        quoteId: await currentQuoteId(),
         paymentData: {
           method: 'credit-card',
-          confirmed: true
+          confirmed: true,
+          cardToken: testCardTokens.approved
         }
       });
       
       expect(result.success).toBe(true);
       expect(result.bookingComplete).toBe(true);
-      expect(result.newPNR).toBe('X9FG1');
+      expect(result.newPNR).toMatch(/^[A-Z2-9]{6}$/);
       expect(result.uiComponent.type).toBe('summary');
       expect(result.message).toContain('🎉');
-      expect(result.message).toContain('X9FG1');
+      expect(result.message).toContain(result.newPNR);
     });
   });
 
@@ -166,11 +190,11 @@ describe('LLM Conversation Flow - Core Functionality', () => {
 
       // Step 3: Select hotel
       const step3 = await bookingFunctions.selectHotel.execute({
-        hotelId: 'millennium',
+        hotelId: 'millennium-doha',
         hotelName: 'Millennium Hotel Doha'
       });
       expect(step3.success).toBe(true);
-      expect(step3.selectedHotel).toBe('millennium');
+      expect(step3.selectedHotel).toBe('millennium-doha');
       expect(step3.uiComponent.type).toBe('stopover-options');
 
       // Step 4: Select timing and duration
@@ -188,7 +212,7 @@ describe('LLM Conversation Flow - Core Functionality', () => {
         includeTransfers: true,
         selectedTours: [
           {
-            tourId: 'whale-sharks',
+            tourId: 'whale-sharks-qatar',
             tourName: 'Whale Sharks of Qatar',
             quantity: 2,
             totalPrice: 390
@@ -203,7 +227,7 @@ describe('LLM Conversation Flow - Core Functionality', () => {
       // Step 6: Initiate payment
       const step6 = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: step5.pricing.totalCashPrice
+        quoteId: step5.quoteId
       });
       expect(step6.success).toBe(true);
       expect(step6.paymentInitialized).toBe(true);
@@ -211,23 +235,25 @@ describe('LLM Conversation Flow - Core Functionality', () => {
 
       // Step 7: Complete booking
       const step7 = await bookingFunctions.completeBooking.execute({
+        quoteId: step5.quoteId,
         paymentData: {
           method: 'credit-card',
-          confirmed: true
+          confirmed: true,
+          cardToken: testCardTokens.approved
         }
       });
       expect(step7.success).toBe(true);
       expect(step7.bookingComplete).toBe(true);
-      expect(step7.newPNR).toBe('X9FG1');
+      expect(step7.newPNR).toMatch(/^[A-Z2-9]{6}$/);
       expect(step7.uiComponent.type).toBe('summary');
 
       // Validate flow consistency
       expect(step2.selectedCategory).toBe('premium');
-      expect(step3.selectedHotel).toBe('millennium');
+      expect(step3.selectedHotel).toBe('millennium-doha');
       expect(step4.selectedTiming).toBe('outbound');
       expect(step4.selectedDuration).toBe(2);
       expect(step5.selectedExtras.transfers).toBe(true);
-      expect(step7.newPNR).toBe('X9FG1');
+      expect(step7.newPNR).toMatch(/^[A-Z2-9]{6}$/);
     });
 
     it('should handle alternative Avios payment flow', async () => {
@@ -238,7 +264,7 @@ describe('LLM Conversation Flow - Core Functionality', () => {
         categoryName: 'Premium'
       });
       await bookingFunctions.selectHotel.execute({
-        hotelId: 'millennium',
+        hotelId: 'millennium-doha',
         hotelName: 'Millennium Hotel Doha'
       });
       await bookingFunctions.selectTimingAndDuration.execute({
@@ -251,27 +277,42 @@ describe('LLM Conversation Flow - Core Functionality', () => {
         totalExtrasPrice: 0
       });
 
-      // Step 6: Initiate Avios payment
+      // Step 6: Sign in to Privilege Club, then initiate Avios payment
+      const signInResult = await bookingFunctions.initiatePayment.execute({
+        paymentMethod: 'avios',
+        quoteId: extrasResult.quoteId
+      });
+      expect(signInResult.signInRequired).toBe(true);
+
+      await signInToPrivilegeClub();
       const paymentResult = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'avios',
-        totalAmount: extrasResult.pricing.totalCashPrice
+        quoteId: extrasResult.quoteId
       });
       expect(paymentResult.success).toBe(true);
       expect(paymentResult.message).toContain('Privilege Club');
 
       // Step 7: Complete booking with Avios
       const confirmationResult = await bookingFunctions.completeBooking.execute({
+        quoteId: extrasResult.quoteId,
         paymentData: {
           method: 'avios',
           confirmed: true
         }
       });
       expect(confirmationResult.success).toBe(true);
-      expect(confirmationResult.newPNR).toBe('X9FG1');
+      expect(confirmationResult.newPNR).toMatch(/^[A-Z2-9]{6}$/);
     });
   });
 
   describe('Error Handling and Edge Cases', () => {
+    beforeEach(async () => {
+      // selectExtras prices from the hotel and nights chosen in earlier steps
+      await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    });
+
     it('should handle minimum duration (1 night)', async () => {
       const result = await bookingFunctions.selectTimingAndDuration.execute({
         timing: 'return',
@@ -312,36 +353,45 @@ describe('LLM Conversation Flow - Core Functionality', () => {
       const result = await bookingFunctions.selectExtras.execute({
         includeTransfers: true,
         selectedTours: [
-          { tourId: 'whale-sharks', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 },
-          { tourId: 'desert-safari', tourName: 'Desert Safari', quantity: 1, totalPrice: 150 }
+          { tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 },
+          { tourId: 'desert-safari-adventure', tourName: 'Desert Safari', quantity: 1, totalPrice: 175 }
         ],
-        totalExtrasPrice: 600 // 60 + 390 + 150
+        totalExtrasPrice: 625 // 60 + 390 + 175
       });
       
       expect(result.success).toBe(true);
       expect(result.selectedExtras.tours).toHaveLength(2);
-      expect(result.pricing.toursCost).toBe(540); // 390 + 150
+      expect(result.pricing.toursCost).toBe(565); // 390 + 175
       expect(result.pricing.transfersCost).toBe(60);
     });
   });
 
   describe('Data Validation and Consistency', () => {
+    beforeEach(async () => {
+      // selectExtras prices from the hotel and nights chosen in earlier steps
+      await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    });
+
     it('should maintain pricing consistency', async () => {
       const result = await bookingFunctions.selectExtras.execute({
         includeTransfers: true,
         selectedTours: [
-          { tourId: 'whale-sharks', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 }
+          { tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 }
         ],
         totalExtrasPrice: 450
       });
       
       // Validate pricing calculations
-      const expectedHotelCost = 150 * 2; // 2 nights at $150/night
+      const expectedHotelCost = 180 * 2; // 2 nights at Millennium Hotel Doha ($180/night)
       const expectedFlightDifference = 115;
       const expectedTransfersCost = 60;
       const expectedToursCost = 390;
-      const expectedTotal = expectedHotelCost + expectedFlightDifference + expectedTransfersCost + expectedToursCost;
-      const expectedAvios = expectedTotal * 125;
+      const expectedTourismFee = 5.5 * 2; // Qatar tourism fee for 1 room over 2 nights
+      const expectedVat = (expectedHotelCost + expectedTransfersCost + expectedToursCost) * 0.05;
+      const expectedTotal = expectedHotelCost + expectedFlightDifference + expectedTransfersCost + expectedToursCost + expectedTourismFee + expectedVat;
+      const expectedAvios = Math.round(expectedTotal * 125);
 
       expect(result.pricing.hotelCost).toBe(expectedHotelCost);
       expect(result.pricing.flightFareDifference).toBe(expectedFlightDifference);
@@ -352,28 +402,41 @@ describe('LLM Conversation Flow - Core Functionality', () => {
     });
 
     it('should validate PNR format', async () => {
+      const extrasResult = await bookingFunctions.selectExtras.execute({
+        includeTransfers: false,
+        selectedTours: [],
+        totalExtrasPrice: 0
+      });
+      await bookingFunctions.initiatePayment.execute({
+        paymentMethod: 'credit-card',
+        quoteId: extrasResult.quoteId
+      });
+
       const result = await bookingFunctions.completeBooking.execute({
-        paymentData: { method: 'credit-card', confirmed: true }
+        quoteId: extrasResult.quoteId,
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
       });
       
-      // Validate PNR format (5 characters, alphanumeric)
-      expect(result.newPNR).toMatch(/^[A-Z0-9]{5}$/);
-      expect(result.newPNR).toBe('X9FG1');
+      // Validate PNR format (6 characters, alphanumeric)
+      expect(result.newPNR).toMatch(/^[A-Z2-9]{6}$/);
     });
 
     it('should validate UI component structure for all functions', async () => {
       const functions = [
         { name: 'showStopoverCategories', params: {}, expectedType: 'stopover-categories' },
         { name: 'selectStopoverCategory', params: { categoryId: 'premium', categoryName: 'Premium' }, expectedType: 'hotels' },
-        { name: 'selectHotel', params: { hotelId: 'millennium', hotelName: 'Millennium' }, expectedType: 'stopover-options' },
+        { name: 'selectHotel', params: { hotelId: 'millennium-doha', hotelName: 'Millennium' }, expectedType: 'stopover-options' },
         { name: 'selectTimingAndDuration', params: { timing: 'outbound', duration: 2 }, expectedType: 'stopover-extras' },
         { name: 'selectExtras', params: { includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 }, expectedType: 'summary' },
-        { name: 'initiatePayment', params: { paymentMethod: 'credit-card', totalAmount: 500 }, expectedType: 'form' },
-        { name: 'completeBooking', params: { paymentData: { method: 'credit-card', confirmed: true } }, expectedType: 'summary' }
+        { name: 'initiatePayment', params: { paymentMethod: 'credit-card' }, quoted: true, expectedType: 'form' },
+        { name: 'completeBooking', params: { paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } }, quoted: true, expectedType: 'summary' }
       ];
 
+      // Payment is taken against the quote selectExtras issued
+      let quoteId: string | undefined;
       for (const func of functions) {
-        const result = await bookingFunctions[func.name].execute(func.params);
+        const result = await bookingFunctions[func.name].execute(func.quoted ? { ...func.params, quoteId } : func.params);
+        quoteId = result.quoteId ?? quoteId;
         
         expect(result.success).toBe(true);
         expect(result.uiComponent).toBeDefined();
@@ -392,11 +455,11 @@ describe('LLM Conversation Flow - Core Functionality', () => {
       // Execute complete flow
       await bookingFunctions.showStopoverCategories.execute({});
       await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
-      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium', hotelName: 'Millennium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium' });
       await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
       await bookingFunctions.selectExtras.execute({ includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 });
-      await bookingFunctions.initiatePayment.execute({ paymentMethod: 'credit-card', totalAmount: 500 });
-      await bookingFunctions.completeBooking.execute({ paymentData: { method: 'credit-card', confirmed: true } });
+      await bookingFunctions.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: await currentQuoteId() });
+      await bookingFunctions.completeBooking.execute({ quoteId: await currentQuoteId(), paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
       
       const endTime = Date.now();
       const executionTime = endTime - startTime;
@@ -409,7 +472,7 @@ describe('LLM Conversation Flow - Core Functionality', () => {
       const promises = [
         bookingFunctions.showStopoverCategories.execute({}),
         bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' }),
-        bookingFunctions.selectHotel.execute({ hotelId: 'millennium', hotelName: 'Millennium' }),
+        bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium' }),
         bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 })
       ];
 
@@ -0,0 +1,79 @@
+/**
+ * Model fallback tests
+ * Validates the per-model circuit breaker and waiting for a stream's first part
+ * before committing to a model
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ModelCircuitBreaker, waitForFirstPart } from '../lib/model-fallback';
+
+const streamOf = (parts: any[]) => ({
+  fullStream: (async function* () {
+    yield* parts;
+  })()
+});
+
+describe('Model Fallback', () => {
+  describe('ModelCircuitBreaker', () => {
+    it('should open after consecutive failures and let a trial request through after the cooldown', () => {
+      const breaker = new ModelCircuitBreaker(2, 1000);
+
+      breaker.recordFailure('model-a', 0);
+      expect(breaker.getState('model-a', 0)).toBe('closed');
+      breaker.recordFailure('model-a', 100);
+      expect(breaker.allowRequest('model-a', 500)).toBe(false);
+      expect(breaker.allowRequest('model-b', 500)).toBe(true);
+
+      expect(breaker.getState('model-a', 1100)).toBe('half-open');
+      expect(breaker.allowRequest('model-a', 1100)).toBe(true);
+    });
+
+    it('should reopen when the trial request fails and close when one succeeds', () => {
+      const breaker = new ModelCircuitBreaker(2, 1000);
+      breaker.recordFailure('model-a', 0);
+      breaker.recordFailure('model-a', 0);
+
+      breaker.recordFailure('model-a', 1500);
+      expect(breaker.getState('model-a', 1600)).toBe('open');
+
+      breaker.recordSuccess('model-a');
+      expect(breaker.getState('model-a', 1600)).toBe('closed');
+    });
+
+    it('should count only consecutive failures', () => {
+      const breaker = new ModelCircuitBreaker(2, 1000);
+      breaker.recordFailure('model-a', 0);
+      breaker.recordSuccess('model-a');
+      breaker.recordFailure('model-a', 0);
+
+      expect(breaker.getState('model-a', 0)).toBe('closed');
+    });
+  });
+
+  describe('waitForFirstPart', () => {
+    it('should resolve once the model starts answering', async () => {
+      await expect(waitForFirstPart(streamOf([{ type: 'text-delta', textDelta: 'Hi' }, { type: 'error', error: new Error('later') }]), 1000))
+        .resolves.toBeUndefined();
+      await expect(waitForFirstPart(streamOf([{ type: 'tool-call', toolName: 'showStopoverCategories' }]), 1000))
+        .resolves.toBeUndefined();
+    });
+
+    it('should reject with the provider error when the stream fails first', async () => {
+      await expect(waitForFirstPart(streamOf([{ type: 'error', error: new Error('Provider returned 502') }]), 1000))
+        .rejects.toThrow('Provider returned 502');
+      await expect(waitForFirstPart(streamOf([]), 1000)).rejects.toThrow('empty response');
+    });
+
+    it('should abort a model that does not start answering in time', async () => {
+      const abortController = new AbortController();
+      const stalled = {
+        fullStream: (async function* () {
+          await new Promise(() => {});
+        })()
+      };
+
+      await expect(waitForFirstPart(stalled as any, 10, abortController)).rejects.toThrow('within 10ms');
+      expect(abortController.signal.aborted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Model registry tests
+ * Validates the model chain built from env and KV settings, that tool calling only
+ * falls back to models that support tools, the local offline provider and cost estimates
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+// Mock the OpenAI SDK to avoid TransformStream issues; providers return a stand-in model
+jest.mock('@ai-sdk/openai', () => ({
+  createOpenAI: jest.fn(() => (modelId: string) => ({ modelId }))
+}));
+
+import { createOpenAI } from '@ai-sdk/openai';
+import { ModelRegistry, createModelRegistry, getEnvLLMSettings, defaultLLMSettings } from '../lib/model-registry';
+import { getModelWithFallback, validateServerLLMConfig } from '../lib/llm-config-server';
+
+const LLM_ENV_KEYS = ['DEFAULT_MODEL', 'FALLBACK_MODELS', 'LLM_PROVIDER', 'LOCAL_LLM_MODEL', 'LOCAL_LLM_SUPPORTS_TOOLS', 'TEMPERATURE'];
+
+describe('Model Registry', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    LLM_ENV_KEYS.forEach(key => delete process.env[key]);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should use the default model and fallbacks when nothing is configured', () => {
+    const registry = new ModelRegistry();
+
+    expect(registry.getChain().map(model => model.modelId)).toEqual([
+      defaultLLMSettings.defaultModel,
+      ...defaultLLMSettings.fallbackModels
+    ]);
+    expect(registry.get('anthropic/claude-3-haiku')).toMatchObject({ provider: 'openrouter', contextWindow: 200000, supportsTools: true });
+  });
+
+  it('should read the model chain from env vars, describing models the registry does not know', () => {
+    process.env.DEFAULT_MODEL = 'openai/gpt-4o-mini';
+    process.env.FALLBACK_MODELS = 'example/new-model, local:qwen2.5, anthropic/claude-3-haiku, openai/gpt-4o-mini';
+    process.env.TEMPERATURE = '0.2';
+
+    const registry = new ModelRegistry(getEnvLLMSettings());
+
+    expect(registry.getChain().map(model => model.modelId)).toEqual([
+      'openai/gpt-4o-mini',
+      'example/new-model',
+      'qwen2.5',
+      'anthropic/claude-3-haiku'
+    ]);
+    expect(registry.get('example/new-model')).toMatchObject({ provider: 'openrouter', supportsTools: true });
+    expect(registry.get('qwen2.5')).toMatchObject({ provider: 'local' });
+    expect(registry.get('anthropic/claude-3-haiku')).toMatchObject({ contextWindow: 200000 });
+    expect(registry.settings.temperature).toBe(0.2);
+  });
+
+  it('should report models named in settings but not described as a configuration error', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const registry = new ModelRegistry({ ...defaultLLMSettings, fallbackModels: ['example/undescribed'] });
+
+    expect(registry.getConfigurationError()).toContain('example/undescribed');
+    expect(() => registry.getChain()).toThrow('example/undescribed');
+    expect(validateServerLLMConfig(registry)).toBe(false);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('example/undescribed'));
+  });
+
+  it('should only fall back to models that support tools when tools are required', () => {
+    const registry = new ModelRegistry({
+      ...defaultLLMSettings,
+      fallbackModels: ['example/no-tools', 'openai/gpt-4o-mini'],
+      models: [{
+        provider: 'openrouter',
+        modelId: 'example/no-tools',
+        contextWindow: 32000,
+        supportsTools: false,
+        costPerInputToken: 0,
+        costPerOutputToken: 0,
+        timeoutMs: 30000
+      }]
+    });
+
+    expect(registry.getChain().map(model => model.modelId)).toEqual(['google/gemini-2.5-flash', 'openai/gpt-4o-mini']);
+    expect(registry.getChain({ requireTools: false }).map(model => model.modelId)).toContain('example/no-tools');
+    expect(getModelWithFallback(1, { registry }).modelId).toBe('openai/gpt-4o-mini');
+    expect(getModelWithFallback(1, { requireTools: false, registry }).modelId).toBe('example/no-tools');
+  });
+
+  it('should use only the local model for offline development', () => {
+    process.env.LLM_PROVIDER = 'local';
+    process.env.LOCAL_LLM_MODEL = 'qwen2.5';
+
+    const registry = new ModelRegistry(getEnvLLMSettings());
+    const chain = registry.getChain();
+
+    expect(chain).toEqual([expect.objectContaining({ provider: 'local', modelId: 'qwen2.5', supportsTools: true })]);
+    expect(registry.hasCredentials(chain[0])).toBe(true);
+    expect(registry.createModel(chain[0]).modelId).toBe('qwen2.5');
+    expect(createOpenAI).toHaveBeenLastCalledWith(expect.objectContaining({
+      baseURL: 'http://localhost:11434/v1',
+      compatibility: 'compatible'
+    }));
+  });
+
+  it('should let KV config override the env settings and add models', async () => {
+    process.env.DEFAULT_MODEL = 'openai/gpt-4o-mini';
+    const kv = {
+      get: jest.fn(async () => ({
+        llmSettings: {
+          defaultModel: 'example/large',
+          fallbackModels: ['anthropic/claude-3-haiku'],
+          models: [{
+            provider: 'openrouter',
+            modelId: 'example/large',
+            contextWindow: 400000,
+            supportsTools: true,
+            costPerInputToken: 0.000001,
+            costPerOutputToken: 0.000002,
+            timeoutMs: 45000
+          }]
+        }
+      }))
+    };
+
+    const registry = await createModelRegistry({ QATAR_STOPOVER_KV: kv });
+
+    expect(registry.getChain().map(model => model.modelId)).toEqual(['example/large', 'anthropic/claude-3-haiku']);
+    expect(registry.settings.maxTokens).toBe(defaultLLMSettings.maxTokens);
+    expect(registry.estimateCost('example/large', { promptTokens: 1000, completionTokens: 500 })).toBeCloseTo(0.002);
+  });
+
+  it('should fall back to the env settings when KV has no LLM settings', async () => {
+    process.env.DEFAULT_MODEL = 'openai/gpt-4o-mini';
+    const kv = { get: jest.fn(async () => null) };
+
+    const registry = await createModelRegistry({ QATAR_STOPOVER_KV: kv });
+
+    expect(registry.getChain()[0].modelId).toBe('openai/gpt-4o-mini');
+    expect(registry.estimateCost('unknown/model', { promptTokens: 1000, completionTokens: 500 })).toBe(0);
+  });
+});
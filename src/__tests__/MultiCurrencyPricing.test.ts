@@ -0,0 +1,140 @@
+/**
+ * Multi-currency pricing tests
+ * Validates FX conversion, market formatting and that the quoted FX snapshot is locked through payment
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { KVFxRateSource, LocalFxRateSource } from '../lib/fx-rates';
+import type { FxRateSource } from '../lib/fx-rates';
+import { KVStoreManager } from '../lib/cloudflare/kv-store';
+import { convertPricingBreakdown, localFxSnapshot } from '../data/currencyData';
+import { formatPrice } from '../data/pricingData';
+import type { FxSnapshot, PricingBreakdown } from '../types';
+import { testCardTokens } from '../data/paymentData';
+
+const usdPricing: PricingBreakdown = {
+  currency: 'USD',
+  hotelCost: 360,
+  flightFareDifference: 115,
+  transfersCost: 60,
+  toursCost: 390,
+  totalCashPrice: 925,
+  totalAviosPrice: 115625
+};
+
+const snapshotWithGBP = (gbp: number): FxSnapshot => ({
+  ...localFxSnapshot,
+  rates: { ...localFxSnapshot.rates, GBP: gbp }
+});
+
+describe('Multi-Currency Pricing', () => {
+  describe('formatPrice', () => {
+    it('should format each market currency in its locale', () => {
+      expect(formatPrice(925)).toBe('$925');
+      expect(formatPrice(730.75, 'GBP')).toBe('£730.75');
+      expect(formatPrice(851, 'EUR')).toBe('€851');
+      expect(formatPrice(3367, 'QAR')).toMatch(/^QAR\s3,367$/);
+      expect(formatPrice(31912.5, 'THB')).toBe('฿31,912.50');
+      expect(formatPrice(115625, 'AVIOS')).toBe('115,625 Avios');
+    });
+  });
+
+  describe('convertPricingBreakdown', () => {
+    it('should convert every line and keep the total equal to their sum', () => {
+      const pricing = convertPricingBreakdown(usdPricing, 'GBP', snapshotWithGBP(0.7913));
+
+      expect(pricing).toMatchObject({
+        currency: 'GBP',
+        hotelCost: 284.87,
+        flightFareDifference: 91,
+        transfersCost: 47.48,
+        toursCost: 308.61,
+        totalCashPrice: 731.96,
+        totalAviosPrice: 115625
+      });
+      expect(pricing.fxSnapshot!.rates.GBP).toBe(0.7913);
+    });
+  });
+
+  describe('FX rate sources', () => {
+    const kvWith = (value: any) => new KVStoreManager({ get: jest.fn().mockResolvedValue(value) } as any);
+
+    it('should use rates published to KV', async () => {
+      const source = new KVFxRateSource(kvWith({ asOf: '2026-10-18', rates: snapshotWithGBP(0.8).rates }));
+
+      expect(await source.getSnapshot()).toMatchObject({ source: 'kv', asOf: '2026-10-18', rates: { GBP: 0.8 } });
+    });
+
+    it('should fall back to the bundled rates when KV has none or they are incomplete', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect((await new KVFxRateSource(kvWith(null)).getSnapshot()).source).toBe('local');
+      expect((await new KVFxRateSource(kvWith({ rates: { GBP: 0.8 } })).getSnapshot()).source).toBe('local');
+      warn.mockRestore();
+    });
+  });
+
+  describe('Booking tools', () => {
+    let session: BookingSession;
+    let rate: number;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    // Rates move on every lookup, like a live feed
+    const movingRates: FxRateSource = {
+      getSnapshot: async () => new LocalFxRateSource(snapshotWithGBP(rate)).getSnapshot()
+    };
+
+    const quote = async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      return tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+        totalExtrasPrice: 450
+      });
+    };
+
+    beforeEach(() => {
+      rate = 0.8;
+      session = new BookingSession('conv_gbp', new InMemoryBookingSessionStore(), { passengers: 2, currency: 'GBP' });
+      tools = createBookingFunctions(session, new BookingLedger(new InMemoryBookingLedgerStore()), movingRates);
+    });
+
+    it('should quote the summary in the customer\'s currency', async () => {
+      const result = await quote();
+
+      expect(result.pricing).toMatchObject({ currency: 'GBP', totalCashPrice: 781.2 });
+      expect(result.uiComponent!.data.total).toBe('£781.20');
+      expect(result.message).toContain('£781.20');
+    });
+
+    it('should charge the quoted total even if rates move before payment', async () => {
+      const { quoteId } = await quote();
+      rate = 0.9;
+
+      const payment = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      const booking = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+
+      expect(payment.message).toContain('£792.92 (including a £11.72 card surcharge)');
+      expect(session.getState().payment).toMatchObject({ amount: 792.92, currency: 'GBP' });
+      expect(booking.uiComponent!.data.items).toEqual(expect.arrayContaining([
+        { label: 'Card surcharge', value: '£11.72' },
+        { label: 'Total', value: '£792.92' }
+      ]));
+    });
+
+    it('should price amendments at the rate the booking was quoted at', async () => {
+      const { quoteId } = await quote();
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      const { newPNR } = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+      rate = 0.9;
+
+      const result = await tools.amendStopover.execute({ pnr: newPNR, duration: 3 });
+
+      expect(result.adjustment).toMatchObject({ type: 'charge', amount: 155.6, currency: 'GBP', newTotal: 936.8 });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Passenger-aware pricing tests
+ * Validates room allocation, per-vehicle transfers and tour quantities for the party size
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { getHotelById, calculateRoomsRequired } from '../data/hotelData';
+import { calculateTransferCost } from '../data/transferData';
+
+describe('Passenger-Aware Pricing', () => {
+  describe('Room allocation', () => {
+    it('should fit a party into as few rooms as the hotel occupancy allows', () => {
+      const millennium = getHotelById('millennium-doha')!;
+      const raffles = getHotelById('raffles-doha')!;
+
+      expect(calculateRoomsRequired(millennium, 1)).toBe(1);
+      expect(calculateRoomsRequired(millennium, 3)).toBe(1);
+      expect(calculateRoomsRequired(millennium, 4)).toBe(2);
+      expect(calculateRoomsRequired(raffles, 3)).toBe(2);
+    });
+  });
+
+  describe('Transfers', () => {
+    it('should price transfers per vehicle for the party size', () => {
+      expect(calculateTransferCost({ passengers: 2, nights: 2, includeTransfers: true })).toBe(60);
+      expect(calculateTransferCost({ passengers: 4, nights: 2, includeTransfers: true })).toBe(120);
+      expect(calculateTransferCost({ passengers: 4, nights: 2, includeTransfers: false })).toBe(0);
+    });
+  });
+
+  describe('Booking tools', () => {
+    let session: BookingSession;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    const selectStay = async (hotelId: string, duration: number) => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId, hotelName: hotelId });
+      return tools.selectTimingAndDuration.execute({ timing: 'outbound', duration });
+    };
+
+    beforeEach(async () => {
+      session = new BookingSession('conv_party', new InMemoryBookingSessionStore(), { passengers: 4 });
+      tools = createBookingFunctions(session);
+    });
+
+    it('should offer extras for the booking\'s party size', async () => {
+      const result = await selectStay('steigenberger-doha', 2);
+
+      expect(result.uiComponent!.data.passengers).toBe(4);
+      expect(result.uiComponent!.data.rooms).toBe(2);
+    });
+
+    it('should price rooms, transfers and tours for every passenger', async () => {
+      await selectStay('steigenberger-doha', 2);
+      const result = await tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'pearl-diving-experience', tourName: 'Pearl Diving', totalPrice: 0 }],
+        totalExtrasPrice: 0
+      });
+
+      expect(result.pricing).toMatchObject({
+        hotelCost: 780,
+        transfersCost: 120,
+        toursCost: 580
+      });
+      expect(result.selectedExtras!.tours[0].quantity).toBe(4);
+      expect(result.uiComponent!.data.items[0].label).toBe('Steigenberger Hotel Doha (2 nights, 2 rooms)');
+    });
+
+    it('should reject more tour places than passengers', async () => {
+      await selectStay('millennium-doha', 1);
+      const result = await tools.selectExtras.execute({
+        includeTransfers: false,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 5, totalPrice: 975 }],
+        totalExtrasPrice: 975
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+      expect(session.getState().pricing).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Payment provider tests
+ * Validates the mock provider's tokenise/authorise/capture/void/refund lifecycle and its test cards,
+ * and that the booking tools confirm a booking only when the provider has taken the payment
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { MockPaymentProvider } from '../lib/payment-provider';
+import { testCards, testCardTokens, getTestCardOutcome } from '../data/paymentData';
+
+describe('Payment Provider', () => {
+  describe('Mock provider', () => {
+    let provider: MockPaymentProvider;
+    const authorise = (cardToken = testCardTokens.approved) =>
+      provider.authorise({ reference: 'QT-test', amount: 100, currency: 'USD', cardToken });
+
+    beforeEach(() => {
+      provider = new MockPaymentProvider();
+    });
+
+    it('should recognise the test cards as typed, approving any other card', () => {
+      expect(getTestCardOutcome('4000 0000 0000 0002')).toBe('declined');
+      expect(getTestCardOutcome('4000-0000-0000-3220')).toBe('challenge');
+      expect(getTestCardOutcome('5555555555554444')).toBe('approved');
+    });
+
+    it('should tokenise a card and authorise against the token', async () => {
+      const card = await provider.tokenise({ ...testCards.approved, cardNumber: '5555 5555 5555 4444' });
+      expect(card).toEqual({ token: expect.stringMatching(/^tok_/), brand: 'mastercard', last4: '4444' });
+      expect(JSON.stringify(card)).not.toContain('5555555555554444');
+
+      expect((await authorise(card.token)).cardLast4).toBe('4444');
+      expect(await authorise('tok_made_up')).toMatchObject({ status: 'declined', declineReason: 'Unknown card token' });
+      await expect(provider.tokenise({ ...testCards.approved, cardNumber: '4242' })).rejects.toThrow('Invalid card number');
+    });
+
+    it('should authorise, capture and refund in steps', async () => {
+      const authorised = await authorise();
+      expect(authorised).toMatchObject({ status: 'authorised', capturedAmount: 0, cardLast4: '4242' });
+
+      expect((await provider.capture(authorised.id)).status).toBe('captured');
+      expect(await provider.refund(authorised.id, 40)).toMatchObject({ status: 'partially-refunded', refundedAmount: 40 });
+      expect((await provider.refund(authorised.id, 60)).status).toBe('refunded');
+      await expect(provider.refund(authorised.id, 1)).rejects.toThrow('Cannot refund');
+    });
+
+    it('should void an authorisation, after which it cannot be captured', async () => {
+      const { id } = await authorise();
+
+      expect((await provider.void(id)).status).toBe('voided');
+      await expect(provider.capture(id)).rejects.toThrow('it is voided');
+    });
+
+    it('should decline, challenge or time out on the test cards', async () => {
+      expect(await authorise(testCardTokens.declined)).toMatchObject({ status: 'declined', declineReason: 'Declined by the card issuer' });
+      await expect(authorise(testCardTokens.timeout)).rejects.toThrow('timed out');
+
+      const challenged = await authorise(testCardTokens.challenge);
+      expect(challenged.status).toBe('requires-action');
+      expect((await provider.capture(challenged.id)).status).toBe('requires-action');
+
+      provider.completeChallenge(challenged.id);
+      expect((await provider.capture(challenged.id)).status).toBe('captured');
+    });
+  });
+
+  describe('Booking tools', () => {
+    let session: BookingSession;
+    let ledger: BookingLedger;
+    let provider: MockPaymentProvider;
+    let inventory: InMemoryInventoryStore;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    // Two nights at the Millennium with transfers and whale sharks for two: $991.15 by card with the surcharge
+    const startPayment = async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      const { quoteId } = await tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+        totalExtrasPrice: 450
+      });
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      return quoteId!;
+    };
+
+    const pay = (quoteId: string, cardToken?: string) =>
+      tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, ...(cardToken ? { cardToken } : {}) } });
+
+    beforeEach(() => {
+      session = new BookingSession('conv_payments', new InMemoryBookingSessionStore());
+      ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+      provider = new MockPaymentProvider();
+      inventory = new InMemoryInventoryStore();
+      tools = createBookingFunctions(session, ledger, localFxRateSource, new AvailabilityManager(inventory), provider);
+    });
+
+    it('should capture the card payment and record it on the booking', async () => {
+      const result = await pay(await startPayment(), testCardTokens.approved);
+      const booking = (await ledger.get(result.newPNR!))!;
+
+      expect(result.success).toBe(true);
+      expect(booking.bookingState.paymentStatus).toBe('captured');
+      expect(await provider.retrieve(booking.paymentId!)).toMatchObject({ status: 'captured', capturedAmount: 991.15 });
+      expect(session.getState().payment!.status).toBe('captured');
+    });
+
+    it('should not confirm a booking without card details, whatever the model says', async () => {
+      const result = await pay(await startPayment());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Card details missing');
+      expect(session.getState().pnr).toBeUndefined();
+    });
+
+    it('should refuse a form paid with a different method than the payment was started for', async () => {
+      const quoteId = await startPayment();
+
+      const result = await tools.completeBooking.execute({
+        quoteId,
+        paymentData: { method: 'cash-avios', confirmed: true, cardToken: testCardTokens.approved, aviosToUse: 40000 }
+      });
+
+      expect(result).toMatchObject({ success: false, errorType: 'validation' });
+      expect(result.message).toContain('This payment was started for Credit Card');
+      expect(session.getState().payment!.status).toBe('pending');
+      expect(session.getState().pnr).toBeUndefined();
+    });
+
+    it('should not confirm a declined card, and accept another card afterwards', async () => {
+      const quoteId = await startPayment();
+
+      const declined = await pay(quoteId, testCardTokens.declined);
+      expect(declined).toMatchObject({ success: false, errorType: 'payment' });
+      expect(declined.message).toContain('card ending 0002 was declined');
+      expect(session.getState().payment!.status).toBe('declined');
+
+      expect((await pay(quoteId, testCardTokens.approved)).success).toBe(true);
+    });
+
+    it('should report a provider timeout as retryable without confirming the booking', async () => {
+      const result = await pay(await startPayment(), testCardTokens.timeout);
+
+      expect(result).toMatchObject({ success: false, errorType: 'payment', retryable: true });
+      expect(session.getState().payment!.status).toBe('pending');
+    });
+
+    it('should wait for the 3-D Secure challenge, then capture the same authorisation', async () => {
+      const quoteId = await startPayment();
+
+      const challenged = await pay(quoteId, testCardTokens.challenge);
+      expect(challenged).toMatchObject({ success: false, requiresAction: true });
+      expect(challenged.challengeUrl).toMatch(/^\/payments\/3ds\//);
+      const { paymentId } = session.getState().payment!;
+
+      expect((await pay(quoteId)).requiresAction).toBe(true);
+
+      provider.completeChallenge(paymentId!);
+      const confirmed = await pay(quoteId);
+      expect(confirmed.success).toBe(true);
+      expect((await ledger.get(confirmed.newPNR!))!.paymentId).toBe(paymentId);
+    });
+
+    it('should void the earlier authorisation when payment is started again', async () => {
+      const quoteId = await startPayment();
+      await pay(quoteId, testCardTokens.challenge);
+      const { paymentId } = session.getState().payment!;
+
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+
+      expect((await provider.retrieve(paymentId!)).status).toBe('voided');
+      expect(session.getState().payment!.status).toBe('pending');
+    });
+
+    it('should void the authorisation and release the hold when the customer goes back to an earlier step', async () => {
+      const quoteId = await startPayment();
+      await pay(quoteId, testCardTokens.challenge);
+      const { paymentId } = session.getState().payment!;
+      expect((await inventory.load()).holds).toHaveProperty('conv_payments');
+
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+
+      expect((await provider.retrieve(paymentId!)).status).toBe('voided');
+      expect((await inventory.load()).holds).not.toHaveProperty('conv_payments');
+      expect(session.getState()).toMatchObject({ payment: undefined, hold: undefined });
+    });
+
+    it('should refund a cancellation through the provider, keeping the card surcharge', async () => {
+      const { newPNR } = await pay(await startPayment(), testCardTokens.approved);
+
+      const result = await tools.cancelStopover.execute({ pnr: newPNR });
+      const booking = (await ledger.get(newPNR!))!;
+
+      expect(result.success).toBe(true);
+      expect(await provider.retrieve(booking.paymentId!)).toMatchObject({ refundedAmount: 976.5, status: 'partially-refunded' });
+      expect(booking.bookingState.paymentStatus).toBe('partially-refunded');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Privilege Club sign-in tests
+ * Validates that members sign in with their password on the server, which records them on the customer's session
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { POST } from '../pages/api/privilege-club/login';
+import { localCustomerSessions } from '../lib/customer-session';
+
+describe('Privilege Club Login', () => {
+  const login = async (body: string, cookie?: string) => {
+    const request = new Request('http://localhost:4321/api/privilege-club/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'user-agent': 'jest', ...(cookie ? { cookie } : {}) },
+      body
+    });
+    const response = await POST({ request } as any);
+    return { response, body: await response.json() };
+  };
+
+  it('should sign the member in and record them on the customer session', async () => {
+    const { response, body } = await login(JSON.stringify({ email: 'Alex.Johnson@email.com', password: 'avios-test' }));
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ success: true, memberName: 'Alex Johnson', tierStatus: 'Gold', aviosBalance: 275000 });
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+
+    const cookie = response.headers.get('set-cookie')!;
+    expect(cookie).toContain('HttpOnly');
+    const { session } = await localCustomerSessions.resume(new Request('http://localhost:4321/api/chat', {
+      headers: { cookie: cookie.split(';')[0] }
+    }));
+    expect(session.memberId).toBe('QR12345678');
+  });
+
+  it('should sign in on the session the customer already has', async () => {
+    const { session } = await localCustomerSessions.resume(new Request('http://localhost:4321/api/chat'));
+    const cookie = `qr_stopover_session=${session.id}`;
+
+    const { response } = await login(JSON.stringify({ email: 'alex.johnson@email.com', password: 'avios-test' }), cookie);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('set-cookie')).toBeNull();
+    const resumed = await localCustomerSessions.resume(new Request('http://localhost:4321/api/chat', { headers: { cookie } }));
+    expect(resumed.session).toMatchObject({ id: session.id, memberId: 'QR12345678' });
+  });
+
+  it('should give the same answer for a wrong password and an unknown email', async () => {
+    const wrongPassword = await login(JSON.stringify({ email: 'alex.johnson@email.com', password: 'guess' }));
+    const unknownEmail = await login(JSON.stringify({ email: 'nobody@email.com', password: 'avios-test' }));
+
+    expect(wrongPassword.response.status).toBe(401);
+    expect(unknownEmail.response.status).toBe(401);
+    expect(wrongPassword.body).toEqual({ success: false, error: 'Your email or password is incorrect' });
+    expect(unknownEmail.body).toEqual(wrongPassword.body);
+    expect(wrongPassword.response.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('should refuse invalid login details or a malformed body with 400', async () => {
+    const invalid = await login(JSON.stringify({ email: 'alex', password: '' }));
+    expect(invalid.response.status).toBe(400);
+    expect(invalid.body.errors).toContainEqual({ field: 'email', message: 'Please enter a valid email address' });
+
+    for (const body of ['{"email": "alex', '', 'null']) {
+      const { response, body: result } = await login(body);
+      expect(response.status).toBe(400);
+      expect(result.error).toBe('Invalid JSON body');
+    }
+  });
+});
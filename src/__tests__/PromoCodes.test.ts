@@ -0,0 +1,159 @@
+/**
+ * Promo code and bundle discount tests
+ * Validates the discount rules, that discounts are itemised and taken off the quote,
+ * and that applyPromoCode reprices the booking summary
+ */
+
+import type { StopoverSelection } from '../types';
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { getHotelById } from '../data/hotelData';
+import { getTourById } from '../data/tourData';
+import { getCategoryById } from '../data/stopoverCategories';
+import { defaultTransferOption } from '../data/transferData';
+import { calculatePricingBreakdown } from '../data/pricingData';
+import { getPromoCode, getPromoCodeIneligibility, evaluateDiscounts } from '../data/promotionData';
+
+describe('Promo Codes and Bundle Discounts', () => {
+  const whaleSharks = getTourById('whale-sharks-qatar')!;
+  const pearlDiving = getTourById('pearl-diving-experience')!;
+
+  // Two nights at the Millennium ($180), transfers ($60) and whale sharks for two ($390): $976.50 with the $11 tourism fee and VAT
+  const selection = (overrides: Partial<StopoverSelection> = {}): StopoverSelection => ({
+    timing: 'outbound',
+    duration: 2,
+    passengers: 2,
+    stopovertype: getCategoryById('premium')!,
+    hotel: getHotelById('millennium-doha')!,
+    extras: {
+      transfers: defaultTransferOption,
+      tours: [{ tour: whaleSharks, quantity: 2, totalPrice: 390 }],
+      totalExtrasPrice: 0
+    },
+    ...overrides
+  });
+
+  describe('Discount rules', () => {
+    it('should find promo codes regardless of case and spacing', () => {
+      expect(getPromoCode(' doha10 ')?.code).toBe('DOHA10');
+      expect(getPromoCode('NOTACODE')).toBeUndefined();
+    });
+
+    it('should take each kind of promo code off the stopover, never the flight fare', () => {
+      const costs = { hotelCost: 360, transfersCost: 60, toursCost: 390 };
+
+      expect(evaluateDiscounts(selection(), costs, getPromoCode('DOHA10'))).toEqual([
+        { source: 'promo-code', id: 'DOHA10', label: 'Promo code DOHA10', amount: 81 }
+      ]);
+      expect(evaluateDiscounts(selection(), costs, getPromoCode('STOPOVER50'))[0].amount).toBe(50);
+      expect(evaluateDiscounts(selection(), costs, getPromoCode('FREETRANSFER'))[0].amount).toBe(60);
+      expect(evaluateDiscounts(selection({ duration: 3 }), { ...costs, hotelCost: 540 }, getPromoCode('STAY3FREE1'))[0].amount).toBe(180);
+
+      const pricing = calculatePricingBreakdown(selection(), 2, getPromoCode('STOPOVER50'));
+      expect(pricing.totalCashPrice).toBe(115 + 360 + 60 + 390 - 50 + 11 + 38);
+      expect(pricing.totalAviosPrice).toBe(pricing.totalCashPrice * 125);
+    });
+
+    it('should explain why a promo code does not apply', () => {
+      expect(getPromoCodeIneligibility(getPromoCode('STAY3FREE1')!, selection()))
+        .toBe('STAY3FREE1 needs a stay of at least 3 nights.');
+      expect(getPromoCodeIneligibility(getPromoCode('WINTER15')!, selection({ dates: { checkIn: '2026-11-12', checkOut: '2026-11-14' } })))
+        .toBe('WINTER15 is only valid for stopovers starting on or after 2026-12-01 and on or before 2027-02-28.');
+      expect(getPromoCodeIneligibility(getPromoCode('FREETRANSFER')!, selection({
+        extras: { tours: [], totalExtrasPrice: 0 }
+      }))).toContain('doesn\'t include them');
+
+      expect(calculatePricingBreakdown(selection(), 2, getPromoCode('STAY3FREE1')).discounts).toBeUndefined();
+    });
+
+    it('should apply bundle discounts automatically, before the promo code', () => {
+      const twoTours = selection({
+        extras: {
+          transfers: defaultTransferOption,
+          tours: [
+            { tour: whaleSharks, quantity: 2, totalPrice: 390 },
+            { tour: pearlDiving, quantity: 2, totalPrice: 290 }
+          ],
+          totalExtrasPrice: 0
+        }
+      });
+
+      const discounts = evaluateDiscounts(twoTours, { hotelCost: 360, transfersCost: 60, toursCost: 680 }, getPromoCode('DOHA10'));
+
+      expect(discounts).toEqual([
+        { source: 'bundle', id: 'hotel-tour-combo', label: 'Hotel + tours combo (10% off tours)', amount: 68 },
+        { source: 'promo-code', id: 'DOHA10', label: 'Promo code DOHA10', amount: 103.2 }
+      ]);
+    });
+  });
+
+  describe('Booking tools', () => {
+    let session: BookingSession;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    const chooseStopover = async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      return tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+        totalExtrasPrice: 450
+      });
+    };
+
+    beforeEach(() => {
+      session = new BookingSession('conv_promo', new InMemoryBookingSessionStore());
+      tools = createBookingFunctions(
+        session,
+        new BookingLedger(new InMemoryBookingLedgerStore()),
+        localFxRateSource,
+        new AvailabilityManager(new InMemoryInventoryStore())
+      );
+    });
+
+    it('should reprice the booking summary with an itemised promo code discount', async () => {
+      await chooseStopover();
+
+      const result = await tools.applyPromoCode.execute({ code: 'doha10' });
+
+      expect(result.success).toBe(true);
+      expect(result.pricing!.totalCashPrice).toBe(891.45);
+      expect(result.uiComponent!.data.items).toContainEqual({ label: 'Promo code DOHA10', value: '-$81', discount: true });
+      expect(result.message).toContain('you save $81');
+      expect(session.getState().pricing!.total).toBe(891.45);
+    });
+
+    it('should keep a code given before pricing for the booking summary', async () => {
+      const saved = await tools.applyPromoCode.execute({ code: 'STOPOVER50' });
+      expect(saved.success).toBe(true);
+      expect(saved.message).toContain('I\'ll apply it when I price your stopover');
+
+      const summary = await chooseStopover();
+
+      expect(summary.pricing!.discounts).toEqual([
+        { source: 'promo-code', id: 'STOPOVER50', label: 'Promo code STOPOVER50', amount: 50 }
+      ]);
+      expect(summary.pricing!.totalCashPrice).toBe(924);
+    });
+
+    it('should refuse unknown codes, codes that do not apply and codes after payment has started', async () => {
+      const unknown = await tools.applyPromoCode.execute({ code: 'FREESTAY' });
+      expect(unknown.success).toBe(false);
+      expect(unknown.errorType).toBe('validation');
+
+      const { quoteId } = await chooseStopover();
+      const ineligible = await tools.applyPromoCode.execute({ code: 'STAY3FREE1' });
+      expect(ineligible.success).toBe(false);
+      expect(ineligible.message).toContain('needs a stay of at least 3 nights');
+
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      const afterPayment = await tools.applyPromoCode.execute({ code: 'DOHA10' });
+      expect(afterPayment.success).toBe(false);
+      expect(session.getState().pricing!.total).toBe(976.5);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Quote tests
+ * Validates that the booking summary issues a server-side quote, and that payment and booking
+ * are only taken against the current, unexpired and untampered quote
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { QUOTE_TTL_MS, hashQuote } from '../lib/quotes';
+import { testCardTokens } from '../data/paymentData';
+
+describe('Quotes', () => {
+  let session: BookingSession;
+  let tools: ReturnType<typeof createBookingFunctions>;
+
+  // Two nights at the Millennium with transfers and whale sharks for two: $976.50
+  const quote = async () => {
+    await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+    await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+    await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    return tools.selectExtras.execute({
+      includeTransfers: true,
+      selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+      totalExtrasPrice: 450
+    });
+  };
+
+  beforeEach(() => {
+    session = new BookingSession('conv_quotes', new InMemoryBookingSessionStore());
+    tools = createBookingFunctions(
+      session,
+      new BookingLedger(new InMemoryBookingLedgerStore()),
+      localFxRateSource,
+      new AvailabilityManager(new InMemoryInventoryStore())
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should issue a quote with the booking summary and hold its price', async () => {
+    const summary = await quote();
+    const issued = session.getState().pricing!;
+
+    expect(summary.quoteId).toMatch(/^QT-/);
+    expect(issued).toMatchObject({ id: summary.quoteId, currency: 'USD', total: 976.5, cardTotal: 991.15 });
+    expect(issued.expiresAt - issued.createdAt).toBe(QUOTE_TTL_MS);
+    expect(issued.hash).toBe(hashQuote(issued));
+    expect(issued.lineItems).toContainEqual({ type: 'tour', label: 'Whale Sharks of Qatar (2x)', amount: 390 });
+    expect(summary.uiComponent!.data.quoteId).toBe(summary.quoteId);
+    expect(summary.uiComponent!.data.notes).toContainEqual(expect.stringContaining('This price is held until'));
+  });
+
+  it('should take payment against the current quote and carry it to the payment form', async () => {
+    const { quoteId } = await quote();
+
+    const payment = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+
+    expect(payment.success).toBe(true);
+    expect(payment.uiComponent!.data.data.quoteId).toBe(quoteId);
+    expect(session.getState().payment!.amount).toBe(991.15);
+  });
+
+  it('should refuse payment before a quote, or against an unknown quote', async () => {
+    const unpriced = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: 'QT-made-up' });
+    expect(unpriced.success).toBe(false);
+    expect(unpriced.errorType).toBe('validation');
+
+    const { quoteId } = await quote();
+    const unknown = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: 'QT-made-up' });
+
+    expect(unknown.success).toBe(false);
+    expect(unknown.message).toContain(`The current quote is ${quoteId} for $976.50`);
+    expect(session.getState().payment).toBeUndefined();
+  });
+
+  it('should refuse a quote that a repricing replaced', async () => {
+    const { quoteId: original } = await quote();
+    const repriced = await tools.applyPromoCode.execute({ code: 'DOHA10' });
+
+    const stale = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: original });
+    expect(stale.success).toBe(false);
+
+    const current = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: repriced.quoteId });
+    expect(current.success).toBe(true);
+  });
+
+  it('should refuse an expired quote until the stopover is priced again', async () => {
+    const { quoteId } = await quote();
+    const issuedAt = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(issuedAt + QUOTE_TTL_MS + 1);
+
+    const expired = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+
+    expect(expired.success).toBe(false);
+    expect(expired.message).toContain('Your quoted price was held until');
+  });
+
+  it('should refuse a quote whose contents changed after it was issued', async () => {
+    const { quoteId } = await quote();
+    await session.update({ pricing: { ...session.getState().pricing!, total: 1 } });
+
+    const tampered = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+
+    expect(tampered.success).toBe(false);
+    expect(session.getState().payment).toBeUndefined();
+  });
+
+  it('should only complete the booking against the quote that was paid', async () => {
+    const { quoteId } = await quote();
+    await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+
+    const missing = await tools.completeBooking.execute({ paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+    expect(missing.success).toBe(false);
+    expect(missing).not.toHaveProperty('newPNR');
+
+    const booking = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+    expect(booking.success).toBe(true);
+    expect(booking.newPNR).toMatch(/^[A-Z2-9]{6}$/);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Scripted model tests
+ * Validates that the scripted model answers the chat UI's messages with booking tool calls,
+ * and walks the whole booking journey through /api/chat with no network
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { createScriptedModel } from '../lib/scripted-model';
+import { testCardTokens } from '../data';
+
+process.env.LLM_PROVIDER = 'scripted';
+import { POST } from '../pages/api/chat';
+import { POST as loginPOST } from '../pages/api/privilege-club/login';
+
+const userMessage = (text: string) => ({ role: 'user' as const, content: [{ type: 'text' as const, text }] });
+
+const callModel = async (prompt: any[], tools: string[] = ['showStopoverCategories', 'selectStopoverCategory']) => {
+  const model = createScriptedModel();
+  return model.doGenerate({
+    inputFormat: 'messages',
+    mode: { type: 'regular', tools: tools.map(name => ({ type: 'function' as const, name, parameters: {} })) },
+    prompt
+  });
+};
+
+// Read what the chat client would from a data stream response: text, tool calls and their results
+const readDataStream = async (response: Response) => {
+  const lines = (await response.text()).split('\n').filter(Boolean);
+  const text = lines.filter(line => line.startsWith('0:')).map(line => JSON.parse(line.slice(2))).join('');
+  const calls = lines.filter(line => line.startsWith('9:')).map(line => JSON.parse(line.slice(2)));
+  const results = lines.filter(line => line.startsWith('a:')).map(line => JSON.parse(line.slice(2)));
+  const toolInvocations = calls.map(toolCall => ({
+    state: 'result' as const,
+    ...toolCall,
+    result: results.find(result => result.toolCallId === toolCall.toolCallId)?.result
+  }));
+  return { text, toolInvocations };
+};
+
+// A chat client for one conversation: it keeps the history and the session cookie the server issued
+const chatClient = (conversationId: string, conversationContext: Record<string, unknown> = {}) => {
+  const messages: any[] = [];
+  const client = {
+    cookie: undefined as string | undefined,
+
+    request: (cookie?: string) => new Request('http://localhost:4321/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'user-agent': 'jest', ...(cookie ? { cookie } : {}) },
+      body: JSON.stringify({ messages, conversationId, conversationContext })
+    }),
+
+    // Send a message the way the chat client does, keeping the reply in the history for the next turn
+    // and the session cookie the server issued for the next request
+    send: async (content: string) => {
+      messages.push({ role: 'user', content });
+      const response = await POST({ request: client.request(client.cookie) } as any);
+      expect(response.status).toBe(200);
+      client.cookie = response.headers.get('set-cookie')?.split(';')[0] ?? client.cookie;
+
+      const reply = await readDataStream(response);
+      messages.push({ role: 'assistant', content: reply.text, toolInvocations: reply.toolInvocations });
+      return reply;
+    }
+  };
+  return client;
+};
+
+const uiComponent = (reply: Awaited<ReturnType<typeof readDataStream>>) => reply.toolInvocations[0]?.result?.uiComponent;
+
+describe('Scripted Model', () => {
+  it('should call the booking tool that matches the chat UI\'s message', async () => {
+    const result = await callModel([userMessage('I\'d like to select the Premium Beach stopover category (premium beach, $215/night).')]);
+
+    expect(result.finishReason).toBe('tool-calls');
+    expect(result.toolCalls).toEqual([expect.objectContaining({
+      toolName: 'selectStopoverCategory',
+      args: JSON.stringify({ categoryId: 'premium-beach', categoryName: 'Premium Beach' })
+    })]);
+  });
+
+  it('should answer in text when the tool is not offered or nothing matches', async () => {
+    const withoutTools = await callModel([userMessage('Show me the stopover options')], []);
+    expect(withoutTools.toolCalls).toEqual([]);
+    expect(withoutTools.text).toContain('stopover in Doha');
+
+    const unmatched = await callModel([userMessage('What is the weather like?')]);
+    expect(unmatched.finishReason).toBe('stop');
+    expect(unmatched.toolCalls).toEqual([]);
+  });
+
+  it('should give the same reply to the same conversation', async () => {
+    const prompt = [userMessage('I\'d like to stay for 2 nights.')];
+    const first = await callModel(prompt, ['selectTimingAndDuration']);
+    const second = await callModel(prompt, ['selectTimingAndDuration']);
+
+    expect(second).toEqual(first);
+    expect(JSON.parse(first.toolCalls![0].args)).toEqual({ timing: 'outbound', duration: 2 });
+  });
+
+  describe('booking journey through /api/chat', () => {
+    const chat = chatClient('scripted-journey');
+    const send = chat.send;
+
+    beforeAll(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'info').mockImplementation(() => {});
+      jest.spyOn(console, 'debug').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should book a stopover from category to confirmation', async () => {
+      const categories = await send('Show me the stopover options');
+      expect(uiComponent(categories).type).toBe('stopover-categories');
+
+      const hotels = await send('I\'d like to select the Premium stopover category (premium, $150/night).');
+      expect(uiComponent(hotels).type).toBe('hotels');
+      const hotel = uiComponent(hotels).data.hotels[0];
+
+      const options = await send(`I'd like to select ${hotel.name} hotel (${hotel.category}, $${hotel.pricePerNight}/night).`);
+      expect(uiComponent(options).type).toBe('stopover-options');
+
+      const timing = await send('I\'d like my stopover on the outbound journey.');
+      expect(timing.toolInvocations).toEqual([]);
+      expect(timing.text).toContain('How many nights');
+
+      const extras = await send('I\'d like to stay for 2 nights.');
+      expect(uiComponent(extras).type).toBe('stopover-extras');
+
+      const summary = await send('I\'d like to add airport transfers and 1 tour to my booking. Total extras: $120.');
+      expect(uiComponent(summary).type).toBe('summary');
+      const { quoteId } = summary.toolInvocations[0].result;
+
+      const payment = await send('I\'d like to proceed to payment for my stopover booking.');
+      expect(uiComponent(payment)).toMatchObject({ type: 'form', data: { type: 'payment', data: { quoteId } } });
+
+      const confirmation = await send(`I've completed the form with the following details: ${JSON.stringify({
+        nameOnCard: 'Alex Johnson',
+        paymentMethod: 'credit-card',
+        card: { token: testCardTokens.approved, brand: 'visa', last4: '4242' },
+        quoteId
+      })}`);
+      expect(confirmation.toolInvocations[0].result).toMatchObject({ success: true, bookingComplete: true });
+      expect(uiComponent(confirmation).data.title).toBe('Booking Confirmed!');
+    });
+
+    it('should issue an HttpOnly session cookie and keep the conversation to it', async () => {
+      expect(chat.cookie).toMatch(/^qr_stopover_session=/);
+
+      const response = await POST({ request: chat.request() } as any);
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ error: 'Conversation belongs to another session' });
+      expect(response.headers.get('set-cookie')).toContain('HttpOnly');
+    });
+
+    it('should price Avios for the member who signed in, not the account the client claims', async () => {
+      // The client claims a Platinum tier and a balance it doesn't have
+      const avios = chatClient('scripted-avios', {
+        privilegeClubAccount: { memberId: 'QR99999999', tierStatus: 'Platinum', aviosBalance: 5000000 }
+      });
+      await avios.send('I\'d like to select the Premium stopover category (premium, $150/night).');
+      await avios.send('I\'d like to select Millennium Hotel Doha hotel (premium, $150/night).');
+      await avios.send('I\'d like my stopover on the outbound journey.');
+      await avios.send('I\'d like to stay for 2 nights.');
+      const summary = await avios.send('I\'d like to add airport transfers to my booking. Total extras: $60.');
+      const { quoteId } = summary.toolInvocations[0].result;
+
+      const signIn = await avios.send('I\'d like to pay with Avios.');
+      expect(signIn.toolInvocations[0].result).toMatchObject({ success: true, signInRequired: true });
+      expect(uiComponent(signIn).data).toMatchObject({ type: 'login', data: { quoteId, paymentMethod: 'avios' } });
+
+      const login = await loginPOST({ request: new Request('http://localhost:4321/api/privilege-club/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'user-agent': 'jest', cookie: avios.cookie! },
+        body: JSON.stringify({ email: 'alex.johnson@email.com', password: 'avios-test' })
+      }) } as any);
+      expect(login.status).toBe(200);
+
+      const payment = await avios.send(`I've completed the form with the following details: ${JSON.stringify({
+        signedIn: true, paymentMethod: 'avios', quoteId
+      })}`);
+      expect(uiComponent(payment).data).toMatchObject({ type: 'payment', data: { tierStatus: 'Gold', aviosBalance: 275000 } });
+
+      const confirmation = await avios.send(`I've completed the form with the following details: ${JSON.stringify({
+        paymentMethod: 'avios', quoteId
+      })}`);
+      expect(confirmation.toolInvocations[0].result).toMatchObject({ success: true, bookingComplete: true });
+      expect(uiComponent(confirmation).data.items).toContainEqual({ label: 'Payment Method', value: 'Avios' });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Seasonal rate calendar tests
+ * Validates date-based hotel and tour rates and that stopovers are priced for the itinerary's dates
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { getHotelById } from '../data/hotelData';
+import { getTourById } from '../data/tourData';
+import { sampleStopoverSelection } from '../data/sampleJourney';
+import { calculatePricingBreakdown } from '../data/pricingData';
+import {
+  calculateStopoverDates,
+  getStayNights,
+  getHotelNightlyRate,
+  getStopoverNightlyRate,
+  getTourRate,
+  calculateStayCost
+} from '../data/rateCalendar';
+import { testCardTokens } from '../data/paymentData';
+
+describe('Seasonal Pricing', () => {
+  const millennium = getHotelById('millennium-doha')!;
+
+  describe('Rate calendar', () => {
+    it('should derive the stopover nights from the journey\'s Doha arrival date', () => {
+      const dates = calculateStopoverDates({ outbound: '2026-12-30', return: '2027-01-10' }, 'outbound', 3);
+
+      expect(dates).toEqual({ checkIn: '2026-12-30', checkOut: '2027-01-02' });
+      expect(getStayNights(dates.checkIn, 3)).toEqual(['2026-12-30', '2026-12-31', '2027-01-01']);
+    });
+
+    it('should use seasonal rates inside a period and catalog prices outside it', () => {
+      expect(getHotelNightlyRate(millennium, '2026-11-25')).toBe(180);
+      expect(getHotelNightlyRate(millennium, '2026-11-26')).toBe(260);
+      expect(getHotelNightlyRate(millennium, '2027-02-20')).toBe(155);
+      expect(getHotelNightlyRate(millennium)).toBe(180);
+
+      const whaleSharks = getTourById('whale-sharks-qatar')!;
+      expect(getTourRate(whaleSharks, '2027-07-01')).toBe(225);
+      expect(getTourRate(whaleSharks, '2026-11-12')).toBe(195);
+    });
+
+    it('should quote a hotel from its lowest first-night rate on either journey', () => {
+      expect(getStopoverNightlyRate(millennium, { outbound: '2026-11-26', return: '2027-02-20' })).toBe(155);
+      expect(getStopoverNightlyRate(millennium, { outbound: '2026-11-26' })).toBe(260);
+    });
+
+    it('should price each night of a stay that crosses into a season on its own', () => {
+      // 25 Nov at the catalog rate, 26 and 27 Nov at Grand Prix rates
+      expect(calculateStayCost(millennium, 3, '2026-11-25')).toBe(180 + 260 + 260);
+    });
+
+    it('should price a dated selection night by night and an undated one at catalog rates', () => {
+      const grandPrix = { ...sampleStopoverSelection, dates: calculateStopoverDates({ outbound: '2026-11-26', return: '2026-12-03' }, 'outbound', 2) };
+      const undated = { ...sampleStopoverSelection, dates: undefined };
+
+      expect(calculatePricingBreakdown(grandPrix, 2).hotelCost).toBe(285 * 2);
+      expect(calculatePricingBreakdown(undated, 2).hotelCost).toBe(195 * 2);
+    });
+  });
+
+  describe('Booking tools', () => {
+    let session: BookingSession;
+    let ledger: BookingLedger;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    beforeEach(async () => {
+      session = new BookingSession('conv_seasonal', new InMemoryBookingSessionStore(), {
+        travelDates: { outbound: '2026-11-26', return: '2027-03-08' }
+      });
+      ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+      tools = createBookingFunctions(session, ledger);
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+    });
+
+    it('should list hotels at the rate the quote charges for the itinerary', async () => {
+      const hotels = await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+
+      // Grand Prix rates on the outbound arrival, Ramadan rates on the return one
+      const listed = hotels.uiComponent!.data.hotels.find((hotel: any) => hotel.id === 'millennium-doha');
+      expect(listed.pricePerNight).toBe(155);
+      expect(hotels.hotels!.find(hotel => hotel.id === 'millennium-doha')!.priceDifference).toBe(5);
+
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 1 });
+      const quote = await tools.selectExtras.execute({ includeTransfers: false, selectedTours: [], totalExtrasPrice: 0 });
+      expect(quote.pricing!.hotelCost).toBe(listed.pricePerNight);
+    });
+
+    it('should take the stopover dates from the itinerary', async () => {
+      const result = await tools.selectTimingAndDuration.execute({ timing: 'return', duration: 3 });
+
+      expect(result.stopoverDates).toEqual({ checkIn: '2027-03-08', checkOut: '2027-03-11' });
+      expect(session.getState().stopoverDates).toEqual(result.stopoverDates);
+      expect(result.message).toContain('Ramadan and Eid al-Fitr');
+    });
+
+    it('should show and charge tour prices for the stopover dates', async () => {
+      const options = await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      const cityTour = options.uiComponent!.data.tours.find((tour: any) => tour.id === 'doha-city-skyline-tour');
+      expect(cityTour.price).toBe(150);
+
+      const result = await tools.selectExtras.execute({
+        includeTransfers: false,
+        selectedTours: [{ tourId: 'doha-city-skyline-tour', tourName: 'Doha City & Skyline Tour', totalPrice: 0 }],
+        totalExtrasPrice: 0
+      });
+
+      expect(result.pricing).toMatchObject({ hotelCost: 260 + 260, toursCost: 300 });
+    });
+
+    it('should reprice an amended booking for its new dates', async () => {
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 1 });
+      const { quoteId } = await tools.selectExtras.execute({ includeTransfers: false, selectedTours: [], totalExtrasPrice: 0 });
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      const { newPNR } = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+
+      // Grand Prix night for $260 moves to a Ramadan night for $155
+      const result = await tools.amendStopover.execute({ pnr: newPNR, timing: 'return' });
+
+      expect(result.adjustment).toMatchObject({ type: 'refund', amount: 110.25 });
+      expect((await ledger.get(newPNR!))!.bookingState.stopoverSelection!.dates).toEqual({ checkIn: '2027-03-08', checkOut: '2027-03-09' });
+    });
+  });
+});
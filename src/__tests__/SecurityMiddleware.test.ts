@@ -0,0 +1,46 @@
+/**
+ * Security middleware tests
+ * Validates that API requests are checked for their origin and rate limit,
+ * and that allowed requests get the CORS, security and rate limit headers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { securityMiddleware } from '../utils/security';
+
+// Minimal stand-in for the Fetch API request the middleware reads
+const apiRequest = (headers: Record<string, string>) => ({
+  url: 'http://localhost:4321/api/chat',
+  method: 'POST',
+  headers: new Map(Object.entries({ 'content-type': 'application/json', 'user-agent': 'jest', ...headers }))
+}) as unknown as Request;
+
+describe('Security Middleware', () => {
+  it('should allow a request from a configured origin with security and rate limit headers', () => {
+    const result = securityMiddleware(apiRequest({ origin: 'http://localhost:4321', 'cf-connecting-ip': '203.0.113.1' }));
+
+    expect(result.allowed).toBe(true);
+    expect(result.headers).toMatchObject({
+      'Access-Control-Allow-Origin': 'http://localhost:4321',
+      'X-Content-Type-Options': 'nosniff',
+      'X-RateLimit-Remaining': '59'
+    });
+  });
+
+  it('should refuse a request from another origin', () => {
+    const result = securityMiddleware(apiRequest({ origin: 'https://attacker.example', 'cf-connecting-ip': '203.0.113.2' }));
+
+    expect(result).toMatchObject({ allowed: false, status: 403, errors: ['Origin not allowed'] });
+    expect(result.headers['Access-Control-Allow-Origin']).not.toBe('https://attacker.example');
+  });
+
+  it('should refuse a client over its rate limit', () => {
+    const request = apiRequest({ 'cf-connecting-ip': '203.0.113.3' });
+    for (let i = 0; i < 60; i++) {
+      expect(securityMiddleware(request).allowed).toBe(true);
+    }
+
+    const result = securityMiddleware(request);
+    expect(result).toMatchObject({ allowed: false, status: 429, errors: ['Rate limit exceeded'] });
+    expect(result.headers['X-RateLimit-Remaining']).toBe('0');
+  });
+});
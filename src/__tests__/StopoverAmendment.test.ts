@@ -0,0 +1,169 @@
+/**
+ * Stopover amendment and cancellation tests
+ * Validates that confirmed bookings can be changed or cancelled by PNR with the right refund or charge
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { guardBookingFunctions } from '../lib/booking-flow';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { testCardTokens } from '../data/paymentData';
+
+describe('Stopover Amendment and Cancellation', () => {
+  let ledger: BookingLedger;
+  let availability: AvailabilityManager;
+  let tools: ReturnType<typeof createBookingFunctions>;
+  let pnr: string;
+
+  // Millennium Hotel Doha for 2 nights with transfers and 2 whale shark seats: $976.50 with the tourism fee and VAT
+  const confirmBooking = async (paymentMethod: 'credit-card' | 'avios' = 'credit-card') => {
+    await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+    await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+    await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    const extras = await tools.selectExtras.execute({
+      includeTransfers: true,
+      selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+      totalExtrasPrice: 450
+    });
+    await tools.initiatePayment.execute({ paymentMethod, quoteId: extras.quoteId });
+    const result = await tools.completeBooking.execute({ quoteId: extras.quoteId, paymentData: { method: paymentMethod, confirmed: true, cardToken: testCardTokens.approved } });
+    return result.newPNR!;
+  };
+
+  beforeEach(async () => {
+    ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+    availability = new AvailabilityManager(new InMemoryInventoryStore());
+    const session = new BookingSession('conv_amend', new InMemoryBookingSessionStore());
+    await session.update({ customerSessionId: 'session_alex' });
+    tools = guardBookingFunctions(createBookingFunctions(session, ledger, localFxRateSource, availability), session);
+    pnr = await confirmBooking();
+  });
+
+  describe('amendStopover', () => {
+    it('should charge the difference when adding a night', async () => {
+      const result = await tools.amendStopover.execute({ pnr, duration: 3 });
+
+      expect(result.success).toBe(true);
+      expect(result.adjustment).toMatchObject({ type: 'charge', amount: 194.5, currency: 'USD', previousTotal: 976.5, newTotal: 1171 });
+      expect((await ledger.get(pnr))!.bookingState.stopoverSelection!.duration).toBe(3);
+    });
+
+    it('should refund the difference when dropping a tour', async () => {
+      const result = await tools.amendStopover.execute({ pnr, tours: [] });
+
+      expect(result.adjustment).toMatchObject({ type: 'refund', amount: 409.5 });
+      expect((await ledger.get(pnr))!.bookingState.stopoverSelection!.extras.tours).toHaveLength(0);
+    });
+
+    it('should move the booking into the new hotel\'s category when swapping hotel', async () => {
+      const result = await tools.amendStopover.execute({ pnr, hotelId: 'raffles-doha' });
+      const selection = (await ledger.get(pnr))!.bookingState.stopoverSelection!;
+
+      expect(result.adjustment).toMatchObject({ type: 'charge', amount: 252 });
+      expect(selection.hotel.id).toBe('raffles-doha');
+      expect(selection.stopovertype.id).toBe('luxury');
+    });
+
+    it('should show the old and new booking side by side', async () => {
+      const result = await tools.amendStopover.execute({ pnr, duration: 3 });
+      const [previous, amended, difference] = result.uiComponent!.data.sections;
+
+      expect(previous.items).toEqual(expect.arrayContaining([{ label: 'Stopover', value: '2 nights, outbound journey' }]));
+      expect(amended.items).toEqual(expect.arrayContaining([{ label: 'Stopover', value: '3 nights, outbound journey' }]));
+      expect(difference.items).toEqual([{ label: 'Additional charge', value: '$194.50', highlight: true }]);
+    });
+
+    it('should record each adjustment on the booking', async () => {
+      await tools.amendStopover.execute({ pnr, duration: 3 });
+      await tools.amendStopover.execute({ pnr, includeTransfers: false });
+
+      const adjustments = (await ledger.get(pnr))!.adjustments!;
+      expect(adjustments.map(adjustment => adjustment.type)).toEqual(['charge', 'refund']);
+    });
+
+    it('should reject an amendment with no changes', async () => {
+      const result = await tools.amendStopover.execute({ pnr });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('validation');
+    });
+
+    it('should reject an unknown PNR', async () => {
+      const result = await tools.amendStopover.execute({ pnr: 'ZZZZZZ', duration: 3 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('ZZZZZZ');
+    });
+  });
+
+  describe('cancelStopover', () => {
+    it('should cancel the booking and refund the full amount', async () => {
+      const result = await tools.cancelStopover.execute({ pnr });
+
+      expect(result.success).toBe(true);
+      expect(result.adjustment).toMatchObject({ type: 'refund', amount: 976.5, reason: 'cancellation' });
+      expect((await ledger.get(pnr))!.status).toBe('cancelled');
+    });
+
+    it('should refund Avios for bookings paid with Avios', async () => {
+      const aviosSession = new BookingSession('conv_avios', new InMemoryBookingSessionStore(), {
+        privilegeClub: { memberId: 'QR12345678', tierStatus: 'Gold', aviosBalance: 275000 }
+      });
+      tools = guardBookingFunctions(createBookingFunctions(aviosSession, ledger, localFxRateSource, availability), aviosSession);
+      const aviosPnr = await confirmBooking('avios');
+
+      const result = await tools.cancelStopover.execute({ pnr: aviosPnr });
+
+      // The signed-in member is Gold, redeeming at 115 Avios per $1
+      expect(result.adjustment).toMatchObject({ type: 'refund', currency: 'AVIOS', amount: 112298 });
+      expect(result.message).toContain('112,298 Avios');
+    });
+
+    it('should not change a cancelled booking', async () => {
+      await tools.cancelStopover.execute({ pnr });
+
+      const cancelAgain = await tools.cancelStopover.execute({ pnr });
+      const amend = await tools.amendStopover.execute({ pnr, duration: 1 });
+
+      expect(cancelAgain.success).toBe(false);
+      expect(amend.success).toBe(false);
+      expect(amend.error).toContain('cancelled');
+    });
+  });
+
+  describe('booking ownership', () => {
+    // Another conversation, in the given server-issued customer session
+    const conversationIn = async (customerSessionId: string) => {
+      const otherSession = new BookingSession('conv_other', new InMemoryBookingSessionStore());
+      await otherSession.update({ customerSessionId });
+      return guardBookingFunctions(createBookingFunctions(otherSession, ledger, localFxRateSource, availability), otherSession);
+    };
+
+    it('should record the customer session that made the booking', async () => {
+      expect((await ledger.get(pnr))!.customerSessionId).toBe('session_alex');
+    });
+
+    it('should not let another customer session change or cancel the booking by PNR', async () => {
+      const otherTools = await conversationIn('session_other');
+      const amend = await otherTools.amendStopover.execute({ pnr, duration: 3 });
+      const cancel = await otherTools.cancelStopover.execute({ pnr, lastName: 'Johnson', email: 'alex.johnson@email.com' } as any);
+      const booking = (await ledger.get(pnr))!;
+
+      expect(amend).toMatchObject({ success: false, error: `No confirmed stopover booking found for PNR ${pnr}` });
+      expect(cancel).toMatchObject({ success: false, error: `No confirmed stopover booking found for PNR ${pnr}` });
+      expect(booking.status).toBe('confirmed');
+      expect(booking.bookingState.stopoverSelection!.duration).toBe(2);
+    });
+
+    it('should let the same customer session change it from another conversation', async () => {
+      const otherTools = await conversationIn('session_alex');
+      const amend = await otherTools.amendStopover.execute({ pnr, duration: 3 });
+      const cancel = await otherTools.cancelStopover.execute({ pnr });
+
+      expect(amend.success).toBe(true);
+      expect(cancel.success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Taxes and fees tests
+ * Validates that the tourism fee, VAT and card surcharge are itemised on the quote and in the
+ * booking summary, and that the total quoted before payment is the amount charged
+ */
+
+import type { StopoverSelection } from '../types';
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { getHotelById } from '../data/hotelData';
+import { getTourById } from '../data/tourData';
+import { getCategoryById } from '../data/stopoverCategories';
+import { defaultTransferOption } from '../data/transferData';
+import { convertPricingBreakdown, localFxSnapshot } from '../data/currencyData';
+import { getPromoCode } from '../data/promotionData';
+import {
+  calculatePricingBreakdown,
+  calculateCardSurcharge,
+  calculateTaxTotal,
+  addCardSurcharge,
+  getRefundableTotal
+} from '../data/pricingData';
+import { testCardTokens } from '../data/paymentData';
+
+describe('Taxes and Fees', () => {
+  // Two nights at the Millennium ($180), transfers ($60) and whale sharks for two ($390)
+  const selection = (overrides: Partial<StopoverSelection> = {}): StopoverSelection => ({
+    timing: 'outbound',
+    duration: 2,
+    passengers: 2,
+    stopovertype: getCategoryById('premium')!,
+    hotel: getHotelById('millennium-doha')!,
+    extras: {
+      transfers: defaultTransferOption,
+      tours: [{ tour: getTourById('whale-sharks-qatar')!, quantity: 2, totalPrice: 390 }],
+      totalExtrasPrice: 0
+    },
+    ...overrides
+  });
+
+  describe('Pricing breakdown', () => {
+    it('should charge the tourism fee per room-night and VAT on the stopover services, not the fare', () => {
+      const pricing = calculatePricingBreakdown(selection({ duration: 3 }), 3);
+
+      expect(pricing.taxes).toEqual([
+        { type: 'tourism-fee', label: 'Qatar tourism fee', amount: 16.5 },
+        { type: 'vat', label: 'VAT (5%) on stopover services', amount: 49.5 }
+      ]);
+      expect(pricing.totalCashPrice).toBe(115 + 540 + 60 + 390 + 16.5 + 49.5);
+    });
+
+    it('should charge VAT on the price after discounts', () => {
+      const pricing = calculatePricingBreakdown(selection(), 2, getPromoCode('DOHA10'));
+
+      expect(pricing.taxes!.find(tax => tax.type === 'vat')!.amount).toBe(36.45);
+      expect(pricing.totalCashPrice).toBe(115 + 810 - 81 + 11 + 36.45);
+    });
+
+    it('should convert the tax lines and keep the total equal to the lines', () => {
+      const pricing = convertPricingBreakdown(calculatePricingBreakdown(selection(), 2), 'GBP', {
+        ...localFxSnapshot,
+        rates: { ...localFxSnapshot.rates, GBP: 0.8 }
+      });
+
+      expect(pricing.taxes!.map(tax => tax.amount)).toEqual([8.8, 32.4]);
+      expect(pricing.totalCashPrice).toBeCloseTo(
+        pricing.flightFareDifference + pricing.hotelCost + pricing.transfersCost + pricing.toursCost + calculateTaxTotal(pricing.taxes),
+        2
+      );
+    });
+
+    it('should surcharge only what is paid by card, and never refund the surcharge', () => {
+      expect(calculateCardSurcharge('credit-card', 976.5)).toBe(14.65);
+      expect(calculateCardSurcharge('avios', 976.5)).toBe(0);
+
+      const charged = addCardSurcharge(calculatePricingBreakdown(selection(), 2), 14.65);
+      expect(charged.taxes).toContainEqual({ type: 'card-surcharge', label: 'Card surcharge', amount: 14.65 });
+      expect(charged.totalCashPrice).toBe(991.15);
+      expect(getRefundableTotal(charged)).toBe(976.5);
+    });
+  });
+
+  describe('Booking tools', () => {
+    let session: BookingSession;
+    let ledger: BookingLedger;
+    let tools: ReturnType<typeof createBookingFunctions>;
+
+    const quote = async () => {
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      return tools.selectExtras.execute({
+        includeTransfers: true,
+        selectedTours: [{ tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks of Qatar', quantity: 2, totalPrice: 390 }],
+        totalExtrasPrice: 450
+      });
+    };
+
+    beforeEach(() => {
+      session = new BookingSession('conv_taxes', new InMemoryBookingSessionStore(), {
+        privilegeClub: { memberId: 'QR12345678', tierStatus: 'Gold', aviosBalance: 275000 }
+      });
+      ledger = new BookingLedger(new InMemoryBookingLedgerStore());
+      tools = createBookingFunctions(session, ledger, localFxRateSource, new AvailabilityManager(new InMemoryInventoryStore()));
+    });
+
+    it('should itemise the taxes in the booking summary and disclose the card surcharge', async () => {
+      const summary = await quote();
+
+      expect(summary.uiComponent!.data.items).toEqual(expect.arrayContaining([
+        { label: 'Qatar tourism fee', value: '$11' },
+        { label: 'VAT (5%) on stopover services', value: '$40.50' }
+      ]));
+      expect(summary.uiComponent!.data.total).toBe('$976.50');
+      expect(summary.uiComponent!.data).toMatchObject({ cardTotal: '$991.15', cardSurcharge: '$14.65' });
+      expect(summary.uiComponent!.data.notes[0]).toContain('1.5% card surcharge');
+      expect(summary.message).toContain('$991.15 by card');
+    });
+
+    it('should charge by card exactly the total it quoted in the summary', async () => {
+      const { quoteId, uiComponent } = await quote();
+      expect(uiComponent!.data.cardTotal).toBe('$991.15');
+
+      const payment = await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      expect(payment.message).toContain('$991.15 (including a $14.65 card surcharge)');
+      expect(session.getState().payment).toMatchObject({ amount: 991.15, surcharge: 14.65 });
+
+      const booking = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+      expect(booking.uiComponent!.data.items).toContainEqual({ label: 'Total', value: '$991.15' });
+      expect((await ledger.get(booking.newPNR!))!.bookingState.pricing!.totalCashPrice).toBe(991.15);
+    });
+
+    it('should not surcharge an Avios payment', async () => {
+      const { quoteId } = await quote();
+
+      const payment = await tools.initiatePayment.execute({ paymentMethod: 'avios', quoteId });
+
+      expect(payment.message).not.toContain('surcharge');
+      expect(session.getState().payment!.surcharge).toBeUndefined();
+    });
+
+    it('should refund the booking without the card surcharge on cancellation', async () => {
+      const { quoteId } = await quote();
+      await tools.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId });
+      const { newPNR } = await tools.completeBooking.execute({ quoteId, paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } });
+
+      const result = await tools.cancelStopover.execute({ pnr: newPNR });
+
+      expect(result.adjustment).toMatchObject({ type: 'refund', amount: 976.5 });
+    });
+  });
+});
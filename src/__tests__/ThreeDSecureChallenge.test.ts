@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 3-D Secure challenge tests
+ * Validates that the challenge endpoint behind a payment's challengeUrl passes or fails the check,
+ * so the booking tools can capture the authorisation afterwards
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { POST } from '../pages/api/payments/3ds/[id]';
+import { localPaymentProvider } from '../lib/payment-provider';
+import { testCardTokens } from '../data/paymentData';
+
+describe('3-D Secure Challenge', () => {
+  const challengedPayment = () => localPaymentProvider.authorise({
+    reference: 'QT-test',
+    amount: 100,
+    currency: 'USD',
+    cardToken: testCardTokens.challenge
+  });
+
+  const completeChallenge = (id: string, body: Record<string, unknown>) => POST({
+    params: { id },
+    request: new Request(`http://localhost:4321/api/payments/3ds/${id}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'user-agent': 'jest' },
+      body: JSON.stringify(body)
+    })
+  } as any);
+
+  it('should authorise the payment when the customer passes the check', async () => {
+    const payment = await challengedPayment();
+    expect(payment.challengeUrl).toBe(`/payments/3ds/${payment.id}`);
+
+    const response = await completeChallenge(payment.id, { passed: true });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, status: 'authorised' });
+    expect(await localPaymentProvider.capture(payment.id)).toMatchObject({ status: 'captured', capturedAmount: 100 });
+  });
+
+  it('should decline the payment when the customer fails the check', async () => {
+    const payment = await challengedPayment();
+
+    const response = await completeChallenge(payment.id, { passed: false });
+
+    expect(await response.json()).toMatchObject({ success: false, status: 'declined' });
+    expect((await localPaymentProvider.retrieve(payment.id)).declineReason).toBe('3-D Secure check failed');
+  });
+
+  it('should reject a payment with no challenge waiting', async () => {
+    const payment = await challengedPayment();
+    await completeChallenge(payment.id, { passed: true });
+
+    const again = await completeChallenge(payment.id, { passed: true });
+    const unknown = await completeChallenge('pay_missing', { passed: true });
+
+    expect(again.status).toBe(409);
+    expect(unknown.status).toBe(409);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tour recommendation tests
+ * Validates that tours are scored and ranked against the stopover's dates, nights,
+ * flight times, passenger mix and stated interests
+ */
+
+import { createBookingFunctions } from '../lib/booking-functions';
+import { BookingSession, InMemoryBookingSessionStore } from '../lib/booking-session';
+import { BookingLedger, InMemoryBookingLedgerStore } from '../lib/booking-ledger';
+import { AvailabilityManager, InMemoryInventoryStore } from '../lib/availability';
+import { localFxRateSource } from '../lib/fx-rates';
+import { getRecommendedTours, getRecommendedTour, extractTourInterests } from '../data/tourData';
+import type { TourRecommendationContext } from '../types';
+
+const ranking = (context: TourRecommendationContext) => getRecommendedTours(context).map(tour => tour.id);
+
+describe('Tour Recommendations', () => {
+  const summer: TourRecommendationContext = {
+    dates: { checkIn: '2027-07-01', checkOut: '2027-07-03' },
+    nights: 2,
+    interests: ['marine-life']
+  };
+
+  const november: TourRecommendationContext = {
+    dates: { checkIn: '2026-11-12', checkOut: '2026-11-13' },
+    nights: 1,
+    times: { arrival: '06:45', departure: '20:05' }
+  };
+
+  describe('Scoring', () => {
+    it('should rank in-season tours matching the customer\'s interests first', () => {
+      const tours = getRecommendedTours(summer);
+
+      expect(tours.map(tour => [tour.id, tour.matchScore])).toEqual([
+        ['whale-sharks-qatar', 90],
+        ['pearl-diving-experience', 75],
+        ['doha-city-skyline-tour', 50],
+        ['desert-safari-adventure', 30]
+      ]);
+      expect(tours[0].isRecommended).toBe(true);
+      expect(tours.slice(1).every(tour => !tour.isRecommended)).toBe(true);
+      expect(tours[0].recommendationReason).toBe(
+        'Matches your interest in marine life. Whale shark season is at its peak during your stopover'
+      );
+    });
+
+    it('should mark down tours out of season and explain why', () => {
+      const tours = getRecommendedTours(november);
+      const whaleSharks = tours.find(tour => tour.id === 'whale-sharks-qatar')!;
+
+      expect(tours[0].id).toBe('desert-safari-adventure');
+      expect(tours[0].recommendationReason).toContain('Fits between your 06:45 arrival and 20:05 departure');
+      expect(whaleSharks.matchScore).toBe(40);
+      expect(whaleSharks.recommendationReason).toBe('Whale shark sightings are rare outside May to September');
+    });
+
+    it('should rule out tours that do not fit between the flights', () => {
+      const tours = getRecommendedTours({ ...november, times: { arrival: '23:55', departure: '07:40' } });
+
+      tours.forEach(tour => {
+        expect(tour.recommendationReason).toBe('Doesn\'t fit between your 23:55 arrival and 07:40 departure');
+        expect(tour.matchScore).toBeLessThan(50);
+      });
+    });
+
+    it('should favour tours the whole party can join', () => {
+      const withInfant = { ...summer, passengerMix: { adults: 2, children: 0, infants: 1 } };
+
+      expect(getRecommendedTour(withInfant).id).toBe('whale-sharks-qatar');
+      expect(ranking({ ...withInfant, interests: [] })[0]).toBe('doha-city-skyline-tour');
+    });
+  });
+
+  describe('Interests', () => {
+    it('should pick up interests from what the customer says', () => {
+      expect(extractTourInterests('We love snorkelling and would like to see the souq')).toEqual(['marine-life', 'culture']);
+      expect(extractTourInterests('A great dinner in the desert please')).toEqual(['adventure', 'food']);
+      expect(extractTourInterests('Just the hotel, thanks')).toEqual([]);
+    });
+  });
+
+  describe('Booking tools', () => {
+    it('should offer the ranked tours with places left for the stopover', async () => {
+      const availability = new AvailabilityManager(new InMemoryInventoryStore());
+      const session = new BookingSession('conv_tours', new InMemoryBookingSessionStore(), {
+        travelDates: { outbound: '2027-07-01', return: '2027-07-08' },
+        interests: ['marine-life']
+      });
+      const tools = createBookingFunctions(session, new BookingLedger(new InMemoryBookingLedgerStore()), localFxRateSource, availability);
+      await tools.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await tools.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+
+      const result = await tools.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+      const { tours, recommendedTour } = result.uiComponent!.data;
+
+      expect(recommendedTour).toMatchObject({ id: 'whale-sharks-qatar', isRecommended: true, price: 225, seatsRemaining: 12 });
+      expect(tours.map((tour: any) => tour.id)).toEqual(ranking({ ...summer, passengerMix: undefined }));
+    });
+  });
+});
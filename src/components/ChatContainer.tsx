@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useChat } from 'ai/react';
 import MessageBubble from './MessageBubble';
 import MultiModalInput from './MultiModalInput';
+import { omitCardDetails, omitLoginCredentials } from '../utils/form-utils';
 import type { 
   ConversationState, 
   Message, 
@@ -37,6 +38,9 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
   onClose,
   onConversationUpdate
 }) => {
+  // Identifies this conversation's booking session and state to the chat API
+  const conversationIdRef = useRef<string>(`conv_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`);
+
   // LLM Chat integration using Vercel AI SDK
   const {
     messages: chatMessages,
@@ -44,8 +48,9 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     error: llmError,
     append
   } = useChat({
-    api: '/api/chat-minimal',
+    api: '/api/chat',
     body: {
+      conversationId: conversationIdRef.current,
       conversationContext: {
         customer,
         booking,
@@ -90,7 +95,6 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
   // Refs for DOM manipulation and persistence
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
-  const conversationIdRef = useRef<string>(`conv_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`);
 
   // Mobile detection
   useEffect(() => {
@@ -258,12 +262,15 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
 
   // Handle form submissions from MessageBubble
   const handleFormSubmit = useCallback(async (formData: any) => {
-    console.log('Form submitted:', formData);
+    // Card details are tokenised by the payment form and login credentials stay in it;
+    // anything left of either is kept out of the chat
+    const details = omitLoginCredentials(omitCardDetails(formData));
+    console.log('Form submitted:', details);
     
     // Send form data to LLM
     await append({
       role: 'user',
-      content: `I've completed the form with the following details: ${JSON.stringify(formData)}`
+      content: `I've completed the form with the following details: ${JSON.stringify(details)}`
     });
   }, [append]);
 
@@ -1,16 +1,24 @@
 import React from 'react';
-import type { HotelOption } from '../types';
+import type { HotelOption, Currency } from '../types';
+import { formatCatalogPrice } from '../data/pricingData';
 
 interface HotelCarouselProps {
   hotels: HotelOption[];
   onHotelSelect: (hotel: HotelOption) => void;
   selectedHotelId?: string;
+  categoryName?: string;
+  categoryPricePerNight?: number;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
 interface HotelCardProps {
   hotel: HotelOption;
   onSelect: (hotel: HotelOption) => void;
   isSelected: boolean;
+  categoryPricePerNight?: number;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
 const StarRating: React.FC<{ rating: number }> = ({ rating }) => {
@@ -32,11 +40,32 @@ const StarRating: React.FC<{ rating: number }> = ({ rating }) => {
   );
 };
 
-const HotelCard: React.FC<HotelCardProps> = ({ hotel, onSelect, isSelected }) => {
+const HotelCard: React.FC<HotelCardProps> = ({
+  hotel,
+  onSelect,
+  isSelected,
+  categoryPricePerNight,
+  currency,
+  exchangeRate
+}) => {
   const handleSelect = () => {
     onSelect(hotel);
   };
 
+  // Nightly price relative to the selected stopover category
+  const getRelativePriceLabel = (): string | null => {
+    if (categoryPricePerNight === undefined) {
+      return null;
+    }
+    const difference = hotel.pricePerNight - categoryPricePerNight;
+    if (difference === 0) {
+      return 'Category rate';
+    }
+    return `${difference > 0 ? '+' : '-'}${formatCatalogPrice(Math.abs(difference), currency, exchangeRate)} vs category`;
+  };
+
+  const relativePriceLabel = getRelativePriceLabel();
+
   const getCategoryBadgeColor = (category: string) => {
     switch (category) {
       case '5-star deluxe':
@@ -45,6 +74,8 @@ const HotelCard: React.FC<HotelCardProps> = ({ hotel, onSelect, isSelected }) =>
         return 'bg-secondary-oneworld text-white';
       case '4-star':
         return 'bg-neutral-grey2 text-white';
+      case '3-star':
+        return 'bg-neutral-grey1 text-white';
       default:
         return 'bg-neutral-grey1 text-white';
     }
@@ -86,10 +117,17 @@ const HotelCard: React.FC<HotelCardProps> = ({ hotel, onSelect, isSelected }) =>
         <div className="absolute top-3 right-3">
           <div className="bg-white bg-opacity-95 rounded-lg px-3 py-2">
             <div className="text-right">
+              {/* Rate-calendar price for the first night of the stopover; later nights can fall in another season */}
+              <div className="text-xs text-neutral-grey1">from</div>
               <div className="text-lg font-bold text-primary-burgundy font-jotia">
-                ${hotel.pricePerNight}
+                {formatCatalogPrice(hotel.pricePerNight, currency, exchangeRate)}
               </div>
               <div className="text-xs text-neutral-grey1">per night</div>
+              {relativePriceLabel && (
+                <div className="text-xs font-medium text-primary-burgundy mt-1">
+                  {relativePriceLabel}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -149,7 +187,11 @@ const HotelCard: React.FC<HotelCardProps> = ({ hotel, onSelect, isSelected }) =>
 const HotelCarousel: React.FC<HotelCarouselProps> = ({
   hotels,
   onHotelSelect,
-  selectedHotelId
+  selectedHotelId,
+  categoryName,
+  categoryPricePerNight,
+  currency,
+  exchangeRate
 }) => {
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
 
@@ -173,7 +215,9 @@ const HotelCarousel: React.FC<HotelCarouselProps> = ({
           Select Your Hotel
         </h2>
         <p className="text-neutral-grey1 text-sm">
-          Choose from our premium selection of hotels in Doha
+          {categoryName
+            ? `Choose from our ${categoryName} selection of hotels in Doha`
+            : 'Choose from our premium selection of hotels in Doha'}
         </p>
       </div>
 
@@ -220,6 +264,9 @@ const HotelCarousel: React.FC<HotelCarouselProps> = ({
                 hotel={hotel}
                 onSelect={onHotelSelect}
                 isSelected={selectedHotelId === hotel.id}
+                categoryPricePerNight={categoryPricePerNight}
+                currency={currency}
+                exchangeRate={exchangeRate}
               />
             ))}
           </div>
@@ -233,6 +280,9 @@ const HotelCarousel: React.FC<HotelCarouselProps> = ({
               hotel={hotel}
               onSelect={onHotelSelect}
               isSelected={selectedHotelId === hotel.id}
+              categoryPricePerNight={categoryPricePerNight}
+              currency={currency}
+              exchangeRate={exchangeRate}
             />
           ))}
         </div>
@@ -251,7 +301,7 @@ const HotelCarousel: React.FC<HotelCarouselProps> = ({
                   Selected: {hotels.find(h => h.id === selectedHotelId)?.name}
                 </span>
                 <div className="text-xs text-neutral-grey1">
-                  {hotels.find(h => h.id === selectedHotelId)?.category} • ${hotels.find(h => h.id === selectedHotelId)?.pricePerNight} per night
+                  {hotels.find(h => h.id === selectedHotelId)?.category} • {formatCatalogPrice(hotels.find(h => h.id === selectedHotelId)?.pricePerNight ?? 0, currency, exchangeRate)} per night
                 </div>
               </div>
             </div>
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { ItineraryDay, ItineraryEvent, ScheduleIssue, StopoverDates } from '../types';
+
+interface ItineraryTimelineProps {
+  days: ItineraryDay[];
+  issues?: ScheduleIssue[];
+  hotelName?: string;
+  stopoverDates?: StopoverDates;
+}
+
+// Day heading, e.g. "Thu 12 Nov"
+const formatDayDate = (date: string) => new Date(`${date}T00:00:00Z`)
+  .toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const EVENT_STYLES: Record<ItineraryEvent['type'], { dot: string; label: string }> = {
+  flight: { dot: 'bg-primary-burgundy', label: 'Flight' },
+  transfer: { dot: 'bg-neutral-grey1', label: 'Transfer' },
+  tour: { dot: 'bg-secondary-oneworld', label: 'Tour' }
+};
+
+const TimelineEvent: React.FC<{ event: ItineraryEvent; isLast: boolean }> = ({ event, isLast }) => (
+  <li className="relative flex items-start space-x-3 pb-4">
+    {/* Connector */}
+    {!isLast && <div className="absolute left-1.5 top-4 bottom-0 w-0.5 bg-neutral-lightGrey" aria-hidden="true" />}
+    <div className={`relative mt-1 w-3 h-3 rounded-full flex-shrink-0 ${EVENT_STYLES[event.type].dot}`} />
+
+    <div className="flex-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-neutral-grey2">{event.title}</span>
+        <span className="text-sm text-neutral-grey1">
+          {event.startTime}{event.endTime ? ` – ${event.endTime}` : ''}
+        </span>
+      </div>
+      <span className="text-xs text-neutral-grey1">{EVENT_STYLES[event.type].label}</span>
+    </div>
+  </li>
+);
+
+const ItineraryTimeline: React.FC<ItineraryTimelineProps> = ({
+  days,
+  issues = [],
+  hotelName,
+  stopoverDates
+}) => {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  return (
+    <div className="w-full space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-xl font-semibold text-neutral-grey2 font-jotia mb-2">
+          Your Stopover Day by Day
+        </h2>
+        {(hotelName || stopoverDates) && (
+          <p className="text-neutral-grey1 text-sm">
+            {hotelName}{hotelName && stopoverDates ? ', ' : ''}
+            {stopoverDates && `${formatDayDate(stopoverDates.checkIn)} – ${formatDayDate(stopoverDates.checkOut)}`}
+          </p>
+        )}
+      </div>
+
+      {/* Conflicts */}
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4" role="alert">
+          {errors.map((issue, index) => (
+            <p key={index} className="text-sm text-red-800">{issue.message}</p>
+          ))}
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          {warnings.map((issue, index) => (
+            <p key={index} className="text-sm text-yellow-800">{issue.message}</p>
+          ))}
+        </div>
+      )}
+
+      {/* Days */}
+      {days.map((day, dayIndex) => (
+        <div key={day.date} className="space-y-3">
+          <h3 className="text-sm font-semibold text-neutral-grey2 uppercase tracking-wide">
+            Day {dayIndex + 1} · {formatDayDate(day.date)}
+          </h3>
+          {day.events.length > 0 ? (
+            <ol className="pl-1">
+              {day.events.map((event, index) => (
+                <TimelineEvent
+                  key={`${event.type}-${event.startTime}-${index}`}
+                  event={event}
+                  isLast={index === day.events.length - 1}
+                />
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-neutral-grey1">Free time to explore Doha</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ItineraryTimeline;
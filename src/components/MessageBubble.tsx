@@ -1,16 +1,40 @@
 import React from 'react';
-import type { Message, RichContent, FormContent, StopoverCategory, HotelOption, SelectedExtras, SelectedTour } from '../types';
+import type {
+  Message,
+  RichContent,
+  FormContent,
+  StopoverCategory,
+  HotelOption,
+  SelectedExtras,
+  SelectedTour,
+  Currency,
+  PaymentMethod,
+  CardToken
+} from '../types';
 import StopoverCategoryCarousel from './StopoverCategoryCarousel';
 import HotelCarousel from './HotelCarousel';
 import StopoverOptions from './StopoverOptions';
 import StopoverExtras from './StopoverExtras';
 import ToursCarousel from './ToursCarousel';
+import ItineraryTimeline from './ItineraryTimeline';
+import {
+  formatPrice,
+  formatCatalogPrice,
+  calculateCashShare,
+  calculateCardSurcharge,
+  AVIOS_REDEMPTION_STEP
+} from '../data/pricingData';
 import { 
   formatCreditCardNumber, 
   formatExpiryDate, 
   formatCVV, 
   validatePaymentForm, 
+  validateLoginForm,
   getCardType,
+  getCardBrandLabel,
+  CARD_BRANDS,
+  omitCardDetails,
+  omitLoginCredentials,
   type ValidationError 
 } from '../utils/form-utils';
 import privilegeClubLogoSrc from '../assets/images/privilege_club_logo.png';
@@ -80,6 +104,11 @@ const DeliveryStatus: React.FC<DeliveryStatusProps> = ({ status, timestamp }) =>
   );
 };
 
+// Tools send formatted price strings; raw amounts are formatted in the quote currency
+const formatSummaryPrice = (value: any, currency?: Currency) => {
+  return typeof value === 'number' ? formatPrice(value, currency) : value;
+};
+
 const RichContentRenderer: React.FC<{
   content: RichContent;
   onAction?: (action: string, data: any) => void;
@@ -100,6 +129,10 @@ const RichContentRenderer: React.FC<{
           hotels={content.data.hotels || []}
           onHotelSelect={(hotel: HotelOption) => onAction?.('selectHotel', hotel)}
           selectedHotelId={content.data.selectedHotelId}
+          categoryName={content.data.categoryName}
+          categoryPricePerNight={content.data.categoryPricePerNight}
+          currency={content.data.currency}
+          exchangeRate={content.data.exchangeRate}
         />
       );
 
@@ -111,6 +144,8 @@ const RichContentRenderer: React.FC<{
           selectedTiming={content.data.selectedTiming}
           selectedDuration={content.data.selectedDuration}
           originalRoute={content.data.originalRoute}
+          stopoverPositions={content.data.stopoverPositions}
+          travelDates={content.data.travelDates}
         />
       );
 
@@ -123,6 +158,8 @@ const RichContentRenderer: React.FC<{
           onExtrasChange={(extras: SelectedExtras) => onAction?.('selectExtras', extras)}
           selectedExtras={content.data.selectedExtras}
           passengers={content.data.passengers}
+          currency={content.data.currency}
+          exchangeRate={content.data.exchangeRate}
         />
       );
 
@@ -133,6 +170,18 @@ const RichContentRenderer: React.FC<{
           selectedTours={content.data.selectedTours || []}
           onToursChange={(tours: SelectedTour[]) => onAction?.('selectTours', tours)}
           maxParticipants={content.data.maxParticipants}
+          currency={content.data.currency}
+          exchangeRate={content.data.exchangeRate}
+        />
+      );
+
+    case 'itinerary-timeline':
+      return (
+        <ItineraryTimeline
+          days={content.data.days || []}
+          issues={content.data.issues}
+          hotelName={content.data.hotelName}
+          stopoverDates={content.data.stopoverDates}
         />
       );
 
@@ -156,7 +205,7 @@ const RichContentRenderer: React.FC<{
                 <p className="text-sm text-gray-600 mb-3">{item.description}</p>
                 {item.price && (
                   <p className="text-lg font-semibold text-primary-burgundy mb-3">
-                    ${item.price}
+                    {formatCatalogPrice(item.price, content.data.currency, content.data.exchangeRate)}
                   </p>
                 )}
                 <button
@@ -306,7 +355,7 @@ const RichContentRenderer: React.FC<{
             )) || content.data.items?.map((item: any, index: number) => (
               <div key={index} className="flex justify-between items-center">
                 <span className="text-gray-600">{item.label}</span>
-                <span className="font-medium text-gray-800">{item.value}</span>
+                <span className={`font-medium ${item.discount ? 'text-green-700' : 'text-gray-800'}`}>{item.value}</span>
               </div>
             ))}
             
@@ -316,7 +365,7 @@ const RichContentRenderer: React.FC<{
                 {content.data.pricing.breakdown?.map((item: any, index: number) => (
                   <div key={index} className="flex justify-between items-center text-sm">
                     <span className="text-gray-600">{item.label}</span>
-                    <span className="text-gray-800">{item.value}</span>
+                    <span className="text-gray-800">{formatSummaryPrice(item.value, content.data.currency)}</span>
                   </div>
                 ))}
                 
@@ -324,7 +373,7 @@ const RichContentRenderer: React.FC<{
                   <div className="border-t pt-2 mt-2">
                     <div className="flex justify-between items-center text-lg font-semibold">
                       <span>Total</span>
-                      <span className="text-primary-burgundy">{content.data.pricing.total}</span>
+                      <span className="text-primary-burgundy">{formatSummaryPrice(content.data.pricing.total, content.data.currency)}</span>
                     </div>
                     
                     {content.data.pricing.aviosEquivalent && (
@@ -343,10 +392,21 @@ const RichContentRenderer: React.FC<{
               <div className="border-t pt-3 mt-3">
                 <div className="flex justify-between items-center text-lg font-semibold">
                   <span>Total</span>
-                  <span className="text-primary-burgundy">{content.data.total}</span>
+                  <span className="text-primary-burgundy">{formatSummaryPrice(content.data.total, content.data.currency)}</span>
                 </div>
+                {content.data.cardTotal && (
+                  <div className="flex justify-between items-center text-sm text-gray-600 mt-1">
+                    <span>Paying by card (includes a {content.data.cardSurcharge} card surcharge)</span>
+                    <span>{content.data.cardTotal}</span>
+                  </div>
+                )}
               </div>
             )}
+
+            {/* Tax and surcharge disclosures */}
+            {content.data.notes?.map((note: string, index: number) => (
+              <p key={index} className="text-xs text-gray-500">{note}</p>
+            ))}
           </div>
 
           {/* Action Buttons */}
@@ -385,11 +445,33 @@ const FormRenderer: React.FC<{
   content: FormContent;
   onSubmit?: (formData: any) => void;
 }> = ({ content, onSubmit }) => {
+  // A payment the agent has already started is locked to its method; otherwise default to credit card
+  const startedMethod: PaymentMethod | undefined = content.data?.paymentMethod;
   const [formData, setFormData] = React.useState<Record<string, any>>({
-    paymentMethod: 'credit-card' // Default to credit card
+    paymentMethod: startedMethod ?? 'credit-card'
   });
   const [validationErrors, setValidationErrors] = React.useState<ValidationError[]>([]);
-  const [activeTab, setActiveTab] = React.useState<'credit-card' | 'avios'>('credit-card');
+  const [activeTab, setActiveTab] = React.useState<PaymentMethod>(startedMethod ?? 'credit-card');
+  const [isTokenising, setIsTokenising] = React.useState(false);
+  const [isSigningIn, setIsSigningIn] = React.useState(false);
+
+  // Cash + Avios allocation, kept below the full Avios price so some cash is always due
+  const totalAmount = content.data?.totalAmount || 0;
+  const aviosPrice = content.data?.totalAviosPrice || 0;
+  const aviosBalance = content.data?.aviosBalance ?? 0;
+  const maxAviosToUse = Math.max(
+    0,
+    Math.floor(Math.min(aviosBalance, aviosPrice - 1) / AVIOS_REDEMPTION_STEP) * AVIOS_REDEMPTION_STEP
+  );
+  const [aviosToUse, setAviosToUse] = React.useState<number>(
+    Math.min(
+      Math.max(
+        content.data?.aviosToUse ?? Math.floor(maxAviosToUse / 2 / AVIOS_REDEMPTION_STEP) * AVIOS_REDEMPTION_STEP,
+        AVIOS_REDEMPTION_STEP
+      ),
+      maxAviosToUse
+    )
+  );
 
   const handleInputChange = (fieldId: string, value: any) => {
     let processedValue = value;
@@ -400,7 +482,7 @@ const FormRenderer: React.FC<{
     } else if (fieldId === 'expiryDate') {
       processedValue = formatExpiryDate(value);
     } else if (fieldId === 'cvv') {
-      processedValue = formatCVV(value);
+      processedValue = formatCVV(value, formData.cardNumber);
     }
     
     setFormData(prev => ({ ...prev, [fieldId]: processedValue, paymentMethod: activeTab }));
@@ -409,14 +491,85 @@ const FormRenderer: React.FC<{
     setValidationErrors(prev => prev.filter(error => error.field !== fieldId));
   };
 
-  const handleTabChange = (tab: 'credit-card' | 'avios') => {
+  const handleTabChange = (tab: PaymentMethod) => {
+    if (startedMethod && tab !== startedMethod) return;
     setActiveTab(tab);
     setFormData(prev => ({ ...prev, paymentMethod: tab }));
     setValidationErrors([]);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Send the card to the payment provider, getting back a token and masked summary to put in the chat instead
+  const tokeniseCard = async (): Promise<CardToken | undefined> => {
+    const { cardNumber, expiryDate, cvv, nameOnCard } = formData;
+    try {
+      setIsTokenising(true);
+      const response = await fetch('/api/payments/tokenize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cardNumber, expiryDate, cvv, nameOnCard })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setValidationErrors(result.errors?.length
+          ? result.errors
+          : [{ field: 'cardNumber', message: 'We couldn\'t verify this card. Please check the details and try again.' }]);
+        return undefined;
+      }
+      return { token: result.token, brand: result.brand, last4: result.last4 };
+    } catch (error) {
+      setValidationErrors([{ field: 'cardNumber', message: 'We couldn\'t reach our payment provider. Please try again.' }]);
+      return undefined;
+    } finally {
+      setIsTokenising(false);
+    }
+  };
+
+  // Sign in to Privilege Club on the server, which remembers the member for this session; the password stays here
+  const signInToPrivilegeClub = async (): Promise<boolean> => {
+    const { email, password } = formData;
+    try {
+      setIsSigningIn(true);
+      const response = await fetch('/api/privilege-club/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setValidationErrors(result.errors?.length
+          ? result.errors
+          : [{ field: 'password', message: result.error || 'We couldn\'t sign you in. Please try again.' }]);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      setValidationErrors([{ field: 'password', message: 'We couldn\'t reach Privilege Club. Please try again.' }]);
+      return false;
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Signing in only tells the agent the member is signed in, so it can price the payment in Avios
+    if (content.type === 'login') {
+      const loginErrors = validateLoginForm(formData);
+      if (loginErrors.length > 0) {
+        setValidationErrors(loginErrors);
+        return;
+      }
+      if (!(await signInToPrivilegeClub())) {
+        return;
+      }
+      onSubmit?.({
+        signedIn: true,
+        ...(startedMethod ? { paymentMethod: startedMethod } : {}),
+        ...(content.data?.quoteId ? { quoteId: content.data.quoteId } : {})
+      });
+      return;
+    }
     
     // Validate form data
     const errors = validatePaymentForm({ ...formData, paymentMethod: activeTab });
@@ -425,8 +578,21 @@ const FormRenderer: React.FC<{
       setValidationErrors(errors);
       return;
     }
+
+    const paysByCard = content.type === 'payment' && (activeTab === 'credit-card' || activeTab === 'cash-avios');
+    const card = paysByCard ? await tokeniseCard() : undefined;
+    if (paysByCard && !card) {
+      return;
+    }
     
-    onSubmit?.({ ...formData, paymentMethod: activeTab });
+    onSubmit?.({
+      ...omitLoginCredentials(omitCardDetails(formData)),
+      paymentMethod: activeTab,
+      ...(card ? { card } : {}),
+      // Lets the agent complete the booking against the quote this form was opened for
+      ...(content.data?.quoteId ? { quoteId: content.data.quoteId } : {}),
+      ...(activeTab === 'cash-avios' ? { aviosToUse } : {})
+    });
   };
 
   const getFieldError = (fieldId: string): string | undefined => {
@@ -441,10 +607,11 @@ const FormRenderer: React.FC<{
         <button
           type="button"
           onClick={() => handleTabChange('credit-card')}
+          disabled={!!startedMethod && startedMethod !== 'credit-card'}
           className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
             activeTab === 'credit-card'
               ? 'border-primary-burgundy text-primary-burgundy bg-red-50'
-              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-500 disabled:hover:border-transparent'
           }`}
         >
           Credit Card
@@ -452,23 +619,38 @@ const FormRenderer: React.FC<{
         <button
           type="button"
           onClick={() => handleTabChange('avios')}
+          disabled={!!startedMethod && startedMethod !== 'avios'}
           className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 transition-colors flex items-center justify-center gap-2 ${
             activeTab === 'avios'
               ? 'border-primary-burgundy text-primary-burgundy bg-red-50'
-              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-500 disabled:hover:border-transparent'
           }`}
         >
           <img src={privilegeClubLogoSrc.src} alt="Privilege Club" className="h-4 w-auto" />
           Pay with Avios
         </button>
+        <button
+          type="button"
+          onClick={() => handleTabChange('cash-avios')}
+          disabled={!!startedMethod && startedMethod !== 'cash-avios'}
+          className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+            activeTab === 'cash-avios'
+              ? 'border-primary-burgundy text-primary-burgundy bg-red-50'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-500 disabled:hover:border-transparent'
+          }`}
+        >
+          Cash + Avios
+        </button>
       </div>
     );
   };
 
   const renderCreditCardFields = () => {
-    if (activeTab !== 'credit-card') return null;
+    if (activeTab !== 'credit-card' && activeTab !== 'cash-avios') return null;
     
+    // Brand is detected live from the leading digits, and sets the CVV length
     const cardType = getCardType(formData.cardNumber || '');
+    const cvvLength = cardType === 'unknown' ? 4 : CARD_BRANDS[cardType].cvvLength;
     
     return (
       <div className="space-y-4">
@@ -485,11 +667,11 @@ const FormRenderer: React.FC<{
                 getFieldError('cardNumber') ? 'border-red-500' : 'border-gray-300'
               }`}
               placeholder="1234 5678 9012 3456"
-              maxLength={19}
+              maxLength={23}
             />
             {cardType !== 'unknown' && (
-              <div className="absolute right-3 top-2.5">
-                <span className="text-xs font-medium text-gray-500 uppercase">{cardType}</span>
+              <div className="absolute right-3 top-2.5" aria-live="polite">
+                <span className="text-xs font-medium text-gray-500">{getCardBrandLabel(cardType)}</span>
               </div>
             )}
           </div>
@@ -529,8 +711,8 @@ const FormRenderer: React.FC<{
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary-burgundy focus:border-transparent ${
                 getFieldError('cvv') ? 'border-red-500' : 'border-gray-300'
               }`}
-              placeholder="123"
-              maxLength={4}
+              placeholder={cardType === 'unknown' ? '123' : '1234'.substring(0, cvvLength)}
+              maxLength={cvvLength}
             />
             {getFieldError('cvv') && (
               <p className="text-red-500 text-xs mt-1">{getFieldError('cvv')}</p>
@@ -559,9 +741,9 @@ const FormRenderer: React.FC<{
     );
   };
 
-  const renderAviosFields = () => {
-    if (activeTab !== 'avios') return null;
-    
+  const renderPrivilegeClubLogin = () => {
+    if (content.type !== 'login') return null;
+
     return (
       <div className="space-y-4">
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
@@ -609,11 +791,29 @@ const FormRenderer: React.FC<{
             <p className="text-red-500 text-xs mt-1">{getFieldError('password')}</p>
           )}
         </div>
+      </div>
+    );
+  };
+
+  const renderAviosFields = () => {
+    if (content.type !== 'payment' || (activeTab !== 'avios' && activeTab !== 'cash-avios')) return null;
+    
+    return (
+      <div className="space-y-4">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <div className="flex items-center gap-3">
+            <img src={privilegeClubLogoSrc.src} alt="Privilege Club" className="h-8 w-auto" />
+            <div>
+              <h4 className="font-medium text-gray-800">Privilege Club{content.data?.tierStatus ? ` ${content.data.tierStatus}` : ''}</h4>
+              <p className="text-sm text-gray-600">Signed in to pay with your Avios</p>
+            </div>
+          </div>
+        </div>
 
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
           <div className="flex justify-between items-center mb-2">
             <span className="text-sm font-medium text-gray-700">Available Avios:</span>
-            <span className="text-lg font-semibold text-primary-burgundy">275,000</span>
+            <span className="text-lg font-semibold text-primary-burgundy">{aviosBalance.toLocaleString()}</span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-sm text-gray-600">Required for this booking:</span>
@@ -626,8 +826,45 @@ const FormRenderer: React.FC<{
     );
   };
 
+  const renderAviosAllocation = () => {
+    if (content.type !== 'payment' || activeTab !== 'cash-avios') return null;
+
+    const cashShare = aviosPrice ? calculateCashShare(totalAmount, aviosPrice, aviosToUse) : totalAmount;
+    const surcharge = calculateCardSurcharge(activeTab, cashShare);
+
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <label htmlFor="aviosToUse" className="block text-sm font-medium text-gray-700">
+          Avios to use
+        </label>
+        <input
+          id="aviosToUse"
+          type="range"
+          min={AVIOS_REDEMPTION_STEP}
+          max={maxAviosToUse}
+          step={AVIOS_REDEMPTION_STEP}
+          value={aviosToUse}
+          onChange={(e) => setAviosToUse(Number(e.target.value))}
+          className="w-full accent-primary-burgundy"
+        />
+        <div className="flex justify-between items-center text-sm">
+          <span className="font-medium text-gray-800">{formatPrice(aviosToUse, 'AVIOS')}</span>
+          <span className="text-gray-600">+</span>
+          <span className="font-medium text-gray-800">
+            {formatPrice(cashShare + surcharge, content.data?.currency)} by card
+          </span>
+        </div>
+        {surcharge > 0 && (
+          <p className="text-xs text-gray-500">
+            Includes a {formatPrice(surcharge, content.data?.currency)} card surcharge
+          </p>
+        )}
+      </div>
+    );
+  };
+
   const renderRegularFields = () => {
-    if (content.type === 'payment') return null;
+    if (content.type === 'payment' || content.type === 'login') return null;
     
     return content.fields.map((field) => (
       <div key={field.id}>
@@ -696,16 +933,19 @@ const FormRenderer: React.FC<{
       {renderPaymentTabs()}
       
       <div className="space-y-4">
-        {renderCreditCardFields()}
+        {renderPrivilegeClubLogin()}
         {renderAviosFields()}
+        {renderAviosAllocation()}
+        {renderCreditCardFields()}
         {renderRegularFields()}
       </div>
       
       <button
         type="submit"
-        className="w-full bg-primary-burgundy text-white py-3 px-4 rounded-md font-medium hover:bg-opacity-90 transition-colors"
+        disabled={isTokenising || isSigningIn}
+        className="w-full bg-primary-burgundy text-white py-3 px-4 rounded-md font-medium hover:bg-opacity-90 transition-colors disabled:opacity-60"
       >
-        {content.submitLabel}
+        {isTokenising ? 'Securing your card…' : isSigningIn ? 'Signing in…' : content.submitLabel}
       </button>
     </form>
   );
@@ -15,7 +15,9 @@ const SimpleChatContainer: React.FC<SimpleChatContainerProps> = ({ customer, boo
   }, []);
 
   const { messages, input, handleInputChange, handleSubmit, isLoading, error } = useChat({
-    api: '/api/chat-simple',
+    api: '/api/chat',
+    // Plain conversation without the booking tools, for debugging the model on its own
+    body: { profile: 'no-tools', conversationContext: { customer, booking } },
     initialMessages: isClient ? [
       {
         id: 'welcome',
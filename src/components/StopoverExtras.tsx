@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import type { TransferOption, TourOption, RecommendedTour, SelectedTour, SelectedExtras } from '../types';
+import type { TransferOption, TourOption, RecommendedTour, SelectedTour, SelectedExtras, Currency } from '../types';
+import { calculateTransferPrice } from '../data/transferData';
+import { formatCatalogPrice } from '../data/pricingData';
 
 interface StopoverExtrasProps {
   transfers: TransferOption;
@@ -8,6 +10,8 @@ interface StopoverExtrasProps {
   onExtrasChange: (extras: SelectedExtras) => void;
   selectedExtras?: SelectedExtras;
   passengers?: number;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
 interface TransferToggleProps {
@@ -15,6 +19,8 @@ interface TransferToggleProps {
   isSelected: boolean;
   onToggle: (selected: boolean) => void;
   passengers: number;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
 interface RecommendedTourCardProps {
@@ -23,13 +29,29 @@ interface RecommendedTourCardProps {
   isAdded: boolean;
   quantity: number;
   passengers: number;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
+interface RankedTourRowProps {
+  tour: TourOption | RecommendedTour;
+  onAddTour: (tour: TourOption, quantity: number) => void;
+  isAdded: boolean;
+  passengers: number;
+  currency?: Currency;
+  exchangeRate?: number;
+}
+
+// Ranked tours carry a match score and reason; plain catalog tours do not
+const isRankedTour = (tour: TourOption): tour is RecommendedTour => 'matchScore' in tour;
+
 const TransferToggle: React.FC<TransferToggleProps> = ({ 
   transfer, 
   isSelected, 
   onToggle, 
-  passengers 
+  passengers,
+  currency,
+  exchangeRate
 }) => {
   return (
     <div className={`
@@ -62,7 +84,7 @@ const TransferToggle: React.FC<TransferToggleProps> = ({
         
         <div className="text-right">
           <div className="text-lg font-bold text-primary-burgundy font-jotia">
-            ${transfer.price}
+            {formatCatalogPrice(calculateTransferPrice(transfer, passengers), currency, exchangeRate)}
           </div>
           <div className="text-xs text-neutral-grey1">return</div>
         </div>
@@ -76,7 +98,9 @@ const RecommendedTourCard: React.FC<RecommendedTourCardProps> = ({
   onAddTour, 
   isAdded, 
   quantity, 
-  passengers 
+  passengers,
+  currency,
+  exchangeRate
 }) => {
   const [localQuantity, setLocalQuantity] = useState(quantity);
 
@@ -87,7 +111,7 @@ const RecommendedTourCard: React.FC<RecommendedTourCardProps> = ({
 
   const handleAddTour = () => {
     if (!isAdded) {
-      const defaultQuantity = Math.min(passengers, 2); // Default to 2 or passenger count
+      const defaultQuantity = passengers; // Default to one place per passenger
       setLocalQuantity(defaultQuantity);
       onAddTour(tour, defaultQuantity);
     }
@@ -187,7 +211,7 @@ const RecommendedTourCard: React.FC<RecommendedTourCardProps> = ({
             </div>
             <div className="text-right">
               <div className="text-xl font-bold text-primary-burgundy font-jotia">
-                ${tour.price}
+                {formatCatalogPrice(tour.price, currency, exchangeRate)}
               </div>
               <div className="text-xs text-neutral-grey1">per person</div>
             </div>
@@ -235,7 +259,7 @@ const RecommendedTourCard: React.FC<RecommendedTourCardProps> = ({
               <div className="flex items-center justify-between">
                 <span className="text-sm text-neutral-grey2">Total for {localQuantity} participant{localQuantity > 1 ? 's' : ''}</span>
                 <span className="text-lg font-bold text-primary-burgundy font-jotia">
-                  ${tour.price * localQuantity}
+                  {formatCatalogPrice(tour.price * localQuantity, currency, exchangeRate)}
                 </span>
               </div>
             </div>
@@ -254,13 +278,60 @@ const RecommendedTourCard: React.FC<RecommendedTourCardProps> = ({
   );
 };
 
+const RankedTourRow: React.FC<RankedTourRowProps> = ({
+  tour,
+  onAddTour,
+  isAdded,
+  passengers,
+  currency,
+  exchangeRate
+}) => {
+  const ranked = isRankedTour(tour) ? tour : undefined;
+  const isUnavailable = ranked?.availabilityStatus === 'unavailable';
+
+  return (
+    <div className={`p-4 border rounded-lg ${isAdded ? 'border-primary-burgundy bg-primary-burgundy bg-opacity-5' : 'border-neutral-lightGrey'}`}>
+      <div className="flex items-start justify-between space-x-4">
+        <div className="flex-1">
+          <div className="flex items-center space-x-2 mb-1">
+            <h4 className="font-medium text-neutral-grey2">{tour.name}</h4>
+            {ranked && (
+              <span className="text-xs font-medium text-secondary-oneworld">{ranked.matchScore}% match</span>
+            )}
+          </div>
+          {ranked && (
+            <p className="text-sm text-neutral-grey1 mb-1">{ranked.recommendationReason}</p>
+          )}
+          <span className="text-xs text-neutral-grey1">{tour.duration}</span>
+        </div>
+
+        <div className="text-right space-y-2">
+          <div className="text-lg font-bold text-primary-burgundy font-jotia">
+            {formatCatalogPrice(tour.price, currency, exchangeRate)}
+          </div>
+          <button
+            onClick={() => onAddTour(tour, isAdded ? 0 : passengers)}
+            disabled={isUnavailable}
+            aria-label={`${isAdded ? 'Remove' : 'Add'} ${tour.name}`}
+            className="px-3 py-1 rounded-md text-sm font-medium border border-primary-burgundy text-primary-burgundy hover:bg-primary-burgundy hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUnavailable ? 'Sold out' : isAdded ? 'Remove' : 'Add'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const StopoverExtras: React.FC<StopoverExtrasProps> = ({
   transfers,
   tours,
   recommendedTour,
   onExtrasChange,
   selectedExtras,
-  passengers = 2
+  passengers = 2,
+  currency,
+  exchangeRate
 }) => {
   const [includeTransfers, setIncludeTransfers] = useState(selectedExtras?.transfers !== undefined);
   const [selectedTours, setSelectedTours] = useState<SelectedTour[]>(selectedExtras?.tours || []);
@@ -270,7 +341,7 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
     let total = 0;
     
     if (includeTransfers) {
-      total += transfers.price;
+      total += calculateTransferPrice(transfers, passengers);
     }
     
     selectedTours.forEach(selectedTour => {
@@ -288,7 +359,7 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
       totalExtrasPrice: calculateTotalExtrasPrice()
     };
     onExtrasChange(extras);
-  }, [includeTransfers, selectedTours, transfers, onExtrasChange]);
+  }, [includeTransfers, selectedTours, transfers, passengers, onExtrasChange]);
 
   const handleTransferToggle = (selected: boolean) => {
     setIncludeTransfers(selected);
@@ -320,6 +391,8 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
 
   const isRecommendedTourAdded = selectedTours.some(t => t.tour.id === recommendedTour.id);
   const recommendedTourQuantity = selectedTours.find(t => t.tour.id === recommendedTour.id)?.quantity || 0;
+  // The rest of the ranked list, best match first
+  const otherTours = tours.filter(tour => tour.id !== recommendedTour.id);
 
   return (
     <div className="w-full space-y-6">
@@ -343,6 +416,8 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
           isSelected={includeTransfers}
           onToggle={handleTransferToggle}
           passengers={passengers}
+          currency={currency}
+          exchangeRate={exchangeRate}
         />
       </div>
 
@@ -357,9 +432,31 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
           isAdded={isRecommendedTourAdded}
           quantity={recommendedTourQuantity}
           passengers={passengers}
+          currency={currency}
+          exchangeRate={exchangeRate}
         />
       </div>
 
+      {/* Other Ranked Tours */}
+      {otherTours.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium text-neutral-grey2 font-jotia">
+            More Experiences for Your Stopover
+          </h3>
+          {otherTours.map(tour => (
+            <RankedTourRow
+              key={tour.id}
+              tour={tour}
+              onAddTour={handleTourAdd}
+              isAdded={selectedTours.some(t => t.tour.id === tour.id)}
+              passengers={passengers}
+              currency={currency}
+              exchangeRate={exchangeRate}
+            />
+          ))}
+        </div>
+      )}
+
       {/* More Tours Link */}
       <div className="text-center">
         <button className="text-primary-burgundy font-medium text-sm hover:underline">
@@ -377,7 +474,9 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
               {includeTransfers && (
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-neutral-grey2">{transfers.name}</span>
-                  <span className="font-medium text-neutral-grey2">${transfers.price}</span>
+                  <span className="font-medium text-neutral-grey2">
+                    {formatCatalogPrice(calculateTransferPrice(transfers, passengers), currency, exchangeRate)}
+                  </span>
                 </div>
               )}
               
@@ -386,7 +485,9 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
                   <span className="text-neutral-grey2">
                     {selectedTour.tour.name} × {selectedTour.quantity}
                   </span>
-                  <span className="font-medium text-neutral-grey2">${selectedTour.totalPrice}</span>
+                  <span className="font-medium text-neutral-grey2">
+                    {formatCatalogPrice(selectedTour.totalPrice, currency, exchangeRate)}
+                  </span>
                 </div>
               ))}
             </div>
@@ -395,7 +496,7 @@ const StopoverExtras: React.FC<StopoverExtrasProps> = ({
               <div className="flex items-center justify-between">
                 <span className="font-semibold text-neutral-grey2">Total Extras</span>
                 <span className="text-xl font-bold text-primary-burgundy font-jotia">
-                  ${calculateTotalExtrasPrice()}
+                  {formatCatalogPrice(calculateTotalExtrasPrice(), currency, exchangeRate)}
                 </span>
               </div>
             </div>
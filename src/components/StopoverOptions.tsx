@@ -1,137 +1,124 @@
 import React, { useState } from 'react';
+import type { StopoverPosition, StopoverTiming, TravelDates } from '../types';
 
 interface StopoverOptionsProps {
-  onTimingSelect: (timing: 'outbound' | 'return') => void;
+  onTimingSelect: (timing: StopoverTiming) => void;
   onDurationSelect: (nights: number) => void;
-  selectedTiming?: 'outbound' | 'return';
+  selectedTiming?: StopoverTiming;
   selectedDuration?: number;
   originalRoute?: {
     origin: string;
     destination: string;
   };
+  stopoverPositions?: StopoverPosition[];
+  travelDates?: TravelDates;
 }
 
+// A journey on the booking that can take a Doha stopover
+interface JourneyOption {
+  timing: StopoverTiming;
+  from: string;
+  to: string;
+  arrivalDate?: string;
+}
+
+const JOURNEY_LABELS: Record<StopoverTiming, string> = {
+  outbound: 'Outbound Journey',
+  return: 'Return Journey'
+};
+
+// Doha arrival date, e.g. "Thu 12 Nov"
+const formatArrivalDate = (date: string) => new Date(`${date}T00:00:00Z`)
+  .toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+// Journeys from the booking's stopover positions, or a plain return trip on the original route
+const getJourneyOptions = (
+  route: { origin: string; destination: string },
+  positions?: StopoverPosition[],
+  travelDates?: TravelDates
+): JourneyOption[] => {
+  if (positions) {
+    return positions.map(position => ({
+      timing: position.timing,
+      from: position.from,
+      to: position.to,
+      arrivalDate: position.arrival.arrival.slice(0, 10)
+    }));
+  }
+
+  return [
+    { timing: 'outbound', from: route.origin, to: route.destination, arrivalDate: travelDates?.outbound },
+    { timing: 'return', from: route.destination, to: route.origin, arrivalDate: travelDates?.return }
+  ];
+};
+
 interface FlightTimelineProps {
-  timing: 'outbound' | 'return' | null;
+  timing: StopoverTiming | null;
   duration: number;
-  route: {
-    origin: string;
-    destination: string;
-  };
+  journeys: JourneyOption[];
 }
 
-const FlightTimeline: React.FC<FlightTimelineProps> = ({ timing, duration, route }) => {
-  const renderOutboundTimeline = () => (
-    <div className="flex items-center space-x-2 text-sm">
-      {/* Origin */}
-      <div className="flex flex-col items-center">
-        <div className="w-3 h-3 bg-primary-burgundy rounded-full"></div>
-        <span className="mt-1 font-medium text-neutral-grey2">{route.origin}</span>
-      </div>
-      
-      {/* Flight Line to Doha */}
-      <div className="flex-1 h-0.5 bg-primary-burgundy relative">
-        <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs text-neutral-grey1">
-          Flight
-        </div>
-      </div>
-      
-      {/* Doha Stopover */}
-      <div className="flex flex-col items-center">
-        <div className={`w-4 h-4 rounded-full border-2 ${timing === 'outbound' ? 'bg-secondary-oneworld border-secondary-oneworld' : 'bg-neutral-grey1 border-neutral-grey1'}`}>
-          {timing === 'outbound' && (
-            <div className="w-full h-full flex items-center justify-center">
-              <div className="w-2 h-2 bg-white rounded-full"></div>
-            </div>
-          )}
-        </div>
-        <span className="mt-1 font-medium text-neutral-grey2">DOH</span>
-        {timing === 'outbound' && (
-          <span className="text-xs text-secondary-oneworld font-medium">
-            {duration} night{duration > 1 ? 's' : ''}
-          </span>
-        )}
-      </div>
-      
-      {/* Flight Line to Destination */}
-      <div className="flex-1 h-0.5 bg-primary-burgundy relative">
-        <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs text-neutral-grey1">
-          Flight
-        </div>
-      </div>
-      
-      {/* Destination */}
-      <div className="flex flex-col items-center">
-        <div className="w-3 h-3 bg-primary-burgundy rounded-full"></div>
-        <span className="mt-1 font-medium text-neutral-grey2">{route.destination}</span>
-      </div>
+const FlightLine: React.FC<{ label: string; dashed?: boolean }> = ({ label, dashed }) => (
+  <div className={`flex-1 h-0.5 relative ${dashed ? 'border-t-2 border-dashed border-neutral-grey1' : 'bg-primary-burgundy'}`}>
+    <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs text-neutral-grey1">
+      {label}
     </div>
-  );
+  </div>
+);
 
-  const renderReturnTimeline = () => (
-    <div className="flex items-center space-x-2 text-sm">
-      {/* Origin */}
-      <div className="flex flex-col items-center">
-        <div className="w-3 h-3 bg-primary-burgundy rounded-full"></div>
-        <span className="mt-1 font-medium text-neutral-grey2">{route.origin}</span>
-      </div>
-      
-      {/* Flight Line to Destination */}
-      <div className="flex-1 h-0.5 bg-primary-burgundy relative">
-        <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs text-neutral-grey1">
-          Flight
-        </div>
-      </div>
-      
-      {/* Destination */}
-      <div className="flex flex-col items-center">
-        <div className="w-3 h-3 bg-primary-burgundy rounded-full"></div>
-        <span className="mt-1 font-medium text-neutral-grey2">{route.destination}</span>
-      </div>
-      
-      {/* Flight Line to Doha */}
-      <div className="flex-1 h-0.5 bg-primary-burgundy relative">
-        <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs text-neutral-grey1">
-          Flight
-        </div>
-      </div>
-      
-      {/* Doha Stopover */}
+const AirportNode: React.FC<{ code: string }> = ({ code }) => (
+  <div className="flex flex-col items-center">
+    <div className="w-3 h-3 bg-primary-burgundy rounded-full"></div>
+    <span className="mt-1 font-medium text-neutral-grey2">{code}</span>
+  </div>
+);
+
+const FlightTimeline: React.FC<FlightTimelineProps> = ({ timing, duration, journeys }) => {
+  const renderStopover = (journey: JourneyOption) => {
+    const isSelected = timing === journey.timing;
+    return (
       <div className="flex flex-col items-center">
-        <div className={`w-4 h-4 rounded-full border-2 ${timing === 'return' ? 'bg-secondary-oneworld border-secondary-oneworld' : 'bg-neutral-grey1 border-neutral-grey1'}`}>
-          {timing === 'return' && (
+        <div className={`w-4 h-4 rounded-full border-2 ${isSelected ? 'bg-secondary-oneworld border-secondary-oneworld' : 'bg-neutral-grey1 border-neutral-grey1'}`}>
+          {isSelected && (
             <div className="w-full h-full flex items-center justify-center">
               <div className="w-2 h-2 bg-white rounded-full"></div>
             </div>
           )}
         </div>
         <span className="mt-1 font-medium text-neutral-grey2">DOH</span>
-        {timing === 'return' && (
+        {isSelected && (
           <span className="text-xs text-secondary-oneworld font-medium">
             {duration} night{duration > 1 ? 's' : ''}
           </span>
         )}
       </div>
-      
-      {/* Flight Line back to Origin */}
-      <div className="flex-1 h-0.5 bg-primary-burgundy relative">
-        <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs text-neutral-grey1">
-          Flight
-        </div>
-      </div>
-      
-      {/* Origin (Return) */}
-      <div className="flex flex-col items-center">
-        <div className="w-3 h-3 bg-primary-burgundy rounded-full"></div>
-        <span className="mt-1 font-medium text-neutral-grey2">{route.origin}</span>
-      </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="bg-neutral-lightGrey rounded-lg p-4 border border-neutral-grey1 border-opacity-20">
       <h4 className="text-sm font-medium text-neutral-grey2 mb-4">Flight Timeline</h4>
-      {timing === 'outbound' ? renderOutboundTimeline() : renderReturnTimeline()}
+      <div className="flex items-center space-x-2 text-sm">
+        {journeys.map((journey, index) => {
+          const previous = journeys[index - 1];
+          return (
+            <React.Fragment key={journey.timing}>
+              {/* Journeys that start where the last one ended share an airport; an open jaw shows the gap */}
+              {previous && previous.to !== journey.from && (
+                <>
+                  <FlightLine label="Own travel" dashed />
+                  <AirportNode code={journey.from} />
+                </>
+              )}
+              {!previous && <AirportNode code={journey.from} />}
+              <FlightLine label="Flight" />
+              {renderStopover(journey)}
+              <FlightLine label="Flight" />
+              <AirportNode code={journey.to} />
+            </React.Fragment>
+          );
+        })}
+      </div>
     </div>
   );
 };
@@ -141,12 +128,15 @@ const StopoverOptions: React.FC<StopoverOptionsProps> = ({
   onDurationSelect,
   selectedTiming,
   selectedDuration = 1,
-  originalRoute = { origin: 'LHR', destination: 'BKK' }
+  originalRoute = { origin: 'LHR', destination: 'BKK' },
+  stopoverPositions,
+  travelDates
 }) => {
-  const [localTiming, setLocalTiming] = useState<'outbound' | 'return' | null>(selectedTiming || null);
+  const [localTiming, setLocalTiming] = useState<StopoverTiming | null>(selectedTiming || null);
   const [localDuration, setLocalDuration] = useState<number>(selectedDuration);
+  const journeys = getJourneyOptions(originalRoute, stopoverPositions, travelDates);
 
-  const handleTimingChange = (timing: 'outbound' | 'return') => {
+  const handleTimingChange = (timing: StopoverTiming) => {
     setLocalTiming(timing);
     onTimingSelect(timing);
   };
@@ -182,85 +172,51 @@ const StopoverOptions: React.FC<StopoverOptionsProps> = ({
         </h3>
         
         <div className="grid grid-cols-1 tablet:grid-cols-2 gap-4">
-          {/* Outbound Option */}
-          <label className={`
-            relative flex items-start p-4 border-2 rounded-lg cursor-pointer transition-all duration-200
-            ${localTiming === 'outbound' 
-              ? 'border-primary-burgundy bg-primary-burgundy bg-opacity-5' 
-              : 'border-neutral-lightGrey hover:border-primary-burgundy hover:bg-neutral-lightGrey'
-            }
-          `}>
-            <input
-              type="radio"
-              name="timing"
-              value="outbound"
-              checked={localTiming === 'outbound'}
-              onChange={() => handleTimingChange('outbound')}
-              className="sr-only"
-            />
-            <div className={`
-              w-5 h-5 rounded-full border-2 flex items-center justify-center mr-3 mt-0.5
-              ${localTiming === 'outbound' 
-                ? 'border-primary-burgundy bg-primary-burgundy' 
-                : 'border-neutral-grey1'
-              }
-            `}>
-              {localTiming === 'outbound' && (
-                <div className="w-2 h-2 bg-white rounded-full"></div>
-              )}
-            </div>
-            <div className="flex-1">
-              <div className="font-medium text-neutral-grey2 mb-1">
-                Outbound Journey
-              </div>
-              <div className="text-sm text-neutral-grey1 mb-2">
-                {originalRoute.origin} → DOH → {originalRoute.destination}
-              </div>
-              <div className="text-xs text-neutral-grey1">
-                Stopover in Doha on your way to {originalRoute.destination}
-              </div>
-            </div>
-          </label>
-
-          {/* Return Option */}
-          <label className={`
-            relative flex items-start p-4 border-2 rounded-lg cursor-pointer transition-all duration-200
-            ${localTiming === 'return' 
-              ? 'border-primary-burgundy bg-primary-burgundy bg-opacity-5' 
-              : 'border-neutral-lightGrey hover:border-primary-burgundy hover:bg-neutral-lightGrey'
-            }
-          `}>
-            <input
-              type="radio"
-              name="timing"
-              value="return"
-              checked={localTiming === 'return'}
-              onChange={() => handleTimingChange('return')}
-              className="sr-only"
-            />
-            <div className={`
-              w-5 h-5 rounded-full border-2 flex items-center justify-center mr-3 mt-0.5
-              ${localTiming === 'return' 
-                ? 'border-primary-burgundy bg-primary-burgundy' 
-                : 'border-neutral-grey1'
+          {journeys.map((journey) => (
+            <label key={journey.timing} className={`
+              relative flex items-start p-4 border-2 rounded-lg cursor-pointer transition-all duration-200
+              ${localTiming === journey.timing
+                ? 'border-primary-burgundy bg-primary-burgundy bg-opacity-5'
+                : 'border-neutral-lightGrey hover:border-primary-burgundy hover:bg-neutral-lightGrey'
               }
             `}>
-              {localTiming === 'return' && (
-                <div className="w-2 h-2 bg-white rounded-full"></div>
-              )}
-            </div>
-            <div className="flex-1">
-              <div className="font-medium text-neutral-grey2 mb-1">
-                Return Journey
-              </div>
-              <div className="text-sm text-neutral-grey1 mb-2">
-                {originalRoute.origin} → {originalRoute.destination} → DOH → {originalRoute.origin}
+              <input
+                type="radio"
+                name="timing"
+                value={journey.timing}
+                checked={localTiming === journey.timing}
+                onChange={() => handleTimingChange(journey.timing)}
+                className="sr-only"
+              />
+              <div className={`
+                w-5 h-5 rounded-full border-2 flex items-center justify-center mr-3 mt-0.5
+                ${localTiming === journey.timing
+                  ? 'border-primary-burgundy bg-primary-burgundy'
+                  : 'border-neutral-grey1'
+                }
+              `}>
+                {localTiming === journey.timing && (
+                  <div className="w-2 h-2 bg-white rounded-full"></div>
+                )}
               </div>
-              <div className="text-xs text-neutral-grey1">
-                Stopover in Doha on your way back to {originalRoute.origin}
+              <div className="flex-1">
+                <div className="font-medium text-neutral-grey2 mb-1">
+                  {JOURNEY_LABELS[journey.timing]}
+                </div>
+                <div className="text-sm text-neutral-grey1 mb-2">
+                  {journey.from} → DOH → {journey.to}
+                </div>
+                <div className="text-xs text-neutral-grey1">
+                  Stopover in Doha on your way to {journey.to}
+                </div>
+                {journey.arrivalDate && (
+                  <div className="text-xs text-primary-burgundy mt-1">
+                    Arrive Doha {formatArrivalDate(journey.arrivalDate)}
+                  </div>
+                )}
               </div>
-            </div>
-          </label>
+            </label>
+          ))}
         </div>
       </div>
 
@@ -305,7 +261,7 @@ const StopoverOptions: React.FC<StopoverOptionsProps> = ({
         <FlightTimeline
           timing={localTiming}
           duration={localDuration}
-          route={originalRoute}
+          journeys={journeys}
         />
       )}
 
@@ -1,31 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import type { TourOption, SelectedTour } from '../types';
+import type { TourOption, RecommendedTour, SelectedTour, Currency } from '../types';
+import { formatCatalogPrice } from '../data/pricingData';
 
 interface ToursCarouselProps {
-  tours: TourOption[];
+  tours: Array<TourOption | RecommendedTour>;
   selectedTours: SelectedTour[];
   onToursChange: (tours: SelectedTour[]) => void;
   maxParticipants?: number;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
 interface TourCardProps {
-  tour: TourOption;
+  tour: TourOption | RecommendedTour;
   selectedQuantity: number;
   onQuantityChange: (tourId: string, quantity: number) => void;
   maxParticipants: number;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
 interface TourBasketProps {
   selectedTours: SelectedTour[];
   onRemoveTour: (tourId: string) => void;
   onQuantityChange: (tourId: string, quantity: number) => void;
+  currency?: Currency;
+  exchangeRate?: number;
 }
 
+// Ranked tours carry a match score and reason; plain catalog tours do not
+const getMatchScore = (tour: TourOption | RecommendedTour): number | undefined =>
+  'matchScore' in tour ? tour.matchScore : undefined;
+
 const TourCard: React.FC<TourCardProps> = ({ 
   tour, 
   selectedQuantity, 
   onQuantityChange, 
-  maxParticipants 
+  maxParticipants,
+  currency,
+  exchangeRate
 }) => {
   const isSelected = selectedQuantity > 0;
 
@@ -71,7 +84,7 @@ const TourCard: React.FC<TourCardProps> = ({
           <div className="bg-white bg-opacity-95 rounded-lg px-3 py-2">
             <div className="text-right">
               <div className="text-lg font-bold text-primary-burgundy font-jotia">
-                ${tour.price}
+                {formatCatalogPrice(tour.price, currency, exchangeRate)}
               </div>
               <div className="text-xs text-neutral-grey1">per person</div>
             </div>
@@ -98,6 +111,16 @@ const TourCard: React.FC<TourCardProps> = ({
           <p className="text-sm text-neutral-grey1 line-clamp-2">{tour.description}</p>
         </div>
 
+        {/* Match Score and Reason */}
+        {'matchScore' in tour && (
+          <div className="bg-secondary-oneworld bg-opacity-10 rounded-lg p-3 mb-4">
+            <div className="text-xs font-semibold text-secondary-oneworld mb-1">
+              {tour.matchScore}% match
+            </div>
+            <p className="text-sm text-secondary-oneworld">{tour.recommendationReason}</p>
+          </div>
+        )}
+
         {/* Tour Highlights */}
         <div className="mb-4">
           <h4 className="text-sm font-medium text-neutral-grey2 mb-2">Highlights</h4>
@@ -169,7 +192,7 @@ const TourCard: React.FC<TourCardProps> = ({
               <div className="flex items-center justify-between">
                 <span className="text-sm text-neutral-grey2">Total</span>
                 <span className="text-lg font-bold text-primary-burgundy font-jotia">
-                  ${tour.price * selectedQuantity}
+                  {formatCatalogPrice(tour.price * selectedQuantity, currency, exchangeRate)}
                 </span>
               </div>
             </div>
@@ -191,7 +214,9 @@ const TourCard: React.FC<TourCardProps> = ({
 const TourBasket: React.FC<TourBasketProps> = ({ 
   selectedTours, 
   onRemoveTour, 
-  onQuantityChange 
+  onQuantityChange,
+  currency,
+  exchangeRate
 }) => {
   const totalPrice = selectedTours.reduce((sum, tour) => sum + tour.totalPrice, 0);
   const totalParticipants = selectedTours.reduce((sum, tour) => sum + tour.quantity, 0);
@@ -217,13 +242,13 @@ const TourBasket: React.FC<TourBasketProps> = ({
                 {selectedTour.tour.name}
               </div>
               <div className="text-xs text-neutral-grey1">
-                {selectedTour.quantity} participant{selectedTour.quantity > 1 ? 's' : ''} × ${selectedTour.tour.price}
+                {selectedTour.quantity} participant{selectedTour.quantity > 1 ? 's' : ''} × {formatCatalogPrice(selectedTour.tour.price, currency, exchangeRate)}
               </div>
             </div>
             
             <div className="flex items-center space-x-2">
               <span className="text-sm font-medium text-neutral-grey2">
-                ${selectedTour.totalPrice}
+                {formatCatalogPrice(selectedTour.totalPrice, currency, exchangeRate)}
               </span>
               <button
                 onClick={() => onRemoveTour(selectedTour.tour.id)}
@@ -246,7 +271,7 @@ const TourBasket: React.FC<TourBasketProps> = ({
             <div className="text-xs text-neutral-grey1">{totalParticipants} total participants</div>
           </div>
           <span className="text-xl font-bold text-primary-burgundy font-jotia">
-            ${totalPrice}
+            {formatCatalogPrice(totalPrice, currency, exchangeRate)}
           </span>
         </div>
       </div>
@@ -258,11 +283,16 @@ const ToursCarousel: React.FC<ToursCarouselProps> = ({
   tours,
   selectedTours,
   onToursChange,
-  maxParticipants = 4
+  maxParticipants = 4,
+  currency,
+  exchangeRate
 }) => {
   const [localSelectedTours, setLocalSelectedTours] = useState<SelectedTour[]>(selectedTours);
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
 
+  // Best matches first when the tours have been scored for the stopover
+  const rankedTours = [...tours].sort((a, b) => (getMatchScore(b) ?? 0) - (getMatchScore(a) ?? 0));
+
   // Update parent when local state changes
   useEffect(() => {
     onToursChange(localSelectedTours);
@@ -364,13 +394,15 @@ const ToursCarousel: React.FC<ToursCarouselProps> = ({
             className="flex space-x-6 overflow-x-auto pb-4 scrollbar-hide"
             style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
           >
-            {tours.map((tour) => (
+            {rankedTours.map((tour) => (
               <TourCard
                 key={tour.id}
                 tour={tour}
                 selectedQuantity={getSelectedQuantity(tour.id)}
                 onQuantityChange={handleQuantityChange}
                 maxParticipants={maxParticipants}
+                currency={currency}
+                exchangeRate={exchangeRate}
               />
             ))}
           </div>
@@ -378,13 +410,15 @@ const ToursCarousel: React.FC<ToursCarouselProps> = ({
 
         {/* Mobile: Vertical Stack */}
         <div className="tablet:hidden space-y-4">
-          {tours.map((tour) => (
+          {rankedTours.map((tour) => (
             <TourCard
               key={tour.id}
               tour={tour}
               selectedQuantity={getSelectedQuantity(tour.id)}
               onQuantityChange={handleQuantityChange}
               maxParticipants={maxParticipants}
+              currency={currency}
+              exchangeRate={exchangeRate}
             />
           ))}
         </div>
@@ -395,6 +429,8 @@ const ToursCarousel: React.FC<ToursCarouselProps> = ({
         selectedTours={localSelectedTours}
         onRemoveTour={handleRemoveTour}
         onQuantityChange={handleQuantityChange}
+        currency={currency}
+        exchangeRate={exchangeRate}
       />
     </div>
   );
@@ -9,7 +9,12 @@ import { render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import MessageBubble from '../MessageBubble';
 import { bookingFunctions } from '../../lib/booking-functions';
+import { localBookingSessionStore } from '../../lib/booking-session';
 import type { Message } from '../../types';
+import { testCardTokens } from '../../data/paymentData';
+
+// Quote the shared local booking session was last priced at
+const currentQuoteId = async () => (await localBookingSessionStore.load('local')).pricing?.id;
 
 describe('Core UI Validation for LLM Function Calls', () => {
   const mockTimestamp = new Date('2024-01-01T12:00:00Z');
@@ -89,13 +94,13 @@ describe('Core UI Validation for LLM Function Calls', () => {
 
     it('should render stopover options UI from selectHotel function', async () => {
       const functionResult = await bookingFunctions.selectHotel.execute({
-        hotelId: 'millennium',
+        hotelId: 'millennium-doha',
         hotelName: 'Millennium Hotel Doha'
       });
       
       expect(functionResult.success).toBe(true);
       expect(functionResult.uiComponent.type).toBe('stopover-options');
-      expect(functionResult.uiComponent.data.selectedHotelId).toBe('millennium');
+      expect(functionResult.uiComponent.data.selectedHotelId).toBe('millennium-doha');
       
       const message: Message = {
         id: '3',
@@ -192,7 +197,7 @@ describe('Core UI Validation for LLM Function Calls', () => {
     it('should render payment form UI from initiatePayment function', async () => {
       const functionResult = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: 500
+        quoteId: await currentQuoteId()
       });
       
       expect(functionResult.success).toBe(true);
@@ -225,13 +230,14 @@ describe('Core UI Validation for LLM Function Calls', () => {
 
     it('should render confirmation UI from completeBooking function', async () => {
       const functionResult = await bookingFunctions.completeBooking.execute({
-        paymentData: { method: 'credit-card', confirmed: true }
+        quoteId: await currentQuoteId(),
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
       });
       
       expect(functionResult.success).toBe(true);
       expect(functionResult.uiComponent.type).toBe('summary');
       expect(functionResult.bookingComplete).toBe(true);
-      expect(functionResult.newPNR).toBe('X9FG1');
+      expect(functionResult.newPNR).toMatch(/^[A-Z2-9]{6}$/);
       
       const message: Message = {
         id: '7',
@@ -255,11 +261,18 @@ describe('Core UI Validation for LLM Function Calls', () => {
       expect(screen.getByText(functionResult.message)).toBeInTheDocument();
       expect(functionResult.uiComponent.type).toBe('summary');
       expect(functionResult.message).toContain('🎉');
-      expect(functionResult.message).toContain('X9FG1');
+      expect(functionResult.message).toContain(functionResult.newPNR);
     });
   });
 
   describe('UI Component Data Structure Validation', () => {
+    beforeEach(async () => {
+      // selectExtras prices from the hotel and nights chosen in earlier steps
+      await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' });
+      await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' });
+      await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 });
+    });
+
     it('should validate stopover categories data structure', async () => {
       const result = await bookingFunctions.showStopoverCategories.execute({});
       
@@ -294,14 +307,24 @@ describe('Core UI Validation for LLM Function Calls', () => {
             image: expect.any(String)
           })
         ]),
-        selectedCategoryId: 'premium'
+        selectedCategoryId: 'premium',
+        categoryName: 'Premium',
+        categoryPricePerNight: 150,
+        currency: 'USD',
+        exchangeRate: 1
       });
     });
 
     it('should validate payment form data structure', async () => {
+      await bookingFunctions.selectExtras.execute({
+        includeTransfers: false,
+        selectedTours: [],
+        totalExtrasPrice: 0
+      });
+
       const result = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: 500
+        quoteId: await currentQuoteId()
       });
       
       expect(result.uiComponent.data).toEqual({
@@ -332,7 +355,12 @@ describe('Core UI Validation for LLM Function Calls', () => {
             required: true
           })
         ]),
-        submitLabel: 'Pay Now'
+        submitLabel: 'Pay Now',
+        data: expect.objectContaining({
+          quoteId: await currentQuoteId(),
+          totalAmount: expect.any(Number),
+          paymentMethod: 'credit-card'
+        })
       });
     });
 
@@ -340,18 +368,24 @@ describe('Core UI Validation for LLM Function Calls', () => {
       const result = await bookingFunctions.selectExtras.execute({
         includeTransfers: true,
         selectedTours: [
-          { tourId: 'whale-sharks', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 }
+          { tourId: 'whale-sharks-qatar', tourName: 'Whale Sharks', quantity: 2, totalPrice: 390 }
         ],
         totalExtrasPrice: 450
       });
       
       expect(result.pricing).toEqual({
-        hotelCost: 300, // 2 nights * $150
+        currency: 'USD',
+        hotelCost: 360, // 2 nights * $180
         flightFareDifference: 115,
         transfersCost: 60,
         toursCost: 390,
-        totalCashPrice: 865, // 300 + 115 + 60 + 390
-        totalAviosPrice: 108125 // 865 * 125
+        taxes: [
+          { type: 'tourism-fee', label: 'Qatar tourism fee', amount: 11 }, // 1 room * 2 nights * $5.50
+          { type: 'vat', label: 'VAT (5%) on stopover services', amount: 40.5 } // 5% of 360 + 60 + 390
+        ],
+        totalCashPrice: 976.5, // 360 + 115 + 60 + 390 + 11 + 40.5
+        totalAviosPrice: 122063, // 976.5 * 125, rounded
+        fxSnapshot: expect.objectContaining({ base: 'USD' })
       });
     });
   });
@@ -364,7 +398,7 @@ describe('Core UI Validation for LLM Function Calls', () => {
         categoryId: 'premium', categoryName: 'Premium'
       });
       const step3 = await bookingFunctions.selectHotel.execute({
-        hotelId: 'millennium', hotelName: 'Millennium Hotel Doha'
+        hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha'
       });
       const step4 = await bookingFunctions.selectTimingAndDuration.execute({
         timing: 'outbound', duration: 2
@@ -373,10 +407,11 @@ describe('Core UI Validation for LLM Function Calls', () => {
         includeTransfers: true, selectedTours: [], totalExtrasPrice: 60
       });
       const step6 = await bookingFunctions.initiatePayment.execute({
-        paymentMethod: 'credit-card', totalAmount: step5.pricing.totalCashPrice
+        paymentMethod: 'credit-card', quoteId: step5.quoteId
       });
       const step7 = await bookingFunctions.completeBooking.execute({
-        paymentData: { method: 'credit-card', confirmed: true }
+        quoteId: step5.quoteId,
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
       });
 
       // Validate UI component sequence
@@ -411,10 +446,10 @@ describe('Core UI Validation for LLM Function Calls', () => {
 
       // Validate data consistency across steps
       expect(step2.selectedCategory).toBe('premium');
-      expect(step3.selectedHotel).toBe('millennium');
+      expect(step3.selectedHotel).toBe('millennium-doha');
       expect(step4.selectedTiming).toBe('outbound');
       expect(step4.selectedDuration).toBe(2);
-      expect(step7.newPNR).toBe('X9FG1');
+      expect(step7.newPNR).toMatch(/^[A-Z2-9]{6}$/);
     });
 
     it('should validate UI components render without errors', async () => {
@@ -422,11 +457,11 @@ describe('Core UI Validation for LLM Function Calls', () => {
       const functionResults = [
         await bookingFunctions.showStopoverCategories.execute({}),
         await bookingFunctions.selectStopoverCategory.execute({ categoryId: 'premium', categoryName: 'Premium' }),
-        await bookingFunctions.selectHotel.execute({ hotelId: 'millennium', hotelName: 'Millennium' }),
+        await bookingFunctions.selectHotel.execute({ hotelId: 'millennium-doha', hotelName: 'Millennium' }),
         await bookingFunctions.selectTimingAndDuration.execute({ timing: 'outbound', duration: 2 }),
         await bookingFunctions.selectExtras.execute({ includeTransfers: true, selectedTours: [], totalExtrasPrice: 60 }),
-        await bookingFunctions.initiatePayment.execute({ paymentMethod: 'credit-card', totalAmount: 500 }),
-        await bookingFunctions.completeBooking.execute({ paymentData: { method: 'credit-card', confirmed: true } })
+        await bookingFunctions.initiatePayment.execute({ paymentMethod: 'credit-card', quoteId: await currentQuoteId() }),
+        await bookingFunctions.completeBooking.execute({ quoteId: await currentQuoteId(), paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } })
       ];
 
       functionResults.forEach((result, index) => {
@@ -276,7 +276,7 @@ describe('LLM Conversation Flow End-to-End Tests', () => {
           toolInvocations: [{
             toolCallId: 'call_6',
             toolName: 'initiatePayment',
-            args: { paymentMethod: 'credit-card', totalAmount: 500 },
+            args: { paymentMethod: 'credit-card', quoteId: 'QT-test' },
             result: { success: true, uiComponent: { type: 'form' } }
           }]
         },
@@ -364,7 +364,7 @@ describe('LLM Conversation Flow End-to-End Tests', () => {
         {
           functionName: 'initiatePayment',
           expectedUIComponent: 'form',
-          args: { paymentMethod: 'credit-card', totalAmount: 500 }
+          args: { paymentMethod: 'credit-card', quoteId: 'QT-test' }
         },
         {
           functionName: 'completeBooking',
@@ -8,7 +8,12 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import ChatContainer from '../ChatContainer';
 import { bookingFunctions } from '../../lib/booking-functions';
+import { localBookingSessionStore } from '../../lib/booking-session';
 import type { CustomerData, BookingData } from '../../types';
+import { testCardTokens } from '../../data/paymentData';
+
+// Quote the shared local booking session was last priced at
+const currentQuoteId = async () => (await localBookingSessionStore.load('local')).pricing?.id;
 
 // Mock the AI SDK
 const mockAppend = jest.fn();
@@ -118,9 +123,9 @@ describe('LLM UI Integration Tests', () => {
           toolInvocations: [{
             toolCallId: 'call_3',
             toolName: 'selectHotel',
-            args: { hotelId: 'millennium', hotelName: 'Millennium Hotel Doha' },
+            args: { hotelId: 'millennium-doha', hotelName: 'Millennium Hotel Doha' },
             result: await bookingFunctions.selectHotel.execute({
-              hotelId: 'millennium',
+              hotelId: 'millennium-doha',
               hotelName: 'Millennium Hotel Doha'
             })
           }]
@@ -255,7 +260,7 @@ describe('LLM UI Integration Tests', () => {
           name: 'selectHotel',
           expectedUIType: 'stopover-options',
           result: await bookingFunctions.selectHotel.execute({
-            hotelId: 'millennium',
+            hotelId: 'millennium-doha',
             hotelName: 'Millennium Hotel Doha'
           })
         },
@@ -281,14 +286,15 @@ describe('LLM UI Integration Tests', () => {
           expectedUIType: 'form',
           result: await bookingFunctions.initiatePayment.execute({
             paymentMethod: 'credit-card',
-            totalAmount: 500
+            quoteId: await currentQuoteId()
           })
         },
         {
           name: 'completeBooking',
           expectedUIType: 'summary',
           result: await bookingFunctions.completeBooking.execute({
-            paymentData: { method: 'credit-card', confirmed: true }
+            quoteId: await currentQuoteId(),
+            paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
           })
         }
       ];
@@ -432,7 +438,7 @@ describe('LLM UI Integration Tests', () => {
     it('should render payment form with proper validation', async () => {
       const paymentResult = await bookingFunctions.initiatePayment.execute({
         paymentMethod: 'credit-card',
-        totalAmount: 500
+        quoteId: await currentQuoteId()
       });
 
       const message = {
@@ -442,7 +448,7 @@ describe('LLM UI Integration Tests', () => {
         toolInvocations: [{
           toolCallId: 'call_6',
           toolName: 'initiatePayment',
-          args: { paymentMethod: 'credit-card', totalAmount: 500 },
+          args: { paymentMethod: 'credit-card', quoteId: await currentQuoteId() },
           result: paymentResult
         }]
       };
@@ -485,7 +491,8 @@ describe('LLM UI Integration Tests', () => {
 
     it('should render booking confirmation with success indicators', async () => {
       const confirmationResult = await bookingFunctions.completeBooking.execute({
-        paymentData: { method: 'credit-card', confirmed: true }
+        quoteId: await currentQuoteId(),
+        paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved }
       });
 
       const message = {
@@ -495,7 +502,7 @@ describe('LLM UI Integration Tests', () => {
         toolInvocations: [{
           toolCallId: 'call_7',
           toolName: 'completeBooking',
-          args: { paymentData: { method: 'credit-card', confirmed: true } },
+          args: { paymentData: { method: 'credit-card', confirmed: true, cardToken: testCardTokens.approved } },
           result: confirmationResult
         }]
       };
@@ -524,10 +531,10 @@ describe('LLM UI Integration Tests', () => {
       // Verify confirmation structure
       expect(confirmationResult.success).toBe(true);
       expect(confirmationResult.bookingComplete).toBe(true);
-      expect(confirmationResult.newPNR).toBe('X9FG1');
+      expect(confirmationResult.newPNR).toMatch(/^[A-Z2-9]{6}$/);
       expect(confirmationResult.uiComponent.type).toBe('summary');
       expect(confirmationResult.message).toContain('🎉');
-      expect(confirmationResult.message).toContain('X9FG1');
+      expect(confirmationResult.message).toContain(confirmationResult.newPNR);
     });
   });
 
@@ -3,6 +3,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import MessageBubble from '../MessageBubble';
 import type { Message } from '../../types';
+import { AVIOS_REDEMPTION_STEP } from '../../data';
 
 // Mock the image import
 jest.mock('../../assets/images/privilege_club_logo.png', () => 'privilege-club-logo.png');
@@ -24,13 +25,51 @@ describe('MessageBubble Enhanced Features', () => {
           data: {
             totalAmount: 500,
             totalAviosPrice: 62500,
-            aviosBalance: 275000
+            aviosBalance: 275000,
+            tierStatus: 'Gold'
           }
         }
       },
       timestamp: mockTimestamp
     };
 
+    const loginFormMessage: Message = {
+      id: '1',
+      sender: 'agent',
+      content: {
+        type: 'form',
+        text: 'Please sign in to your Privilege Club account',
+        formData: {
+          type: 'login',
+          fields: [
+            { id: 'email', type: 'email', label: 'Email Address', required: true },
+            { id: 'password', type: 'password', label: 'Password', required: true }
+          ],
+          submitLabel: 'Sign in to Privilege Club',
+          data: { quoteId: 'QT-1', paymentMethod: 'avios' }
+        }
+      },
+      timestamp: mockTimestamp
+    };
+
+    // Stand-in for the tokenisation and Privilege Club sign-in endpoints
+    const mockEndpoint = (status: number, body: Record<string, unknown>) => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: status === 200, status, json: async () => body });
+      global.fetch = fetchMock as any;
+      return fetchMock;
+    };
+
+    const fillCard = () => {
+      fireEvent.change(screen.getByPlaceholderText('1234 5678 9012 3456'), { target: { value: '4111111111111111' } });
+      fireEvent.change(screen.getByPlaceholderText('MM/YY'), { target: { value: '1230' } });
+      fireEvent.change(screen.getByPlaceholderText('123'), { target: { value: '123' } });
+      fireEvent.change(screen.getByPlaceholderText('John Doe'), { target: { value: 'Alex Johnson' } });
+    };
+
+    afterEach(() => {
+      delete (global as any).fetch;
+    });
+
     it('should render payment method tabs', () => {
       render(
         <MessageBubble
@@ -70,10 +109,10 @@ describe('MessageBubble Enhanced Features', () => {
 
       fireEvent.click(screen.getByText('Pay with Avios'));
 
-      expect(screen.getByText('Privilege Club Login')).toBeInTheDocument();
-      expect(screen.getByPlaceholderText('your.email@example.com')).toBeInTheDocument();
-      expect(screen.getByPlaceholderText('Enter your password')).toBeInTheDocument();
+      // The member has already signed in, so the form only shows their account
+      expect(screen.getByText('Privilege Club Gold')).toBeInTheDocument();
       expect(screen.getByText('275,000')).toBeInTheDocument(); // Avios balance
+      expect(screen.queryByPlaceholderText('Enter your password')).not.toBeInTheDocument();
     });
 
     it('should format credit card number with spaces', () => {
@@ -91,6 +130,28 @@ describe('MessageBubble Enhanced Features', () => {
       expect(cardInput).toHaveValue('1234 5678 9012 3456');
     });
 
+    it('should detect the card brand as the number is typed and group its digits', () => {
+      render(
+        <MessageBubble
+          message={paymentFormMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+        />
+      );
+
+      const cardInput = screen.getByPlaceholderText('1234 5678 9012 3456');
+      fireEvent.change(cardInput, { target: { value: '3' } });
+      expect(screen.queryByText('American Express')).not.toBeInTheDocument();
+
+      fireEvent.change(cardInput, { target: { value: '378282246310005' } });
+      expect(cardInput).toHaveValue('3782 822463 10005');
+      expect(screen.getByText('American Express')).toBeInTheDocument();
+
+      // Amex security codes are 4 digits
+      fireEvent.change(screen.getByPlaceholderText('1234'), { target: { value: '12345' } });
+      expect(screen.getByPlaceholderText('1234')).toHaveValue('1234');
+    });
+
     it('should format expiry date with slash', () => {
       render(
         <MessageBubble
@@ -122,7 +183,7 @@ describe('MessageBubble Enhanced Features', () => {
       fireEvent.click(submitButton);
 
       await waitFor(() => {
-        expect(screen.getByText('Please enter a valid 16-digit card number')).toBeInTheDocument();
+        expect(screen.getByText('Please enter a valid card number')).toBeInTheDocument();
         expect(screen.getByText('Please enter a valid expiry date (MM/YY)')).toBeInTheDocument();
         expect(screen.getByText('Please enter a valid CVV (3-4 digits)')).toBeInTheDocument();
         expect(screen.getByText('Please enter the name on the card')).toBeInTheDocument();
@@ -131,31 +192,186 @@ describe('MessageBubble Enhanced Features', () => {
       expect(mockOnSubmit).not.toHaveBeenCalled();
     });
 
-    it('should show validation errors for invalid Avios login data', async () => {
+    it('should show validation errors for invalid Privilege Club login data', async () => {
       const mockOnSubmit = jest.fn();
+      const fetchMock = mockEndpoint(200, { success: true });
       
       render(
         <MessageBubble
-          message={paymentFormMessage}
+          message={loginFormMessage}
           sender="agent"
           timestamp={mockTimestamp}
           onFormSubmit={mockOnSubmit}
         />
       );
 
-      // Switch to Avios tab
-      fireEvent.click(screen.getByText('Pay with Avios'));
-
-      const submitButton = screen.getByText('Complete Payment');
-      fireEvent.click(submitButton);
+      fireEvent.click(screen.getByText('Sign in to Privilege Club'));
 
       await waitFor(() => {
         expect(screen.getByText('Please enter a valid email address')).toBeInTheDocument();
         expect(screen.getByText('Please enter your password')).toBeInTheDocument();
       });
 
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should sign in on the server and only tell the agent the member signed in', async () => {
+      const mockOnSubmit = jest.fn();
+      const fetchMock = mockEndpoint(200, { success: true, memberName: 'Alex Johnson', tierStatus: 'Gold', aviosBalance: 275000 });
+
+      render(
+        <MessageBubble
+          message={loginFormMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+          onFormSubmit={mockOnSubmit}
+        />
+      );
+
+      fireEvent.change(screen.getByPlaceholderText('your.email@example.com'), { target: { value: 'alex.johnson@email.com' } });
+      fireEvent.change(screen.getByPlaceholderText('Enter your password'), { target: { value: 'avios-test' } });
+      fireEvent.click(screen.getByText('Sign in to Privilege Club'));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({ signedIn: true, paymentMethod: 'avios', quoteId: 'QT-1' });
+      });
+      expect(fetchMock).toHaveBeenCalledWith('/api/privilege-club/login', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ email: 'alex.johnson@email.com', password: 'avios-test' })
+      }));
+    });
+
+    it('should show the sign-in error and not submit when the password is wrong', async () => {
+      const mockOnSubmit = jest.fn();
+      mockEndpoint(401, { success: false, error: 'Your email or password is incorrect' });
+
+      render(
+        <MessageBubble
+          message={loginFormMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+          onFormSubmit={mockOnSubmit}
+        />
+      );
+
+      fireEvent.change(screen.getByPlaceholderText('your.email@example.com'), { target: { value: 'alex.johnson@email.com' } });
+      fireEvent.change(screen.getByPlaceholderText('Enter your password'), { target: { value: 'wrong' } });
+      fireEvent.click(screen.getByText('Sign in to Privilege Club'));
+
+      expect(await screen.findByText('Your email or password is incorrect')).toBeInTheDocument();
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should submit a card token and masked summary instead of the card details', async () => {
+      const mockOnSubmit = jest.fn();
+      const fetchMock = mockEndpoint(200, { success: true, token: 'tok_000001', brand: 'visa', last4: '1111' });
+
+      render(
+        <MessageBubble
+          message={paymentFormMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+          onFormSubmit={mockOnSubmit}
+        />
+      );
+
+      fillCard();
+      fireEvent.click(screen.getByText('Complete Payment'));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({
+          paymentMethod: 'credit-card',
+          card: { token: 'tok_000001', brand: 'visa', last4: '1111' }
+        });
+      });
+      expect(fetchMock).toHaveBeenCalledWith('/api/payments/tokenize', expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('should not submit when the card cannot be tokenised', async () => {
+      const mockOnSubmit = jest.fn();
+      mockEndpoint(500, { success: false, error: 'Card could not be tokenised' });
+
+      render(
+        <MessageBubble
+          message={paymentFormMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+          onFormSubmit={mockOnSubmit}
+        />
+      );
+
+      fillCard();
+      fireEvent.click(screen.getByText('Complete Payment'));
+
+      await waitFor(() => {
+        expect(screen.getByText(/We couldn't verify this card/)).toBeInTheDocument();
+      });
       expect(mockOnSubmit).not.toHaveBeenCalled();
     });
+
+    it('should lock the form to the method the payment was started with', () => {
+      const startedMessage: Message = {
+        ...paymentFormMessage,
+        content: {
+          ...paymentFormMessage.content,
+          formData: { ...(paymentFormMessage.content as any).formData, data: { totalAmount: 500, totalAviosPrice: 62500, paymentMethod: 'avios' } }
+        } as any
+      };
+
+      render(
+        <MessageBubble
+          message={startedMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+        />
+      );
+
+      expect(screen.getByText('Required for this booking:')).toBeInTheDocument();
+      expect(screen.getByText('Credit Card').closest('button')).toBeDisabled();
+      expect(screen.getByText('Cash + Avios').closest('button')).toBeDisabled();
+
+      fireEvent.click(screen.getByText('Credit Card'));
+      expect(screen.queryByPlaceholderText('1234 5678 9012 3456')).not.toBeInTheDocument();
+    });
+
+    it('should split the total with the Cash + Avios slider', async () => {
+      const mockOnSubmit = jest.fn();
+      mockEndpoint(200, { success: true, token: 'tok_000001', brand: 'visa', last4: '1111' });
+
+      render(
+        <MessageBubble
+          message={paymentFormMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+          onFormSubmit={mockOnSubmit}
+        />
+      );
+
+      fireEvent.click(screen.getByText('Cash + Avios'));
+
+      // Starts at half the Avios price, rounded down to the slider step; the card share carries the surcharge
+      expect(screen.getByText('31,000 Avios')).toBeInTheDocument();
+      expect(screen.getByText('$255.78 by card')).toBeInTheDocument();
+      // The server needs at least one step of Avios, so the slider can't reach zero
+      expect(screen.getByLabelText('Avios to use')).toHaveAttribute('min', String(AVIOS_REDEMPTION_STEP));
+
+      fireEvent.change(screen.getByLabelText('Avios to use'), { target: { value: '50000' } });
+      expect(screen.getByText('$101.50 by card')).toBeInTheDocument();
+      expect(screen.getByText('Includes a $1.50 card surcharge')).toBeInTheDocument();
+
+      fillCard();
+      fireEvent.click(screen.getByText('Complete Payment'));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith(expect.objectContaining({
+          paymentMethod: 'cash-avios',
+          aviosToUse: 50000,
+          card: expect.objectContaining({ token: 'tok_000001' })
+        }));
+      });
+      expect(mockOnSubmit.mock.calls[0][0]).not.toHaveProperty('cardNumber');
+    });
   });
 
   describe('Enhanced Summary Renderer', () => {
@@ -245,6 +461,38 @@ describe('MessageBubble Enhanced Features', () => {
       expect(screen.getByText('$415')).toBeInTheDocument();
       expect(screen.getByText(/51,875 Avios/)).toBeInTheDocument();
     });
+
+    it('should show what paying by card charges before payment', () => {
+      const quoteMessage: Message = {
+        ...summaryMessage,
+        content: {
+          type: 'summary',
+          text: 'Here is your booking summary',
+          richContent: {
+            type: 'summary',
+            data: {
+              title: 'Booking Summary',
+              items: [{ label: 'Millennium Hotel Doha (2 nights, 1 room)', value: '$300' }],
+              total: '$976.50',
+              cardTotal: '$991.15',
+              cardSurcharge: '$14.65'
+            }
+          }
+        }
+      };
+
+      render(
+        <MessageBubble
+          message={quoteMessage}
+          sender="agent"
+          timestamp={mockTimestamp}
+        />
+      );
+
+      expect(screen.getByText('$976.50')).toBeInTheDocument();
+      expect(screen.getByText('Paying by card (includes a $14.65 card surcharge)')).toBeInTheDocument();
+      expect(screen.getByText('$991.15')).toBeInTheDocument();
+    });
   });
 
   describe('Booking Confirmation Summary', () => {
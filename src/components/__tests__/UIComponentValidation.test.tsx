@@ -728,7 +728,7 @@ describe('UI Component Validation for LLM Function Calls', () => {
             type: 'payment',
             fields: [],
             submitLabel: 'Pay',
-            data: { aviosBalance: 275000 }
+            data: { aviosBalance: 275000, tierStatus: 'Gold' }
           }
         },
         timestamp: mockTimestamp
@@ -747,11 +747,9 @@ describe('UI Component Validation for LLM Function Calls', () => {
       const aviosTab = screen.getByText('Pay with Avios');
       fireEvent.click(aviosTab);
 
-      // Verify Avios form is shown
+      // Verify the signed-in member's Avios account is shown
       await waitFor(() => {
-        expect(screen.getByText('Privilege Club Login')).toBeInTheDocument();
-        expect(screen.getByPlaceholderText('your.email@example.com')).toBeInTheDocument();
-        expect(screen.getByPlaceholderText('Enter your password')).toBeInTheDocument();
+        expect(screen.getByText('Privilege Club Gold')).toBeInTheDocument();
         expect(screen.getByText('275,000')).toBeInTheDocument(); // Avios balance
       });
     });
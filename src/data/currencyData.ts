@@ -0,0 +1,78 @@
+import type { Currency, FxSnapshot, PricingBreakdown } from '../types';
+import fxRates from './fxRates.json';
+
+// Currency and FX utilities for quoting the USD catalog in each customer market
+export const SUPPORTED_CURRENCIES: Currency[] = ['USD', 'GBP', 'EUR', 'QAR', 'THB'];
+
+// Display locale for each market currency
+export const CURRENCY_LOCALES: Record<Currency, string> = {
+  USD: 'en-US',
+  GBP: 'en-GB',
+  EUR: 'en-IE',
+  QAR: 'en-QA',
+  THB: 'th-TH'
+};
+
+export const isSupportedCurrency = (currency: unknown): currency is Currency => {
+  return typeof currency === 'string' && SUPPORTED_CURRENCIES.includes(currency as Currency);
+};
+
+// Check that a rate table has a positive rate for every supported currency
+export const isValidFxRates = (rates: unknown): rates is Record<Currency, number> => {
+  if (!rates || typeof rates !== 'object') {
+    return false;
+  }
+  return SUPPORTED_CURRENCIES.every(currency => {
+    const rate = (rates as Record<string, unknown>)[currency];
+    return typeof rate === 'number' && rate > 0;
+  });
+};
+
+// Rate table bundled with the app, used when KV has no published rates
+export const localFxSnapshot: FxSnapshot = {
+  base: 'USD',
+  rates: fxRates.rates as Record<Currency, number>,
+  asOf: fxRates.asOf,
+  source: 'local'
+};
+
+// Round to the minor unit so converted lines add up to the converted total
+export const roundCurrency = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
+
+// Convert a USD catalog amount with a USD exchange rate
+export const convertFromUSD = (amount: number, exchangeRate: number = 1): number => {
+  return roundCurrency(amount * exchangeRate);
+};
+
+// Convert a USD pricing breakdown into the customer's currency and lock the snapshot used
+export const convertPricingBreakdown = (
+  pricing: PricingBreakdown,
+  currency: Currency,
+  snapshot: FxSnapshot
+): PricingBreakdown => {
+  const rate = snapshot.rates[currency];
+  const hotelCost = convertFromUSD(pricing.hotelCost, rate);
+  const flightFareDifference = convertFromUSD(pricing.flightFareDifference, rate);
+  const transfersCost = convertFromUSD(pricing.transfersCost, rate);
+  const toursCost = convertFromUSD(pricing.toursCost, rate);
+  const discounts = (pricing.discounts || []).map(discount => ({ ...discount, amount: convertFromUSD(discount.amount, rate) }));
+  const discountTotal = discounts.reduce((total, discount) => total + discount.amount, 0);
+  const taxes = (pricing.taxes || []).map(tax => ({ ...tax, amount: convertFromUSD(tax.amount, rate) }));
+  const taxTotal = taxes.reduce((total, tax) => total + tax.amount, 0);
+
+  return {
+    currency,
+    hotelCost,
+    flightFareDifference,
+    transfersCost,
+    toursCost,
+    ...(discounts.length > 0 ? { discounts } : {}),
+    ...(taxes.length > 0 ? { taxes } : {}),
+    totalCashPrice: roundCurrency(hotelCost + flightFareDifference + transfersCost + toursCost - discountTotal + taxTotal),
+    // Avios are always redeemed against the USD fare
+    totalAviosPrice: pricing.totalAviosPrice,
+    fxSnapshot: snapshot
+  };
+};
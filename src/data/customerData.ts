@@ -1,4 +1,5 @@
-import type { CustomerData, BookingData, FlightRoute, PrivilegeClubAccount } from '../types';
+import type { CustomerData, BookingData, FlightRoute, FlightSegment, PrivilegeClubAccount, LoginData } from '../types';
+import { getDohaFlightTimes } from './itineraryData';
 
 // Sample customer data as specified in requirements
 export const sampleCustomer: CustomerData = {
@@ -7,6 +8,14 @@ export const sampleCustomer: CustomerData = {
   email: 'alex.johnson@email.com'
 };
 
+// Flights on the sample booking, connecting in Doha both ways
+const sampleFlightSegments: FlightSegment[] = [
+  { flightNumber: 'QR4', origin: 'LHR', destination: 'DOH', departure: '2026-11-11T20:40', arrival: '2026-11-12T06:45' },
+  { flightNumber: 'QR836', origin: 'DOH', destination: 'BKK', departure: '2026-11-12T20:05', arrival: '2026-11-13T06:55' },
+  { flightNumber: 'QR837', origin: 'BKK', destination: 'DOH', departure: '2026-11-19T20:55', arrival: '2026-11-19T23:55' },
+  { flightNumber: 'QR3', origin: 'DOH', destination: 'LHR', departure: '2026-11-20T07:40', arrival: '2026-11-20T12:35' }
+];
+
 // Sample booking data with PNR X4HG8 and LHR-BKK routing
 export const sampleBooking: BookingData = {
   pnr: 'X4HG8',
@@ -14,10 +23,21 @@ export const sampleBooking: BookingData = {
     origin: 'LHR',
     destination: 'BKK',
     stops: ['DOH'],
-    routing: 'LHR-BKK-LHR'
+    routing: 'LHR-BKK-LHR',
+    segments: sampleFlightSegments
   },
   passengers: 2,
-  status: 'confirmed'
+  status: 'confirmed',
+  travelDates: {
+    outbound: '2026-11-12',
+    return: '2026-11-19'
+  },
+  flightTimes: getDohaFlightTimes(sampleFlightSegments),
+  passengerMix: {
+    adults: 2,
+    children: 0,
+    infants: 0
+  }
 };
 
 // Updated flight route with stopover
@@ -37,5 +57,10 @@ export const mockPrivilegeClubAccount: PrivilegeClubAccount = {
   isLoggedIn: false
 };
 
+// Members the mock Privilege Club service signs in, for local development and tests
+export const testPrivilegeClubMembers: Array<{ login: LoginData; account: PrivilegeClubAccount }> = [
+  { login: { email: 'alex.johnson@email.com', password: 'avios-test' }, account: mockPrivilegeClubAccount }
+];
+
 // New PNR for confirmed booking
 export const confirmedBookingPNR = 'X9FG1';
\ No newline at end of file
@@ -7,6 +7,8 @@ import type {
   TransferOption,
   PricingBreakdown 
 } from '../types';
+import { isSupportedCurrency } from './currencyData';
+import { parseTourDuration } from './tourData';
 
 // Data validation utilities to ensure consistency across the static data layer
 
@@ -46,10 +48,12 @@ export const validateStopoverCategory = (category: StopoverCategory): boolean =>
 export const validateHotelOption = (hotel: HotelOption): boolean => {
   return !!(
     hotel.id &&
+    hotel.stopoverCategoryId &&
     hotel.name &&
-    ['4-star', '5-star', '5-star deluxe'].includes(hotel.category) &&
+    ['3-star', '4-star', '5-star', '5-star deluxe'].includes(hotel.category) &&
     hotel.starRating >= 1 && hotel.starRating <= 5 &&
     hotel.pricePerNight > 0 &&
+    hotel.maxOccupancy > 0 &&
     hotel.image &&
     Array.isArray(hotel.amenities)
   );
@@ -61,6 +65,7 @@ export const validateTourOption = (tour: TourOption): boolean => {
     tour.name &&
     tour.description &&
     tour.duration &&
+    tour.durationMinutes === parseTourDuration(tour.duration) &&
     tour.price > 0 &&
     tour.image &&
     Array.isArray(tour.highlights) &&
@@ -79,16 +84,23 @@ export const validateTransferOption = (transfer: TransferOption): boolean => {
 };
 
 export const validatePricingBreakdown = (pricing: PricingBreakdown): boolean => {
+  const discounts = pricing.discounts || [];
+  const taxes = pricing.taxes || [];
   const expectedTotal = pricing.hotelCost + 
                        pricing.flightFareDifference + 
                        pricing.transfersCost + 
-                       pricing.toursCost;
+                       pricing.toursCost -
+                       discounts.reduce((total, discount) => total + discount.amount, 0) +
+                       taxes.reduce((total, tax) => total + tax.amount, 0);
   
   return !!(
+    isSupportedCurrency(pricing.currency) &&
     pricing.hotelCost >= 0 &&
     pricing.flightFareDifference >= 0 &&
     pricing.transfersCost >= 0 &&
     pricing.toursCost >= 0 &&
+    discounts.every(discount => discount.amount > 0) &&
+    taxes.every(tax => tax.amount >= 0) &&
     Math.abs(pricing.totalCashPrice - expectedTotal) < 0.01 && // Allow for floating point precision
     pricing.totalAviosPrice > 0
   );
@@ -118,10 +130,27 @@ export const validateAllStaticData = () => {
     });
     
     // Validate hotels
-    dataModule.premiumHotels.forEach((hotel, index) => {
+    dataModule.stopoverHotels.forEach((hotel, index) => {
       if (!validateHotelOption(hotel)) {
         errors.push(`Invalid hotel at index ${index}: ${hotel.name}`);
       }
+      if (!dataModule.getCategoryById(hotel.stopoverCategoryId)) {
+        errors.push(`Hotel ${hotel.name} references unknown stopover category: ${hotel.stopoverCategoryId}`);
+      }
+    });
+    
+    // Every stopover category needs at least one hotel to offer
+    dataModule.stopoverCategories.forEach(category => {
+      if (dataModule.getHotelsForStopoverCategory(category.id).length === 0) {
+        errors.push(`No hotels available for stopover category: ${category.name}`);
+      }
+    });
+    
+    // Sample journeys must pair each category with one of its own hotels
+    [dataModule.sampleStopoverSelection, ...Object.values(dataModule.alternativeJourneys)].forEach(journey => {
+      if (journey.hotel.stopoverCategoryId !== journey.stopovertype.id) {
+        errors.push(`Sample journey hotel ${journey.hotel.name} is not in the ${journey.stopovertype.name} category`);
+      }
     });
     
     // Validate tours
@@ -157,6 +186,7 @@ export const validateImagePaths = () => {
     '/src/assets/images/souq_waqif_hotel.webp',
     '/src/assets/images/crowne_plaza_hotel.webp',
     '/src/assets/images/al_najada_hotel.webp',
+    '/src/assets/images/raffles_hotel_doha.jpg',
     
     // Category images
     '/src/assets/images/standard_stopover.jpg',
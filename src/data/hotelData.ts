@@ -1,13 +1,15 @@
-import type { HotelOption } from '../types';
+import type { HotelOption, StopoverCategory } from '../types';
 
 // Five premium hotels with detailed amenities and pricing using provided hotel images
 export const premiumHotels: HotelOption[] = [
   {
     id: 'millennium-doha',
+    stopoverCategoryId: 'premium',
     name: 'Millennium Hotel Doha',
     category: '5-star',
     starRating: 5,
     pricePerNight: 180,
+    maxOccupancy: 3,
     image: '/src/assets/images/millenium_hotel.webp',
     amenities: [
       'Luxury rooms with city views',
@@ -24,10 +26,12 @@ export const premiumHotels: HotelOption[] = [
   },
   {
     id: 'steigenberger-doha',
+    stopoverCategoryId: 'premium',
     name: 'Steigenberger Hotel Doha',
     category: '5-star',
     starRating: 5,
     pricePerNight: 195,
+    maxOccupancy: 2,
     image: '/src/assets/images/steigenberger_hotel.webp',
     amenities: [
       'Elegant rooms with modern amenities',
@@ -44,10 +48,12 @@ export const premiumHotels: HotelOption[] = [
   },
   {
     id: 'souq-waqif-boutique',
+    stopoverCategoryId: 'luxury',
     name: 'Souq Waqif Boutique Hotel',
     category: '5-star deluxe',
     starRating: 5,
     pricePerNight: 220,
+    maxOccupancy: 2,
     image: '/src/assets/images/souq_waqif_hotel.webp',
     amenities: [
       'Traditional Qatari architecture',
@@ -64,10 +70,12 @@ export const premiumHotels: HotelOption[] = [
   },
   {
     id: 'crowne-plaza-doha',
+    stopoverCategoryId: 'premium',
     name: 'Crowne Plaza Doha',
     category: '4-star',
     starRating: 4,
     pricePerNight: 165,
+    maxOccupancy: 3,
     image: '/src/assets/images/crowne_plaza_hotel.webp',
     amenities: [
       'Contemporary business hotel',
@@ -84,10 +92,12 @@ export const premiumHotels: HotelOption[] = [
   },
   {
     id: 'al-najada-doha',
+    stopoverCategoryId: 'premium',
     name: 'Al Najada Doha Hotel',
     category: '4-star',
     starRating: 4,
     pricePerNight: 155,
+    maxOccupancy: 3,
     image: '/src/assets/images/al_najada_hotel.webp',
     amenities: [
       'Modern Arabian hospitality',
@@ -104,26 +114,108 @@ export const premiumHotels: HotelOption[] = [
   }
 ];
 
+// Partner hotels so the standard, premium beach and luxury categories have inventory
+export const partnerHotels: HotelOption[] = [
+  {
+    id: 'ibis-doha',
+    stopoverCategoryId: 'standard',
+    name: 'Ibis Doha',
+    category: '3-star',
+    starRating: 3,
+    pricePerNight: 80,
+    maxOccupancy: 2,
+    image: '/src/assets/images/standard_stopover.jpg',
+    amenities: [
+      'Comfortable modern rooms',
+      'Room only',
+      'Free WiFi throughout',
+      'City center location',
+      '24-hour reception',
+      'Bar and snack service'
+    ]
+  },
+  {
+    id: 'sheraton-grand-doha',
+    stopoverCategoryId: 'premium-beach',
+    name: 'Sheraton Grand Doha Resort',
+    category: '5-star',
+    starRating: 5,
+    pricePerNight: 215,
+    maxOccupancy: 4,
+    image: '/src/assets/images/premium_beach_stopover.jpg',
+    amenities: [
+      'Private beach and beach club',
+      'Full breakfast buffet',
+      'Water sports equipment',
+      'Outdoor pools and beach bar',
+      'Spa and wellness center',
+      'Multiple dining restaurants',
+      'High-speed WiFi',
+      'Concierge service'
+    ]
+  },
+  {
+    id: 'raffles-doha',
+    stopoverCategoryId: 'luxury',
+    name: 'Raffles Doha',
+    category: '5-star deluxe',
+    starRating: 5,
+    pricePerNight: 300,
+    maxOccupancy: 2,
+    image: '/src/assets/images/raffles_hotel_doha.jpg',
+    amenities: [
+      'All-suite accommodation',
+      'Personal butler service',
+      'Gourmet breakfast and dining',
+      'Exclusive spa access',
+      'Private pool access',
+      'VIP lounge access',
+      'Premium WiFi',
+      '24/7 concierge'
+    ]
+  }
+];
+
+// Full stopover hotel inventory across all categories
+export const stopoverHotels: HotelOption[] = [...premiumHotels, ...partnerHotels];
+
 // Helper function to get hotel by ID
 export const getHotelById = (id: string): HotelOption | undefined => {
-  return premiumHotels.find(hotel => hotel.id === id);
+  return stopoverHotels.find(hotel => hotel.id === id);
 };
 
 // Helper function to get hotels by category
 export const getHotelsByCategory = (category: string): HotelOption[] => {
-  return premiumHotels.filter(hotel => hotel.category === category);
+  return stopoverHotels.filter(hotel => hotel.category === category);
+};
+
+// Helper function to get the hotels offered in a stopover category, cheapest first
+export const getHotelsForStopoverCategory = (categoryId: string): HotelOption[] => {
+  return stopoverHotels
+    .filter(hotel => hotel.stopoverCategoryId === categoryId)
+    .sort((a, b) => a.pricePerNight - b.pricePerNight);
+};
+
+// Helper function to get a hotel's nightly price relative to its stopover category price
+export const getPriceDifferenceFromCategory = (hotel: HotelOption, category: StopoverCategory): number => {
+  return hotel.pricePerNight - category.pricePerNight;
+};
+
+// Helper function to get the number of rooms a party needs under the hotel's occupancy rules
+export const calculateRoomsRequired = (hotel: HotelOption, passengers: number): number => {
+  return Math.max(1, Math.ceil(passengers / hotel.maxOccupancy));
 };
 
 // Helper function to get hotels by price range
 export const getHotelsByPriceRange = (minPrice: number, maxPrice: number): HotelOption[] => {
-  return premiumHotels.filter(hotel => 
+  return stopoverHotels.filter(hotel => 
     hotel.pricePerNight >= minPrice && hotel.pricePerNight <= maxPrice
   );
 };
 
 // Helper function to get hotels sorted by price
 export const getHotelsSortedByPrice = (ascending: boolean = true): HotelOption[] => {
-  return [...premiumHotels].sort((a, b) => 
+  return [...stopoverHotels].sort((a, b) => 
     ascending ? a.pricePerNight - b.pricePerNight : b.pricePerNight - a.pricePerNight
   );
 };
\ No newline at end of file
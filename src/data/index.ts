@@ -6,6 +6,7 @@ export {
   sampleBooking,
   stopoverFlightRoute,
   mockPrivilegeClubAccount,
+  testPrivilegeClubMembers,
   confirmedBookingPNR
 } from './customerData';
 
@@ -19,8 +20,13 @@ export {
 // Hotel data
 export {
   premiumHotels,
+  partnerHotels,
+  stopoverHotels,
   getHotelById,
   getHotelsByCategory,
+  getHotelsForStopoverCategory,
+  calculateRoomsRequired,
+  getPriceDifferenceFromCategory,
   getHotelsByPriceRange,
   getHotelsSortedByPrice
 } from './hotelData';
@@ -32,8 +38,13 @@ export {
   getTourById,
   getToursByPriceRange,
   getToursSortedByPrice,
+  tourProfiles,
   getRecommendedTour,
-  calculateTourMatchScore
+  getRecommendedTours,
+  calculateTourMatchScore,
+  parseTourDuration,
+  fitsStopoverTimes,
+  extractTourInterests
 } from './tourData';
 
 // Transfer options and pricing
@@ -41,6 +52,8 @@ export {
   transferOptions,
   defaultTransferOption,
   calculateTransferCost,
+  calculateTransferPrice,
+  TRANSFER_VEHICLE_CAPACITY,
   getTransferById,
   formatTransferPrice,
   sampleTransferBooking,
@@ -54,12 +67,101 @@ export {
   calculatePricingBreakdown,
   calculateExtrasPrice,
   formatPrice,
+  formatCatalogPrice,
+  AVIOS_TIER_RATES,
+  AVIOS_REDEMPTION_STEP,
+  getAviosConversionRate,
   calculateAviosRequired,
   calculateCashFromAvios,
+  calculateTierAviosPrice,
+  calculateCashShare,
+  calculateAviosPayment,
   samplePricingScenarios,
   getPricingDisplayData
 } from './pricingData';
 
+// Seasonal rate calendar for hotels and tours
+export {
+  RATE_SEASONS,
+  hotelRateCalendar,
+  tourRateCalendar,
+  addDays,
+  calculateStopoverDates,
+  getStayNights,
+  getRatePeriod,
+  getHotelNightlyRate,
+  getStopoverNightlyRate,
+  getTourRate,
+  calculateStayCost,
+  getStaySeasons
+} from './rateCalendar';
+
+// Flight connections and the hours tours can run around them
+export {
+  ARRIVAL_BUFFER_MINUTES,
+  DEPARTURE_BUFFER_MINUTES,
+  TRANSFER_MINUTES,
+  DAY_START_MINUTES,
+  DAY_END_MINUTES,
+  TIGHT_SCHEDULE_MINUTES,
+  toMinutes,
+  formatMinutes,
+  getActivityWindows
+} from './scheduleData';
+
+// Journeys and stopover positions read from an itinerary's flights
+export {
+  HUB_AIRPORT,
+  MAX_CONNECTION_MINUTES,
+  getJourneys,
+  getTripType,
+  getStopoverPositions,
+  getItineraryTravelDates,
+  getDohaFlightTimes,
+  buildFlightRoute
+} from './itineraryData';
+
+// Room and tour seat capacity
+export {
+  hotelRoomAllotments,
+  INVENTORY_HOLD_TTL_MS,
+  LIMITED_AVAILABILITY_SHARE,
+  getInventoryCapacity,
+  getInventoryItems,
+  getAvailabilityStatus
+} from './inventoryData';
+
+// Promo codes and bundle discounts
+export {
+  promoCodes,
+  bundleDiscounts,
+  getPromoCode,
+  getPromoCodeIneligibility,
+  evaluateDiscounts,
+  calculateDiscountTotal
+} from './promotionData';
+
+// Test cards for the mock payment provider
+export {
+  testCards,
+  testCardTokens,
+  normalizeCardNumber,
+  getTestCardOutcome,
+  type TestCardOutcome
+} from './paymentData';
+
+// Currencies and FX conversion
+export {
+  SUPPORTED_CURRENCIES,
+  CURRENCY_LOCALES,
+  isSupportedCurrency,
+  isValidFxRates,
+  localFxSnapshot,
+  roundCurrency,
+  convertFromUSD,
+  convertPricingBreakdown
+} from './currencyData';
+
 // Sample journey data
 export {
   sampleStopoverSelection,
@@ -145,15 +247,41 @@ export type {
   CustomerData,
   BookingData,
   FlightRoute,
+  FlightSegment,
+  TripType,
+  StopoverTiming,
+  StopoverPosition,
+  TravelDates,
+  FlightTimes,
+  DohaFlightTimes,
+  PassengerMix,
+  StopoverDates,
+  RatePeriod,
+  RateCalendar,
   StopoverCategory,
   HotelOption,
   TourOption,
   RecommendedTour,
+  TourInterest,
+  TourProfile,
+  TourRecommendationContext,
+  ItineraryEvent,
+  ItineraryDay,
+  ScheduleIssue,
+  StopoverItinerary,
   TransferOption,
   SelectedExtras,
   SelectedTour,
   StopoverSelection,
   PrivilegeClubAccount,
+  TierStatus,
+  PaymentMethod,
   PricingBreakdown,
+  PromoCode,
+  PromoCodeType,
+  BundleDiscount,
+  PricingDiscount,
+  Currency,
+  FxSnapshot,
   BookingState
 } from '../types';
\ No newline at end of file
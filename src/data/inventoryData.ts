@@ -0,0 +1,67 @@
+import type { InventoryItem, StopoverSelection } from '../types';
+import { calculateRoomsRequired } from './hotelData';
+import { getTourById } from './tourData';
+import { getStayNights, getTourDate } from './rateCalendar';
+
+// Rooms each hotel releases to the stopover programme every night
+export const hotelRoomAllotments: Record<string, number> = {
+  'millennium-doha': 12,
+  'steigenberger-doha': 10,
+  'souq-waqif-boutique': 6,
+  'crowne-plaza-doha': 12,
+  'al-najada-doha': 10,
+  'ibis-doha': 15,
+  'sheraton-grand-doha': 8,
+  'raffles-doha': 4
+};
+
+// Holds last long enough to review the summary and pay
+export const INVENTORY_HOLD_TTL_MS = 15 * 60 * 1000;
+
+// Below this share of capacity a tour is shown as limited
+export const LIMITED_AVAILABILITY_SHARE = 0.25;
+
+// Helper function to get the capacity of one hotel night or tour departure
+export const getInventoryCapacity = (item: Pick<InventoryItem, 'type' | 'productId'>): number => {
+  if (item.type === 'room') {
+    return hotelRoomAllotments[item.productId] ?? 0;
+  }
+  return getTourById(item.productId)?.maxParticipants ?? 0;
+};
+
+// Helper function to list the rooms and tour seats a dated stopover needs: rooms every night,
+// tour seats on the day each tour departs
+export const getInventoryItems = (selection: StopoverSelection): InventoryItem[] => {
+  if (!selection.dates) {
+    return [];
+  }
+  const { checkIn } = selection.dates;
+  const rooms = calculateRoomsRequired(selection.hotel, selection.passengers);
+
+  return [
+    ...getStayNights(checkIn, selection.duration).map(night => ({
+      type: 'room' as const,
+      productId: selection.hotel.id,
+      date: night,
+      quantity: rooms
+    })),
+    ...selection.extras.tours.map(selectedTour => ({
+      type: 'tour' as const,
+      productId: selectedTour.tour.id,
+      date: getTourDate(selectedTour, selection.dates)!,
+      quantity: selectedTour.quantity
+    }))
+  ];
+};
+
+// Helper function to describe remaining places against the party that needs them
+export const getAvailabilityStatus = (
+  remaining: number,
+  capacity: number,
+  needed: number
+): 'available' | 'limited' | 'unavailable' => {
+  if (remaining < needed) {
+    return 'unavailable';
+  }
+  return remaining <= capacity * LIMITED_AVAILABILITY_SHARE ? 'limited' : 'available';
+};
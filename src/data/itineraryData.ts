@@ -0,0 +1,122 @@
+import type {
+  FlightRoute,
+  FlightSegment,
+  FlightTimes,
+  StopoverPosition,
+  StopoverTiming,
+  TravelDates,
+  TripType
+} from '../types';
+
+// Qatar Airways hub where every stopover is taken
+export const HUB_AIRPORT = 'DOH';
+
+// A connection longer than this ends a journey (the ticketing stopover rule)
+export const MAX_CONNECTION_MINUTES = 24 * 60;
+
+// Stopovers are sold on the first two journeys of a trip
+const JOURNEY_TIMINGS: StopoverTiming[] = ['outbound', 'return'];
+
+// Segment times are local at the airport, so connections are compared at the same airport
+const minutesBetween = (from: string, to: string): number =>
+  (Date.parse(`${to}:00Z`) - Date.parse(`${from}:00Z`)) / 60000;
+
+// Helper function to split an itinerary's flights into journeys, breaking wherever the next
+// flight leaves from another airport or more than a day later
+export const getJourneys = (segments: FlightSegment[]): FlightSegment[][] => {
+  return segments.reduce<FlightSegment[][]>((journeys, segment, index) => {
+    const previous = segments[index - 1];
+    const connects = previous
+      && previous.destination === segment.origin
+      && minutesBetween(previous.arrival, segment.departure) <= MAX_CONNECTION_MINUTES;
+
+    if (connects) {
+      journeys[journeys.length - 1].push(segment);
+    } else {
+      journeys.push([segment]);
+    }
+    return journeys;
+  }, []);
+};
+
+// Helper function to classify a trip from its journeys
+export const getTripType = (segments: FlightSegment[]): TripType => {
+  const journeys = getJourneys(segments);
+  if (journeys.length <= 1) {
+    return 'one-way';
+  }
+  if (journeys.length > 2) {
+    return 'multi-city';
+  }
+
+  const [outbound, inbound] = journeys;
+  const returnsHome = inbound[0].origin === outbound[outbound.length - 1].destination
+    && inbound[inbound.length - 1].destination === outbound[0].origin;
+  return returnsHome ? 'return' : 'open-jaw';
+};
+
+// Helper function to find where a stopover can be added: each outbound or return journey
+// that connects through Doha
+export const getStopoverPositions = (segments: FlightSegment[]): StopoverPosition[] => {
+  return getJourneys(segments).slice(0, JOURNEY_TIMINGS.length).flatMap((journey, index) => {
+    const connection = journey.findIndex((segment, position) =>
+      segment.destination === HUB_AIRPORT && journey[position + 1]?.origin === HUB_AIRPORT);
+    if (connection === -1) {
+      return [];
+    }
+
+    return [{
+      timing: JOURNEY_TIMINGS[index],
+      from: journey[0].origin,
+      to: journey[journey.length - 1].destination,
+      arrival: journey[connection],
+      departure: journey[connection + 1]
+    }];
+  });
+};
+
+// Helper function to get the dates each journey lands in Doha
+export const getItineraryTravelDates = (segments: FlightSegment[]): TravelDates | undefined => {
+  const positions = getStopoverPositions(segments);
+  const outbound = positions.find(position => position.timing === 'outbound');
+  if (!outbound) {
+    return undefined;
+  }
+
+  const inbound = positions.find(position => position.timing === 'return');
+  return {
+    outbound: outbound.arrival.arrival.slice(0, 10),
+    ...(inbound ? { return: inbound.arrival.arrival.slice(0, 10) } : {})
+  };
+};
+
+// Helper function to read the Doha arrival and onward departure of each journey from the itinerary's flights
+export const getDohaFlightTimes = (segments: FlightSegment[]): FlightTimes => {
+  return getStopoverPositions(segments).reduce<FlightTimes>((times, position) => ({
+    ...times,
+    [position.timing]: {
+      arrival: position.arrival.arrival.slice(11),
+      departure: position.departure.departure.slice(11),
+      arrivalFlight: position.arrival.flightNumber,
+      departureFlight: position.departure.flightNumber
+    }
+  }), {});
+};
+
+// Helper function to build the route summary for an itinerary, e.g. LHR-BKK-LHR
+export const buildFlightRoute = (segments: FlightSegment[]): FlightRoute => {
+  const journeys = getJourneys(segments);
+  const endpoints = journeys.map(journey => `${journey[0].origin}-${journey[journey.length - 1].destination}`);
+  const routing = endpoints.reduce((route, endpoint) => {
+    const [origin, destination] = endpoint.split('-');
+    return route.endsWith(`-${origin}`) ? `${route}-${destination}` : `${route}${route ? ' / ' : ''}${endpoint}`;
+  }, '');
+
+  return {
+    origin: segments[0]?.origin ?? '',
+    destination: journeys[0]?.[journeys[0].length - 1].destination ?? '',
+    stops: Array.from(new Set(journeys.flatMap(journey => journey.slice(1).map(segment => segment.origin)))),
+    routing,
+    segments
+  };
+};
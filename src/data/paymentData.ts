@@ -0,0 +1,30 @@
+import type { CreditCardData } from '../types';
+
+// What the mock payment provider does with a card
+export type TestCardOutcome = 'approved' | 'declined' | 'challenge' | 'timeout';
+
+// Test cards for the mock payment provider; any other well-formed card number is approved
+export const testCards: Record<TestCardOutcome, CreditCardData> = {
+  approved: { cardNumber: '4242424242424242', expiryDate: '12/30', cvv: '123', nameOnCard: 'Alex Johnson' },
+  declined: { cardNumber: '4000000000000002', expiryDate: '12/30', cvv: '123', nameOnCard: 'Alex Johnson' },
+  challenge: { cardNumber: '4000000000003220', expiryDate: '12/30', cvv: '123', nameOnCard: 'Alex Johnson' },
+  timeout: { cardNumber: '4000000000000119', expiryDate: '12/30', cvv: '123', nameOnCard: 'Alex Johnson' }
+};
+
+// Tokens the mock payment provider holds for the test cards from the start
+export const testCardTokens: Record<TestCardOutcome, string> = {
+  approved: 'tok_test_approved',
+  declined: 'tok_test_declined',
+  challenge: 'tok_test_challenge',
+  timeout: 'tok_test_timeout'
+};
+
+// Helper function to strip spaces and dashes from a card number as typed
+export const normalizeCardNumber = (cardNumber: string): string => cardNumber.replace(/[\s-]/g, '');
+
+// Helper function to find the mock payment provider's outcome for a card number
+export const getTestCardOutcome = (cardNumber: string): TestCardOutcome => {
+  const number = normalizeCardNumber(cardNumber);
+  const outcomes = Object.keys(testCards) as TestCardOutcome[];
+  return outcomes.find(outcome => testCards[outcome].cardNumber === number) || 'approved';
+};
@@ -1,44 +1,140 @@
-import type { PricingBreakdown, StopoverSelection, SelectedExtras } from '../types';
+import type {
+  AviosPaymentData,
+  Currency,
+  PaymentMethod,
+  PricingBreakdown,
+  PricingTax,
+  PrivilegeClubAccount,
+  PromoCode,
+  StopoverSelection,
+  SelectedExtras,
+  TierStatus
+} from '../types';
+import { calculateRoomsRequired } from './hotelData';
+import { calculateTransferPrice } from './transferData';
+import { calculateStayCost, getTourRate, getTourDate } from './rateCalendar';
+import { CURRENCY_LOCALES, isSupportedCurrency, convertFromUSD, roundCurrency } from './currencyData';
+import { evaluateDiscounts, calculateDiscountTotal } from './promotionData';
 
 // Pricing calculation utilities and constants
 export const PRICING_CONSTANTS = {
   FLIGHT_FARE_DIFFERENCE: 115, // Fixed flight fare difference for adding stopover
-  AVIOS_CONVERSION_RATE: 125, // 125 Avios per $1
-  TAX_RATE: 0.0, // No tax for simplicity in mockup
-  SERVICE_FEE: 0 // No service fee for simplicity
+  AVIOS_CONVERSION_RATE: 125 // 125 Avios per $1, the standard rate quotes are shown at
 };
 
-// Calculate comprehensive pricing breakdown
+// Taxes and fees added to every quote; amounts are in USD like the catalog
+export const TAX_CONFIG = {
+  TOURISM_FEE_PER_ROOM_NIGHT: 5.5, // Qatar tourism fee, QAR 20 per occupied room per night
+  VAT_RATE: 0.05, // On the stopover services after discounts; the flight fare difference is exempt
+  CARD_SURCHARGE_RATES: {
+    'credit-card': 0.015,
+    'cash-avios': 0.015, // On the share paid by card
+    'avios': 0
+  } as Record<PaymentMethod, number>
+};
+
+// Tax line labels as shown in summaries
+export const TAX_LABELS: Record<PricingTax['type'], string> = {
+  'tourism-fee': 'Qatar tourism fee',
+  'vat': `VAT (${TAX_CONFIG.VAT_RATE * 100}%) on stopover services`,
+  'card-surcharge': 'Card surcharge'
+};
+
+// Calculate the tourism fee and VAT on a stopover's USD costs, after discounts
+export const calculateTaxes = (
+  costs: Pick<PricingBreakdown, 'hotelCost' | 'transfersCost' | 'toursCost'>,
+  roomNights: number,
+  discountTotal: number
+): PricingTax[] => {
+  const taxableServices = costs.hotelCost + costs.transfersCost + costs.toursCost - discountTotal;
+  return [
+    { type: 'tourism-fee', label: TAX_LABELS['tourism-fee'], amount: roundCurrency(roomNights * TAX_CONFIG.TOURISM_FEE_PER_ROOM_NIGHT) },
+    { type: 'vat', label: TAX_LABELS.vat, amount: roundCurrency(taxableServices * TAX_CONFIG.VAT_RATE) }
+  ];
+};
+
+// Total the tax and fee lines on a quote
+export const calculateTaxTotal = (taxes: PricingTax[] = []): number => {
+  return roundCurrency(taxes.reduce((total, tax) => total + tax.amount, 0));
+};
+
+// Card surcharge for the amount a payment method charges to card
+export const calculateCardSurcharge = (method: PaymentMethod, cardAmount: number): number => {
+  return roundCurrency(cardAmount * TAX_CONFIG.CARD_SURCHARGE_RATES[method]);
+};
+
+// Card surcharge already on a quote
+export const getCardSurcharge = (pricing: PricingBreakdown): number => {
+  return calculateTaxTotal(pricing.taxes?.filter(tax => tax.type === 'card-surcharge'));
+};
+
+// Add the card surcharge charged at payment to a quote, so the booking records what was paid
+export const addCardSurcharge = (pricing: PricingBreakdown, surcharge: number): PricingBreakdown => {
+  if (surcharge <= 0) {
+    return pricing;
+  }
+  return {
+    ...pricing,
+    taxes: [...(pricing.taxes || []), { type: 'card-surcharge', label: TAX_LABELS['card-surcharge'], amount: surcharge }],
+    totalCashPrice: roundCurrency(pricing.totalCashPrice + surcharge)
+  };
+};
+
+// Cash total of a quote without its card surcharge, which is not refunded when a booking changes
+export const getRefundableTotal = (pricing: PricingBreakdown): number => {
+  return roundCurrency(pricing.totalCashPrice - getCardSurcharge(pricing));
+};
+
+// Calculate comprehensive pricing breakdown, with bundle discounts and any eligible promo code taken off
 export const calculatePricingBreakdown = (
   stopoverSelection: StopoverSelection,
-  nights: number
+  nights: number,
+  promoCode?: PromoCode
 ): PricingBreakdown => {
-  // Hotel cost calculation
-  const hotelCost = stopoverSelection.hotel.pricePerNight * nights;
+  const { hotel, passengers } = stopoverSelection;
+
+  // Hotel cost calculation, each night at its own rate, per room the party needs
+  const hotelCost = calculateStayCost(hotel, nights, stopoverSelection.dates?.checkIn) * calculateRoomsRequired(hotel, passengers);
   
-  // Transfers cost
+  // Transfers cost, per vehicle the party needs
   const transfersCost = stopoverSelection.extras.transfers ? 
-    stopoverSelection.extras.transfers.price : 0;
+    calculateTransferPrice(stopoverSelection.extras.transfers, passengers) : 0;
   
-  // Tours cost
+  // Tours cost, at the rate for the day each tour departs
   const toursCost = stopoverSelection.extras.tours.reduce((total, selectedTour) => {
-    return total + (selectedTour.tour.price * selectedTour.quantity);
+    return total + (getTourRate(selectedTour.tour, getTourDate(selectedTour, stopoverSelection.dates)) * selectedTour.quantity);
   }, 0);
   
+  // Discounts from the rules engine
+  const discounts = evaluateDiscounts(stopoverSelection, { hotelCost, transfersCost, toursCost }, promoCode);
+  const discountTotal = calculateDiscountTotal(discounts);
+
+  // Tourism fee per room-night and VAT on the discounted services
+  const taxes = calculateTaxes(
+    { hotelCost, transfersCost, toursCost },
+    calculateRoomsRequired(hotel, passengers) * nights,
+    discountTotal
+  );
+
   // Total cash price
-  const totalCashPrice = PRICING_CONSTANTS.FLIGHT_FARE_DIFFERENCE + 
+  const totalCashPrice = roundCurrency(PRICING_CONSTANTS.FLIGHT_FARE_DIFFERENCE + 
                         hotelCost + 
                         transfersCost + 
-                        toursCost;
+                        toursCost -
+                        discountTotal +
+                        calculateTaxTotal(taxes));
   
   // Total Avios price
-  const totalAviosPrice = totalCashPrice * PRICING_CONSTANTS.AVIOS_CONVERSION_RATE;
+  const totalAviosPrice = Math.round(totalCashPrice * PRICING_CONSTANTS.AVIOS_CONVERSION_RATE);
   
   return {
+    currency: 'USD',
     hotelCost,
     flightFareDifference: PRICING_CONSTANTS.FLIGHT_FARE_DIFFERENCE,
     transfersCost,
     toursCost,
+    ...(discounts.length > 0 ? { discounts } : {}),
+    taxes,
     totalCashPrice,
     totalAviosPrice
   };
@@ -54,24 +150,78 @@ export const calculateExtrasPrice = (extras: SelectedExtras): number => {
   return transfersCost + toursCost;
 };
 
-// Format price for display
-export const formatPrice = (price: number, currency: string = 'USD'): string => {
-  if (currency === 'USD') {
-    return `$${price.toLocaleString()}`;
-  } else if (currency === 'AVIOS') {
+// Format price for display in the currency's market locale
+export const formatPrice = (price: number, currency: string = 'USD', locale?: string): string => {
+  if (currency === 'AVIOS') {
     return `${price.toLocaleString()} Avios`;
+  } else if (isSupportedCurrency(currency)) {
+    return new Intl.NumberFormat(locale || CURRENCY_LOCALES[currency], {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: Number.isInteger(price) ? 0 : 2,
+      maximumFractionDigits: 2
+    }).format(price);
   }
   return price.toString();
 };
 
+// Format a USD catalog price in the customer's currency
+export const formatCatalogPrice = (price: number, currency: Currency = 'USD', exchangeRate: number = 1): string => {
+  return formatPrice(convertFromUSD(price, exchangeRate), currency);
+};
+
+// Avios per $1 by Privilege Club tier; higher tiers redeem fewer Avios for the same stay
+export const AVIOS_TIER_RATES: Record<TierStatus, number> = {
+  Silver: 120,
+  Gold: 115,
+  Platinum: 105
+};
+
+// Increment for the Cash + Avios allocation slider
+export const AVIOS_REDEMPTION_STEP = 1000;
+
+// Redemption rate for a tier, or the standard rate when the member is unknown
+export const getAviosConversionRate = (tierStatus?: TierStatus): number => {
+  return tierStatus ? AVIOS_TIER_RATES[tierStatus] : PRICING_CONSTANTS.AVIOS_CONVERSION_RATE;
+};
+
 // Calculate Avios required for a cash amount
-export const calculateAviosRequired = (cashAmount: number): number => {
-  return Math.round(cashAmount * PRICING_CONSTANTS.AVIOS_CONVERSION_RATE);
+export const calculateAviosRequired = (cashAmount: number, tierStatus?: TierStatus): number => {
+  return Math.round(cashAmount * getAviosConversionRate(tierStatus));
 };
 
 // Calculate cash equivalent of Avios
-export const calculateCashFromAvios = (aviosAmount: number): number => {
-  return Math.round((aviosAmount / PRICING_CONSTANTS.AVIOS_CONVERSION_RATE) * 100) / 100;
+export const calculateCashFromAvios = (aviosAmount: number, tierStatus?: TierStatus): number => {
+  return Math.round((aviosAmount / getAviosConversionRate(tierStatus)) * 100) / 100;
+};
+
+// Avios a member needs for a quote, whose totalAviosPrice is at the standard rate
+export const calculateTierAviosPrice = (pricing: PricingBreakdown, tierStatus?: TierStatus): number => {
+  return Math.round(
+    pricing.totalAviosPrice * getAviosConversionRate(tierStatus) / PRICING_CONSTANTS.AVIOS_CONVERSION_RATE
+  );
+};
+
+// Cash still due when part of an Avios price is redeemed
+export const calculateCashShare = (cashTotal: number, aviosPrice: number, aviosUsed: number): number => {
+  return roundCurrency(cashTotal * (aviosPrice - aviosUsed) / aviosPrice);
+};
+
+// Split a quote between Avios and cash; the card covers the share of the total the Avios don't
+export const calculateAviosPayment = (
+  pricing: PricingBreakdown,
+  account: Pick<PrivilegeClubAccount, 'tierStatus' | 'aviosBalance'>,
+  aviosToUse?: number
+): AviosPaymentData => {
+  const aviosPrice = calculateTierAviosPrice(pricing, account.tierStatus);
+  const aviosUsed = aviosToUse ?? aviosPrice;
+
+  return {
+    aviosUsed,
+    remainingBalance: account.aviosBalance - aviosUsed,
+    conversionRate: getAviosConversionRate(account.tierStatus),
+    cashAmount: calculateCashShare(pricing.totalCashPrice, aviosPrice, aviosUsed)
+  };
 };
 
 // Sample pricing scenarios for testing
@@ -109,7 +259,9 @@ export const getPricingDisplayData = (pricing: PricingBreakdown) => {
       { label: 'Flight fare difference', amount: pricing.flightFareDifference },
       { label: 'Hotel accommodation', amount: pricing.hotelCost },
       { label: 'Airport transfers', amount: pricing.transfersCost },
-      { label: 'Tours and experiences', amount: pricing.toursCost }
+      { label: 'Tours and experiences', amount: pricing.toursCost },
+      ...(pricing.discounts || []).map(discount => ({ label: discount.label, amount: -discount.amount })),
+      ...(pricing.taxes || []).map(tax => ({ label: tax.label, amount: tax.amount }))
     ],
     total: {
       cash: pricing.totalCashPrice,
@@ -0,0 +1,165 @@
+import type {
+  BundleDiscount,
+  PricingBreakdown,
+  PricingDiscount,
+  PromoCode,
+  StopoverSelection
+} from '../types';
+import { calculateRoomsRequired } from './hotelData';
+import { getHotelNightlyRate, getStayNights } from './rateCalendar';
+import { roundCurrency } from './currencyData';
+
+// Promo codes marketing hands out; fixed-off values are in USD like the catalog
+export const promoCodes: PromoCode[] = [
+  {
+    code: 'DOHA10',
+    type: 'percent-off',
+    value: 10,
+    description: '10% off your stopover package'
+  },
+  {
+    code: 'STOPOVER50',
+    type: 'fixed-off',
+    value: 50,
+    description: '$50 off your stopover package'
+  },
+  {
+    code: 'FREETRANSFER',
+    type: 'free-transfer',
+    description: 'Free airport transfers'
+  },
+  {
+    code: 'STAY3FREE1',
+    type: 'free-night',
+    minimumNights: 3,
+    description: 'Your cheapest night free on stays of 3 nights or more'
+  },
+  {
+    code: 'WINTER15',
+    type: 'percent-off',
+    value: 15,
+    validFrom: '2026-12-01',
+    validUntil: '2027-02-28',
+    description: '15% off stopovers starting between 1 December 2026 and 28 February 2027'
+  }
+];
+
+// Bundle discounts, applied automatically before any promo code
+export const bundleDiscounts: BundleDiscount[] = [
+  {
+    id: 'hotel-tour-combo',
+    label: 'Hotel + tours combo (10% off tours)',
+    minimumTours: 2,
+    percentOff: 10,
+    appliesTo: ['toursCost']
+  },
+  {
+    id: 'extended-stopover',
+    label: 'Extended stopover with transfers (10% off hotel)',
+    minimumNights: 4,
+    requiresTransfers: true,
+    percentOff: 10,
+    appliesTo: ['hotelCost']
+  }
+];
+
+type DiscountableCosts = Pick<PricingBreakdown, 'hotelCost' | 'transfersCost' | 'toursCost'>;
+
+// Helper function to find a promo code, ignoring case and surrounding spaces
+export const getPromoCode = (code: string): PromoCode | undefined => {
+  const normalised = code.trim().toUpperCase();
+  return promoCodes.find(promo => promo.code === normalised);
+};
+
+// Helper function to explain why a promo code can't be used on a stopover; undefined when it can
+export const getPromoCodeIneligibility = (promo: PromoCode, selection: StopoverSelection): string | undefined => {
+  const checkIn = selection.dates?.checkIn;
+  if ((promo.validFrom || promo.validUntil) && !checkIn) {
+    return `${promo.code} depends on your stopover dates, which aren't set yet.`;
+  }
+  if (checkIn && ((promo.validFrom && checkIn < promo.validFrom) || (promo.validUntil && checkIn > promo.validUntil))) {
+    const validity = [promo.validFrom && `on or after ${promo.validFrom}`, promo.validUntil && `on or before ${promo.validUntil}`]
+      .filter(Boolean).join(' and ');
+    return `${promo.code} is only valid for stopovers starting ${validity}.`;
+  }
+  if (promo.minimumNights && selection.duration < promo.minimumNights) {
+    return `${promo.code} needs a stay of at least ${promo.minimumNights} nights.`;
+  }
+  if (promo.type === 'free-transfer' && !selection.extras.transfers) {
+    return `${promo.code} gives free airport transfers, but your stopover doesn't include them.`;
+  }
+  return undefined;
+};
+
+// Helper function to check whether a stopover combines enough of the package for a bundle
+const qualifiesForBundle = (bundle: BundleDiscount, selection: StopoverSelection): boolean => {
+  return selection.duration >= (bundle.minimumNights || 0)
+    && selection.extras.tours.length >= (bundle.minimumTours || 0)
+    && (!bundle.requiresTransfers || Boolean(selection.extras.transfers));
+};
+
+// Helper function to work out a promo code's discount on what is left of the package after bundles
+const calculatePromoDiscount = (
+  promo: PromoCode,
+  selection: StopoverSelection,
+  costs: DiscountableCosts,
+  remaining: number
+): number => {
+  switch (promo.type) {
+    case 'percent-off':
+      return remaining * (promo.value || 0) / 100;
+    case 'fixed-off':
+      return promo.value || 0;
+    case 'free-transfer':
+      return costs.transfersCost;
+    case 'free-night': {
+      const nightlyRates = selection.dates
+        ? getStayNights(selection.dates.checkIn, selection.duration).map(night => getHotelNightlyRate(selection.hotel, night))
+        : [selection.hotel.pricePerNight];
+      return Math.min(...nightlyRates) * calculateRoomsRequired(selection.hotel, selection.passengers);
+    }
+  }
+};
+
+/**
+ * Evaluate the discount rules against a stopover's USD costs: every bundle the stopover qualifies
+ * for, then the promo code if it is eligible. Discounts never take the package below zero, and the
+ * flight fare difference is never discounted.
+ */
+export const evaluateDiscounts = (
+  selection: StopoverSelection,
+  costs: DiscountableCosts,
+  promo?: PromoCode
+): PricingDiscount[] => {
+  let remaining = costs.hotelCost + costs.transfersCost + costs.toursCost;
+  const discounts: PricingDiscount[] = [];
+
+  const addDiscount = (discount: Omit<PricingDiscount, 'amount'>, amount: number) => {
+    const capped = roundCurrency(Math.min(amount, remaining));
+    if (capped > 0) {
+      discounts.push({ ...discount, amount: capped });
+      remaining = roundCurrency(remaining - capped);
+    }
+  };
+
+  bundleDiscounts
+    .filter(bundle => qualifiesForBundle(bundle, selection))
+    .forEach(bundle => {
+      const base = bundle.appliesTo.reduce((total, cost) => total + costs[cost], 0);
+      addDiscount({ source: 'bundle', id: bundle.id, label: bundle.label }, base * bundle.percentOff / 100);
+    });
+
+  if (promo && !getPromoCodeIneligibility(promo, selection)) {
+    addDiscount(
+      { source: 'promo-code', id: promo.code, label: `Promo code ${promo.code}` },
+      calculatePromoDiscount(promo, selection, costs, remaining)
+    );
+  }
+
+  return discounts;
+};
+
+// Helper function to total the discounts on a quote
+export const calculateDiscountTotal = (discounts: PricingDiscount[] = []): number => {
+  return roundCurrency(discounts.reduce((total, discount) => total + discount.amount, 0));
+};
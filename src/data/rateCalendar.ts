@@ -0,0 +1,166 @@
+import type { HotelOption, TourOption, SelectedTour, RatePeriod, RateCalendar, StopoverDates, StopoverTiming, TravelDates } from '../types';
+
+// Date windows that move stopover prices. Ramadan and Eid follow the lunar calendar,
+// so their dates shift every year and are listed per year rather than by month
+export const RATE_SEASONS = {
+  grandPrix: { season: 'Qatar Grand Prix', startDate: '2026-11-26', endDate: '2026-11-29' },
+  nationalDay: { season: 'Qatar National Day', startDate: '2026-12-17', endDate: '2026-12-19' },
+  ramadan: { season: 'Ramadan', startDate: '2027-02-08', endDate: '2027-03-09' },
+  eidAlFitr: { season: 'Eid al-Fitr', startDate: '2027-03-10', endDate: '2027-03-13' },
+  eidAlAdha: { season: 'Eid al-Adha', startDate: '2027-05-16', endDate: '2027-05-19' },
+  whaleSharkSeason: { season: 'Whale shark season', startDate: '2027-05-01', endDate: '2027-09-30' }
+} as const;
+
+const rate = (window: Omit<RatePeriod, 'price'>, price: number): RatePeriod => ({ ...window, price });
+
+// Nightly room rates per hotel; nights outside every period use the catalog pricePerNight
+export const hotelRateCalendar: RateCalendar = {
+  'millennium-doha': [
+    rate(RATE_SEASONS.grandPrix, 260),
+    rate(RATE_SEASONS.nationalDay, 230),
+    rate(RATE_SEASONS.ramadan, 155),
+    rate(RATE_SEASONS.eidAlFitr, 240),
+    rate(RATE_SEASONS.eidAlAdha, 240)
+  ],
+  'steigenberger-doha': [
+    rate(RATE_SEASONS.grandPrix, 285),
+    rate(RATE_SEASONS.nationalDay, 250),
+    rate(RATE_SEASONS.ramadan, 165),
+    rate(RATE_SEASONS.eidAlFitr, 260),
+    rate(RATE_SEASONS.eidAlAdha, 260)
+  ],
+  'souq-waqif-boutique': [
+    rate(RATE_SEASONS.grandPrix, 310),
+    rate(RATE_SEASONS.nationalDay, 280),
+    rate(RATE_SEASONS.ramadan, 185),
+    rate(RATE_SEASONS.eidAlFitr, 290),
+    rate(RATE_SEASONS.eidAlAdha, 290)
+  ],
+  'crowne-plaza-doha': [
+    rate(RATE_SEASONS.grandPrix, 240),
+    rate(RATE_SEASONS.nationalDay, 210),
+    rate(RATE_SEASONS.ramadan, 140),
+    rate(RATE_SEASONS.eidAlFitr, 220),
+    rate(RATE_SEASONS.eidAlAdha, 220)
+  ],
+  'al-najada-doha': [
+    rate(RATE_SEASONS.grandPrix, 225),
+    rate(RATE_SEASONS.nationalDay, 200),
+    rate(RATE_SEASONS.ramadan, 130),
+    rate(RATE_SEASONS.eidAlFitr, 205),
+    rate(RATE_SEASONS.eidAlAdha, 205)
+  ],
+  'ibis-doha': [
+    rate(RATE_SEASONS.grandPrix, 120),
+    rate(RATE_SEASONS.nationalDay, 105),
+    rate(RATE_SEASONS.ramadan, 70),
+    rate(RATE_SEASONS.eidAlFitr, 110),
+    rate(RATE_SEASONS.eidAlAdha, 110)
+  ],
+  'sheraton-grand-doha': [
+    rate(RATE_SEASONS.grandPrix, 315),
+    rate(RATE_SEASONS.nationalDay, 275),
+    rate(RATE_SEASONS.ramadan, 180),
+    rate(RATE_SEASONS.eidAlFitr, 285),
+    rate(RATE_SEASONS.eidAlAdha, 285)
+  ],
+  'raffles-doha': [
+    rate(RATE_SEASONS.grandPrix, 450),
+    rate(RATE_SEASONS.nationalDay, 390),
+    rate(RATE_SEASONS.ramadan, 255),
+    rate(RATE_SEASONS.eidAlFitr, 400),
+    rate(RATE_SEASONS.eidAlAdha, 400)
+  ]
+};
+
+// Per-guest tour prices; days outside every period use the catalog price
+export const tourRateCalendar: RateCalendar = {
+  'whale-sharks-qatar': [
+    rate(RATE_SEASONS.whaleSharkSeason, 225)
+  ],
+  'pearl-diving-experience': [
+    rate(RATE_SEASONS.nationalDay, 165),
+    rate(RATE_SEASONS.eidAlFitr, 165),
+    rate(RATE_SEASONS.eidAlAdha, 165)
+  ],
+  'doha-city-skyline-tour': [
+    rate(RATE_SEASONS.grandPrix, 150),
+    rate(RATE_SEASONS.nationalDay, 150),
+    rate(RATE_SEASONS.eidAlFitr, 140)
+  ],
+  'desert-safari-adventure': [
+    rate(RATE_SEASONS.nationalDay, 200),
+    rate(RATE_SEASONS.ramadan, 150),
+    rate(RATE_SEASONS.eidAlFitr, 210),
+    rate(RATE_SEASONS.eidAlAdha, 210)
+  ]
+};
+
+// Helper function to move an ISO date by a number of days
+export const addDays = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+// Helper function to get the hotel nights of a stopover that starts the day the itinerary lands in Doha;
+// callers check the journey is a stopover position first, as one-way trips have no return date
+export const calculateStopoverDates = (
+  travelDates: TravelDates,
+  timing: StopoverTiming,
+  nights: number
+): StopoverDates => {
+  const checkIn = travelDates[timing];
+  if (!checkIn) {
+    throw new Error(`The itinerary has no ${timing} journey through Doha`);
+  }
+  return { checkIn, checkOut: addDays(checkIn, nights) };
+};
+
+// Helper function to list each night of a stay, by the date the night starts
+export const getStayNights = (checkIn: string, nights: number): string[] => {
+  return Array.from({ length: nights }, (_, night) => addDays(checkIn, night));
+};
+
+// Helper function to find the rate period covering a date; the first matching period wins
+export const getRatePeriod = (calendar: RateCalendar, id: string, date: string): RatePeriod | undefined => {
+  return (calendar[id] || []).find(period => date >= period.startDate && date <= period.endDate);
+};
+
+// Helper function to get a hotel's room rate for one night, the catalog price when undated
+export const getHotelNightlyRate = (hotel: HotelOption, date?: string): number => {
+  return (date && getRatePeriod(hotelRateCalendar, hotel.id, date)?.price) || hotel.pricePerNight;
+};
+
+// Helper function to get a hotel's lowest rate for the first night of a stopover on either journey through Doha,
+// for quoting hotels before the customer picks their stopover dates
+export const getStopoverNightlyRate = (hotel: HotelOption, travelDates: TravelDates): number => {
+  const arrivals = [travelDates.outbound, travelDates.return].filter((date): date is string => Boolean(date));
+  return Math.min(...arrivals.map(date => getHotelNightlyRate(hotel, date)));
+};
+
+// Helper function to get a tour's per-guest price on a day, the catalog price when undated
+export const getTourRate = (tour: TourOption, date?: string): number => {
+  return (date && getRatePeriod(tourRateCalendar, tour.id, date)?.price) || tour.price;
+};
+
+// Helper function to get the day a selected tour departs: the day it was planned on, else the first day of the stopover
+export const getTourDate = (selectedTour: SelectedTour, dates?: StopoverDates): string | undefined => {
+  return selectedTour.date ?? dates?.checkIn;
+};
+
+// Helper function to price one room for a stay, night by night
+export const calculateStayCost = (hotel: HotelOption, nights: number, checkIn?: string): number => {
+  if (!checkIn) {
+    return hotel.pricePerNight * nights;
+  }
+  return getStayNights(checkIn, nights).reduce((total, night) => total + getHotelNightlyRate(hotel, night), 0);
+};
+
+// Helper function to name the seasons a stay falls in, for explaining seasonal prices
+export const getStaySeasons = (hotel: HotelOption, nights: number, checkIn: string): string[] => {
+  const seasons = getStayNights(checkIn, nights)
+    .map(night => getRatePeriod(hotelRateCalendar, hotel.id, night)?.season)
+    .filter((season): season is string => Boolean(season));
+  return Array.from(new Set(seasons));
+};
@@ -11,15 +11,19 @@ import {
   sampleBooking,
   stopoverCategories,
   premiumHotels,
+  partnerHotels,
   whaleSharksTour,
   defaultTransferOption,
-  calculatePricingBreakdown
+  calculatePricingBreakdown,
+  calculateStopoverDates
 } from './index';
 
 // Complete sample journey data showing a typical user flow
 export const sampleStopoverSelection: StopoverSelection = {
   timing: 'outbound', // LHR to BKK
   duration: 2, // 2 nights
+  dates: calculateStopoverDates(sampleBooking.travelDates!, 'outbound', 2),
+  passengers: sampleBooking.passengers,
   stopovertype: stopoverCategories[1], // Premium category
   hotel: premiumHotels[1], // Steigenberger Hotel Doha
   extras: {
@@ -56,6 +60,7 @@ export const alternativeJourneys = {
   luxuryJourney: {
     timing: 'return' as const,
     duration: 3,
+    passengers: sampleBooking.passengers,
     stopovertype: stopoverCategories[3], // Luxury
     hotel: premiumHotels[2], // Souq Waqif Boutique Hotel
     extras: {
@@ -75,8 +80,9 @@ export const alternativeJourneys = {
   budgetJourney: {
     timing: 'outbound' as const,
     duration: 1,
+    passengers: sampleBooking.passengers,
     stopovertype: stopoverCategories[0], // Standard
-    hotel: premiumHotels[4], // Al Najada Doha Hotel (lowest price)
+    hotel: partnerHotels[0], // Ibis Doha (standard category)
     extras: {
       transfers: defaultTransferOption,
       tours: [],
@@ -88,8 +94,9 @@ export const alternativeJourneys = {
   beachJourney: {
     timing: 'outbound' as const,
     duration: 2,
+    passengers: sampleBooking.passengers,
     stopovertype: stopoverCategories[2], // Premium Beach
-    hotel: premiumHotels[1], // Steigenberger Hotel
+    hotel: partnerHotels[1], // Sheraton Grand Doha Resort (beach resort)
     extras: {
       transfers: defaultTransferOption,
       tours: [
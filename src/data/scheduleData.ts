@@ -0,0 +1,48 @@
+import type { DohaFlightTimes } from '../types';
+
+// Time to clear the airport and reach the hotel after landing
+export const ARRIVAL_BUFFER_MINUTES = 120;
+
+// Time to leave the hotel before the onward flight departs
+export const DEPARTURE_BUFFER_MINUTES = 180;
+
+// Airport transfer drive between Hamad International and the hotels
+export const TRANSFER_MINUTES = 45;
+
+// Hours a tour can run on a day in Doha
+export const DAY_START_MINUTES = 6 * 60;
+export const DAY_END_MINUTES = 23 * 60;
+
+// Less spare time than this around the flights is flagged as tight
+export const TIGHT_SCHEDULE_MINUTES = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Helper function to convert a local time (HH:mm) to minutes after midnight
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Helper function to format minutes after midnight as a local time (HH:mm)
+export const formatMinutes = (minutes: number): string => {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+// Helper function to list when tours can run on each day of a stopover: from reaching the hotel
+// on the arrival day, all day on full days, and until leaving for the airport on the departure day
+export const getActivityWindows = (
+  nights: number,
+  times: DohaFlightTimes
+): Array<{ day: number; from: number; to: number }> => {
+  const readyFrom = toMinutes(times.arrival) + ARRIVAL_BUFFER_MINUTES;
+  const leaveBy = toMinutes(times.departure) - DEPARTURE_BUFFER_MINUTES;
+
+  return Array.from({ length: nights + 1 }, (_, day) => ({
+    day,
+    // Landing late can push the hotel arrival past midnight into the next day
+    from: Math.max(DAY_START_MINUTES, readyFrom - day * MINUTES_PER_DAY),
+    to: day === nights ? Math.min(DAY_END_MINUTES, leaveBy) : DAY_END_MINUTES
+  })).filter(window => window.from < window.to);
+};
@@ -1,4 +1,5 @@
-import type { TourOption, RecommendedTour } from '../types';
+import type { TourOption, RecommendedTour, TourProfile, TourInterest, TourRecommendationContext } from '../types';
+import { getActivityWindows, toMinutes } from './scheduleData';
 
 // Tour data including "Whale Sharks of Qatar" with recommendation logic using provided tour images
 export const availableTours: TourOption[] = [
@@ -7,6 +8,7 @@ export const availableTours: TourOption[] = [
     name: 'Whale Sharks of Qatar',
     description: 'Experience the magnificent whale sharks in Qatar\'s pristine waters. This unforgettable marine adventure includes snorkeling equipment, professional guides, and refreshments.',
     duration: '6 hours',
+    durationMinutes: 360,
     price: 195,
     image: '/src/assets/images/whale sharks of qatar.jpg',
     highlights: [
@@ -26,6 +28,7 @@ export const availableTours: TourOption[] = [
     name: 'Traditional Pearl Diving Experience',
     description: 'Discover Qatar\'s pearl diving heritage with this authentic cultural experience including traditional dhow boat ride and pearl diving demonstration.',
     duration: '4 hours',
+    durationMinutes: 240,
     price: 145,
     image: '/src/assets/images/the pearl.jpg',
     highlights: [
@@ -45,6 +48,7 @@ export const availableTours: TourOption[] = [
     name: 'Doha City & Skyline Tour',
     description: 'Comprehensive city tour showcasing Doha\'s modern architecture, cultural landmarks, and stunning skyline views from multiple vantage points.',
     duration: '5 hours',
+    durationMinutes: 300,
     price: 125,
     image: '/src/assets/images/plane over skyline.jpg',
     highlights: [
@@ -64,6 +68,7 @@ export const availableTours: TourOption[] = [
     name: 'Desert Safari Adventure',
     description: 'Thrilling desert adventure including dune bashing, camel riding, and traditional Bedouin camp experience with authentic cuisine.',
     duration: '7 hours',
+    durationMinutes: 420,
     price: 175,
     image: '/src/assets/images/Stopover.jpg',
     highlights: [
@@ -108,27 +113,184 @@ export const getToursSortedByPrice = (ascending: boolean = true): TourOption[] =
   );
 };
 
-// Helper function to get recommended tour based on dates and preferences
-export const getRecommendedTour = (stopoverDates?: Date[]): RecommendedTour => {
-  // For this mockup, always recommend the Whale Sharks tour
-  // In a real implementation, this would check seasonal availability, weather, etc.
-  return whaleSharksTour;
+// What each tour suits, for scoring recommendations
+export const tourProfiles: Record<string, TourProfile> = {
+  'whale-sharks-qatar': {
+    interests: ['marine-life', 'adventure', 'photography'],
+    startTime: '06:30',
+    minimumAge: 8,
+    bestMonths: [5, 6, 7, 8, 9],
+    inSeasonReason: 'Whale shark season is at its peak during your stopover',
+    offSeasonReason: 'Whale shark sightings are rare outside May to September'
+  },
+  'pearl-diving-experience': {
+    interests: ['culture', 'marine-life'],
+    startTime: '09:00',
+    minimumAge: 6,
+    bestMonths: []
+  },
+  'doha-city-skyline-tour': {
+    interests: ['sightseeing', 'culture', 'photography'],
+    startTime: '15:00',
+    minimumAge: 0,
+    bestMonths: []
+  },
+  'desert-safari-adventure': {
+    interests: ['adventure', 'food', 'photography'],
+    startTime: '14:30',
+    minimumAge: 3,
+    bestMonths: [10, 11, 12, 1, 2, 3, 4],
+    inSeasonReason: 'Cooler desert weather makes this the best time for a safari',
+    offSeasonReason: 'Desert afternoons are very hot from May to September'
+  }
+};
+
+// Words in the conversation that signal each interest
+const INTEREST_KEYWORDS: Record<TourInterest, string[]> = {
+  'marine-life': ['whale', 'shark', 'snorkel', 'marine', 'sea life', 'wildlife', 'diving', 'ocean'],
+  culture: ['culture', 'cultural', 'heritage', 'history', 'historic', 'museum', 'souq', 'tradition'],
+  adventure: ['adventure', 'desert', 'dune', 'thrill', 'camel', 'safari', 'active'],
+  sightseeing: ['sightseeing', 'city', 'skyline', 'architecture', 'landmark', 'corniche'],
+  food: ['food', 'cuisine', 'dinner', 'eat', 'dining'],
+  photography: ['photo', 'camera', 'sunset', 'instagram']
+};
+
+const INTEREST_LABELS: Record<TourInterest, string> = {
+  'marine-life': 'marine life',
+  culture: 'culture',
+  adventure: 'adventure',
+  sightseeing: 'sightseeing',
+  food: 'food',
+  photography: 'photography'
+};
+
+const BASE_MATCH_SCORE = 60;
+
+// Helper function to parse a duration such as "6 hours" or "1 hour 30 minutes" into minutes
+export const parseTourDuration = (duration: string): number => {
+  const hours = duration.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?)\b/i);
+  const minutes = duration.match(/(\d+)\s*(?:minutes?|mins?)\b/i);
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+};
+
+// Helper function to pick out the tour interests a customer mentions
+export const extractTourInterests = (text: string): TourInterest[] => {
+  const lower = text.toLowerCase();
+  return (Object.keys(INTEREST_KEYWORDS) as TourInterest[]).filter(interest =>
+    INTEREST_KEYWORDS[interest].some(keyword => new RegExp(`\\b${keyword}`).test(lower))
+  );
+};
+
+// Helper function to check a tour fits on the arrival day, a full day in Doha, or before the onward flight
+export const fitsStopoverTimes = (tour: TourOption, context: TourRecommendationContext): boolean => {
+  const profile = tourProfiles[tour.id];
+  if (!profile || !context.times) {
+    return true;
+  }
+
+  const start = toMinutes(profile.startTime);
+  const end = start + tour.durationMinutes;
+  return getActivityWindows(context.nights, context.times).some(({ from, to }) => start >= from && end <= to);
+};
+
+/**
+ * Score a tour against the stopover, with the reasons behind the score.
+ * Reasons carry the points they added or removed so the strongest can be shown.
+ */
+const scoreTour = (tour: TourOption, context: TourRecommendationContext) => {
+  const profile = tourProfiles[tour.id];
+  const reasons: Array<{ points: number; text: string }> = [];
+  if (!profile) {
+    return { score: BASE_MATCH_SCORE, reasons };
+  }
+
+  // Stated interests
+  const matched = (context.interests || []).filter(interest => profile.interests.includes(interest));
+  if (matched.length > 0) {
+    reasons.push({
+      points: Math.min(30, matched.length * 15),
+      text: `Matches your interest in ${matched.map(interest => INTEREST_LABELS[interest]).join(' and ')}`
+    });
+  } else if (context.interests?.length) {
+    reasons.push({ points: -10, text: 'Less of a match for the things you mentioned' });
+  }
+
+  // Seasonality on the stopover dates
+  if (context.dates && profile.bestMonths.length > 0) {
+    const month = Number(context.dates.checkIn.slice(5, 7));
+    reasons.push(profile.bestMonths.includes(month)
+      ? { points: 15, text: profile.inSeasonReason || 'In season during your stopover' }
+      : { points: -20, text: profile.offSeasonReason || 'Out of season during your stopover' });
+  }
+
+  // Arrival and departure times on a one-night stopover
+  if (context.times && context.nights === 1) {
+    const between = `your ${context.times.arrival} arrival and ${context.times.departure} departure`;
+    reasons.push(fitsStopoverTimes(tour, context)
+      ? { points: 5, text: `Fits between ${between}` }
+      : { points: -45, text: `Doesn't fit between ${between}` });
+  }
+
+  // Number of nights
+  if (context.nights === 1) {
+    reasons.push(tour.durationMinutes <= 5 * 60
+      ? { points: 5, text: 'Short enough for a one-night stopover' }
+      : { points: -5, text: 'A long day for a one-night stopover' });
+  }
+
+  // Passenger mix
+  const { children = 0, infants = 0 } = context.passengerMix || {};
+  if (infants > 0 && profile.minimumAge > 0) {
+    reasons.push({ points: -30, text: 'Infants cannot join this tour' });
+  } else if (children > 0 && profile.minimumAge >= 8) {
+    reasons.push({ points: -15, text: `Guests must be at least ${profile.minimumAge} years old` });
+  } else if (children > 0 && profile.minimumAge <= 5) {
+    reasons.push({ points: 10, text: 'Suitable for the whole family' });
+  }
+
+  const score = reasons.reduce((total, reason) => total + reason.points, BASE_MATCH_SCORE);
+  return { score: Math.max(0, Math.min(100, score)), reasons };
 };
 
-// Helper function to calculate tour recommendation score
-export const calculateTourMatchScore = (tour: TourOption, preferences?: any): number => {
-  // Simplified scoring logic for mockup
-  // Whale Sharks tour gets highest score
-  if (tour.id === 'whale-sharks-qatar') {
-    return 95;
+// Helper function to explain a score with its strongest reasons; a drawback that outweighs
+// every plus is shown on its own
+const describeReasons = (reasons: Array<{ points: number; text: string }>): string => {
+  const strongest = [...reasons].sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+  if (strongest.length === 0) {
+    return 'A popular way to spend a day in Doha';
+  }
+  if (strongest[0].points < 0) {
+    return strongest[0].text;
   }
-  
-  // Other tours get varying scores based on popularity/season
-  const scoreMap: { [key: string]: number } = {
-    'pearl-diving-experience': 85,
-    'doha-city-skyline-tour': 75,
-    'desert-safari-adventure': 80
-  };
-  
-  return scoreMap[tour.id] || 70;
-};
\ No newline at end of file
+  return strongest.filter(reason => reason.points > 0).slice(0, 2).map(reason => reason.text).join('. ');
+};
+
+// Helper function to calculate how well a tour suits the stopover (0-100)
+export const calculateTourMatchScore = (tour: TourOption, context: TourRecommendationContext): number => {
+  return scoreTour(tour, context).score;
+};
+
+// Helper function to rank every tour for the stopover, best match first
+export const getRecommendedTours = (
+  context: TourRecommendationContext,
+  tours: TourOption[] = availableTours
+): RecommendedTour[] => {
+  return tours
+    .map(tour => {
+      const { score, reasons } = scoreTour(tour, context);
+      return {
+        ...tour,
+        isRecommended: false,
+        recommendationReason: describeReasons(reasons),
+        availabilityStatus: 'available' as const,
+        matchScore: score
+      };
+    })
+    .sort((a, b) => b.matchScore - a.matchScore)
+    .map((tour, index) => ({ ...tour, isRecommended: index === 0 }));
+};
+
+// Helper function to get the best-matching tour for the stopover
+export const getRecommendedTour = (context: TourRecommendationContext): RecommendedTour => {
+  return getRecommendedTours(context)[0];
+};
@@ -21,14 +21,21 @@ export interface TransferPricingOptions {
   includeTransfers: boolean;
 }
 
+// Passengers with luggage that fit in one transfer vehicle
+export const TRANSFER_VEHICLE_CAPACITY = 3;
+
+// Transfer prices are per vehicle, so larger parties need more than one
+export const calculateTransferPrice = (transfer: TransferOption, passengers: number): number => {
+  return transfer.price * Math.max(1, Math.ceil(passengers / TRANSFER_VEHICLE_CAPACITY));
+};
+
 export const calculateTransferCost = (options: TransferPricingOptions): number => {
   if (!options.includeTransfers) {
     return 0;
   }
   
-  // Base price is for return transfers regardless of passenger count or nights
-  // In a real system, this might vary based on passenger count or vehicle type
-  return defaultTransferOption.price;
+  // Return transfers are priced per vehicle regardless of nights
+  return calculateTransferPrice(defaultTransferOption, options.passengers);
 };
 
 // Helper function to get transfer option by ID
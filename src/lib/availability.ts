@@ -0,0 +1,275 @@
+/**
+ * Inventory and availability for hotel rooms and tour seats
+ * Tracks rooms per hotel per night and seats per tour departure, with short-lived holds
+ * placed while the customer reviews and pays, and sold inventory recorded by PNR
+ */
+
+import type { InventoryItem, InventoryHold, AvailabilityShortfall } from '../types';
+import { getInventoryCapacity, INVENTORY_HOLD_TTL_MS } from '../data/inventoryData';
+
+// Holds by conversation and sold inventory by PNR
+export interface InventoryRecords {
+  holds: Record<string, InventoryHold>;
+  bookings: Record<string, InventoryItem[]>;
+}
+
+export type HoldResult = { hold: InventoryHold } | { shortfalls: AvailabilityShortfall[] };
+
+export interface AvailabilityService {
+  /**
+   * Remaining places for each item, not counting the conversation's own hold
+   */
+  getRemaining(items: InventoryItem[], conversationId?: string): Promise<number[]>;
+  /**
+   * Hold the items for a conversation, replacing any earlier hold it has
+   */
+  hold(conversationId: string, items: InventoryItem[]): Promise<HoldResult>;
+  release(conversationId: string): Promise<void>;
+  /**
+   * Turn a conversation's hold into sold inventory for a booking; false when the hold has expired
+   */
+  confirm(conversationId: string, pnr: string): Promise<boolean>;
+  /**
+   * Replace the inventory sold to a booking, leaving it unchanged when the new items do not fit
+   */
+  rebook(pnr: string, items: InventoryItem[]): Promise<AvailabilityShortfall[]>;
+  cancel(pnr: string): Promise<void>;
+}
+
+export interface InventoryStore {
+  load(): Promise<InventoryRecords>;
+  save(records: InventoryRecords): Promise<void>;
+}
+
+const emptyRecords = (): InventoryRecords => ({ holds: {}, bookings: {} });
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryInventoryStore implements InventoryStore {
+  private records: InventoryRecords = emptyRecords();
+
+  async load(): Promise<InventoryRecords> {
+    return JSON.parse(JSON.stringify(this.records));
+  }
+
+  async save(records: InventoryRecords): Promise<void> {
+    this.records = JSON.parse(JSON.stringify(records));
+  }
+
+  clear(): void {
+    this.records = emptyRecords();
+  }
+}
+
+/**
+ * Store backed by the InventoryState Durable Object's own storage
+ */
+export class DurableObjectInventoryStore implements InventoryStore {
+  private storage: DurableObjectStorage;
+
+  constructor(storage: DurableObjectStorage) {
+    this.storage = storage;
+  }
+
+  async load(): Promise<InventoryRecords> {
+    return (await this.storage.get<InventoryRecords>('inventory')) || emptyRecords();
+  }
+
+  async save(records: InventoryRecords): Promise<void> {
+    await this.storage.put('inventory', records);
+  }
+}
+
+const inventoryKey = (item: InventoryItem): string => `${item.type}:${item.productId}:${item.date}`;
+
+/**
+ * Availability over an inventory store. Expired holds stop counting against capacity
+ * as soon as they time out and are dropped from the store on the next change.
+ */
+export class AvailabilityManager implements AvailabilityService {
+  private store: InventoryStore;
+  private now: () => number;
+  private holdTtlMs: number;
+
+  constructor(store: InventoryStore, now: () => number = Date.now, holdTtlMs: number = INVENTORY_HOLD_TTL_MS) {
+    this.store = store;
+    this.now = now;
+    this.holdTtlMs = holdTtlMs;
+  }
+
+  async getRemaining(items: InventoryItem[], conversationId?: string): Promise<number[]> {
+    const used = this.countUsed(await this.store.load(), { conversationId });
+    return items.map(item => getInventoryCapacity(item) - (used.get(inventoryKey(item)) || 0));
+  }
+
+  async hold(conversationId: string, items: InventoryItem[]): Promise<HoldResult> {
+    const records = this.releaseExpired(await this.store.load());
+    const shortfalls = this.findShortfalls(records, items, { conversationId });
+    if (shortfalls.length > 0) {
+      return { shortfalls };
+    }
+
+    const hold: InventoryHold = { conversationId, items, expiresAt: this.now() + this.holdTtlMs };
+    records.holds[conversationId] = hold;
+    await this.store.save(records);
+    return { hold };
+  }
+
+  async release(conversationId: string): Promise<void> {
+    const records = this.releaseExpired(await this.store.load());
+    delete records.holds[conversationId];
+    await this.store.save(records);
+  }
+
+  async confirm(conversationId: string, pnr: string): Promise<boolean> {
+    const records = this.releaseExpired(await this.store.load());
+    const hold = records.holds[conversationId];
+    if (!hold) {
+      return false;
+    }
+
+    records.bookings[pnr] = hold.items;
+    delete records.holds[conversationId];
+    await this.store.save(records);
+    return true;
+  }
+
+  async rebook(pnr: string, items: InventoryItem[]): Promise<AvailabilityShortfall[]> {
+    const records = this.releaseExpired(await this.store.load());
+    const shortfalls = this.findShortfalls(records, items, { pnr });
+    if (shortfalls.length === 0) {
+      records.bookings[pnr] = items;
+      await this.store.save(records);
+    }
+    return shortfalls;
+  }
+
+  async cancel(pnr: string): Promise<void> {
+    const records = await this.store.load();
+    delete records.bookings[pnr];
+    await this.store.save(records);
+  }
+
+  /**
+   * Earliest time a hold in the store times out, for scheduling its release
+   */
+  async nextExpiry(): Promise<number | null> {
+    const expiries = Object.values((await this.store.load()).holds).map(hold => hold.expiresAt);
+    return expiries.length > 0 ? Math.min(...expiries) : null;
+  }
+
+  /**
+   * Drop timed-out holds from the store
+   */
+  async purgeExpired(): Promise<void> {
+    await this.store.save(this.releaseExpired(await this.store.load()));
+  }
+
+  private releaseExpired(records: InventoryRecords): InventoryRecords {
+    const now = this.now();
+    Object.entries(records.holds).forEach(([conversationId, hold]) => {
+      if (hold.expiresAt <= now) {
+        delete records.holds[conversationId];
+      }
+    });
+    return records;
+  }
+
+  /**
+   * Places sold or held per inventory key, leaving out one conversation's hold or one booking
+   */
+  private countUsed(
+    records: InventoryRecords,
+    exclude: { conversationId?: string; pnr?: string }
+  ): Map<string, number> {
+    const now = this.now();
+    const used = new Map<string, number>();
+    const add = (items: InventoryItem[]) => items.forEach(item => {
+      used.set(inventoryKey(item), (used.get(inventoryKey(item)) || 0) + item.quantity);
+    });
+
+    Object.entries(records.bookings).forEach(([pnr, items]) => {
+      if (pnr !== exclude.pnr) add(items);
+    });
+    Object.values(records.holds).forEach(hold => {
+      if (hold.conversationId !== exclude.conversationId && hold.expiresAt > now) add(hold.items);
+    });
+    return used;
+  }
+
+  private findShortfalls(
+    records: InventoryRecords,
+    items: InventoryItem[],
+    exclude: { conversationId?: string; pnr?: string }
+  ): AvailabilityShortfall[] {
+    const used = this.countUsed(records, exclude);
+    return items.flatMap(item => {
+      const remaining = getInventoryCapacity(item) - (used.get(inventoryKey(item)) || 0);
+      return item.quantity > remaining ? [{ item, remaining: Math.max(0, remaining) }] : [];
+    });
+  }
+}
+
+/**
+ * Client for the InventoryState Durable Object, which serialises every change to inventory
+ */
+export class DurableObjectAvailabilityService implements AvailabilityService {
+  private namespace: DurableObjectNamespace;
+
+  constructor(namespace: DurableObjectNamespace) {
+    this.namespace = namespace;
+  }
+
+  async getRemaining(items: InventoryItem[], conversationId?: string): Promise<number[]> {
+    return (await this.call('/remaining', { items, conversationId })).remaining;
+  }
+
+  async hold(conversationId: string, items: InventoryItem[]): Promise<HoldResult> {
+    return this.call('/hold', { conversationId, items });
+  }
+
+  async release(conversationId: string): Promise<void> {
+    await this.call('/release', { conversationId });
+  }
+
+  async confirm(conversationId: string, pnr: string): Promise<boolean> {
+    return (await this.call('/confirm', { conversationId, pnr })).confirmed;
+  }
+
+  async rebook(pnr: string, items: InventoryItem[]): Promise<AvailabilityShortfall[]> {
+    return (await this.call('/rebook', { pnr, items })).shortfalls;
+  }
+
+  async cancel(pnr: string): Promise<void> {
+    await this.call('/cancel', { pnr });
+  }
+
+  private async call(path: string, body: unknown): Promise<any> {
+    // One object holds all stopover inventory so holds can never oversell
+    const inventory = this.namespace.get(this.namespace.idFromName('stopover-inventory'));
+    const response = await inventory.fetch(`https://inventory${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Inventory request ${path} failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+// Shared availability used when Durable Objects are not bound (astro dev, tests)
+export const localAvailability = new AvailabilityManager(new InMemoryInventoryStore());
+
+/**
+ * Pick the availability service for the current environment
+ */
+export function createAvailabilityService(env: any): AvailabilityService {
+  if (env?.INVENTORY_STATE) {
+    return new DurableObjectAvailabilityService(env.INVENTORY_STATE);
+  }
+  return localAvailability;
+}
@@ -0,0 +1,136 @@
+/**
+ * Booking flow state machine
+ * Enforces the conversation step order before any booking tool runs
+ */
+
+import type { ConversationStep, StepTransition } from '../types';
+import type { BookingSession } from './booking-session';
+
+// Steps reachable from each step. Customers may go back to change an earlier
+// selection, but payment and confirmation can only be reached in order.
+export const STEP_TRANSITIONS: Record<ConversationStep, ConversationStep[]> = {
+  'welcome': ['category-selection', 'hotel-selection'],
+  'category-selection': ['category-selection', 'hotel-selection'],
+  'hotel-selection': ['category-selection', 'hotel-selection', 'timing-duration'],
+  'timing-duration': ['category-selection', 'hotel-selection', 'timing-duration', 'extras-selection'],
+  'extras-selection': ['category-selection', 'hotel-selection', 'timing-duration', 'extras-selection', 'booking-summary'],
+  'booking-summary': ['category-selection', 'hotel-selection', 'timing-duration', 'extras-selection', 'booking-summary', 'payment'],
+  'payment': ['booking-summary', 'payment', 'confirmation'],
+  'confirmation': []
+};
+
+// Step each booking tool moves the conversation into
+export const TOOL_STEPS: Record<string, ConversationStep> = {
+  showStopoverCategories: 'category-selection',
+  selectStopoverCategory: 'hotel-selection',
+  selectHotel: 'timing-duration',
+  selectTimingAndDuration: 'extras-selection',
+  selectExtras: 'booking-summary',
+  initiatePayment: 'payment',
+  completeBooking: 'confirmation'
+};
+
+// Tools that work on a confirmed booking by PNR, so they run at any step
+export const POST_BOOKING_TOOLS = ['amendStopover', 'cancelStopover'];
+
+// Tools that only read the current selections, so they run at any step
+export const READ_ONLY_TOOLS = ['showItinerary'];
+
+// Tools that change the quote without moving the conversation, so they run at any step before payment
+export const QUOTE_TOOLS = ['applyPromoCode'];
+
+// Keep the recorded history bounded, matching the message log
+const MAX_STEP_HISTORY = 50;
+
+export interface BookingTool {
+  description: string;
+  parameters: any;
+  execute: (args: any, options?: any) => Promise<any>;
+}
+
+/**
+ * Check whether the conversation may move between two steps
+ */
+export function canTransition(from: ConversationStep, to: ConversationStep): boolean {
+  return STEP_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Tools that may be called from the given step
+ */
+export function getAllowedTools(step: ConversationStep): string[] {
+  return Object.entries(TOOL_STEPS)
+    .filter(([, target]) => canTransition(step, target))
+    .map(([toolName]) => toolName);
+}
+
+/**
+ * Structured tool result for an out-of-sequence call, so the model can recover
+ */
+export function createStepTransitionError(toolName: string, from: ConversationStep, to: ConversationStep) {
+  const allowedTools = getAllowedTools(from);
+
+  return {
+    success: false,
+    error: `Invalid step transition: ${from} → ${to}`,
+    errorType: 'step-order' as const,
+    retryable: true,
+    currentStep: from,
+    attemptedStep: to,
+    allowedTools,
+    message: allowedTools.length > 0
+      ? `${toolName} cannot run at the ${from} step. Continue with one of: ${allowedTools.join(', ')}.`
+      : `${toolName} cannot run at the ${from} step. This booking is already complete; use ${POST_BOOKING_TOOLS.join(' or ')} to change it.`
+  };
+}
+
+/**
+ * Record a completed transition in the conversation's booking state
+ */
+export async function recordTransition(
+  session: BookingSession,
+  from: ConversationStep,
+  to: ConversationStep,
+  tool: string
+): Promise<void> {
+  const transition: StepTransition = { from, to, tool, timestamp: Date.now() };
+  const history = [...(session.getState().stepHistory || []), transition].slice(-MAX_STEP_HISTORY);
+
+  await session.update({ currentStep: to, stepHistory: history });
+}
+
+/**
+ * Wrap booking tools so each call is checked against the transition table
+ * before it runs, and successful calls advance the conversation step
+ */
+export function guardBookingFunctions<T extends Record<string, BookingTool>>(
+  tools: T,
+  session: BookingSession
+): T {
+  const guarded: Record<string, BookingTool> = {};
+
+  Object.entries(tools).forEach(([toolName, tool]) => {
+    const to = TOOL_STEPS[toolName];
+
+    guarded[toolName] = {
+      ...tool,
+      execute: async (args: any, options?: any) => {
+        const from = session.getState().currentStep || 'welcome';
+
+        if (to && !canTransition(from, to)) {
+          return createStepTransitionError(toolName, from, to);
+        }
+
+        const result = await tool.execute(args, options);
+
+        if (to && result?.success) {
+          await recordTransition(session, from, to, toolName);
+        }
+
+        return result;
+      }
+    };
+  });
+
+  return guarded as T;
+}
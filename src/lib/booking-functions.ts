@@ -1,8 +1,82 @@
 import { z } from 'zod';
-import { stopoverCategories } from '../data/stopoverCategories';
-import { premiumHotels } from '../data/hotelData';
-import { availableTours, whaleSharksTour } from '../data/tourData';
+import type {
+  StopoverSelection,
+  SelectedTour,
+  PricingBreakdown,
+  ConfirmedBooking,
+  BookingAdjustment,
+  Currency,
+  PaymentMethod,
+  AviosPaymentData,
+  StopoverDates,
+  TravelDates,
+  InventoryItem,
+  AvailabilityShortfall,
+  FlightTimes,
+  FlightSegment,
+  DohaFlightTimes,
+  TourOption,
+  StopoverItinerary,
+  StopoverPosition,
+  StopoverTiming,
+  Quote,
+  QuoteLineItem,
+  PaymentStatus,
+  ProviderPayment,
+  CustomerData,
+  BookingData
+} from '../types';
+import type { ConversationBookingState } from './durable-objects/ConversationState';
+import { stopoverCategories, getCategoryById } from '../data/stopoverCategories';
+import {
+  getHotelById,
+  getHotelsForStopoverCategory,
+  getPriceDifferenceFromCategory,
+  calculateRoomsRequired
+} from '../data/hotelData';
+import { availableTours, getRecommendedTours, getTourById } from '../data/tourData';
 import { defaultTransferOption } from '../data/transferData';
+import {
+  PRICING_CONSTANTS,
+  calculatePricingBreakdown,
+  calculateTierAviosPrice,
+  calculateAviosPayment,
+  calculateCardSurcharge,
+  addCardSurcharge,
+  getCardSurcharge,
+  getRefundableTotal,
+  formatPrice,
+  AVIOS_REDEMPTION_STEP,
+  TAX_CONFIG
+} from '../data/pricingData';
+import { convertFromUSD, convertPricingBreakdown, roundCurrency } from '../data/currencyData';
+import {
+  calculateStopoverDates,
+  getTourRate,
+  getStaySeasons,
+  getStayNights,
+  getStopoverNightlyRate
+} from '../data/rateCalendar';
+import { getInventoryItems, getInventoryCapacity, getAvailabilityStatus } from '../data/inventoryData';
+import { getPromoCode, getPromoCodeIneligibility, calculateDiscountTotal } from '../data/promotionData';
+import { sampleCustomer, sampleBooking } from '../data/customerData';
+import {
+  HUB_AIRPORT,
+  getStopoverPositions,
+  getItineraryTravelDates,
+  getDohaFlightTimes,
+  buildFlightRoute
+} from '../data/itineraryData';
+import { BookingSession, localBookingSessionStore, clearSelectionsAfter } from './booking-session';
+import { BookingLedger, localBookingLedger } from './booking-ledger';
+import { localFxRateSource } from './fx-rates';
+import type { FxRateSource } from './fx-rates';
+import { localAvailability } from './availability';
+import type { AvailabilityService } from './availability';
+import { planStopover } from './stopover-planner';
+import { createQuote, getQuoteProblem } from './quotes';
+import { localPaymentProvider } from './payment-provider';
+import type { PaymentProvider } from './payment-provider';
 
 // Define parameter schemas
 const emptyCategorySchema = z.object({});
@@ -15,7 +89,7 @@ const hotelSelectionSchema = z.object({
   hotelName: z.string().describe('The name of the selected hotel')
 });
 const timingDurationSchema = z.object({
-  timing: z.enum(['outbound', 'return']).describe('Whether stopover is on outbound or return journey'),
+  timing: z.enum(['outbound', 'return']).describe('Journey to stop over on; must be one of the stopover positions shown for the booking'),
   duration: z.number().min(1).max(4).describe('Number of nights for the stopover')
 });
 const extrasSelectionSchema = z.object({
@@ -23,232 +97,1564 @@ const extrasSelectionSchema = z.object({
   selectedTours: z.array(z.object({
     tourId: z.string(),
     tourName: z.string(),
-    quantity: z.number(),
+    quantity: z.number().min(1).optional().describe('Number of guests on the tour; defaults to every passenger'),
     totalPrice: z.number()
   })).describe('Array of selected tours with quantities'),
   totalExtrasPrice: z.number().describe('Total price of all selected extras')
 });
 const paymentInitiationSchema = z.object({
-  paymentMethod: z.enum(['credit-card', 'avios']).describe('Selected payment method'),
-  totalAmount: z.number().describe('Total amount to be paid')
+  paymentMethod: z.enum(['credit-card', 'avios', 'cash-avios']).describe('Selected payment method; cash-avios splits the total between Avios and a card'),
+  quoteId: z.string().describe('quoteId of the latest booking summary; the amount charged always comes from that quote'),
+  aviosToUse: z.number().int().min(1).optional().describe('Avios to put towards the total for a cash-avios payment')
 });
 const bookingCompletionSchema = z.object({
+  quoteId: z.string().describe('quoteId of the booking summary the customer paid for'),
   paymentData: z.object({
     method: z.string(),
-    confirmed: z.boolean()
+    confirmed: z.boolean(),
+    cardToken: z.string().optional().describe('Card token from the payment form (card.token); needed for credit-card and cash-avios payments'),
+    aviosToUse: z.number().int().min(1).optional().describe('Avios allocated with the Cash + Avios slider, if the customer changed it')
   }).describe('Payment confirmation data')
 });
 
-// Function to show stopover categories
-export const showStopoverCategories = {
-  description: 'Display available stopover categories to the customer with interactive carousel',
-  parameters: emptyCategorySchema,
-  execute: async (params: any) => {
-    return {
-      success: true,
-      categories: stopoverCategories,
-      uiComponent: {
-        type: 'stopover-categories',
-        data: {
-          categories: stopoverCategories
-        }
-      },
-      message: 'Here are our stopover categories. Each offers different levels of comfort and amenities:'
-    };
+const stopoverAmendmentSchema = z.object({
+  pnr: z.string().describe('PNR of the confirmed stopover booking'),
+  hotelId: z.string().optional().describe('ID of the new hotel, if changing hotel'),
+  timing: z.enum(['outbound', 'return']).optional().describe('New stopover timing, if changing'),
+  duration: z.number().min(1).max(4).optional().describe('New number of nights, if changing'),
+  includeTransfers: z.boolean().optional().describe('Whether to keep airport transfers, if changing'),
+  tours: z.array(z.object({
+    tourId: z.string(),
+    quantity: z.number().min(1).optional().describe('Number of guests on the tour; defaults to every passenger')
+  })).optional().describe('Replacement list of tours; leave a tour out to drop it')
+});
+const itinerarySchema = z.object({});
+const promoCodeSchema = z.object({
+  code: z.string().min(1).describe('Promo code exactly as the customer gave it, e.g. DOHA10')
+});
+
+const stopoverCancellationSchema = z.object({
+  pnr: z.string().describe('PNR of the confirmed stopover booking to cancel')
+});
+
+// Structured error result the model can recover from
+const validationError = (error: string, message: string) => ({
+  success: false,
+  error,
+  errorType: 'validation' as const,
+  retryable: true,
+  message
+});
+
+// Card payment the payment provider declined, could not take, or is waiting on the customer for
+const paymentError = (error: string, message: string, details: Record<string, unknown> = {}) => ({
+  success: false,
+  error,
+  errorType: 'payment' as const,
+  retryable: true,
+  message,
+  ...details
+});
+
+const paymentDeclinedError = (payment: ProviderPayment) => paymentError(
+  `Payment declined: ${payment.declineReason}`,
+  `Your card${payment.cardLast4 ? ` ending ${payment.cardLast4}` : ''} was declined, so you haven't been charged. Please try another card or a different payment method.`
+);
+
+const paymentChallengeError = (payment: ProviderPayment) => paymentError(
+  'Payment requires 3-D Secure verification',
+  `Your bank needs to verify this payment. Please complete the check for your card ending ${payment.cardLast4}, then confirm your booking again.`,
+  { requiresAction: true, challengeUrl: payment.challengeUrl }
+);
+
+const paymentProviderError = (error: unknown) => paymentError(
+  `Payment provider error: ${error instanceof Error ? error.message : String(error)}`,
+  'Our payment provider couldn\'t process this just now. Please try again in a moment.'
+);
+
+const formatNights = (nights: number) => nights === 1 ? '1 night' : `${nights} nights`;
+const formatRooms = (rooms: number) => rooms === 1 ? '1 room' : `${rooms} rooms`;
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`)
+  .toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+const formatStayDates = ({ checkIn, checkOut }: StopoverDates) => `${formatDate(checkIn)} – ${formatDate(checkOut)}`;
+
+// Customer the conversation is for; local sessions fall back to the sample customer
+const getCustomer = (state: ConversationBookingState): CustomerData => state.customer ?? sampleCustomer;
+
+// Party size from the original booking; local sessions fall back to the sample booking
+const getPassengers = (state: ConversationBookingState): number => state.passengers ?? sampleBooking.passengers;
+
+// Flights on the original booking; local sessions fall back to the sample booking
+const getSegments = (state: ConversationBookingState): FlightSegment[] => state.segments ?? sampleBooking.route.segments ?? [];
+
+// Journeys on the booking that connect through Doha, where a stopover can go
+const getPositions = (state: ConversationBookingState): StopoverPosition[] => getStopoverPositions(getSegments(state));
+
+// Dates the itinerary lands in Doha, read from its flights unless the session has them
+const getTravelDates = (state: ConversationBookingState): TravelDates =>
+  state.travelDates ?? getItineraryTravelDates(getSegments(state)) ?? sampleBooking.travelDates!;
+
+// Doha flight times, read from the booking's flights unless the session has them
+const getFlightTimes = (state: ConversationBookingState): FlightTimes => state.flightTimes ?? getDohaFlightTimes(getSegments(state));
+
+// Customer's market currency; the catalog currency when the market is unknown
+const getCurrency = (state: ConversationBookingState): Currency => state.currency ?? 'USD';
+
+// Flight booking the stopover joins, as recorded on the confirmed booking; local sessions fall back to the sample booking
+const getOriginalBooking = (state: ConversationBookingState): BookingData => ({
+  pnr: state.flightBooking?.pnr ?? sampleBooking.pnr,
+  status: state.flightBooking?.status ?? sampleBooking.status,
+  route: buildFlightRoute(getSegments(state)),
+  passengers: getPassengers(state),
+  travelDates: getTravelDates(state),
+  flightTimes: getFlightTimes(state),
+  ...(state.passengerMix ? { passengerMix: state.passengerMix } : {})
+});
+
+// Privilege Club member signed in for this session, loaded by the server; Avios can't be priced or redeemed without one
+const getPrivilegeClubAccount = (state: ConversationBookingState) => state.privilegeClub;
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  'credit-card': 'Credit Card',
+  avios: 'Avios',
+  'cash-avios': 'Cash + Avios'
+};
+
+// Form paid with a different method than the payment was started for, which would charge a different price
+const paymentMethodMismatchError = (method: PaymentMethod) => validationError(
+  'Payment method does not match the started payment',
+  `This payment was started for ${PAYMENT_METHOD_LABELS[method]}. Please pay with ${PAYMENT_METHOD_LABELS[method]}, or ask me to start the payment again with another method.`
+);
+
+// Avios payment started or confirmed before the customer signed in to Privilege Club
+const signInRequiredError = () => validationError(
+  'Privilege Club sign-in required',
+  'Please sign in to your Privilege Club account to pay with Avios.'
+);
+
+/**
+ * Check an Avios redemption against the quote and the member's balance
+ */
+const validateAviosRedemption = (
+  method: PaymentMethod,
+  avios: AviosPaymentData,
+  aviosPrice: number
+): ReturnType<typeof validationError> | null => {
+  if (method === 'cash-avios' && avios.aviosUsed < 1) {
+    return validationError(
+      'Cash + Avios allocation must include some Avios',
+      'Please choose how many Avios to put towards your stopover, or pay fully by card.'
+    );
+  }
+  if (method === 'cash-avios' && avios.aviosUsed >= aviosPrice) {
+    return validationError(
+      `Cash + Avios allocation of ${avios.aviosUsed} Avios covers the full ${aviosPrice} Avios price`,
+      `${formatPrice(avios.aviosUsed, 'AVIOS')} covers the whole stopover, so please pay fully with Avios or choose fewer Avios.`
+    );
+  }
+  if (avios.remainingBalance < 0) {
+    const balance = avios.aviosUsed + avios.remainingBalance;
+    return validationError(
+      `Insufficient Avios balance: ${avios.aviosUsed} needed, ${balance} available`,
+      `This needs ${formatPrice(avios.aviosUsed, 'AVIOS')} but your balance is ${formatPrice(balance, 'AVIOS')}. You could pay with Cash + Avios and put fewer Avios towards the total.`
+    );
   }
+  return null;
 };
 
-// Function to handle category selection and show hotels
-export const selectStopoverCategory = {
-  description: 'Process stopover category selection and display available hotels',
-  parameters: categorySelectionSchema,
-  execute: async ({ categoryId, categoryName }: any) => {
+// Starting point for the Cash + Avios slider: half the Avios price, within the member's balance
+const defaultAviosAllocation = (aviosPrice: number, aviosBalance: number): number => {
+  const roundDown = (avios: number) => Math.floor(avios / AVIOS_REDEMPTION_STEP) * AVIOS_REDEMPTION_STEP;
+  return Math.min(roundDown(aviosPrice / 2), roundDown(aviosBalance));
+};
+
+/**
+ * Price the chosen payment method against the locked quote, charging Avios at the member's tier rate
+ */
+const preparePayment = (
+  method: PaymentMethod,
+  pricing: NonNullable<ConversationBookingState['pricing']>,
+  account: ReturnType<typeof getPrivilegeClubAccount>,
+  aviosToUse?: number
+): { payment: NonNullable<ConversationBookingState['payment']> } | { error: ReturnType<typeof validationError> } => {
+  const { breakdown } = pricing;
+  // A card payment charges the card total the summary quoted
+  if (method === 'credit-card') {
+    const surcharge = roundCurrency(pricing.cardTotal - pricing.total);
     return {
-      success: true,
-      selectedCategory: categoryId,
-      hotels: premiumHotels,
-      uiComponent: {
-        type: 'hotels',
-        data: {
-          hotels: premiumHotels,
-          selectedCategoryId: categoryId
-        }
-      },
-      message: `Great choice! You've selected the ${categoryName} category. Now let's choose your hotel from our premium selection:`
+      payment: {
+        method,
+        amount: pricing.cardTotal,
+        currency: breakdown.currency,
+        ...(surcharge > 0 ? { surcharge } : {}),
+        status: 'pending'
+      }
     };
   }
+
+  if (!account) {
+    return { error: signInRequiredError() };
+  }
+  const aviosPrice = calculateTierAviosPrice(breakdown, account.tierStatus);
+  const allocation = method === 'avios'
+    ? undefined
+    : aviosToUse ?? defaultAviosAllocation(aviosPrice, account.aviosBalance);
+  const avios = calculateAviosPayment(breakdown, account, allocation);
+  const error = validateAviosRedemption(method, avios, aviosPrice);
+  if (error) {
+    return { error };
+  }
+
+  if (method === 'avios') {
+    return { payment: { method, amount: avios.aviosUsed, currency: 'AVIOS', avios, status: 'pending' } };
+  }
+
+  // The card share of a Cash + Avios payment carries the card surcharge
+  const surcharge = calculateCardSurcharge(method, avios.cashAmount);
+  return {
+    payment: {
+      method,
+      amount: roundCurrency(avios.cashAmount + surcharge),
+      currency: breakdown.currency,
+      ...(surcharge > 0 ? { surcharge } : {}),
+      avios,
+      status: 'pending'
+    }
+  };
 };
 
-// Function to handle hotel selection and show timing options
-export const selectHotel = {
-  description: 'Process hotel selection and display stopover timing and duration options',
-  parameters: hotelSelectionSchema,
-  execute: async ({ hotelId, hotelName }: any) => {
-    return {
-      success: true,
-      selectedHotel: hotelId,
-      uiComponent: {
-        type: 'stopover-options',
-        data: {
-          selectedHotelId: hotelId,
-          originalRoute: {
-            origin: 'LHR',
-            destination: 'BKK'
-          }
-        }
-      },
-      message: `Perfect! You've selected ${hotelName}. Now let's configure when you'd like your stopover and for how long:`
-    };
+const describePaymentTotal = (payment: NonNullable<ConversationBookingState['payment']>): string => {
+  if (payment.method === 'cash-avios' && payment.avios) {
+    return `${formatPrice(payment.avios.aviosUsed, 'AVIOS')} + ${formatPrice(payment.amount, payment.currency)}`;
   }
+  return formatPrice(payment.amount, payment.currency);
 };
 
-// Function to handle timing and duration selection
-export const selectTimingAndDuration = {
-  description: 'Process stopover timing and duration selection, then show extras',
-  parameters: timingDurationSchema,
-  execute: async ({ timing, duration }: any) => {
-    return {
-      success: true,
-      selectedTiming: timing,
-      selectedDuration: duration,
-      uiComponent: {
-        type: 'stopover-extras',
-        data: {
-          transfers: defaultTransferOption,
-          tours: availableTours,
-          recommendedTour: whaleSharksTour,
-          passengers: 2,
-          selectedTiming: timing,
-          selectedDuration: duration
-        }
-      },
-      message: `Excellent! You've chosen a ${duration}-night ${timing} stopover. Now let's enhance your experience with some optional extras:`
-    };
+const describeSurcharge = (payment: NonNullable<ConversationBookingState['payment']>): string => {
+  return payment.surcharge ? ` (including a ${formatPrice(payment.surcharge, payment.currency)} card surcharge)` : '';
+};
+
+/**
+ * Resolve requested tours against the catalog, defaulting each quantity to the
+ * whole party and refusing more places than there are passengers
+ */
+const resolveTours = (
+  requested: Array<{ tourId: string; tourName?: string; quantity?: number }>,
+  passengers: number,
+  date?: string
+): { tours: SelectedTour[] } | { error: ReturnType<typeof validationError> } => {
+  const tours: SelectedTour[] = [];
+  for (const { tourId, tourName, quantity = passengers } of requested) {
+    const tour = getTourById(tourId);
+    if (!tour) {
+      return {
+        error: validationError(
+          `Unknown tour: ${tourId}`,
+          `Sorry, I couldn't find the tour "${tourName || tourId}". Please choose from the available tours.`
+        )
+      };
+    }
+    if (quantity > passengers) {
+      return {
+        error: validationError(
+          `Tour quantity ${quantity} exceeds ${passengers} passengers`,
+          `${tour.name} can be booked for up to ${passengers} ${passengers === 1 ? 'guest' : 'guests'}, one per passenger on your booking.`
+        )
+      };
+    }
+    tours.push({ tour, quantity, totalPrice: getTourRate(tour, date) * quantity });
   }
+  return { tours };
 };
 
-// Function to handle extras selection
-export const selectExtras = {
-  description: 'Process extras selection (transfers and tours) and show booking summary',
-  parameters: extrasSelectionSchema,
-  execute: async ({ includeTransfers, selectedTours, totalExtrasPrice }: any) => {
-    const baseHotelCost = 150 * 2; // Assuming 2 nights at $150/night
-    const flightFareDifference = 115;
-    const transfersCost = includeTransfers ? 60 : 0;
-    const toursCost = selectedTours.reduce((sum: number, tour: any) => sum + tour.totalPrice, 0);
-    const totalCashPrice = baseHotelCost + flightFareDifference + transfersCost + toursCost;
-    const totalAviosPrice = totalCashPrice * 125; // 125 Avios per $1
+/**
+ * Rebuild the full stopover selection from the ids held in the booking session
+ */
+const resolveStopoverSelection = (state: ConversationBookingState): StopoverSelection | undefined => {
+  const category = state.category ? getCategoryById(state.category) : undefined;
+  const hotel = state.hotel ? getHotelById(state.hotel) : undefined;
+  if (!category || !hotel || !state.timing || !state.duration) {
+    return undefined;
+  }
 
-    return {
-      success: true,
-      selectedExtras: {
-        transfers: includeTransfers,
-        tours: selectedTours,
-        totalExtrasPrice
-      },
-      pricing: {
-        hotelCost: baseHotelCost,
-        flightFareDifference,
-        transfersCost,
-        toursCost,
-        totalCashPrice,
-        totalAviosPrice
-      },
-      uiComponent: {
-        type: 'summary',
-        data: {
-          title: 'Booking Summary',
-          items: [
-            { label: 'Hotel (2 nights)', value: `${baseHotelCost}` },
-            { label: 'Flight fare difference', value: `${flightFareDifference}` },
-            ...(includeTransfers ? [{ label: 'Airport transfers', value: `${transfersCost}` }] : []),
-            ...selectedTours.map((tour: any) => ({ 
-              label: `${tour.tourName} (${tour.quantity}x)`, 
-              value: `${tour.totalPrice}` 
-            }))
-          ],
-          total: `${totalCashPrice}`,
-          aviosOption: `${totalAviosPrice.toLocaleString()} Avios`,
-          actions: [
-            { type: 'payment', label: 'Proceed to Payment', primary: true }
-          ]
-        }
-      },
-      message: `Perfect! Here's your complete stopover package summary. Your total is ${totalCashPrice} or ${totalAviosPrice.toLocaleString()} Avios.`
-    };
+  const tours: SelectedTour[] = (state.extras?.tours || []).flatMap(({ id, quantity, date }) => {
+    const tour = getTourById(id);
+    return tour
+      ? [{ tour, quantity, totalPrice: getTourRate(tour, date ?? state.stopoverDates?.checkIn) * quantity, ...(date ? { date } : {}) }]
+      : [];
+  });
+
+  return {
+    timing: state.timing,
+    duration: state.duration,
+    dates: state.stopoverDates,
+    passengers: getPassengers(state),
+    stopovertype: category,
+    hotel,
+    extras: {
+      transfers: state.extras?.transfers ? defaultTransferOption : undefined,
+      tours,
+      totalExtrasPrice: (state.pricing?.breakdown.transfersCost || 0) + (state.pricing?.breakdown.toursCost || 0)
+    }
+  };
+};
+
+// Quote lines for a priced stopover: each product at its quoted price, each discount taken off, then taxes
+const buildQuoteLineItems = (selection: StopoverSelection, pricing: PricingBreakdown): QuoteLineItem[] => {
+  const exchangeRate = pricing.fxSnapshot?.rates[pricing.currency] ?? 1;
+  const { hotel, duration, passengers, extras } = selection;
+
+  return [
+    {
+      type: 'hotel',
+      label: `${hotel.name} (${formatNights(duration)}, ${formatRooms(calculateRoomsRequired(hotel, passengers))})`,
+      amount: pricing.hotelCost
+    },
+    { type: 'flight', label: 'Flight fare difference', amount: pricing.flightFareDifference },
+    ...(extras.transfers ? [{ type: 'transfers' as const, label: 'Airport transfers', amount: pricing.transfersCost }] : []),
+    ...extras.tours.map(({ tour, quantity, totalPrice }) => ({
+      type: 'tour' as const,
+      label: `${tour.name} (${quantity}x)`,
+      amount: convertFromUSD(totalPrice, exchangeRate)
+    })),
+    ...(pricing.discounts || []).map(discount => ({ type: 'discount' as const, label: discount.label, amount: -discount.amount })),
+    ...(pricing.taxes || []).map(tax => ({ type: 'tax' as const, label: tax.label, amount: tax.amount }))
+  ];
+};
+
+const formatQuoteExpiry = (quote: Quote) => `${new Date(quote.expiresAt).toISOString().slice(11, 16)} UTC`;
+
+// Booking summary for a quote, ready for payment
+const describeQuote = (quote: Quote) => ({
+  title: 'Booking Summary',
+  quoteId: quote.id,
+  currency: quote.currency,
+  items: quote.lineItems.map(item => ({
+    label: item.label,
+    value: formatPrice(item.amount, quote.currency),
+    ...(item.type === 'discount' ? { discount: true } : {})
+  })),
+  total: formatPrice(quote.total, quote.currency),
+  cardTotal: formatPrice(quote.cardTotal, quote.currency),
+  cardSurcharge: formatPrice(roundCurrency(quote.cardTotal - quote.total), quote.currency),
+  aviosOption: formatPrice(quote.breakdown.totalAviosPrice, 'AVIOS'),
+  notes: [
+    `The total includes all taxes and fees. Paying by card adds a ${TAX_CONFIG.CARD_SURCHARGE_RATES['credit-card'] * 100}% card surcharge; with Cash + Avios it applies to the card share only.`,
+    `This price is held until ${formatQuoteExpiry(quote)}.`
+  ],
+  actions: [
+    { type: 'payment', label: 'Proceed to Payment', primary: true }
+  ]
+});
+
+/**
+ * Refuse payment against anything but the current, unexpired quote
+ */
+const quoteError = (quote: Quote, quoteId?: string): ReturnType<typeof validationError> | null => {
+  switch (getQuoteProblem(quote, quoteId)) {
+    case 'unknown':
+      return validationError(
+        `Quote ${quoteId} is not the current booking summary`,
+        `The booking summary has changed since that quote. The current quote is ${quote.id} for ${formatPrice(quote.total, quote.currency)}; please check it with the customer before paying.`
+      );
+    case 'tampered':
+      return validationError(
+        `Quote ${quote.id} failed its integrity check`,
+        'Something went wrong with your booking summary, so I need to price your stopover again. Please confirm your extras.'
+      );
+    case 'expired':
+      return validationError(
+        `Quote ${quote.id} expired`,
+        `Your quoted price was held until ${formatQuoteExpiry(quote)}. Please confirm your extras again for an up-to-date price.`
+      );
+    default:
+      return null;
   }
 };
 
-// Function to initiate payment
-export const initiatePayment = {
-  description: 'Initialize the payment process for the stopover booking',
-  parameters: paymentInitiationSchema,
-  execute: async ({ paymentMethod, totalAmount }: any) => {
-    return {
-      success: true,
-      paymentInitialized: true,
-      uiComponent: {
-        type: 'form',
-        data: {
-          type: 'payment',
-          fields: paymentMethod === 'credit-card' ? [
-            { id: 'cardNumber', type: 'text', label: 'Card Number', required: true },
-            { id: 'expiryDate', type: 'text', label: 'Expiry Date (MM/YY)', required: true },
-            { id: 'cvv', type: 'text', label: 'CVV', required: true },
-            { id: 'nameOnCard', type: 'text', label: 'Name on Card', required: true }
-          ] : [
-            { id: 'privilegeClubId', type: 'text', label: 'Privilege Club ID', required: true },
-            { id: 'password', type: 'password', label: 'Password', required: true }
-          ],
-          submitLabel: paymentMethod === 'credit-card' ? 'Pay Now' : 'Login & Pay with Avios'
-        }
-      },
-      message: paymentMethod === 'credit-card' 
-        ? `Please enter your payment details to complete your booking for ${totalAmount}:`
-        : `Please login to your Privilege Club account to pay with Avios:`
-    };
+// Total for the summary message, with what the discounts save and what paying by card charges
+const describeQuoteTotal = (quote: Quote) => {
+  const { breakdown: pricing } = quote;
+  const savings = calculateDiscountTotal(pricing.discounts);
+  return `${formatPrice(quote.total, quote.currency)}${
+    savings > 0 ? ` (you save ${formatPrice(savings, quote.currency)})` : ''
+  }, ${formatPrice(quote.cardTotal, quote.currency)} by card with the card surcharge, or ${formatPrice(pricing.totalAviosPrice, 'AVIOS')}`;
+};
+
+const describeJourney = (position: StopoverPosition) => `${position.from} → ${HUB_AIRPORT} → ${position.to}`;
+
+// Refuse a journey the booking does not connect through Doha on, naming the ones it does
+const stopoverPositionError = (timing: StopoverTiming, positions: StopoverPosition[]) => validationError(
+  `No ${timing} stopover position on this itinerary`,
+  positions.length > 0
+    ? `Your booking doesn't connect through Doha on the ${timing} journey. You can stop over on ${positions
+      .map(position => `the ${position.timing} journey (${describeJourney(position)})`).join(' or ')}.`
+    : 'Your booking doesn\'t connect through Doha, so a stopover can\'t be added to it.'
+);
+
+/**
+ * Lay out a dated stopover between its flights; undefined when the dates or flight times are unknown
+ */
+const scheduleStopover = (selection: StopoverSelection, flightTimes?: FlightTimes): StopoverItinerary | undefined => {
+  const times = flightTimes?.[selection.timing];
+  if (!selection.dates || !times) {
+    return undefined;
   }
+  return planStopover({
+    dates: selection.dates,
+    nights: selection.duration,
+    times,
+    tours: selection.extras.tours.map(({ tour }) => tour),
+    includeTransfers: !!selection.extras.transfers
+  });
 };
 
-// Function to complete booking
-export const completeBooking = {
-  description: 'Complete the stopover booking and generate confirmation',
-  parameters: bookingCompletionSchema,
-  execute: async ({ paymentData }: any) => {
-    const newPNR = 'X9FG1';
-    
-    return {
-      success: true,
-      bookingComplete: true,
-      newPNR,
-      uiComponent: {
-        type: 'summary',
-        data: {
-          title: 'Booking Confirmed!',
-          items: [
-            { label: 'New PNR', value: newPNR },
-            { label: 'Stopover Location', value: 'Doha (DOH)' },
-            { label: 'Payment Method', value: paymentData.method === 'credit-card' ? 'Credit Card' : 'Avios' },
-            { label: 'Status', value: 'Confirmed' }
-          ],
-          actions: [
-            { type: 'email', label: 'Email Confirmation', primary: false },
-            { type: 'close', label: 'Close', primary: true }
-          ]
-        }
-      },
-      message: `🎉 Congratulations! Your stopover booking is confirmed. Your new PNR is ${newPNR}. You'll receive a confirmation email shortly with all the details.`
-    };
+// Date each tour for the day the planner put it on, at that day's rate
+const planTourDates = (tours: SelectedTour[], itinerary?: StopoverItinerary): SelectedTour[] => tours.map(selected => {
+  const day = itinerary?.days.find(({ events }) => events.some(event => event.tourId === selected.tour.id));
+  return day ? { ...selected, date: day.date, totalPrice: getTourRate(selected.tour, day.date) * selected.quantity } : selected;
+});
+
+// Day the planner would put a tour on by itself, for showing its places and price before tours are chosen
+const getPlannedTourDate = (tour: TourOption, dates: StopoverDates, nights: number, times?: DohaFlightTimes): string => {
+  const plan = times && planStopover({ dates, nights, times, tours: [tour], includeTransfers: false });
+  return plan?.days.find(({ events }) => events.some(event => event.tourId === tour.id))?.date ?? dates.checkIn;
+};
+
+// Refuse tours the schedule cannot fit, naming every conflict
+const scheduleError = (itinerary?: StopoverItinerary): ReturnType<typeof validationError> | null => {
+  const errors = itinerary?.issues.filter(issue => issue.severity === 'error') || [];
+  if (errors.length === 0) {
+    return null;
+  }
+  return validationError(
+    `Tour schedule conflict: ${errors.map(issue => issue.tourId).join(', ')}`,
+    `${errors.map(issue => issue.message).join(' ')} Please choose different tours or change your stopover.`
+  );
+};
+
+const describeScheduleWarnings = (itinerary?: StopoverItinerary): string =>
+  (itinerary?.issues || []).filter(issue => issue.severity === 'warning').map(issue => ` ${issue.message}`).join('');
+
+/**
+ * Summary rows describing a stopover selection, for old-versus-new comparisons
+ */
+const describeStopover = (selection: StopoverSelection, total: string) => [
+  { label: 'Hotel', value: selection.hotel.name },
+  { label: 'Stopover', value: `${formatNights(selection.duration)}, ${selection.timing} journey` },
+  ...(selection.dates ? [{ label: 'Dates', value: formatStayDates(selection.dates) }] : []),
+  { label: 'Airport transfers', value: selection.extras.transfers ? 'Included' : 'Not included' },
+  ...selection.extras.tours.map(({ tour, quantity }) => ({ label: tour.name, value: `${quantity}x` })),
+  { label: 'Total', value: total }
+];
+
+/**
+ * Work out the refund or extra charge between two totals in the booking's payment currency.
+ * Avios bookings are repriced at the tier rate they were paid at; Cash + Avios bookings
+ * settle amendments in cash and get their Avios back on cancellation
+ */
+const calculateAdjustment = (
+  reason: BookingAdjustment['reason'],
+  booking: ConfirmedBooking,
+  updated: PricingBreakdown | null
+): BookingAdjustment => {
+  const previous = booking.bookingState.pricing!;
+  const { aviosRedemption } = booking;
+  const paidInAvios = booking.paymentMethod === 'avios';
+  const conversionRate = aviosRedemption?.conversionRate ?? PRICING_CONSTANTS.AVIOS_CONVERSION_RATE;
+  const totalOf = (pricing: PricingBreakdown) => paidInAvios
+    ? Math.round(pricing.totalAviosPrice * conversionRate / PRICING_CONSTANTS.AVIOS_CONVERSION_RATE)
+    : getRefundableTotal(pricing);
+
+  const previousTotal = totalOf(previous);
+  const newTotal = updated ? totalOf(updated) : 0;
+  const difference = newTotal - previousTotal;
+  const adjustment: BookingAdjustment = {
+    reason,
+    type: difference > 0 ? 'charge' : difference < 0 ? 'refund' : 'none',
+    amount: roundCurrency(Math.abs(difference)),
+    currency: paidInAvios ? 'AVIOS' : previous.currency,
+    previousTotal,
+    newTotal,
+    timestamp: Date.now()
+  };
+
+  if (!updated && booking.paymentMethod === 'cash-avios' && aviosRedemption) {
+    return { ...adjustment, amount: aviosRedemption.cashAmount, aviosAmount: aviosRedemption.aviosUsed };
+  }
+  return adjustment;
+};
+
+const formatAdjustmentAmount = (adjustment: BookingAdjustment): string => {
+  const amount = formatPrice(adjustment.amount, adjustment.currency);
+  return adjustment.aviosAmount ? `${amount} and ${formatPrice(adjustment.aviosAmount, 'AVIOS')}` : amount;
+};
+
+const describeAdjustment = (adjustment: BookingAdjustment) => {
+  switch (adjustment.type) {
+    case 'refund':
+      return { label: 'Refund due', value: formatAdjustmentAmount(adjustment), highlight: true };
+    case 'charge':
+      return { label: 'Additional charge', value: formatAdjustmentAmount(adjustment), highlight: true };
+    default:
+      return { label: 'Price difference', value: 'No change', highlight: true };
+  }
+};
+
+/**
+ * Explain the first room night or tour departure that cannot be held
+ */
+const availabilityError = (shortfalls: AvailabilityShortfall[]) => {
+  const { item, remaining } = shortfalls[0];
+  const left = item.type === 'room'
+    ? `${getHotelById(item.productId)?.name ?? item.productId} has ${remaining === 0 ? 'no rooms' : `only ${formatRooms(remaining)}`}`
+    : `${getTourById(item.productId)?.name ?? item.productId} has ${remaining === 0 ? 'no places' : `only ${remaining} ${remaining === 1 ? 'place' : 'places'}`}`;
+  return validationError(
+    `Insufficient availability: ${item.type} ${item.productId} on ${item.date} needs ${item.quantity}, ${remaining} left`,
+    `Sorry, ${left} left on ${formatDate(item.date)}. Please choose ${item.type === 'room' ? 'another hotel or different dates' : 'fewer guests or another tour'}.`
+  );
+};
+
+const bookingNotFoundError = (pnr: string) => validationError(
+  `No confirmed stopover booking found for PNR ${pnr}`,
+  `I couldn't find a stopover booking with reference ${pnr}. Please check the PNR and try again.`
+);
+
+// A booking belongs to the server-issued customer session that made it, and to the Privilege Club member signed in
+// when it was made; tools used outside a chat session (local scripts, tests) only reach bookings from the same conversation
+const isBookingOwner = (booking: ConfirmedBooking, state: ConversationBookingState, conversationId: string) => {
+  if (booking.memberId && booking.memberId === state.privilegeClub?.memberId) {
+    return true;
   }
+  return state.customerSessionId
+    ? booking.customerSessionId === state.customerSessionId
+    : !booking.customerSessionId && booking.conversationId === conversationId;
 };
 
-// Export all booking functions
-export const bookingFunctions = {
+const bookingCancelledError = (pnr: string) => validationError(
+  `Booking ${pnr} is already cancelled`,
+  `The stopover on booking ${pnr} has already been cancelled, so it can't be changed.`
+);
+
+/**
+ * Create the booking tools bound to a conversation's booking session,
+ * the ledger that records confirmed bookings, the FX rates used for quotes
+ * and the provider that takes card payments
+ */
+export function createBookingFunctions(
+  session: BookingSession,
+  ledger: BookingLedger = localBookingLedger,
+  fxRates: FxRateSource = localFxRateSource,
+  availability: AvailabilityService = localAvailability,
+  payments: PaymentProvider = localPaymentProvider
+) {
+  // Currency and current rate for showing catalog prices before the quote is locked
+  const getDisplayCurrency = async () => {
+    const currency = getCurrency(session.getState());
+    const snapshot = await fxRates.getSnapshot();
+    return { currency, exchangeRate: snapshot.rates[currency] };
+  };
+
+  // Hold the stopover's rooms and tour seats for this conversation, restarting any earlier hold
+  const holdInventory = async (selection: StopoverSelection) => {
+    const result = await availability.hold(session.conversationId, getInventoryItems(selection));
+    if ('shortfalls' in result) {
+      return { error: availabilityError(result.shortfalls) };
+    }
+    return { hold: { expiresAt: result.hold.expiresAt } };
+  };
+
+  type SessionPayment = NonNullable<ConversationBookingState['payment']>;
+
+  // Authorise the card share of a payment against the quote, recording the provider's outcome in the session
+  const authoriseCard = async (
+    payment: SessionPayment,
+    quoteId: string,
+    cardToken: string
+  ): Promise<{ payment: SessionPayment } | { error: ReturnType<typeof paymentError> }> => {
+    let authorisation: ProviderPayment;
+    try {
+      authorisation = await payments.authorise({ reference: quoteId, amount: payment.amount, currency: payment.currency as Currency, cardToken });
+    } catch (error) {
+      return { error: paymentProviderError(error) };
+    }
+
+    const authorised = { ...payment, paymentId: authorisation.id, status: authorisation.status };
+    await session.update({ payment: authorised });
+    return authorisation.status === 'declined' ? { error: paymentDeclinedError(authorisation) } : { payment: authorised };
+  };
+
+  // Capture an authorised card payment, unless the customer still has to pass 3-D Secure
+  const captureCard = async (
+    payment: SessionPayment & { paymentId: string }
+  ): Promise<{ payment: SessionPayment } | { error: ReturnType<typeof paymentError> }> => {
+    let capture: ProviderPayment;
+    try {
+      capture = await payments.capture(payment.paymentId);
+    } catch (error) {
+      return { error: paymentProviderError(error) };
+    }
+
+    const captured = { ...payment, status: capture.status };
+    await session.update({ payment: captured });
+    if (capture.status === 'requires-action') {
+      return { error: paymentChallengeError(capture) };
+    }
+    return capture.status === 'declined' ? { error: paymentDeclinedError(capture) } : { payment: captured };
+  };
+
+  // Void a card authorisation that will not be captured, so the customer's funds are released
+  const releaseAuthorisation = async (payment?: SessionPayment) => {
+    if (!payment?.paymentId || (payment.status !== 'authorised' && payment.status !== 'requires-action')) {
+      return;
+    }
+    try {
+      await payments.void(payment.paymentId);
+      await session.update({ payment: { ...payment, status: 'voided' } });
+    } catch (error) {
+      console.warn(`Could not void payment ${payment.paymentId}:`, error);
+    }
+  };
+
+  // Give back a payment taken for a booking that could not be confirmed; Avios are only deducted once it is
+  const refundCapture = async (payment: SessionPayment): Promise<SessionPayment> => {
+    if (!payment.paymentId) {
+      return { ...payment, status: 'voided' };
+    }
+    try {
+      const refunded = await payments.refund(payment.paymentId, payment.amount);
+      return { ...payment, status: refunded.status };
+    } catch (error) {
+      console.warn(`Could not refund payment ${payment.paymentId}:`, error);
+      return payment;
+    }
+  };
+
+  // Going back to an earlier choice discards the payment and hold, so void the card and free the rooms and seats first
+  const releasePaymentAndHold = async () => {
+    const { payment, hold } = session.getState();
+    await releaseAuthorisation(payment);
+    if (hold) {
+      await availability.release(session.conversationId);
+    }
+  };
+
+  // Refund a booking adjustment: the card share goes back through the payment provider, Avios to the member's account.
+  // Amendment charges are settled outside the original card payment, so the provider refunds at most what it captured
+  const refundPayment = async (
+    booking: ConfirmedBooking,
+    adjustment: BookingAdjustment
+  ): Promise<{ paymentStatus: PaymentStatus } | { error: ReturnType<typeof paymentError> }> => {
+    if (adjustment.type !== 'refund') {
+      return { paymentStatus: booking.bookingState.paymentStatus };
+    }
+    if (!booking.paymentId || adjustment.currency === 'AVIOS') {
+      return { paymentStatus: adjustment.reason === 'cancellation' ? 'refunded' : 'partially-refunded' };
+    }
+    try {
+      const payment = await payments.retrieve(booking.paymentId);
+      const refundable = roundCurrency(payment.capturedAmount - payment.refundedAmount);
+      const amount = Math.min(adjustment.amount, refundable);
+      const refunded = amount > 0 ? await payments.refund(payment.id, amount) : payment;
+      return { paymentStatus: refunded.status };
+    } catch (error) {
+      return { error: paymentProviderError(error) };
+    }
+  };
+
+  // Function to show stopover categories
+  const showStopoverCategories = {
+    description: 'Display available stopover categories to the customer with interactive carousel',
+    parameters: emptyCategorySchema,
+    execute: async (params: any) => {
+      return {
+        success: true,
+        categories: stopoverCategories,
+        uiComponent: {
+          type: 'stopover-categories',
+          data: {
+            categories: stopoverCategories
+          }
+        },
+        message: 'Here are our stopover categories. Each offers different levels of comfort and amenities:'
+      };
+    }
+  };
+
+  // Function to handle category selection and show hotels
+  const selectStopoverCategory = {
+    description: 'Process stopover category selection and display available hotels',
+    parameters: categorySelectionSchema,
+    execute: async ({ categoryId, categoryName }: any) => {
+      const category = getCategoryById(categoryId);
+      if (!category) {
+        return validationError(
+          'Invalid category ID provided',
+          `Sorry, "${categoryName}" is not one of our stopover categories. Please choose from the categories shown.`
+        );
+      }
+
+      // A new category invalidates everything chosen after it
+      await releasePaymentAndHold();
+      const state = await session.update({ ...clearSelectionsAfter('category'), category: category.id });
+
+      // Show each hotel at its rate-calendar price for the itinerary, as the quote will charge it
+      const travelDates = getTravelDates(state);
+      const hotels = getHotelsForStopoverCategory(category.id).map(hotel => ({
+        ...hotel,
+        pricePerNight: getStopoverNightlyRate(hotel, travelDates)
+      }));
+      const { currency, exchangeRate } = await getDisplayCurrency();
+
+      return {
+        success: true,
+        selectedCategory: categoryId,
+        categoryPricePerNight: category.pricePerNight,
+        hotels: hotels.map(hotel => ({
+          ...hotel,
+          priceDifference: getPriceDifferenceFromCategory(hotel, category)
+        })),
+        uiComponent: {
+          type: 'hotels',
+          data: {
+            hotels,
+            selectedCategoryId: categoryId,
+            categoryName: category.name,
+            categoryPricePerNight: category.pricePerNight,
+            currency,
+            exchangeRate
+          }
+        },
+        message: `Great choice! You've selected the ${category.name} category. Now let's choose your hotel from our ${category.name} selection:`
+      };
+    }
+  };
+
+  // Function to handle hotel selection and show timing options
+  const selectHotel = {
+    description: 'Process hotel selection and display stopover timing and duration options',
+    parameters: hotelSelectionSchema,
+    execute: async ({ hotelId, hotelName }: any) => {
+      const state = session.getState();
+      if (!state.category) {
+        return validationError(
+          'No stopover category selected',
+          'Please choose a stopover category before selecting a hotel.'
+        );
+      }
+
+      const hotel = getHotelById(hotelId);
+      if (!hotel) {
+        return validationError(
+          'Invalid hotel ID provided',
+          `Sorry, I couldn't find "${hotelName}". Please choose one of the hotels shown.`
+        );
+      }
+
+      if (hotel.stopoverCategoryId !== state.category) {
+        return validationError(
+          'Hotel is not offered in the selected stopover category',
+          `Sorry, ${hotel.name} isn't part of the ${getCategoryById(state.category)?.name ?? state.category} category. Please choose one of the hotels shown, or pick a different category.`
+        );
+      }
+
+      // Only journeys that connect through Doha can take a stopover
+      const positions = getPositions(state);
+      if (positions.length === 0) {
+        return stopoverPositionError('outbound', positions);
+      }
+      const route = buildFlightRoute(getSegments(state));
+
+      await releasePaymentAndHold();
+      await session.update({ ...clearSelectionsAfter('hotel'), hotel: hotel.id });
+
+      return {
+        success: true,
+        selectedHotel: hotelId,
+        uiComponent: {
+          type: 'stopover-options',
+          data: {
+            selectedHotelId: hotelId,
+            originalRoute: {
+              origin: route.origin,
+              destination: route.destination
+            },
+            stopoverPositions: positions,
+            travelDates: getTravelDates(state)
+          }
+        },
+        message: `Perfect! You've selected ${hotel.name}. You can stop over on ${positions
+          .map(position => `the ${position.timing} journey (${describeJourney(position)})`).join(' or ')}. Now let's configure when you'd like your stopover and for how long:`
+      };
+    }
+  };
+
+  // Function to handle timing and duration selection
+  const selectTimingAndDuration = {
+    description: 'Process stopover timing and duration selection, then show extras',
+    parameters: timingDurationSchema,
+    execute: async ({ timing, duration }: any) => {
+      const state = session.getState();
+      const hotel = state.hotel ? getHotelById(state.hotel) : undefined;
+      if (!state.category || !hotel) {
+        return validationError(
+          'No hotel selected',
+          'Please choose your stopover category and hotel before picking dates.'
+        );
+      }
+
+      const positions = getPositions(state);
+      if (!positions.some(position => position.timing === timing)) {
+        return stopoverPositionError(timing, positions);
+      }
+
+      // The stay starts the day the chosen journey lands in Doha
+      const stopoverDates = calculateStopoverDates(getTravelDates(state), timing, duration);
+      const passengers = getPassengers(state);
+
+      // Every night needs the party's rooms; tours are shown with the places left on the day they would be planned for
+      const flightTimes = getFlightTimes(state);
+      const tourDates = new Map(availableTours.map(tour => [
+        tour.id,
+        getPlannedTourDate(tour, stopoverDates, duration, flightTimes?.[timing as 'outbound' | 'return'])
+      ]));
+      const roomItems: InventoryItem[] = getStayNights(stopoverDates.checkIn, duration).map(night => ({
+        type: 'room', productId: hotel.id, date: night, quantity: calculateRoomsRequired(hotel, passengers)
+      }));
+      const tourItems: InventoryItem[] = availableTours.map(tour => ({
+        type: 'tour', productId: tour.id, date: tourDates.get(tour.id)!, quantity: passengers
+      }));
+      const remaining = await availability.getRemaining([...roomItems, ...tourItems], session.conversationId);
+      const roomShortfalls = roomItems.flatMap((item, index) =>
+        remaining[index] < item.quantity ? [{ item, remaining: Math.max(0, remaining[index]) }] : []);
+      if (roomShortfalls.length > 0) {
+        return availabilityError(roomShortfalls);
+      }
+      const seatsRemaining = (tourId: string) => Math.max(0, remaining[roomItems.length + availableTours.findIndex(tour => tour.id === tourId)]);
+
+      // Rank tours for the stopover, with any that cannot take the party moved to the end
+      const tours = getRecommendedTours({
+        dates: stopoverDates,
+        nights: duration,
+        times: flightTimes?.[timing as 'outbound' | 'return'],
+        passengerMix: state.passengerMix,
+        interests: state.interests
+      })
+        .map(tour => ({
+          ...tour,
+          price: getTourRate(tour, tourDates.get(tour.id)),
+          seatsRemaining: seatsRemaining(tour.id),
+          availabilityStatus: getAvailabilityStatus(
+            seatsRemaining(tour.id),
+            getInventoryCapacity({ type: 'tour', productId: tour.id }),
+            passengers
+          )
+        }))
+        .sort((a, b) => Number(a.availabilityStatus === 'unavailable') - Number(b.availabilityStatus === 'unavailable'))
+        .map((tour, index) => ({ ...tour, isRecommended: index === 0 }));
+
+      await releasePaymentAndHold();
+      await session.update({ ...clearSelectionsAfter('duration'), timing, duration, stopoverDates });
+      const { currency, exchangeRate } = await getDisplayCurrency();
+      const seasons = getStaySeasons(hotel, duration, stopoverDates.checkIn);
+
+      return {
+        success: true,
+        selectedTiming: timing,
+        selectedDuration: duration,
+        stopoverDates,
+        uiComponent: {
+          type: 'stopover-extras',
+          data: {
+            transfers: defaultTransferOption,
+            tours,
+            recommendedTour: tours[0],
+            passengers,
+            rooms: calculateRoomsRequired(hotel, passengers),
+            currency,
+            exchangeRate,
+            selectedTiming: timing,
+            selectedDuration: duration,
+            stopoverDates
+          }
+        },
+        message: `Excellent! You've chosen a ${duration}-night ${timing} stopover, ${formatStayDates(stopoverDates)}.${seasons.length ? ` Your stay falls during ${seasons.join(' and ')}, so seasonal hotel rates apply.` : ''} Now let's enhance your experience with some optional extras:`
+      };
+    }
+  };
+
+  // Function to handle extras selection
+  const selectExtras = {
+    description: 'Process extras selection (transfers and tours) and show booking summary',
+    parameters: extrasSelectionSchema,
+    execute: async ({ includeTransfers, selectedTours }: any) => {
+      const state = session.getState();
+      const category = state.category ? getCategoryById(state.category) : undefined;
+      const hotel = state.hotel ? getHotelById(state.hotel) : undefined;
+      const { timing, duration, stopoverDates } = state;
+
+      if (!category || !hotel || !timing || !duration) {
+        return validationError(
+          'Missing category, hotel or stopover duration',
+          'I need your stopover category, hotel and number of nights before I can price your package. Please select them first.'
+        );
+      }
+
+      // Resolve tours against the catalog so prices never come from the model
+      const passengers = getPassengers(state);
+      const resolved = resolveTours(selectedTours, passengers, stopoverDates?.checkIn);
+      if ('error' in resolved) {
+        return resolved.error;
+      }
+      const stopoverSelection: StopoverSelection = {
+        timing,
+        duration,
+        dates: stopoverDates,
+        passengers,
+        stopovertype: category,
+        hotel,
+        extras: {
+          transfers: includeTransfers ? defaultTransferOption : undefined,
+          tours: resolved.tours,
+          totalExtrasPrice: 0
+        }
+      };
+      // Every tour has to fit between the flights and around the other tours; seats are held and priced for its day
+      const itinerary = scheduleStopover(stopoverSelection, getFlightTimes(state));
+      const conflict = scheduleError(itinerary);
+      if (conflict) {
+        return conflict;
+      }
+      const tours = planTourDates(resolved.tours, itinerary);
+      stopoverSelection.extras.tours = tours;
+
+      // Hold the rooms and seats while the customer reviews the summary and pays
+      const held = await holdInventory(stopoverSelection);
+      if ('error' in held) {
+        return held.error;
+      }
+
+      // Lock the FX snapshot with the quote so payment charges the total shown here
+      const fxSnapshot = await fxRates.getSnapshot();
+      const currency = getCurrency(state);
+      const exchangeRate = fxSnapshot.rates[currency];
+      const promo = state.promoCode ? getPromoCode(state.promoCode) : undefined;
+      const pricing = convertPricingBreakdown(calculatePricingBreakdown(stopoverSelection, duration, promo), currency, fxSnapshot);
+      stopoverSelection.extras.totalExtrasPrice = pricing.transfersCost + pricing.toursCost;
+      const promoNote = promo ? getPromoCodeIneligibility(promo, stopoverSelection) : undefined;
+      const quote = createQuote(pricing, buildQuoteLineItems(stopoverSelection, pricing));
+
+      // The new hold replaced the old one; a card authorised against the old quote won't be captured
+      await releaseAuthorisation(state.payment);
+      await session.update({
+        ...clearSelectionsAfter('pricing'),
+        extras: {
+          transfers: includeTransfers,
+          tours: tours.map(({ tour, quantity, date }) => ({ id: tour.id, quantity, date }))
+        },
+        pricing: quote,
+        hold: held.hold
+      });
+
+      return {
+        success: true,
+        selectedExtras: {
+          transfers: includeTransfers,
+          tours: tours.map(({ tour, quantity, totalPrice }) => ({
+            tourId: tour.id,
+            tourName: tour.name,
+            quantity,
+            totalPrice: convertFromUSD(totalPrice, exchangeRate)
+          })),
+          totalExtrasPrice: stopoverSelection.extras.totalExtrasPrice
+        },
+        pricing,
+        quoteId: quote.id,
+        quoteExpiresAt: new Date(quote.expiresAt).toISOString(),
+        uiComponent: {
+          type: 'summary',
+          data: describeQuote(quote)
+        },
+        itinerary,
+        message: `Perfect! Here's your complete stopover package summary. Your total is ${describeQuoteTotal(quote)}.${promoNote ? ` ${promoNote}` : ''}${describeScheduleWarnings(itinerary)}`
+      };
+    }
+  };
+
+  // Function to show the stopover day by day
+  const showItinerary = {
+    description: 'Show the stopover day by day as a timeline of flights, airport transfers and tours, with any scheduling conflicts',
+    parameters: itinerarySchema,
+    execute: async () => {
+      const state = session.getState();
+      const selection = resolveStopoverSelection(state);
+      const itinerary = selection && scheduleStopover(selection, getFlightTimes(state));
+      if (!selection || !selection.dates || !itinerary) {
+        return validationError(
+          'No dated stopover to schedule',
+          'Please choose your hotel, journey and number of nights so I can plan your stopover day by day.'
+        );
+      }
+
+      const errors = itinerary.issues.filter(issue => issue.severity === 'error');
+      return {
+        success: true,
+        itinerary,
+        uiComponent: {
+          type: 'itinerary-timeline',
+          data: {
+            ...itinerary,
+            hotelName: selection.hotel.name,
+            stopoverDates: selection.dates
+          }
+        },
+        message: `Here's your ${formatNights(selection.duration)} in Doha, ${formatStayDates(selection.dates)}, day by day.${
+          errors.length > 0 ? ` ${errors.map(issue => issue.message).join(' ')}` : ''
+        }${describeScheduleWarnings(itinerary)}`
+      };
+    }
+  };
+
+  // Function to apply a promo code to the quote
+  const applyPromoCode = {
+    description: 'Apply a promo code the customer gives to their stopover package and show the discounted booking summary',
+    parameters: promoCodeSchema,
+    execute: async ({ code }: any) => {
+      const state = session.getState();
+      const promo = getPromoCode(code);
+      if (!promo) {
+        return validationError(
+          'Unknown promo code',
+          `Sorry, ${code} isn't a valid promo code. Please check the code and try again.`
+        );
+      }
+      if (state.payment || state.pnr) {
+        return validationError(
+          'Payment already started',
+          'Promo codes have to be added before payment. Please confirm your extras again to return to the booking summary.'
+        );
+      }
+
+      // Until the stopover is priced, keep the code for the booking summary
+      const selection = resolveStopoverSelection(state);
+      if (!selection || !state.pricing) {
+        await session.update({ promoCode: promo.code });
+        return {
+          success: true,
+          promoCode: promo.code,
+          message: `Promo code ${promo.code} saved: ${promo.description}. I'll apply it when I price your stopover.`
+        };
+      }
+
+      const ineligible = getPromoCodeIneligibility(promo, selection);
+      if (ineligible) {
+        return validationError('Promo code does not apply', `Sorry, ${ineligible}`);
+      }
+
+      // Reprice at the FX rate the quote was locked at
+      const { breakdown } = state.pricing;
+      const catalogPricing = calculatePricingBreakdown(selection, selection.duration, promo);
+      const pricing = breakdown.fxSnapshot
+        ? convertPricingBreakdown(catalogPricing, breakdown.currency, breakdown.fxSnapshot)
+        : catalogPricing;
+      // The new quote runs for its full validity, so restart the hold on the rooms and seats alongside it
+      const held = await holdInventory(selection);
+      if ('error' in held) {
+        return held.error;
+      }
+      const quote = createQuote(pricing, buildQuoteLineItems(selection, pricing));
+      await session.update({ promoCode: promo.code, pricing: quote, hold: held.hold });
+
+      return {
+        success: true,
+        promoCode: promo.code,
+        pricing,
+        quoteId: quote.id,
+        quoteExpiresAt: new Date(quote.expiresAt).toISOString(),
+        uiComponent: {
+          type: 'summary',
+          data: describeQuote(quote)
+        },
+        message: `Promo code ${promo.code} applied: ${promo.description}. Your new total is ${describeQuoteTotal(quote)}.`
+      };
+    }
+  };
+
+  // Function to initiate payment
+  const initiatePayment = {
+    description: 'Initialize the payment process for the stopover booking',
+    parameters: paymentInitiationSchema,
+    execute: async ({ paymentMethod, quoteId, aviosToUse }: any) => {
+      const state = session.getState();
+      if (!state.pricing) {
+        return validationError(
+          'No priced booking summary',
+          'Let me put together your booking summary before we take payment. Please confirm your extras first.'
+        );
+      }
+      const invalidQuote = quoteError(state.pricing, quoteId);
+      if (invalidQuote) {
+        return invalidQuote;
+      }
+
+      // Avios are priced at the member's tier and redeemed from their balance, so the customer signs in first
+      const account = getPrivilegeClubAccount(state);
+      if (paymentMethod !== 'credit-card' && !account) {
+        return {
+          success: true,
+          signInRequired: true,
+          uiComponent: {
+            type: 'form',
+            data: {
+              type: 'login',
+              fields: [
+                { id: 'email', type: 'email', label: 'Email Address', required: true },
+                { id: 'password', type: 'password', label: 'Password', required: true }
+              ],
+              submitLabel: 'Sign in to Privilege Club',
+              data: { quoteId: state.pricing.id, paymentMethod }
+            }
+          },
+          message: 'Please sign in to your Privilege Club account so I can price your stopover in Avios for your tier and check your balance:'
+        };
+      }
+
+      // Charge the locked quote rather than re-pricing at today's rate
+      const prepared = preparePayment(paymentMethod, state.pricing, account, aviosToUse);
+      if ('error' in prepared) {
+        return prepared.error;
+      }
+      const { payment } = prepared;
+
+      // Keep the rooms and seats held for the length of the payment
+      const selection = resolveStopoverSelection(state);
+      const held = selection ? await holdInventory(selection) : undefined;
+      if (held && 'error' in held) {
+        return held.error;
+      }
+      // Starting over replaces any card authorisation still waiting from an earlier attempt
+      await releaseAuthorisation(state.payment);
+      await session.update({ payment, hold: held?.hold });
+
+      const cardFields = [
+        { id: 'cardNumber', type: 'text', label: 'Card Number', required: true },
+        { id: 'expiryDate', type: 'text', label: 'Expiry Date (MM/YY)', required: true },
+        { id: 'cvv', type: 'text', label: 'CVV', required: true },
+        { id: 'nameOnCard', type: 'text', label: 'Name on Card', required: true }
+      ];
+
+      return {
+        success: true,
+        paymentInitialized: true,
+        uiComponent: {
+          type: 'form',
+          data: {
+            type: 'payment',
+            fields: paymentMethod === 'avios' ? [] : cardFields,
+            submitLabel: paymentMethod === 'credit-card'
+              ? 'Pay Now'
+              : paymentMethod === 'avios' ? 'Pay with Avios' : 'Pay with Cash + Avios',
+            data: {
+              quoteId: state.pricing.id,
+              totalAmount: state.pricing.total,
+              ...(account ? {
+                totalAviosPrice: calculateTierAviosPrice(state.pricing.breakdown, account.tierStatus),
+                aviosBalance: account.aviosBalance,
+                tierStatus: account.tierStatus
+              } : {}),
+              currency: state.pricing.breakdown.currency,
+              paymentMethod: payment.method,
+              ...(payment.avios ? { aviosToUse: payment.avios.aviosUsed } : {})
+            }
+          }
+        },
+        message: paymentMethod === 'credit-card'
+          ? `Please enter your payment details to complete your booking for ${describePaymentTotal(payment)}${describeSurcharge(payment)}:`
+          : paymentMethod === 'avios'
+            ? `As a ${account!.tierStatus} member this stopover is ${describePaymentTotal(payment)}. Please confirm to pay from your Privilege Club account:`
+            : `Please add a card to pay ${describePaymentTotal(payment)}${describeSurcharge(payment)}. You can change how many Avios to use in the form:`
+      };
+    }
+  };
+
+  // Function to complete booking
+  const completeBooking = {
+    description: 'Complete the stopover booking and generate confirmation',
+    parameters: bookingCompletionSchema,
+    execute: async ({ quoteId, paymentData }: any) => {
+      const state = session.getState();
+      const stopoverSelection = resolveStopoverSelection(state);
+      if (!stopoverSelection || !state.pricing || !state.payment) {
+        return validationError(
+          'Booking is not ready to complete',
+          'Your stopover selections and payment need to be completed before I can confirm the booking.'
+        );
+      }
+      const invalidQuote = quoteError(state.pricing, quoteId);
+      if (invalidQuote) {
+        return invalidQuote;
+      }
+
+      const { pricing } = state;
+      const { hotel } = stopoverSelection;
+      const account = getPrivilegeClubAccount(state);
+      if (state.payment.method !== 'credit-card' && !account) {
+        return signInRequiredError();
+      }
+
+      // The form is paid the way the payment was started; another method needs a new payment with its own price
+      if (paymentData?.method && paymentData.method !== state.payment.method) {
+        return paymentMethodMismatchError(state.payment.method);
+      }
+
+      // A card payment waiting on 3-D Secure picks up where it left off, for the amount already authorised
+      let { payment } = state;
+      const awaitingChallenge = payment.status === 'requires-action' && !!payment.paymentId;
+
+      // The Cash + Avios slider in the payment form can change the split
+      if (!awaitingChallenge && payment.method === 'cash-avios' && paymentData?.aviosToUse !== undefined) {
+        const prepared = preparePayment(payment.method, pricing, account, paymentData.aviosToUse);
+        if ('error' in prepared) {
+          return prepared.error;
+        }
+        payment = prepared.payment;
+      }
+
+      // The payment provider decides whether the card is charged, not the model
+      if (payment.method !== 'avios' && !awaitingChallenge) {
+        if (!paymentData?.cardToken) {
+          return validationError(
+            'Card details missing',
+            'Please enter your card details in the payment form so I can take the payment.'
+          );
+        }
+        const authorised = await authoriseCard(payment, pricing.id, paymentData.cardToken);
+        if ('error' in authorised) {
+          return authorised.error;
+        }
+        payment = authorised.payment;
+      }
+
+      // The hold may have timed out during payment, so take the rooms and seats again before confirming
+      const held = await holdInventory(stopoverSelection);
+      if ('error' in held) {
+        await releaseAuthorisation(payment);
+        return held.error;
+      }
+
+      // Avios are redeemed from the member's account as the booking is confirmed
+      if (payment.paymentId) {
+        const captured = await captureCard({ ...payment, paymentId: payment.paymentId });
+        if ('error' in captured) {
+          return captured.error;
+        }
+        payment = captured.payment;
+      } else {
+        payment = { ...payment, status: 'captured' };
+      }
+
+      const confirmed = await ledger.create({
+        conversationId: session.conversationId,
+        ...(state.customerSessionId ? { customerSessionId: state.customerSessionId } : {}),
+        ...(account ? { memberId: account.memberId } : {}),
+        status: 'confirmed',
+        bookingState: {
+          customer: getCustomer(state),
+          originalBooking: getOriginalBooking(state),
+          stopoverSelection,
+          // Record the card surcharge the summary quoted for this payment method, so the booking's total is what was charged
+          pricing: addCardSurcharge(pricing.breakdown, payment.surcharge || 0),
+          paymentStatus: payment.status
+        },
+        paymentMethod: payment.method,
+        ...(payment.paymentId ? { paymentId: payment.paymentId } : {}),
+        ...(payment.avios ? { aviosRedemption: payment.avios } : {})
+      });
+      const newPNR = confirmed.pnr;
+      // The hold can lapse between taking it and confirming; without the rooms and seats the booking can't stand
+      if (!await availability.confirm(session.conversationId, newPNR)) {
+        const refunded = await refundCapture(payment);
+        await ledger.update(newPNR, {
+          status: 'cancelled',
+          bookingState: { ...confirmed.bookingState, paymentStatus: refunded.status }
+        });
+        await session.update(clearSelectionsAfter('pricing'));
+        return validationError(
+          'Inventory hold lapsed before confirmation',
+          `Sorry, the rooms and tour places held for you were released before your booking could be confirmed, so ${
+            payment.paymentId ? 'your payment has been refunded' : 'no Avios have been taken'
+          }. Please start the payment again and I'll check availability.`
+        );
+      }
+      await session.update({
+        payment,
+        hold: undefined,
+        pnr: newPNR,
+        ...(payment.avios && account ? { privilegeClub: { ...account, aviosBalance: payment.avios.remainingBalance } } : {})
+      });
+
+      const tourItems = (state.extras?.tours || []).map(({ id, quantity }) => ({
+        label: getTourById(id)?.name || id,
+        value: `${quantity}x`
+      }));
+
+      return {
+        success: true,
+        bookingComplete: true,
+        newPNR,
+        uiComponent: {
+          type: 'summary',
+          data: {
+            title: 'Booking Confirmed!',
+            items: [
+              { label: 'New PNR', value: newPNR },
+              { label: 'Stopover Location', value: 'Doha (DOH)' },
+              { label: 'Hotel', value: hotel.name },
+              { label: 'Stopover', value: `${formatNights(stopoverSelection.duration)}, ${stopoverSelection.timing} journey` },
+              ...(stopoverSelection.dates ? [{ label: 'Dates', value: formatStayDates(stopoverSelection.dates) }] : []),
+              ...(state.extras?.transfers ? [{ label: 'Airport transfers', value: 'Included' }] : []),
+              ...tourItems,
+              ...(payment.surcharge ? [{ label: 'Card surcharge', value: formatPrice(payment.surcharge, payment.currency) }] : []),
+              { label: 'Total', value: describePaymentTotal(payment) },
+              { label: 'Payment Method', value: PAYMENT_METHOD_LABELS[payment.method] },
+              ...(payment.avios ? [{ label: 'Remaining Avios', value: formatPrice(payment.avios.remainingBalance, 'AVIOS') }] : []),
+              { label: 'Status', value: 'Confirmed' }
+            ],
+            actions: [
+              { type: 'email', label: 'Email Confirmation', primary: false },
+              { type: 'close', label: 'Close', primary: true }
+            ]
+          }
+        },
+        message: `🎉 Congratulations! Your ${formatNights(stopoverSelection.duration)} stopover at ${hotel.name} is confirmed. Your new PNR is ${newPNR}. You'll receive a confirmation email shortly with all the details.`
+      };
+    }
+  };
+
+  // Function to amend a confirmed stopover
+  const amendStopover = {
+    description: 'Change the hotel, nights, timing, transfers or tours of a confirmed stopover booking and show the price difference',
+    parameters: stopoverAmendmentSchema,
+    execute: async ({ pnr, hotelId, timing, duration, includeTransfers, tours: tourChanges }: any) => {
+      const booking = await ledger.get(pnr);
+      // Someone else's booking is reported as not found, so PNRs can't be probed
+      if (!booking || !booking.bookingState.stopoverSelection || !booking.bookingState.pricing
+        || !isBookingOwner(booking, session.getState(), session.conversationId)) {
+        return bookingNotFoundError(pnr);
+      }
+      if (booking.status === 'cancelled') {
+        return bookingCancelledError(booking.pnr);
+      }
+
+      const previous = booking.bookingState.stopoverSelection;
+      const previousPricing = booking.bookingState.pricing;
+
+      if ([hotelId, timing, duration, includeTransfers, tourChanges].every(change => change === undefined)) {
+        return validationError(
+          'No changes requested',
+          'What would you like to change about your stopover? You can change the hotel, nights, timing, transfers or tours.'
+        );
+      }
+
+      const hotel = hotelId ? getHotelById(hotelId) : previous.hotel;
+      const category = hotel ? getCategoryById(hotel.stopoverCategoryId) : undefined;
+      if (!hotel || !category) {
+        return validationError(
+          'Invalid hotel ID provided',
+          `Sorry, I couldn't find that hotel. Please choose one of our Doha hotels.`
+        );
+      }
+
+      // Moving the stay re-derives its dates from the itinerary, so every night is priced for the new dates
+      const amendedTiming = timing || previous.timing;
+      const amendedDuration = duration || previous.duration;
+      const { travelDates, route } = booking.bookingState.originalBooking;
+      const positions = route.segments ? getStopoverPositions(route.segments) : undefined;
+      if (positions && !positions.some(position => position.timing === amendedTiming)) {
+        return stopoverPositionError(amendedTiming, positions);
+      }
+      const dates = travelDates ? calculateStopoverDates(travelDates, amendedTiming, amendedDuration) : previous.dates;
+
+      let tours = previous.extras.tours.map(({ tour, quantity }) => ({
+        tour,
+        quantity,
+        totalPrice: getTourRate(tour, dates?.checkIn) * quantity
+      }));
+      if (tourChanges) {
+        const resolved = resolveTours(tourChanges, previous.passengers, dates?.checkIn);
+        if ('error' in resolved) {
+          return resolved.error;
+        }
+        tours = resolved.tours;
+      }
+
+      const transfers = includeTransfers === undefined
+        ? previous.extras.transfers
+        : includeTransfers ? defaultTransferOption : undefined;
+      const amended: StopoverSelection = {
+        timing: amendedTiming,
+        duration: amendedDuration,
+        dates,
+        passengers: previous.passengers,
+        stopovertype: category,
+        hotel,
+        extras: { transfers, tours, totalExtrasPrice: 0 }
+      };
+      const itinerary = scheduleStopover(amended, booking.bookingState.originalBooking.flightTimes);
+      const conflict = scheduleError(itinerary);
+      if (conflict) {
+        return conflict;
+      }
+      amended.extras.tours = planTourDates(amended.extras.tours, itinerary);
+
+      // Reprice at the FX rate the booking was quoted at, keeping its promo code if the amended stay still qualifies
+      const bookedPromo = previousPricing.discounts?.find(discount => discount.source === 'promo-code');
+      const catalogPricing = calculatePricingBreakdown(amended, amended.duration, bookedPromo && getPromoCode(bookedPromo.id));
+      const repriced = previousPricing.fxSnapshot
+        ? convertPricingBreakdown(catalogPricing, previousPricing.currency, previousPricing.fxSnapshot)
+        : catalogPricing;
+      // The card surcharge already paid stays on the booking; the difference is settled without it
+      const pricing = addCardSurcharge(repriced, getCardSurcharge(previousPricing));
+      amended.extras.totalExtrasPrice = pricing.transfersCost + pricing.toursCost;
+
+      // Swap the booking's rooms and seats for the amended ones, keeping the originals if they do not fit
+      const shortfalls = await availability.rebook(booking.pnr, getInventoryItems(amended));
+      if (shortfalls.length > 0) {
+        return availabilityError(shortfalls);
+      }
+
+      const adjustment = calculateAdjustment('amendment', booking, pricing);
+      const refund = await refundPayment(booking, adjustment);
+      if ('error' in refund) {
+        // Put the booking's original rooms and seats back, since the amendment isn't going ahead
+        await availability.rebook(booking.pnr, getInventoryItems(previous));
+        return refund.error;
+      }
+
+      // Keep the redemption record in step: Avios bookings settle in Avios, Cash + Avios in cash
+      const redemption = booking.aviosRedemption;
+      const settled = adjustment.type === 'charge' ? adjustment.amount : adjustment.type === 'refund' ? -adjustment.amount : 0;
+      const aviosRedemption = redemption && (booking.paymentMethod === 'avios'
+        ? { ...redemption, aviosUsed: redemption.aviosUsed + settled, remainingBalance: redemption.remainingBalance - settled }
+        : { ...redemption, cashAmount: roundCurrency(redemption.cashAmount + settled) });
+
+      await ledger.update(booking.pnr, {
+        bookingState: { ...booking.bookingState, stopoverSelection: amended, pricing, paymentStatus: refund.paymentStatus },
+        ...(aviosRedemption ? { aviosRedemption } : {}),
+        adjustments: [...(booking.adjustments || []), adjustment]
+      });
+
+      const adjustmentMessage = adjustment.type === 'refund'
+        ? `We'll refund ${formatAdjustmentAmount(adjustment)} to your original payment method.`
+        : adjustment.type === 'charge'
+          ? `There is an additional charge of ${formatAdjustmentAmount(adjustment)}.`
+          : 'The price of your stopover is unchanged.';
+
+      return {
+        success: true,
+        bookingAmended: true,
+        pnr: booking.pnr,
+        pricing,
+        adjustment,
+        uiComponent: {
+          type: 'summary',
+          data: {
+            title: 'Stopover Amended',
+            sections: [
+              { title: 'Previous booking', items: describeStopover(previous, formatPrice(adjustment.previousTotal, adjustment.currency)) },
+              { title: 'Amended booking', items: describeStopover(amended, formatPrice(adjustment.newTotal, adjustment.currency)) },
+              { title: 'Price difference', items: [describeAdjustment(adjustment)] }
+            ],
+            actions: [
+              { type: 'close', label: 'Close', primary: true }
+            ]
+          }
+        },
+        message: `Your stopover on booking ${booking.pnr} has been updated. ${adjustmentMessage}`
+      };
+    }
+  };
+
+  // Function to cancel a confirmed stopover
+  const cancelStopover = {
+    description: 'Cancel the stopover on a confirmed booking and refund the amount paid',
+    parameters: stopoverCancellationSchema,
+    execute: async ({ pnr }: any) => {
+      const booking = await ledger.get(pnr);
+      if (!booking || !booking.bookingState.stopoverSelection || !booking.bookingState.pricing
+        || !isBookingOwner(booking, session.getState(), session.conversationId)) {
+        return bookingNotFoundError(pnr);
+      }
+      if (booking.status === 'cancelled') {
+        return bookingCancelledError(booking.pnr);
+      }
+
+      const previous = booking.bookingState.stopoverSelection;
+      const adjustment = calculateAdjustment('cancellation', booking, null);
+      const refund = await refundPayment(booking, adjustment);
+      if ('error' in refund) {
+        return refund.error;
+      }
+      await availability.cancel(booking.pnr);
+      await ledger.update(booking.pnr, {
+        status: 'cancelled',
+        bookingState: { ...booking.bookingState, paymentStatus: refund.paymentStatus },
+        adjustments: [...(booking.adjustments || []), adjustment]
+      });
+
+      return {
+        success: true,
+        bookingCancelled: true,
+        pnr: booking.pnr,
+        adjustment,
+        uiComponent: {
+          type: 'summary',
+          data: {
+            title: 'Stopover Cancelled',
+            sections: [
+              { title: 'Cancelled stopover', items: describeStopover(previous, formatPrice(adjustment.previousTotal, adjustment.currency)) },
+              { title: 'Refund', items: [describeAdjustment(adjustment), { label: 'Status', value: 'Cancelled' }] }
+            ],
+            actions: [
+              { type: 'close', label: 'Close', primary: true }
+            ]
+          }
+        },
+        message: `Your stopover on booking ${booking.pnr} has been cancelled. We'll refund ${formatAdjustmentAmount(adjustment)} to your original payment method.`
+      };
+    }
+  };
+
+  return {
+    showStopoverCategories,
+    selectStopoverCategory,
+    selectHotel,
+    selectTimingAndDuration,
+    selectExtras,
+    showItinerary,
+    applyPromoCode,
+    initiatePayment,
+    completeBooking,
+    amendStopover,
+    cancelStopover
+  };
+}
+
+// Local session the default booking functions are bound to, for local development and tests
+export const localBookingSession = new BookingSession('local', localBookingSessionStore);
+
+export const bookingFunctions = createBookingFunctions(localBookingSession);
+
+export const {
   showStopoverCategories,
   selectStopoverCategory,
   selectHotel,
   selectTimingAndDuration,
   selectExtras,
+  showItinerary,
+  applyPromoCode,
   initiatePayment,
-  completeBooking
-};
\ No newline at end of file
+  completeBooking,
+  amendStopover,
+  cancelStopover
+} = bookingFunctions;
@@ -0,0 +1,145 @@
+/**
+ * Booking ledger for confirmed stopover bookings
+ * Allocates PNRs and stores each confirmed booking so it can be retrieved, amended or cancelled
+ */
+
+import type { ConfirmedBooking } from '../types';
+import { KVStoreManager } from './cloudflare/kv-store';
+
+// PNR alphabet without the easily confused 0/O and 1/I
+const PNR_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PNR_LENGTH = 6;
+const MAX_PNR_ATTEMPTS = 10;
+
+export type NewConfirmedBooking = Omit<ConfirmedBooking, 'pnr' | 'createdAt' | 'updatedAt'>;
+
+export interface BookingLedgerStore {
+  get(pnr: string): Promise<ConfirmedBooking | null>;
+  put(booking: ConfirmedBooking): Promise<void>;
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryBookingLedgerStore implements BookingLedgerStore {
+  private bookings: Map<string, ConfirmedBooking> = new Map();
+
+  async get(pnr: string): Promise<ConfirmedBooking | null> {
+    const booking = this.bookings.get(pnr);
+    return booking ? { ...booking } : null;
+  }
+
+  async put(booking: ConfirmedBooking): Promise<void> {
+    this.bookings.set(booking.pnr, { ...booking });
+  }
+
+  clear(): void {
+    this.bookings.clear();
+  }
+}
+
+/**
+ * Store backed by Cloudflare KV
+ */
+export class KVBookingLedgerStore implements BookingLedgerStore {
+  private kvStore: KVStoreManager;
+
+  constructor(kvStore: KVStoreManager) {
+    this.kvStore = kvStore;
+  }
+
+  async get(pnr: string): Promise<ConfirmedBooking | null> {
+    return this.kvStore.getConfirmedBooking(pnr);
+  }
+
+  async put(booking: ConfirmedBooking): Promise<void> {
+    const saved = await this.kvStore.storeConfirmedBooking(booking.pnr, booking);
+    if (!saved) {
+      throw new Error(`Failed to store booking ${booking.pnr}`);
+    }
+  }
+}
+
+const randomIndex = (size: number): number => {
+  return crypto.getRandomValues(new Uint32Array(1))[0] % size;
+};
+
+/**
+ * Generate a random 6-character PNR
+ */
+export function generatePNR(random: (size: number) => number = randomIndex): string {
+  let pnr = '';
+  for (let i = 0; i < PNR_LENGTH; i++) {
+    pnr += PNR_ALPHABET[random(PNR_ALPHABET.length)];
+  }
+  return pnr;
+}
+
+export class BookingLedger {
+  private store: BookingLedgerStore;
+  private generate: () => string;
+
+  constructor(store: BookingLedgerStore, generate: () => string = () => generatePNR()) {
+    this.store = store;
+    this.generate = generate;
+  }
+
+  /**
+   * Record a confirmed booking under a newly allocated PNR
+   */
+  async create(booking: NewConfirmedBooking): Promise<ConfirmedBooking> {
+    const pnr = await this.allocatePNR();
+    const now = Date.now();
+    const confirmed: ConfirmedBooking = { ...booking, pnr, createdAt: now, updatedAt: now };
+
+    await this.store.put(confirmed);
+    return confirmed;
+  }
+
+  /**
+   * Look up a confirmed booking by PNR
+   */
+  async get(pnr: string): Promise<ConfirmedBooking | null> {
+    return this.store.get(pnr.trim().toUpperCase());
+  }
+
+  /**
+   * Merge changes into a confirmed booking and persist it
+   */
+  async update(pnr: string, changes: Partial<NewConfirmedBooking>): Promise<ConfirmedBooking | null> {
+    const existing = await this.get(pnr);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: ConfirmedBooking = { ...existing, ...changes, pnr: existing.pnr, updatedAt: Date.now() };
+    await this.store.put(updated);
+    return updated;
+  }
+
+  /**
+   * Pick a PNR that is not already in the ledger
+   */
+  private async allocatePNR(): Promise<string> {
+    for (let attempt = 0; attempt < MAX_PNR_ATTEMPTS; attempt++) {
+      const pnr = this.generate();
+      if (!(await this.store.get(pnr))) {
+        return pnr;
+      }
+    }
+    throw new Error(`Unable to allocate a unique PNR after ${MAX_PNR_ATTEMPTS} attempts`);
+  }
+}
+
+// Shared ledger used when KV is not bound (astro dev, tests)
+export const localBookingLedger = new BookingLedger(new InMemoryBookingLedgerStore());
+
+/**
+ * Pick the booking ledger for the current environment
+ */
+export function createBookingLedger(env: any): BookingLedger {
+  if (env?.QATAR_STOPOVER_KV) {
+    return new BookingLedger(new KVBookingLedgerStore(new KVStoreManager(env.QATAR_STOPOVER_KV)));
+  }
+  return localBookingLedger;
+}
@@ -0,0 +1,124 @@
+/**
+ * Per-conversation booking session for the LLM booking tools
+ * Carries selections between tool calls using the ConversationData bookingState shape
+ */
+
+import type { ConversationBookingState } from './durable-objects/ConversationState';
+import type { DataAccessManager } from './cloudflare/data-access';
+
+export interface BookingSessionStore {
+  load(conversationId: string): Promise<ConversationBookingState>;
+  save(conversationId: string, state: ConversationBookingState): Promise<void>;
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryBookingSessionStore implements BookingSessionStore {
+  private sessions: Map<string, ConversationBookingState> = new Map();
+
+  async load(conversationId: string): Promise<ConversationBookingState> {
+    return { ...(this.sessions.get(conversationId) || {}) };
+  }
+
+  async save(conversationId: string, state: ConversationBookingState): Promise<void> {
+    this.sessions.set(conversationId, { ...state });
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+}
+
+/**
+ * Store backed by the ConversationState Durable Object
+ */
+export class DurableObjectBookingSessionStore implements BookingSessionStore {
+  private dataManager: DataAccessManager;
+
+  constructor(dataManager: DataAccessManager) {
+    this.dataManager = dataManager;
+  }
+
+  async load(conversationId: string): Promise<ConversationBookingState> {
+    const conversation = await this.dataManager.getConversationState(conversationId);
+    return conversation?.bookingState || {};
+  }
+
+  async save(conversationId: string, state: ConversationBookingState): Promise<void> {
+    const saved = await this.dataManager.updateConversationState(conversationId, {
+      bookingState: state,
+      replaceBookingState: true,
+      currentStep: state.currentStep,
+    });
+
+    if (!saved) {
+      throw new Error(`Failed to save booking state for conversation ${conversationId}`);
+    }
+  }
+}
+
+export class BookingSession {
+  readonly conversationId: string;
+  private store: BookingSessionStore;
+  private state: ConversationBookingState;
+
+  constructor(conversationId: string, store: BookingSessionStore, state: ConversationBookingState = {}) {
+    this.conversationId = conversationId;
+    this.store = store;
+    this.state = state;
+  }
+
+  /**
+   * Load the session for a conversation from the given store
+   */
+  static async load(conversationId: string, store: BookingSessionStore): Promise<BookingSession> {
+    return new BookingSession(conversationId, store, await store.load(conversationId));
+  }
+
+  getState(): ConversationBookingState {
+    return this.state;
+  }
+
+  /**
+   * Merge changes into the booking state and persist it
+   */
+  async update(changes: Partial<ConversationBookingState>): Promise<ConversationBookingState> {
+    this.state = { ...this.state, ...changes };
+    await this.store.save(this.conversationId, this.state);
+    return this.state;
+  }
+}
+
+// Booking selections in the order the customer makes them
+const SELECTION_ORDER = ['category', 'hotel', 'timing', 'duration', 'stopoverDates', 'extras', 'pricing', 'hold', 'payment', 'pnr'] as const;
+
+/**
+ * Build an update that clears every selection made after the given one,
+ * so changing an earlier choice never leaves stale hotels, prices or payments behind
+ */
+export function clearSelectionsAfter(
+  selection: typeof SELECTION_ORDER[number]
+): Partial<ConversationBookingState> {
+  const cleared: Partial<ConversationBookingState> = {};
+  SELECTION_ORDER.slice(SELECTION_ORDER.indexOf(selection) + 1).forEach(key => {
+    cleared[key] = undefined;
+  });
+  return cleared;
+}
+
+// Shared store used when Durable Objects are not bound (astro dev, tests)
+export const localBookingSessionStore = new InMemoryBookingSessionStore();
+
+/**
+ * Pick the session store for the current environment
+ */
+export function createBookingSessionStore(
+  env: any,
+  dataManager?: DataAccessManager | null
+): BookingSessionStore {
+  if (env?.CONVERSATION_STATE && dataManager) {
+    return new DurableObjectBookingSessionStore(dataManager);
+  }
+  return localBookingSessionStore;
+}
@@ -0,0 +1,53 @@
+/**
+ * Chat profiles for /api/chat
+ * A request can name a profile to change how the chat answers, for debugging the agent without tools
+ * or with a short prompt. What each profile changes is decided here on the server, never by the client,
+ * and debug profiles are only served outside production unless CHAT_DEBUG_PROFILES is set
+ */
+
+export type ChatProfileName = 'default' | 'no-tools' | 'terse';
+
+export interface ChatProfile {
+  name: ChatProfileName;
+  tools: boolean; // Offer the booking tools to the model
+  prompt: 'booking' | 'simple' | 'terse';
+  maxTokens?: number;
+  debug: boolean;
+}
+
+export const DEFAULT_CHAT_PROFILE: ChatProfileName = 'default';
+
+export const CHAT_PROFILES: Record<ChatProfileName, ChatProfile> = {
+  'default': { name: 'default', tools: true, prompt: 'booking', debug: false },
+  'no-tools': { name: 'no-tools', tools: false, prompt: 'simple', debug: true },
+  'terse': { name: 'terse', tools: false, prompt: 'terse', maxTokens: 1000, debug: true }
+};
+
+// System prompts for the profiles that don't use the booking prompt
+export const SIMPLE_SYSTEM_PROMPT = `You are a Qatar Airways stopover booking assistant. Help customers add stopover packages in Doha to their existing flight bookings. Be friendly and helpful.`;
+
+export const TERSE_SYSTEM_PROMPT = `You are a Qatar Airways stopover booking assistant. Help customers add stopover packages in Doha to their existing flight bookings.
+
+CRITICAL: Keep ALL responses under 2 sentences. Be direct and concise.
+
+If asked about anything not related to Qatar Airways stopover packages, respond exactly: "I only chat about QRH Stopover Packages"`;
+
+export const debugProfilesEnabled = (): boolean => {
+  return process.env.NODE_ENV !== 'production' || process.env.CHAT_DEBUG_PROFILES === 'true';
+};
+
+/**
+ * Find the profile a request asked for; no profile means the default one.
+ * Returns undefined for an unknown profile, or a debug profile where they aren't enabled
+ */
+export const resolveChatProfile = (requested: unknown): ChatProfile | undefined => {
+  if (requested === undefined || requested === null || requested === '') {
+    return CHAT_PROFILES[DEFAULT_CHAT_PROFILE];
+  }
+  if (typeof requested !== 'string' || !Object.prototype.hasOwnProperty.call(CHAT_PROFILES, requested)) {
+    return undefined;
+  }
+
+  const profile = CHAT_PROFILES[requested as ChatProfileName];
+  return profile.debug && !debugProfilesEnabled() ? undefined : profile;
+};
@@ -200,12 +200,6 @@ export class DataServiceErrorHandler {
   private getGracefulDefault<T>(service: string, operation: string): T {
     const defaults: Record<string, any> = {
       'kv:getConfig': {
-        llmSettings: {
-          defaultModel: 'google/gemini-2.0-flash-exp',
-          fallbackModels: ['anthropic/claude-3-haiku'],
-          maxTokens: 4096,
-          temperature: 0.7,
-        },
         featureFlags: {
           voiceInputEnabled: false,
           advancedAnalytics: true,
@@ -229,12 +223,6 @@ export class DataServiceErrorHandler {
   private initializeLocalFallbacks(): void {
     // Configuration fallbacks
     this.localFallbacks.set('kv:getConfig', {
-      llmSettings: {
-        defaultModel: 'google/gemini-2.0-flash-exp',
-        fallbackModels: ['anthropic/claude-3-haiku', 'openai/gpt-4o-mini'],
-        maxTokens: 4096,
-        temperature: 0.7,
-      },
       featureFlags: {
         voiceInputEnabled: false,
         advancedAnalytics: true,
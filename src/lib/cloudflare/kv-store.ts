@@ -3,13 +3,10 @@
  * Provides type-safe access to KV storage with error handling and fallbacks
  */
 
+import type { LLMSettings } from '../model-registry';
+
 export interface KVConfig {
-  llmSettings: {
-    defaultModel: string;
-    fallbackModels: string[];
-    maxTokens: number;
-    temperature: number;
-  };
+  llmSettings?: Partial<LLMSettings>; // Overrides the model registry's env settings when set
   featureFlags: {
     voiceInputEnabled: boolean;
     advancedAnalytics: boolean;
@@ -42,12 +39,6 @@ export class KVStoreManager {
   constructor(kvNamespace: KVNamespace) {
     this.kv = kvNamespace;
     this.defaultConfig = {
-      llmSettings: {
-        defaultModel: 'google/gemini-2.0-flash-exp',
-        fallbackModels: ['anthropic/claude-3-haiku', 'openai/gpt-4o-mini'],
-        maxTokens: 4096,
-        temperature: 0.7,
-      },
       featureFlags: {
         voiceInputEnabled: false,
         advancedAnalytics: true,
@@ -228,6 +219,67 @@ export class KVStoreManager {
     }
   }
 
+  /**
+   * Store a server-issued customer session
+   */
+  async storeCustomerSession(sessionId: string, session: any, ttl: number): Promise<boolean> {
+    try {
+      return await this.setCachedData(`customer-session:${sessionId}`, session, ttl);
+    } catch (error) {
+      console.error('KV storeCustomerSession error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a customer session by id
+   */
+  async getCustomerSession(sessionId: string, maxAge: number): Promise<any | null> {
+    try {
+      return await this.getCachedData(`customer-session:${sessionId}`, maxAge);
+    } catch (error) {
+      console.error('KV getCustomerSession error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a confirmed booking by PNR (no TTL, bookings are permanent records)
+   */
+  async storeConfirmedBooking(pnr: string, booking: any): Promise<boolean> {
+    try {
+      await this.kv.put(`booking:${pnr}`, JSON.stringify(booking));
+      return true;
+    } catch (error) {
+      console.error('KV storeConfirmedBooking error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a confirmed booking by PNR
+   */
+  async getConfirmedBooking(pnr: string): Promise<any | null> {
+    try {
+      return await this.kv.get(`booking:${pnr}`, 'json');
+    } catch (error) {
+      console.error('KV getConfirmedBooking error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the published FX rate table
+   */
+  async getFxRates(): Promise<any | null> {
+    try {
+      return await this.kv.get('fx-rates', 'json');
+    } catch (error) {
+      console.error('KV getFxRates error:', error);
+      return null;
+    }
+  }
+
   /**
    * Clean up expired data
    */
@@ -0,0 +1,143 @@
+/**
+ * Customer sessions issued by the server
+ * The browser only holds a random session id in an HttpOnly cookie. Conversations and confirmed bookings
+ * belong to the session that started them, so ids the client sends can't reach another customer's booking,
+ * and the Privilege Club member is recorded here once they sign in with their password
+ */
+
+import { KVStoreManager } from './cloudflare/kv-store';
+
+export const CUSTOMER_SESSION_COOKIE = 'qr_stopover_session';
+
+// Sessions lapse a day after they were last used
+export const CUSTOMER_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export interface CustomerSession {
+  id: string;
+  memberId?: string; // Privilege Club member who signed in during this session
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export interface CustomerSessionStore {
+  get(id: string): Promise<CustomerSession | null>;
+  put(session: CustomerSession): Promise<void>;
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryCustomerSessionStore implements CustomerSessionStore {
+  private sessions: Map<string, CustomerSession> = new Map();
+
+  async get(id: string): Promise<CustomerSession | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async put(session: CustomerSession): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+}
+
+/**
+ * Store backed by Cloudflare KV, where sessions expire with their TTL
+ */
+export class KVCustomerSessionStore implements CustomerSessionStore {
+  private kvStore: KVStoreManager;
+
+  constructor(kvStore: KVStoreManager) {
+    this.kvStore = kvStore;
+  }
+
+  async get(id: string): Promise<CustomerSession | null> {
+    return this.kvStore.getCustomerSession(id, CUSTOMER_SESSION_TTL_SECONDS);
+  }
+
+  async put(session: CustomerSession): Promise<void> {
+    const saved = await this.kvStore.storeCustomerSession(session.id, session, CUSTOMER_SESSION_TTL_SECONDS);
+    if (!saved) {
+      throw new Error(`Failed to store customer session ${session.id}`);
+    }
+  }
+}
+
+/**
+ * Read the session id from the request's cookie header
+ */
+export function readCustomerSessionId(request: Request): string | undefined {
+  const cookies = request.headers.get('cookie') || '';
+  for (const cookie of cookies.split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === CUSTOMER_SESSION_COOKIE) {
+      const id = value.join('=');
+      return SESSION_ID_PATTERN.test(id) ? id : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Set-Cookie header value carrying the session id; scripts can't read it and other sites can't send it
+ */
+export function customerSessionCookie(session: CustomerSession, request: Request): string {
+  const secure = new URL(request.url).protocol === 'https:' ? '; Secure' : '';
+  return `${CUSTOMER_SESSION_COOKIE}=${session.id}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${CUSTOMER_SESSION_TTL_SECONDS}${secure}`;
+}
+
+export class CustomerSessions {
+  private store: CustomerSessionStore;
+  private now: () => number;
+
+  constructor(store: CustomerSessionStore, now: () => number = () => Date.now()) {
+    this.store = store;
+    this.now = now;
+  }
+
+  /**
+   * Resume the session named by the request's cookie, or issue a new one when it is missing or has lapsed
+   */
+  async resume(request: Request): Promise<{ session: CustomerSession; issued: boolean }> {
+    const id = readCustomerSessionId(request);
+    const existing = id ? await this.store.get(id) : null;
+    const now = this.now();
+
+    if (existing && now - existing.lastSeenAt < CUSTOMER_SESSION_TTL_SECONDS * 1000) {
+      const session = { ...existing, lastSeenAt: now };
+      await this.store.put(session);
+      return { session, issued: false };
+    }
+
+    const session: CustomerSession = { id: crypto.randomUUID(), createdAt: now, lastSeenAt: now };
+    await this.store.put(session);
+    return { session, issued: true };
+  }
+
+  /**
+   * Record the Privilege Club member the customer signed in as
+   */
+  async signIn(session: CustomerSession, memberId: string): Promise<CustomerSession> {
+    const signedIn = { ...session, memberId, lastSeenAt: this.now() };
+    await this.store.put(signedIn);
+    return signedIn;
+  }
+}
+
+// Shared sessions used when KV is not bound (astro dev, tests)
+export const localCustomerSessions = new CustomerSessions(new InMemoryCustomerSessionStore());
+
+/**
+ * Pick the customer session store for the current environment
+ */
+export function createCustomerSessions(env: any): CustomerSessions {
+  if (env?.QATAR_STOPOVER_KV) {
+    return new CustomerSessions(new KVCustomerSessionStore(new KVStoreManager(env.QATAR_STOPOVER_KV)));
+  }
+  return localCustomerSessions;
+}
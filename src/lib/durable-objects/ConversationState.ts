@@ -3,6 +3,66 @@
  * Provides persistent state management for LLM conversations and booking flow
  */
 
+import type {
+  ConversationStep,
+  StepTransition,
+  Currency,
+  Quote,
+  PaymentMethod,
+  PaymentStatus,
+  AviosPaymentData,
+  PrivilegeClubAccount,
+  TravelDates,
+  StopoverDates,
+  FlightTimes,
+  FlightSegment,
+  StopoverTiming,
+  PassengerMix,
+  TourInterest,
+  CustomerData,
+  BookingData
+} from '../../types';
+
+export interface ConversationBookingState {
+  customerSessionId?: string; // Server-issued session the conversation belongs to
+  customer?: CustomerData; // Customer the conversation is for, recorded on the stopover booking
+  flightBooking?: Pick<BookingData, 'pnr' | 'status'>; // Flight booking the stopover is added to
+  passengers?: number; // Party size from the original flight booking
+  segments?: FlightSegment[]; // Flights on the original booking, which decide where a stopover can go
+  travelDates?: TravelDates; // Doha arrival dates from the original flight booking
+  flightTimes?: FlightTimes; // Doha arrival and departure times from the original flight booking
+  passengerMix?: PassengerMix; // Adults, children and infants on the original flight booking
+  interests?: TourInterest[]; // Picked up from what the customer says, for tour recommendations
+  currency?: Currency; // Customer's market currency for quotes
+  privilegeClub?: Pick<PrivilegeClubAccount, 'memberId' | 'tierStatus' | 'aviosBalance'>;
+  category?: string;
+  hotel?: string;
+  timing?: StopoverTiming;
+  duration?: number;
+  stopoverDates?: StopoverDates; // Derived from travelDates, timing and duration
+  extras?: {
+    transfers: boolean;
+    tours: Array<{ id: string; quantity: number; date?: string }>;
+  };
+  promoCode?: string; // Given by the customer; evaluated each time the stopover is priced
+  pricing?: Quote; // Latest quote, locked with the FX snapshot it was converted with
+  hold?: {
+    expiresAt: number; // Rooms and tour seats are held for the conversation until then
+  };
+  payment?: {
+    method: PaymentMethod;
+    amount: number; // Including any card surcharge
+    currency: Currency | 'AVIOS';
+    surcharge?: number; // Card surcharge for the method, in the payment currency
+    avios?: AviosPaymentData;
+    paymentId?: string; // Card authorisation at the payment provider
+    status: PaymentStatus;
+  };
+  pnr?: string; // Allocated by the booking ledger once the booking is confirmed
+  currentStep?: ConversationStep;
+  stepHistory?: StepTransition[];
+}
+
 export interface ConversationData {
   conversationId: string;
   customerId: string;
@@ -13,20 +73,7 @@ export interface ConversationData {
     content: any;
     timestamp: number;
   }>;
-  bookingState: {
-    category?: string;
-    hotel?: string;
-    timing?: 'outbound' | 'return';
-    duration?: number;
-    extras?: {
-      transfers: boolean;
-      tours: Array<{ id: string; quantity: number }>;
-    };
-    pricing?: {
-      total: number;
-      breakdown: Record<string, number>;
-    };
-  };
+  bookingState: ConversationBookingState;
   currentStep: string;
   lastActivity: number;
   metadata: {
@@ -148,12 +195,14 @@ export class ConversationState implements DurableObject {
       });
     }
 
-    // Update conversation state
+    // Update conversation state (replaceBookingState drops selections cleared by the booking tools)
     if (updates.bookingState) {
-      this.conversationData.bookingState = {
-        ...this.conversationData.bookingState,
-        ...updates.bookingState,
-      };
+      this.conversationData.bookingState = updates.replaceBookingState
+        ? updates.bookingState
+        : {
+            ...this.conversationData.bookingState,
+            ...updates.bookingState,
+          };
     }
 
     if (updates.currentStep) {
@@ -0,0 +1,76 @@
+/**
+ * Durable Object holding stopover room and tour seat inventory
+ * A single instance serialises holds and sales so two conversations can never oversell,
+ * and an alarm releases holds when they time out
+ */
+
+import { AvailabilityManager, DurableObjectInventoryStore } from '../availability';
+
+export class InventoryState implements DurableObject {
+  private storage: DurableObjectStorage;
+  private availability: AvailabilityManager;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.storage = state.storage;
+    this.availability = new AvailabilityManager(new DurableObjectInventoryStore(state.storage));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      if (request.method !== 'POST') {
+        return new Response('Method Not Allowed', { status: 405 });
+      }
+
+      const body = await request.json() as any;
+      switch (url.pathname) {
+        case '/remaining':
+          return this.json({ remaining: await this.availability.getRemaining(body.items, body.conversationId) });
+        case '/hold': {
+          const result = await this.availability.hold(body.conversationId, body.items);
+          await this.scheduleRelease();
+          return this.json(result);
+        }
+        case '/release':
+          await this.availability.release(body.conversationId);
+          return this.json({ success: true });
+        case '/confirm':
+          return this.json({ confirmed: await this.availability.confirm(body.conversationId, body.pnr) });
+        case '/rebook':
+          return this.json({ shortfalls: await this.availability.rebook(body.pnr, body.items) });
+        case '/cancel':
+          await this.availability.cancel(body.pnr);
+          return this.json({ success: true });
+        default:
+          return new Response('Not Found', { status: 404 });
+      }
+    } catch (error) {
+      console.error('InventoryState error:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Release timed-out holds, then wake again for the next one
+   */
+  async alarm(): Promise<void> {
+    await this.availability.purgeExpired();
+    await this.scheduleRelease();
+  }
+
+  private async scheduleRelease(): Promise<void> {
+    const nextExpiry = await this.availability.nextExpiry();
+    if (nextExpiry !== null) {
+      await this.storage.setAlarm(nextExpiry);
+    }
+  }
+
+  private json(data: unknown): Response {
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// Export for Cloudflare Workers
+export default InventoryState;
@@ -0,0 +1,70 @@
+/**
+ * FX rate sources for quoting the USD catalog in the customer's currency
+ * Rates are published to KV; the bundled rate table is used when KV is unavailable
+ */
+
+import type { FxSnapshot } from '../types';
+import { isValidFxRates, localFxSnapshot } from '../data/currencyData';
+import { KVStoreManager } from './cloudflare/kv-store';
+
+export interface FxRateSource {
+  getSnapshot(): Promise<FxSnapshot>;
+}
+
+/**
+ * Bundled rate table for local development and tests
+ */
+export class LocalFxRateSource implements FxRateSource {
+  private snapshot: FxSnapshot;
+
+  constructor(snapshot: FxSnapshot = localFxSnapshot) {
+    this.snapshot = snapshot;
+  }
+
+  async getSnapshot(): Promise<FxSnapshot> {
+    return { ...this.snapshot, rates: { ...this.snapshot.rates } };
+  }
+}
+
+/**
+ * Rates published to Cloudflare KV, falling back to the bundled table
+ */
+export class KVFxRateSource implements FxRateSource {
+  private kvStore: KVStoreManager;
+  private fallback: FxRateSource;
+
+  constructor(kvStore: KVStoreManager, fallback: FxRateSource = localFxRateSource) {
+    this.kvStore = kvStore;
+    this.fallback = fallback;
+  }
+
+  async getSnapshot(): Promise<FxSnapshot> {
+    const stored = await this.kvStore.getFxRates();
+    if (!stored || !isValidFxRates(stored.rates)) {
+      if (stored) {
+        console.warn('Ignoring invalid FX rates in KV, using bundled rates');
+      }
+      return this.fallback.getSnapshot();
+    }
+
+    return {
+      base: 'USD',
+      rates: stored.rates,
+      asOf: stored.asOf || new Date().toISOString(),
+      source: 'kv'
+    };
+  }
+}
+
+// Shared source used when KV is not bound (astro dev, tests)
+export const localFxRateSource = new LocalFxRateSource();
+
+/**
+ * Pick the FX rate source for the current environment
+ */
+export function createFxRateSource(env: any): FxRateSource {
+  if (env?.QATAR_STOPOVER_KV) {
+    return new KVFxRateSource(new KVStoreManager(env.QATAR_STOPOVER_KV));
+  }
+  return localFxRateSource;
+}
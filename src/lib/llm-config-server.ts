@@ -1,35 +1,45 @@
-import { createOpenAI } from '@ai-sdk/openai';
+import { ModelRegistry } from './model-registry';
 
 // Server-side LLM configuration (for API routes only)
-// This should only be used in server-side contexts where process.env is available
+// This should only be used in server-side contexts where process.env is available.
+// The models themselves are described by the model registry
 
-export const createLLMConfig = () => {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  
-  if (!apiKey) {
+export const createLLMConfig = (registry: ModelRegistry = new ModelRegistry()) => {
+  const [primary, ...fallbacks] = registry.getChain({ requireTools: false });
+
+  if (!primary) {
+    throw new Error('No models configured in the model registry');
+  }
+  if (!registry.hasCredentials(primary)) {
     throw new Error('OPENROUTER_API_KEY not found in environment variables');
   }
 
-  // OpenRouter configuration for Gemini 2.5 Flash
-  const openrouter = createOpenAI({
-    apiKey,
-    baseURL: 'https://openrouter.ai/api/v1',
-  });
-
   return {
-    model: openrouter(process.env.DEFAULT_MODEL || 'google/gemini-2.5-flash'),
-    fallbackModels: [
-      openrouter('anthropic/claude-3-haiku'),
-      openrouter('openai/gpt-4o-mini')
-    ],
-    maxTokens: parseInt(process.env.MAX_TOKENS || '4096'),
-    temperature: parseFloat(process.env.TEMPERATURE || '0.7'),
+    model: registry.createModel(primary),
+    fallbackModels: fallbacks.map(model => registry.createModel(model)),
+    maxTokens: registry.settings.maxTokens,
+    temperature: registry.settings.temperature,
     streamingEnabled: process.env.STREAMING_ENABLED !== 'false',
   };
 };
 
 // Environment validation for server-side
-export const validateServerLLMConfig = () => {
+export const validateServerLLMConfig = (registry: ModelRegistry = new ModelRegistry()) => {
+  const configurationError = registry.getConfigurationError();
+  if (configurationError) {
+    console.error(configurationError);
+    return false;
+  }
+  const [primary] = registry.getChain({ requireTools: false });
+  if (!primary) {
+    console.error('No models configured in the model registry');
+    return false;
+  }
+  if (primary.provider !== 'openrouter') {
+    console.log(`Using ${primary.provider} model:`, primary.modelId);
+    return true;
+  }
+
   const apiKey = process.env.OPENROUTER_API_KEY;
   if (!apiKey) {
     console.error('OPENROUTER_API_KEY not found in environment variables');
@@ -40,9 +50,14 @@ export const validateServerLLMConfig = () => {
   return true;
 };
 
-// Model fallback chain for error handling
-export const getModelWithFallback = (attemptNumber: number = 0) => {
-  const config = createLLMConfig();
-  const models = [config.model, ...config.fallbackModels];
-  return models[Math.min(attemptNumber, models.length - 1)];
-};
\ No newline at end of file
+// Model fallback chain for error handling; only models that can call tools unless told otherwise
+export const getModelWithFallback = (
+  attemptNumber: number = 0,
+  { requireTools = true, registry = new ModelRegistry() }: { requireTools?: boolean; registry?: ModelRegistry } = {}
+) => {
+  const models = registry.getChain({ requireTools });
+  if (models.length === 0) {
+    throw new Error(requireTools ? 'No configured model supports tool calling' : 'No models configured in the model registry');
+  }
+  return registry.createModel(models[Math.min(attemptNumber, models.length - 1)]);
+};
@@ -1,39 +1,24 @@
-import { createOpenAI } from '@ai-sdk/openai';
+import { ModelRegistry } from './model-registry';
 
-// Get environment variables - use import.meta.env for Astro/Vite, fallback to process.env for Node.js
-const getEnvVar = (key: string, defaultValue: string = '') => {
-  // In server-side context (API routes), use process.env
-  if (typeof process !== 'undefined' && process.env) {
-    return process.env[key] || defaultValue;
-  }
-  // In client-side context, use import.meta.env
-  if (typeof import.meta !== 'undefined' && import.meta.env) {
-    return import.meta.env[key] || defaultValue;
-  }
-  return defaultValue;
-};
-
-// OpenRouter configuration for Gemini 2.5 Flash
-const openrouter = createOpenAI({
-  apiKey: getEnvVar('OPENROUTER_API_KEY'),
-  baseURL: 'https://openrouter.ai/api/v1',
-});
+// Models, providers and env settings all come from the model registry
+const registry = new ModelRegistry();
+const [primary, ...fallbacks] = registry.getChain({ requireTools: false });
 
-// Gemini 2.5 Flash model configuration as specified
 export const llmConfig = {
-  model: openrouter(getEnvVar('DEFAULT_MODEL', 'google/gemini-2.0-flash-exp')),
-  fallbackModels: [
-    openrouter('anthropic/claude-3-haiku'),
-    openrouter('openai/gpt-4o-mini')
-  ],
-  maxTokens: parseInt(getEnvVar('MAX_TOKENS', '4096')),
-  temperature: parseFloat(getEnvVar('TEMPERATURE', '0.7')),
-  streamingEnabled: getEnvVar('STREAMING_ENABLED', 'true') !== 'false',
+  model: registry.createModel(primary),
+  fallbackModels: fallbacks.map(model => registry.createModel(model)),
+  maxTokens: registry.settings.maxTokens,
+  temperature: registry.settings.temperature,
+  streamingEnabled: (typeof process !== 'undefined' ? process.env.STREAMING_ENABLED : undefined) !== 'false',
 };
 
 // Environment validation
 export const validateLLMConfig = () => {
-  const apiKey = getEnvVar('OPENROUTER_API_KEY');
+  if (primary.provider !== 'openrouter') {
+    return true;
+  }
+
+  const apiKey = typeof process !== 'undefined' ? process.env.OPENROUTER_API_KEY : undefined;
   if (!apiKey) {
     console.warn('OPENROUTER_API_KEY not found in environment variables');
     console.warn('Available env keys:', Object.keys(process.env || {}));
@@ -47,4 +32,4 @@ export const validateLLMConfig = () => {
 export const getModelWithFallback = (attemptNumber: number = 0) => {
   const models = [llmConfig.model, ...llmConfig.fallbackModels];
   return models[Math.min(attemptNumber, models.length - 1)];
-};
\ No newline at end of file
+};
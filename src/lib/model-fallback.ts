@@ -0,0 +1,83 @@
+/**
+ * Model fallback for streamed chat responses
+ * A model's stream is only handed to the client once its first part arrives, so a provider that
+ * fails or stalls before answering can be swapped for the next model without the client seeing a
+ * broken stream. Circuit breakers stop sending requests to a model that keeps failing
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitRecord {
+  failures: number; // Consecutive failures
+  openedAt?: number;
+}
+
+export class ModelCircuitBreaker {
+  private circuits = new Map<string, CircuitRecord>();
+
+  constructor(
+    private failureThreshold: number = 3,
+    private cooldownMs: number = 30000
+  ) {}
+
+  getState(modelId: string, now: number = Date.now()): CircuitState {
+    const circuit = this.circuits.get(modelId);
+    if (!circuit?.openedAt) {
+      return 'closed';
+    }
+    return now - circuit.openedAt < this.cooldownMs ? 'open' : 'half-open';
+  }
+
+  // A half-open circuit lets a request through to find out whether the model has recovered
+  allowRequest(modelId: string, now: number = Date.now()): boolean {
+    return this.getState(modelId, now) !== 'open';
+  }
+
+  recordSuccess(modelId: string): void {
+    this.circuits.delete(modelId);
+  }
+
+  recordFailure(modelId: string, now: number = Date.now()): void {
+    const failures = (this.circuits.get(modelId)?.failures || 0) + 1;
+    const reopen = failures >= this.failureThreshold || this.getState(modelId, now) === 'half-open';
+    this.circuits.set(modelId, { failures, openedAt: reopen ? now : undefined });
+  }
+
+  reset(): void {
+    this.circuits.clear();
+  }
+}
+
+// Shared by every request in this isolate
+export const modelCircuitBreaker = new ModelCircuitBreaker();
+
+/**
+ * Wait for a stream's first part. Resolves once the model has started answering; rejects with the
+ * provider's error if the stream fails first, ends empty, or nothing arrives within the timeout.
+ * Reading the full stream splits it, so the response built afterwards still streams from the start
+ */
+export async function waitForFirstPart(
+  result: { fullStream: AsyncIterable<{ type: string; error?: unknown }> },
+  timeoutMs: number,
+  abortController?: AbortController
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      abortController?.abort();
+      reject(new Error(`Model did not start responding within ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    const first = await Promise.race([result.fullStream[Symbol.asyncIterator]().next(), timeout]);
+    if (first.done) {
+      throw new Error('Model returned an empty response');
+    }
+    if (first.value.type === 'error') {
+      throw first.value.error instanceof Error ? first.value.error : new Error(String(first.value.error));
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Model registry for the chat agent
+ * Every model the agent can use is listed once, with its provider, context window, tool calling support,
+ * cost and timeout. Models are served by OpenRouter, by an OpenAI-compatible local endpoint
+ * (Ollama, LM Studio) for offline development, or by the scripted model for tests. Which models are used, in what order, comes from
+ * KV config when it is bound, then environment variables, then the defaults here
+ */
+
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+import { KVStoreManager } from './cloudflare/kv-store';
+import { createScriptedModel } from './scripted-model';
+
+export type LLMProvider = 'openrouter' | 'local' | 'scripted';
+
+export interface LLMModel {
+  provider: LLMProvider;
+  modelId: string; // Model id at the provider
+  contextWindow: number; // Tokens
+  supportsTools: boolean;
+  costPerInputToken: number; // USD
+  costPerOutputToken: number; // USD
+  timeoutMs: number;
+}
+
+export interface LLMSettings {
+  defaultModel: string;
+  fallbackModels: string[];
+  maxTokens: number;
+  temperature: number;
+  models?: LLMModel[]; // Added to the built-in models, replacing any with the same modelId
+}
+
+export const builtInModels: LLMModel[] = [
+  {
+    provider: 'openrouter',
+    modelId: 'google/gemini-2.5-flash',
+    contextWindow: 1048576,
+    supportsTools: true,
+    costPerInputToken: 0.3 / 1e6,
+    costPerOutputToken: 2.5 / 1e6,
+    timeoutMs: 30000
+  },
+  {
+    provider: 'openrouter',
+    modelId: 'google/gemini-2.0-flash-exp',
+    contextWindow: 1048576,
+    supportsTools: true,
+    costPerInputToken: 0,
+    costPerOutputToken: 0,
+    timeoutMs: 30000
+  },
+  {
+    provider: 'openrouter',
+    modelId: 'anthropic/claude-3-haiku',
+    contextWindow: 200000,
+    supportsTools: true,
+    costPerInputToken: 0.25 / 1e6,
+    costPerOutputToken: 1.25 / 1e6,
+    timeoutMs: 30000
+  },
+  {
+    provider: 'openrouter',
+    modelId: 'openai/gpt-4o-mini',
+    contextWindow: 128000,
+    supportsTools: true,
+    costPerInputToken: 0.15 / 1e6,
+    costPerOutputToken: 0.6 / 1e6,
+    timeoutMs: 30000
+  }
+];
+
+export const defaultLLMSettings: LLMSettings = {
+  defaultModel: 'google/gemini-2.5-flash',
+  fallbackModels: ['anthropic/claude-3-haiku', 'openai/gpt-4o-mini'],
+  maxTokens: 4096,
+  temperature: 0.7
+};
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible API
+
+const getEnvVar = (key: string, defaultValue: string = ''): string => {
+  if (typeof process !== 'undefined' && process.env) {
+    return process.env[key] || defaultValue;
+  }
+  return defaultValue;
+};
+
+const parseList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Local model described by env vars, used on its own when LLM_PROVIDER=local
+const localModelFromEnv = (): LLMModel => ({
+  provider: 'local',
+  modelId: getEnvVar('LOCAL_LLM_MODEL', 'llama3.1'),
+  contextWindow: parseInt(getEnvVar('LOCAL_LLM_CONTEXT_WINDOW', '8192')),
+  supportsTools: getEnvVar('LOCAL_LLM_SUPPORTS_TOOLS', 'true') !== 'false',
+  costPerInputToken: 0,
+  costPerOutputToken: 0,
+  timeoutMs: parseInt(getEnvVar('LOCAL_LLM_TIMEOUT_MS', '60000'))
+});
+
+// Rule-based stand-in that walks the booking journey, used on its own when LLM_PROVIDER=scripted
+const scriptedModel: LLMModel = {
+  provider: 'scripted',
+  modelId: 'scripted/booking',
+  contextWindow: 1048576,
+  supportsTools: true,
+  costPerInputToken: 0,
+  costPerOutputToken: 0,
+  timeoutMs: 5000
+};
+
+// A model named in env: "local:<id>" for the local endpoint, otherwise an OpenRouter model id.
+// Models the registry doesn't describe get conservative defaults; KV llmSettings.models can describe them fully
+const modelFromEnv = (value: string): LLMModel => {
+  const [, prefix, id] = value.match(/^(openrouter|local):(.+)$/) || [];
+  const provider: LLMProvider = prefix === 'local' ? 'local' : 'openrouter';
+  const modelId = id || value;
+  return builtInModels.find(model => model.provider === provider && model.modelId === modelId) || {
+    provider,
+    modelId,
+    contextWindow: 128000,
+    supportsTools: true,
+    costPerInputToken: 0,
+    costPerOutputToken: 0,
+    timeoutMs: 30000
+  };
+};
+
+/**
+ * Settings from environment variables over the defaults
+ */
+export const getEnvLLMSettings = (): LLMSettings => {
+  const settings: LLMSettings = {
+    ...defaultLLMSettings,
+    maxTokens: parseInt(getEnvVar('MAX_TOKENS', String(defaultLLMSettings.maxTokens))),
+    temperature: parseFloat(getEnvVar('TEMPERATURE', String(defaultLLMSettings.temperature)))
+  };
+
+  // Offline development: only the local model, so nothing falls back to the network
+  if (getEnvVar('LLM_PROVIDER') === 'local') {
+    const local = localModelFromEnv();
+    return { ...settings, defaultModel: local.modelId, fallbackModels: [], models: [local] };
+  }
+  if (getEnvVar('LLM_PROVIDER') === 'scripted') {
+    return { ...settings, defaultModel: scriptedModel.modelId, fallbackModels: [], models: [scriptedModel] };
+  }
+
+  const fallbackModels = getEnvVar('FALLBACK_MODELS');
+  const [defaultModel, ...fallbacks] = [
+    getEnvVar('DEFAULT_MODEL', defaultLLMSettings.defaultModel),
+    ...(fallbackModels ? parseList(fallbackModels) : defaultLLMSettings.fallbackModels)
+  ].map(modelFromEnv);
+  return {
+    ...settings,
+    defaultModel: defaultModel.modelId,
+    fallbackModels: fallbacks.map(model => model.modelId),
+    models: [defaultModel, ...fallbacks].filter(model => !builtInModels.includes(model))
+  };
+};
+
+export class ModelRegistry {
+  readonly settings: LLMSettings;
+  private models = new Map<string, LLMModel>();
+
+  constructor(settings: LLMSettings = getEnvLLMSettings()) {
+    this.settings = settings;
+    [...builtInModels, ...(settings.models || [])].forEach(model => this.models.set(model.modelId, model));
+  }
+
+  get(modelId: string): LLMModel | undefined {
+    return this.models.get(modelId);
+  }
+
+  list(): LLMModel[] {
+    return Array.from(this.models.values());
+  }
+
+  private getModelIds(): string[] {
+    return Array.from(new Set([this.settings.defaultModel, ...this.settings.fallbackModels]));
+  }
+
+  /**
+   * Why the configured models can't be used, e.g. KV config naming a model it doesn't describe
+   */
+  getConfigurationError(): string | undefined {
+    const unknown = this.getModelIds().filter(modelId => !this.models.has(modelId));
+    return unknown.length > 0
+      ? `Models not in the model registry: ${unknown.join(', ')}. Describe them in llmSettings.models`
+      : undefined;
+  }
+
+  /**
+   * The default model then its fallbacks, leaving out models that can't call tools when tools are required
+   */
+  getChain({ requireTools = true }: { requireTools?: boolean } = {}): LLMModel[] {
+    const configurationError = this.getConfigurationError();
+    if (configurationError) {
+      throw new Error(configurationError);
+    }
+    return this.getModelIds()
+      .map(modelId => this.models.get(modelId)!)
+      .filter(model => !requireTools || model.supportsTools);
+  }
+
+  // Whether the model's provider can be called with the configured credentials
+  hasCredentials(model: LLMModel): boolean {
+    return model.provider !== 'openrouter' || !!getEnvVar('OPENROUTER_API_KEY');
+  }
+
+  createModel(model: LLMModel): LanguageModel {
+    if (model.provider === 'scripted') {
+      return createScriptedModel({ modelId: model.modelId });
+    }
+    const provider = model.provider === 'local'
+      ? createOpenAI({
+          baseURL: getEnvVar('LOCAL_LLM_BASE_URL', LOCAL_BASE_URL),
+          apiKey: getEnvVar('LOCAL_LLM_API_KEY', 'local'),
+          compatibility: 'compatible'
+        })
+      : createOpenAI({ apiKey: getEnvVar('OPENROUTER_API_KEY'), baseURL: OPENROUTER_BASE_URL });
+    return provider(model.modelId);
+  }
+
+  estimateCost(modelId: string, usage: { promptTokens: number; completionTokens: number }): number {
+    const model = this.models.get(modelId);
+    if (!model) {
+      return 0;
+    }
+    return usage.promptTokens * model.costPerInputToken + usage.completionTokens * model.costPerOutputToken;
+  }
+}
+
+/**
+ * Build the registry for the current environment, with the LLM settings in KV over the env settings
+ */
+export async function createModelRegistry(env: any): Promise<ModelRegistry> {
+  const settings = getEnvLLMSettings();
+  if (!env?.QATAR_STOPOVER_KV) {
+    return new ModelRegistry(settings);
+  }
+
+  const { llmSettings } = await new KVStoreManager(env.QATAR_STOPOVER_KV).getConfig();
+  return new ModelRegistry({
+    ...settings,
+    ...llmSettings,
+    models: [...(settings.models || []), ...(llmSettings?.models || [])]
+  });
+}
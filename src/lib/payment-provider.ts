@@ -0,0 +1,171 @@
+/**
+ * Payment providers for card payments
+ * The payment form tokenises the card with the provider, so the booking tools only ever handle the token.
+ * A card is authorised when the customer confirms the booking and captured once the rooms and seats
+ * are secured; an authorisation that will not be captured is voided, and refunds go against the capture
+ */
+
+import type { CardToken, CreditCardData, Currency, ProviderPayment } from '../types';
+import { testCards, testCardTokens, getTestCardOutcome, normalizeCardNumber } from '../data/paymentData';
+import type { TestCardOutcome } from '../data/paymentData';
+import { roundCurrency } from '../data/currencyData';
+import { getCardType, validateCreditCardNumber } from '../utils/form-utils';
+
+export interface AuthorisationRequest {
+  reference: string; // Quote being paid for
+  amount: number;
+  currency: Currency;
+  cardToken: string;
+}
+
+/**
+ * Every operation rejects when the provider can't be reached or the payment is in the wrong state for it
+ */
+export interface PaymentProvider {
+  /**
+   * Hold the card with the provider and return a token for it
+   */
+  tokenise(card: CreditCardData): Promise<CardToken>;
+  /**
+   * Authorise the amount on the card; the result may be declined or need a 3-D Secure challenge first
+   */
+  authorise(request: AuthorisationRequest): Promise<ProviderPayment>;
+  /**
+   * Capture an authorised payment; one that is declined or still waiting on its challenge comes back unchanged
+   */
+  capture(paymentId: string): Promise<ProviderPayment>;
+  void(paymentId: string): Promise<ProviderPayment>;
+  /**
+   * Refund part or all of what was captured
+   */
+  refund(paymentId: string, amount: number): Promise<ProviderPayment>;
+  retrieve(paymentId: string): Promise<ProviderPayment>;
+}
+
+/**
+ * Deterministic provider for local development and tests, driven by the test cards in paymentData
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  private payments = new Map<string, ProviderPayment>();
+  private cards = new Map<string, CreditCardData>(
+    (Object.keys(testCardTokens) as TestCardOutcome[]).map(outcome => [testCardTokens[outcome], testCards[outcome]])
+  );
+  private nextId = 1;
+
+  async tokenise(card: CreditCardData): Promise<CardToken> {
+    if (!validateCreditCardNumber(card.cardNumber)) {
+      throw new Error('Invalid card number');
+    }
+
+    const number = normalizeCardNumber(card.cardNumber);
+    const token = `tok_${String(this.nextId++).padStart(6, '0')}`;
+    this.cards.set(token, { ...card, cardNumber: number });
+    return { token, brand: getCardType(number), last4: number.slice(-4) };
+  }
+
+  async authorise({ reference, amount, currency, cardToken }: AuthorisationRequest): Promise<ProviderPayment> {
+    const card = this.cards.get(cardToken);
+    const outcome = card ? getTestCardOutcome(card.cardNumber) : 'declined';
+    if (outcome === 'timeout') {
+      throw new Error('Payment provider timed out');
+    }
+
+    const id = `pay_${String(this.nextId++).padStart(6, '0')}`;
+    const payment: ProviderPayment = {
+      id,
+      reference,
+      amount,
+      currency,
+      status: 'authorised',
+      capturedAmount: 0,
+      refundedAmount: 0,
+      cardLast4: card ? card.cardNumber.slice(-4) : ''
+    };
+
+    if (!card) {
+      return this.save({ ...payment, status: 'declined', declineReason: 'Unknown card token' });
+    }
+    if (outcome === 'declined') {
+      return this.save({ ...payment, status: 'declined', declineReason: 'Declined by the card issuer' });
+    }
+    if (outcome === 'challenge') {
+      return this.save({ ...payment, status: 'requires-action', challengeUrl: `/payments/3ds/${id}` });
+    }
+    return this.save(payment);
+  }
+
+  /**
+   * Stand-in for the customer completing, or failing, the 3-D Secure challenge at challengeUrl
+   */
+  completeChallenge(paymentId: string, passed: boolean = true): ProviderPayment {
+    const payment = this.find(paymentId);
+    if (payment.status !== 'requires-action') {
+      throw new Error(`Payment ${paymentId} has no challenge waiting`);
+    }
+
+    const { challengeUrl, ...completed } = payment;
+    return this.save(passed
+      ? { ...completed, status: 'authorised' }
+      : { ...completed, status: 'declined', declineReason: '3-D Secure check failed' });
+  }
+
+  async capture(paymentId: string): Promise<ProviderPayment> {
+    const payment = this.find(paymentId);
+    if (payment.status === 'declined' || payment.status === 'requires-action') {
+      return { ...payment };
+    }
+    if (payment.status !== 'authorised') {
+      throw new Error(`Cannot capture payment ${paymentId}: it is ${payment.status}`);
+    }
+    return this.save({ ...payment, status: 'captured', capturedAmount: payment.amount });
+  }
+
+  async void(paymentId: string): Promise<ProviderPayment> {
+    const payment = this.find(paymentId);
+    if (payment.status !== 'authorised' && payment.status !== 'requires-action') {
+      throw new Error(`Cannot void payment ${paymentId}: it is ${payment.status}`);
+    }
+
+    const { challengeUrl, ...voided } = payment;
+    return this.save({ ...voided, status: 'voided' });
+  }
+
+  async refund(paymentId: string, amount: number): Promise<ProviderPayment> {
+    const payment = this.find(paymentId);
+    if (payment.status !== 'captured' && payment.status !== 'partially-refunded') {
+      throw new Error(`Cannot refund payment ${paymentId}: it is ${payment.status}`);
+    }
+
+    const refundable = roundCurrency(payment.capturedAmount - payment.refundedAmount);
+    if (amount <= 0 || amount > refundable) {
+      throw new Error(`Cannot refund ${amount} on payment ${paymentId}: ${refundable} is refundable`);
+    }
+
+    const refundedAmount = roundCurrency(payment.refundedAmount + amount);
+    return this.save({
+      ...payment,
+      refundedAmount,
+      status: refundedAmount === payment.capturedAmount ? 'refunded' : 'partially-refunded'
+    });
+  }
+
+  async retrieve(paymentId: string): Promise<ProviderPayment> {
+    return { ...this.find(paymentId) };
+  }
+
+  private find(paymentId: string): ProviderPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Unknown payment ${paymentId}`);
+    }
+    return payment;
+  }
+
+  private save(payment: ProviderPayment): ProviderPayment {
+    this.payments.set(payment.id, payment);
+    return { ...payment };
+  }
+}
+
+// Shared provider used until a payment gateway is configured (astro dev, tests)
+export const localPaymentProvider = new MockPaymentProvider();
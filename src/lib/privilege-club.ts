@@ -0,0 +1,37 @@
+/**
+ * Privilege Club member accounts
+ * Members sign in with their Privilege Club password on the server; the account the booking tools price
+ * and redeem Avios against is always loaded from here for the signed-in member, never taken from the client
+ */
+
+import type { PrivilegeClubAccount } from '../types';
+import { testPrivilegeClubMembers } from '../data/customerData';
+
+export interface PrivilegeClubService {
+  /**
+   * Check a member's email and password, returning their account or null when they don't match
+   */
+  signIn(email: string, password: string): Promise<PrivilegeClubAccount | null>;
+  getAccount(memberId: string): Promise<PrivilegeClubAccount | null>;
+}
+
+/**
+ * Deterministic service for local development and tests, driven by the test members in customerData
+ */
+export class MockPrivilegeClub implements PrivilegeClubService {
+  private members = testPrivilegeClubMembers;
+
+  async signIn(email: string, password: string): Promise<PrivilegeClubAccount | null> {
+    const member = this.members.find(({ login }) =>
+      login.email.toLowerCase() === email.trim().toLowerCase() && login.password === password);
+    return member ? { ...member.account, isLoggedIn: true } : null;
+  }
+
+  async getAccount(memberId: string): Promise<PrivilegeClubAccount | null> {
+    const member = this.members.find(({ account }) => account.memberId === memberId);
+    return member ? { ...member.account, isLoggedIn: true } : null;
+  }
+}
+
+// Shared service used until the Privilege Club API is configured (astro dev, tests)
+export const localPrivilegeClub = new MockPrivilegeClub();
@@ -0,0 +1,75 @@
+/**
+ * Server-side quotes for the booking summary
+ * Payment is only taken against the latest quote the booking tools issued, never an amount from the model
+ */
+
+import type { PricingBreakdown, Quote, QuoteLineItem } from '../types';
+import { calculateCardSurcharge } from '../data/pricingData';
+import { roundCurrency } from '../data/currencyData';
+
+// Long enough to review the summary, pay, and have the hold renewed once
+export const QUOTE_TTL_MS = 30 * 60 * 1000;
+
+// Random quote id; falls back where crypto.randomUUID is unavailable
+const generateQuoteId = (): string => {
+  const random = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Math.random().toString(36).substring(2)}${Date.now().toString(36)}`;
+  return `QT-${random}`;
+};
+
+/**
+ * Hash a quote's contents, so any change after it was issued is detected
+ */
+export function hashQuote(quote: Omit<Quote, 'hash'>): string {
+  const { id, currency, lineItems, total, cardTotal, breakdown, createdAt, expiresAt } = quote;
+  const content = JSON.stringify({ id, currency, lineItems, total, cardTotal, breakdown, createdAt, expiresAt });
+
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) - hash) + content.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Issue a quote for a priced stopover, valid for QUOTE_TTL_MS
+ */
+export function createQuote(
+  breakdown: PricingBreakdown,
+  lineItems: QuoteLineItem[],
+  now: number = Date.now()
+): Quote {
+  const quote = {
+    id: generateQuoteId(),
+    currency: breakdown.currency,
+    lineItems,
+    total: breakdown.totalCashPrice,
+    cardTotal: roundCurrency(breakdown.totalCashPrice + calculateCardSurcharge('credit-card', breakdown.totalCashPrice)),
+    breakdown,
+    createdAt: now,
+    expiresAt: now + QUOTE_TTL_MS
+  };
+  return { ...quote, hash: hashQuote(quote) };
+}
+
+/**
+ * Explain why a quote id can't be paid against; undefined when it is the current, unexpired quote
+ */
+export function getQuoteProblem(
+  quote: Quote,
+  quoteId: string | undefined,
+  now: number = Date.now()
+): 'unknown' | 'tampered' | 'expired' | undefined {
+  if (!quoteId || quoteId !== quote.id) {
+    return 'unknown';
+  }
+  if (quote.hash !== hashQuote(quote)) {
+    return 'tampered';
+  }
+  if (quote.expiresAt <= now) {
+    return 'expired';
+  }
+  return undefined;
+}
@@ -0,0 +1,286 @@
+/**
+ * Scripted language model for offline development and tests
+ * Stands in for a real model in streamText: each turn, rules read the prompt and decide the reply,
+ * either text or calls to the booking tools, so the whole booking journey runs with no network.
+ * Replies only depend on the prompt, so the same conversation always gets the same answers
+ */
+
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart
+} from 'ai';
+import { stopoverCategories } from '../data/stopoverCategories';
+import { stopoverHotels } from '../data/hotelData';
+
+export interface ScriptedToolCall {
+  toolName: string;
+  args: Record<string, unknown>;
+}
+
+export interface ScriptedReply {
+  text?: string;
+  toolCalls?: ScriptedToolCall[];
+}
+
+// What a rule sees of the conversation so far
+export interface ScriptedTurn {
+  prompt: LanguageModelV1Prompt;
+  userText: string; // Latest user message
+  userTexts: string[]; // Every user message, oldest first
+  toolResults: Array<{ toolName: string; args: any; result: any }>; // Oldest first
+  tools: string[]; // Tools offered this turn; empty when the profile has none
+}
+
+// A rule returns the reply for a turn, or undefined to leave it to the next rule
+export type ScriptedRule = (turn: ScriptedTurn) => ScriptedReply | undefined;
+
+export interface ScriptedModelOptions {
+  modelId?: string;
+  rules?: ScriptedRule[];
+  fallbackText?: string;
+}
+
+const DEFAULT_FALLBACK_TEXT = 'I can help you add a stopover in Doha to your trip. Ask to see the stopover options to get started.';
+
+const textOf = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return Array.isArray(content)
+    ? content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('')
+    : '';
+};
+
+const readTurn = (options: LanguageModelV1CallOptions): ScriptedTurn => {
+  const userTexts = options.prompt.filter(message => message.role === 'user').map(message => textOf(message.content));
+  const toolArgs = new Map<string, any>();
+  const toolResults: ScriptedTurn['toolResults'] = [];
+
+  options.prompt.forEach(message => {
+    if (message.role === 'assistant') {
+      message.content.forEach(part => part.type === 'tool-call' && toolArgs.set(part.toolCallId, part.args));
+    }
+    if (message.role === 'tool') {
+      message.content.forEach(part => toolResults.push({
+        toolName: part.toolName,
+        args: toolArgs.get(part.toolCallId),
+        result: part.result
+      }));
+    }
+  });
+
+  return {
+    prompt: options.prompt,
+    userText: userTexts[userTexts.length - 1] || '',
+    userTexts,
+    toolResults,
+    tools: options.mode.type === 'regular' ? (options.mode.tools || []).map(tool => tool.name) : []
+  };
+};
+
+// Latest result from one of the named tools, newest first
+const latestResult = (turn: ScriptedTurn, toolName: string) =>
+  [...turn.toolResults].reverse().find(entry => entry.toolName === toolName && entry.result?.success)?.result;
+
+const latestQuoteId = (turn: ScriptedTurn): string | undefined =>
+  latestResult(turn, 'applyPromoCode')?.quoteId ?? latestResult(turn, 'selectExtras')?.quoteId;
+
+// Longest name first, so "Premium Beach" wins over "Premium"
+const findByName = <T extends { name: string }>(items: T[], text: string): T | undefined =>
+  [...items].sort((a, b) => b.name.length - a.name.length).find(item => text.toLowerCase().includes(item.name.toLowerCase()));
+
+const paymentMethodIn = (text: string): 'credit-card' | 'avios' | 'cash-avios' =>
+  /cash\s*(\+|and|&)\s*avios/i.test(text) ? 'cash-avios' : /avios/i.test(text) ? 'avios' : 'credit-card';
+
+const call = (toolName: string, args: Record<string, unknown>): ScriptedReply => ({ toolCalls: [{ toolName, args }] });
+
+/**
+ * Rules for the booking journey, matching the messages the chat UI sends for each selection
+ */
+export const bookingRules: ScriptedRule[] = [
+  // Payment form or Privilege Club sign-in submitted
+  turn => {
+    const form = turn.userText.match(/completed the form with the following details: (\{[\s\S]*\})/);
+    if (!form) {
+      return undefined;
+    }
+    let details: any;
+    try {
+      details = JSON.parse(form[1]);
+    } catch {
+      return { text: 'Sorry, I could not read the form. Please submit it again.' };
+    }
+    const quoteId = details.quoteId ?? latestQuoteId(turn);
+    if (details.signedIn) {
+      return call('initiatePayment', { quoteId, paymentMethod: details.paymentMethod || 'avios' });
+    }
+    return call('completeBooking', {
+      quoteId,
+      paymentData: {
+        method: details.paymentMethod || 'credit-card',
+        confirmed: true,
+        ...(details.card?.token ? { cardToken: details.card.token } : {}),
+        ...(details.aviosToUse ? { aviosToUse: details.aviosToUse } : {})
+      }
+    });
+  },
+
+  // Ready to pay for the summary
+  turn => {
+    if (!/proceed to payment|\bpay (now|with|by)\b/i.test(turn.userText)) {
+      return undefined;
+    }
+    const quoteId = latestQuoteId(turn);
+    if (!quoteId) {
+      return { text: 'Let\'s choose your extras first so I can put together your booking summary.' };
+    }
+    return call('initiatePayment', { paymentMethod: paymentMethodIn(turn.userText), quoteId });
+  },
+
+  // Extras chosen from the tours offered with the stopover dates
+  turn => {
+    if (!/to my booking|no extras|without extras/i.test(turn.userText)) {
+      return undefined;
+    }
+    const offered: any[] = latestResult(turn, 'selectTimingAndDuration')?.uiComponent?.data?.tours || [];
+    const named = offered.filter(tour => turn.userText.toLowerCase().includes(String(tour.name).toLowerCase()));
+    const count = parseInt(turn.userText.match(/(\d+) tours?/)?.[1] || '0');
+    const tours = named.length > 0 ? named : offered.slice(0, count);
+    const totalExtrasPrice = parseFloat(turn.userText.match(/Total extras: \$?([\d.]+)/)?.[1] || '0');
+
+    return call('selectExtras', {
+      includeTransfers: /transfer/i.test(turn.userText),
+      selectedTours: tours.map(tour => ({ tourId: tour.id, tourName: tour.name, totalPrice: tour.price })),
+      totalExtrasPrice
+    });
+  },
+
+  // Journey and nights, which the UI sends as separate messages
+  turn => {
+    const nights = turn.userText.match(/\b([1-4])\s+nights?\b/i);
+    const timing = turn.userText.match(/\b(outbound|return)\b/i);
+    if (!nights && !timing) {
+      return undefined;
+    }
+    if (!nights) {
+      return { text: `Great, a stopover on the ${timing![1].toLowerCase()} journey. How many nights would you like to stay in Doha? You can choose 1 to 4.` };
+    }
+
+    const earlierTiming = [...turn.userTexts].reverse().map(text => text.match(/\b(outbound|return)\b/i)).find(Boolean);
+    return call('selectTimingAndDuration', {
+      timing: (timing || earlierTiming)?.[1].toLowerCase() || 'outbound',
+      duration: parseInt(nights[1])
+    });
+  },
+
+  turn => {
+    const category = /categor/i.test(turn.userText) ? findByName(stopoverCategories, turn.userText) : undefined;
+    return category ? call('selectStopoverCategory', { categoryId: category.id, categoryName: category.name }) : undefined;
+  },
+
+  turn => {
+    const hotel = findByName(stopoverHotels, turn.userText);
+    return hotel ? call('selectHotel', { hotelId: hotel.id, hotelName: hotel.name }) : undefined;
+  },
+
+  turn => /stopover|doha|option|categor|book|start|hello|\bhi\b/i.test(turn.userText)
+    ? call('showStopoverCategories', {})
+    : undefined
+];
+
+/**
+ * Decide the reply for a turn: after tool calls, say what the last tool said;
+ * otherwise the first rule that matches, keeping only calls to tools that were offered
+ */
+export const getScriptedReply = (
+  options: LanguageModelV1CallOptions,
+  rules: ScriptedRule[] = bookingRules,
+  fallbackText: string = DEFAULT_FALLBACK_TEXT
+): ScriptedReply => {
+  const turn = readTurn(options);
+  const lastMessage = options.prompt[options.prompt.length - 1];
+  if (lastMessage?.role === 'tool') {
+    const lastResult = turn.toolResults[turn.toolResults.length - 1]?.result;
+    return { text: lastResult?.message || fallbackText };
+  }
+
+  for (const rule of rules) {
+    const reply = rule(turn);
+    if (!reply) {
+      continue;
+    }
+    const toolCalls = (reply.toolCalls || []).filter(toolCall => turn.tools.includes(toolCall.toolName));
+    if (toolCalls.length > 0 || reply.text) {
+      return { text: reply.text, toolCalls };
+    }
+  }
+  return { text: fallbackText };
+};
+
+// Rough token count for usage reporting; four characters a token
+const countTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Create a language model that answers from rules instead of a provider
+ */
+export function createScriptedModel({
+  modelId = 'scripted',
+  rules = bookingRules,
+  fallbackText = DEFAULT_FALLBACK_TEXT
+}: ScriptedModelOptions = {}): LanguageModelV1 {
+  const respond = (options: LanguageModelV1CallOptions) => {
+    const reply = getScriptedReply(options, rules, fallbackText);
+    // Ids only depend on the conversation, so repeated runs stream identical parts
+    const previousCalls = options.prompt.filter(message => message.role === 'tool').length;
+    const toolCalls = (reply.toolCalls || []).map((toolCall, index) => ({
+      toolCallType: 'function' as const,
+      toolCallId: `call_${previousCalls + 1}_${index + 1}`,
+      toolName: toolCall.toolName,
+      args: JSON.stringify(toolCall.args)
+    }));
+    const usage = {
+      promptTokens: countTokens(JSON.stringify(options.prompt)),
+      completionTokens: countTokens((reply.text || '') + toolCalls.map(toolCall => toolCall.args).join(''))
+    };
+    return {
+      text: reply.text,
+      toolCalls,
+      usage,
+      finishReason: toolCalls.length > 0 ? 'tool-calls' as const : 'stop' as const,
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+    };
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'scripted',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      return respond(options);
+    },
+
+    async doStream(options) {
+      const { text, toolCalls, usage, finishReason, rawCall } = respond(options);
+      const parts: LanguageModelV1StreamPart[] = [
+        // Stream word by word, like a provider would
+        ...(text ? text.split(/(?<= )/).map(textDelta => ({ type: 'text-delta' as const, textDelta })) : []),
+        ...toolCalls.map(toolCall => ({ type: 'tool-call' as const, ...toolCall })),
+        { type: 'finish', finishReason, usage }
+      ];
+
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            parts.forEach(part => controller.enqueue(part));
+            controller.close();
+          }
+        }),
+        rawCall
+      };
+    }
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Stopover day planner
+ * Lays out the flights, airport transfers and tours of a stopover day by day, and flags
+ * tours that clash with each other or do not fit between the flights
+ */
+
+import type {
+  DohaFlightTimes,
+  ItineraryDay,
+  ItineraryEvent,
+  ScheduleIssue,
+  StopoverDates,
+  StopoverItinerary,
+  TourOption
+} from '../types';
+import { tourProfiles } from '../data/tourData';
+import { addDays } from '../data/rateCalendar';
+import {
+  ARRIVAL_BUFFER_MINUTES,
+  DEPARTURE_BUFFER_MINUTES,
+  TRANSFER_MINUTES,
+  TIGHT_SCHEDULE_MINUTES,
+  getActivityWindows,
+  toMinutes,
+  formatMinutes
+} from '../data/scheduleData';
+
+export interface StopoverPlanRequest {
+  dates: StopoverDates;
+  nights: number;
+  times: DohaFlightTimes;
+  tours: TourOption[];
+  includeTransfers: boolean;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Plan a stopover. Each tour goes on the first day it fits without overlapping another;
+ * tours that fit nowhere are errors, and tours that leave little room around the flights are warnings.
+ */
+export function planStopover({ dates, nights, times, tours, includeTransfers }: StopoverPlanRequest): StopoverItinerary {
+  const days: ItineraryDay[] = Array.from({ length: nights + 1 }, (_, day) => ({
+    date: addDays(dates.checkIn, day),
+    events: []
+  }));
+  const issues: ScheduleIssue[] = [];
+
+  // Events timed from the arrival can run past midnight into the next day
+  const addEvent = (minutes: number, event: Omit<ItineraryEvent, 'startTime'>, durationMinutes?: number) => {
+    const day = Math.min(nights, Math.floor(minutes / MINUTES_PER_DAY));
+    days[day].events.push({
+      ...event,
+      startTime: formatMinutes(minutes),
+      ...(durationMinutes !== undefined ? { endTime: formatMinutes(minutes + durationMinutes) } : {})
+    });
+  };
+
+  const arrival = toMinutes(times.arrival);
+  const departure = toMinutes(times.departure) + nights * MINUTES_PER_DAY;
+  addEvent(arrival, { type: 'flight', title: times.arrivalFlight ? `${times.arrivalFlight} lands in Doha` : 'Land in Doha' });
+  if (includeTransfers) {
+    addEvent(arrival + ARRIVAL_BUFFER_MINUTES - TRANSFER_MINUTES, { type: 'transfer', title: 'Airport transfer to your hotel' }, TRANSFER_MINUTES);
+    addEvent(departure - DEPARTURE_BUFFER_MINUTES, { type: 'transfer', title: 'Transfer to Hamad International Airport' }, TRANSFER_MINUTES);
+  }
+  addEvent(departure, { type: 'flight', title: times.departureFlight ? `${times.departureFlight} departs Doha` : 'Onward flight departs' });
+
+  const windows = getActivityWindows(nights, times);
+  const placed: Array<{ day: number; start: number; end: number; tour: TourOption }> = [];
+
+  tours.forEach(tour => {
+    const profile = tourProfiles[tour.id];
+    if (!profile) {
+      return;
+    }
+
+    const start = toMinutes(profile.startTime);
+    const end = start + tour.durationMinutes;
+    const fitting = windows.filter(({ from, to }) => start >= from && end <= to);
+    const clashOn = (day: number) => placed.find(other => other.day === day && start < other.end && other.start < end);
+    const window = fitting.find(({ day }) => !clashOn(day));
+
+    if (!window) {
+      const clash = fitting.length > 0 ? clashOn(fitting[0].day) : undefined;
+      issues.push({
+        severity: 'error',
+        tourId: tour.id,
+        message: clash
+          ? `${tour.name} clashes with ${clash.tour.name} on every day of your stopover.`
+          : `${tour.name} (${tour.duration} from ${profile.startTime}) doesn't fit between your ${times.arrival} arrival and ${times.departure} departure.`
+      });
+      return;
+    }
+
+    placed.push({ day: window.day, start, end, tour });
+    days[window.day].events.push({
+      type: 'tour',
+      title: tour.name,
+      startTime: profile.startTime,
+      endTime: formatMinutes(end),
+      tourId: tour.id
+    });
+
+    if (window.day === 0 && start - window.from < TIGHT_SCHEDULE_MINUTES) {
+      issues.push({
+        severity: 'warning',
+        tourId: tour.id,
+        message: `${tour.name} starts at ${profile.startTime}, soon after you reach your hotel.`
+      });
+    }
+    if (window.day === nights && window.to - end < TIGHT_SCHEDULE_MINUTES) {
+      issues.push({
+        severity: 'warning',
+        tourId: tour.id,
+        message: `${tour.name} ends at ${formatMinutes(end)}, less than an hour before ${includeTransfers ? 'your airport transfer' : 'you need to leave for the airport'}.`
+      });
+    }
+  });
+
+  days.forEach(day => day.events.sort((a, b) => a.startTime.localeCompare(b.startTime)));
+  return { days, issues };
+}
@@ -4,10 +4,21 @@ import dotenv from 'dotenv';
 
 // Load environment variables explicitly
 dotenv.config();
-import { createLLMConfig, getModelWithFallback, validateServerLLMConfig } from '../../lib/llm-config-server';
-import { bookingFunctions } from '../../lib/booking-functions';
-import { securityMiddleware } from '../../utils/security';
-import { cacheMiddleware } from '../../utils/caching';
+import { getModelWithFallback, validateServerLLMConfig } from '../../lib/llm-config-server';
+import { createModelRegistry } from '../../lib/model-registry';
+import { modelCircuitBreaker, waitForFirstPart } from '../../lib/model-fallback';
+import { createBookingFunctions } from '../../lib/booking-functions';
+import { BookingSession, createBookingSessionStore } from '../../lib/booking-session';
+import { createCustomerSessions, customerSessionCookie } from '../../lib/customer-session';
+import { localPrivilegeClub } from '../../lib/privilege-club';
+import { createBookingLedger } from '../../lib/booking-ledger';
+import { createFxRateSource } from '../../lib/fx-rates';
+import { createAvailabilityService } from '../../lib/availability';
+import { isSupportedCurrency } from '../../data/currencyData';
+import { extractTourInterests } from '../../data/tourData';
+import { guardBookingFunctions, getAllowedTools, POST_BOOKING_TOOLS, READ_ONLY_TOOLS, QUOTE_TOOLS } from '../../lib/booking-flow';
+import { resolveChatProfile, SIMPLE_SYSTEM_PROMPT, TERSE_SYSTEM_PROMPT } from '../../lib/chat-profiles';
+import { security, securityMiddleware } from '../../utils/security';
 import { logger, analytics, errorReporter } from '../../utils/monitoring';
 import { measurePerformance } from '../../utils/performance';
 import { createDataAccessManager } from '../../lib/cloudflare/data-access';
@@ -24,6 +35,9 @@ CUSTOMER CONTEXT:
 - Booking PNR: ${booking?.pnr || 'N/A'}
 - Route: ${booking?.route?.origin || 'LHR'} → ${booking?.route?.destination || 'BKK'}
 - Passengers: ${booking?.passengers || 2}
+- Itinerary: ${booking?.route?.routing || 'LHR-BKK-LHR'}
+- Arrives in Doha: outbound ${booking?.travelDates?.outbound || 'date unknown'}, return ${booking?.travelDates?.return || 'no return journey'} (stopover nights start on the chosen journey's arrival date; hotel and tour prices vary by season)
+- Currency: ${customer?.currency || 'USD'} (quote and talk about prices in this currency)
 
 CONVERSATION GUIDELINES:
 1. Maintain Qatar Airways' professional yet friendly tone
@@ -37,27 +51,42 @@ CONVERSATION GUIDELINES:
 AVAILABLE FUNCTIONS:
 - showStopoverCategories: Display stopover category options
 - selectStopoverCategory: Process category selection and show hotels
-- selectHotel: Process hotel selection and show timing options
+- selectHotel: Process hotel selection and show the journeys on this booking that connect through Doha
 - selectTimingAndDuration: Process timing/duration and show extras
-- selectExtras: Process extras selection and show summary
-- initiatePayment: Start payment process
-- completeBooking: Finalize the booking
+- selectExtras: Process extras selection and show summary (tours must fit between the customer's flights)
+- showItinerary: Show the stopover day by day as a timeline of flights, transfers and tours
+- applyPromoCode: Apply a promo code the customer gives; bundle discounts (e.g. hotel + tour) are applied automatically
+- initiatePayment: Start payment process by credit card, Avios, or Cash + Avios (part Avios, part card) for the quoteId of the latest booking summary; Avios payments first ask the customer to sign in to Privilege Club, so call it again with the same method once they have signed in
+- completeBooking: Finalize the booking with the same quoteId once the customer has submitted the payment form, passing the cardToken from the form's card for card and Cash + Avios payments (never ask for card numbers in the chat)
+- amendStopover: Change the hotel, nights, timing, transfers or tours of a confirmed booking by PNR; only bookings made in this customer's session can be changed
+- cancelStopover: Cancel the stopover on a confirmed booking by PNR; only bookings made in this customer's session can be changed
 
 CURRENT STEP: ${currentStep || 'welcome'}
+AVAILABLE NOW: ${[
+  ...getAllowedTools(currentStep || 'welcome'),
+  ...READ_ONLY_TOOLS,
+  ...(currentStep === 'payment' || currentStep === 'confirmation' ? [] : QUOTE_TOOLS),
+  ...POST_BOOKING_TOOLS
+].join(', ')}
+
+If a function returns errorType "step-order", follow its allowedTools instead of retrying the same call.
+If completeBooking returns errorType "payment", the booking is not confirmed: tell the customer what the message says. When it has requiresAction, ask them to complete their bank's verification, then call completeBooking again.
+Never state or pass a payment amount yourself: every total comes from the quote selectExtras or applyPromoCode returned. If a quote has expired, call selectExtras again for a new one.
 
 Remember to be natural and conversational while guiding the customer through their stopover booking journey. Use the functions when the customer is ready to make selections or view options.`;
 };
 
+// Structured JSON error; every chat response carries the headers from the security middleware
+const errorResponse = (status: number, body: { error: string } & Record<string, unknown>, headers: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ ...body, retryable: status === 429 || status >= 500 }),
+    { status, headers: { 'Content-Type': 'application/json', ...headers } }
+  );
+
 export const OPTIONS: APIRoute = async ({ request }) => {
-  const origin = request.headers.get('origin') || '';
   return new Response(null, {
     status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': origin.includes('localhost') ? origin : 'http://localhost:4321',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-      'Access-Control-Max-Age': '86400',
-    },
+    headers: security.getCorsHeaders(request.headers.get('origin') || ''),
   });
 };
 
@@ -65,32 +94,35 @@ export const POST: APIRoute = async ({ request }) => {
   const startTime = Date.now();
   let tokensUsed = 0;
   let currentModel = 'unknown';
+
+  // CORS validation, rate limiting and security headers come before anything else
+  const securityCheck = securityMiddleware(request);
+  if (!securityCheck.allowed) {
+    logger.warn('Chat API request blocked', { errors: securityCheck.errors });
+    return errorResponse(
+      securityCheck.status || 429,
+      { error: 'Request blocked', details: securityCheck.errors || [] },
+      securityCheck.headers
+    );
+  }
   
   // Initialize data services (in production, env would be injected by Cloudflare Workers)
   const errorHandler = createErrorHandler();
+  const env = {
+    QATAR_STOPOVER_KV: null,
+    QATAR_STOPOVER_ASSETS: null,
+    CONVERSATION_STATE: null,
+  };
   let dataManager: any = null;
   
   try {
     // Try to initialize data services (will use fallbacks in development)
     try {
-      const env = {
-        QATAR_STOPOVER_KV: null,
-        QATAR_STOPOVER_ASSETS: null,
-        CONVERSATION_STATE: null,
-      };
       dataManager = createDataAccessManager(env);
     } catch (error) {
       logger.warn('Data services not available, using fallbacks', { error });
     }
     
-    // Basic CORS headers only (no complex security middleware for streaming)
-    const origin = request.headers.get('origin') || '';
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': origin.includes('localhost') ? origin : 'http://localhost:4321',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    };
-
     // Log request
     logger.info('Chat API request received', {
       url: request.url,
@@ -104,34 +136,62 @@ export const POST: APIRoute = async ({ request }) => {
       method: request.method,
     });
 
-    // Validate LLM configuration
-    if (!validateServerLLMConfig()) {
-      logger.error('LLM configuration invalid - missing API key');
-      return new Response(
-        JSON.stringify({ 
-          error: 'LLM configuration invalid. Please check environment variables.',
-          debug: process.env.NODE_ENV === 'development' ? 'OPENROUTER_API_KEY not found' : undefined
-        }),
-        { 
-          status: 500,
-          headers: { 
-            'Content-Type': 'application/json',
-            ...securityCheck.headers,
-          }
-        }
-      );
+    // Validate LLM configuration; the models come from KV config when bound, otherwise env vars
+    const modelRegistry = await createModelRegistry(env);
+    if (!validateServerLLMConfig(modelRegistry)) {
+      const configurationError = modelRegistry.getConfigurationError() || 'OPENROUTER_API_KEY not found';
+      logger.error(`LLM configuration invalid - ${configurationError}`);
+      return errorResponse(500, {
+        error: 'LLM configuration invalid. Please check environment variables.',
+        type: 'ConfigurationError',
+        debug: process.env.NODE_ENV === 'development' ? configurationError : undefined
+      }, securityCheck.headers);
     }
 
-    const { messages, conversationContext, sessionId, conversationId } = await request.json();
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, { error: 'Invalid JSON body', type: 'ValidationError' }, securityCheck.headers);
+    }
+    const { messages: receivedMessages, conversationContext, sessionId, conversationId, profile: requestedProfile } = body || {};
 
-    if (!messages || !Array.isArray(messages)) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid messages format' }),
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
+    if (!receivedMessages || !Array.isArray(receivedMessages)) {
+      return errorResponse(400, { error: 'Invalid messages format', type: 'ValidationError' }, securityCheck.headers);
+    }
+
+    // Debug behaviours (no tools, a terse prompt) come from a server-side profile the request names
+    const profile = resolveChatProfile(requestedProfile);
+    if (!profile) {
+      return errorResponse(400, { error: `Unknown chat profile: ${String(requestedProfile)}`, type: 'ValidationError' }, securityCheck.headers);
+    }
+
+    // Message text is sanitised, and card numbers typed into the chat are masked,
+    // before they reach the conversation state, the model or the logs
+    const messages = receivedMessages.map((message: any) =>
+      typeof message?.content === 'string'
+        ? { ...message, content: security.redactCardData(security.sanitizeInput(message.content)) }
+        : message
+    );
+
+    // The customer is identified by the server-issued session cookie, never by ids in the request body
+    const { session: customerSession, issued: sessionIssued } = await createCustomerSessions(env).resume(request);
+    if (sessionIssued) {
+      securityCheck.headers['Set-Cookie'] = customerSessionCookie(customerSession, request);
+    }
+
+    // Load the booking selections the tools carry between calls
+    const bookingSession = await BookingSession.load(
+      conversationId || sessionId || crypto.randomUUID(),
+      createBookingSessionStore(env, dataManager)
+    );
+    // A conversation belongs to the session that started it; another browser can't pick it up by its id
+    const conversationOwner = bookingSession.getState().customerSessionId;
+    if (conversationOwner && conversationOwner !== customerSession.id) {
+      return errorResponse(403, { error: 'Conversation belongs to another session', type: 'AuthorizationError' }, securityCheck.headers);
+    }
+    if (!conversationOwner) {
+      await bookingSession.update({ customerSessionId: customerSession.id });
     }
 
     // Handle conversation state management if data services are available
@@ -159,29 +219,98 @@ export const POST: APIRoute = async ({ request }) => {
       }
     }
 
+    if (bookingSession.getState().customer === undefined && conversationContext?.customer?.name) {
+      const { name, privilegeClubNumber, email } = conversationContext.customer;
+      await bookingSession.update({ customer: { name, privilegeClubNumber, ...(email ? { email } : {}) } });
+    }
+    if (bookingSession.getState().flightBooking === undefined && conversationContext?.booking?.pnr) {
+      const { pnr, status } = conversationContext.booking;
+      await bookingSession.update({ flightBooking: { pnr, status } });
+    }
+    if (bookingSession.getState().passengers === undefined && conversationContext?.booking?.passengers) {
+      await bookingSession.update({ passengers: conversationContext.booking.passengers });
+    }
+    if (bookingSession.getState().travelDates === undefined && conversationContext?.booking?.travelDates) {
+      await bookingSession.update({ travelDates: conversationContext.booking.travelDates });
+    }
+    if (bookingSession.getState().segments === undefined && conversationContext?.booking?.route?.segments) {
+      await bookingSession.update({ segments: conversationContext.booking.route.segments });
+    }
+    if (bookingSession.getState().flightTimes === undefined && conversationContext?.booking?.flightTimes) {
+      await bookingSession.update({ flightTimes: conversationContext.booking.flightTimes });
+    }
+    if (bookingSession.getState().passengerMix === undefined && conversationContext?.booking?.passengerMix) {
+      await bookingSession.update({ passengerMix: conversationContext.booking.passengerMix });
+    }
+    if (bookingSession.getState().currency === undefined && isSupportedCurrency(conversationContext?.customer?.currency)) {
+      await bookingSession.update({ currency: conversationContext.customer.currency });
+    }
+    // Avios are priced and redeemed for the member signed in to this session, with their account loaded from Privilege Club
+    if (customerSession.memberId && bookingSession.getState().privilegeClub?.memberId !== customerSession.memberId) {
+      const account = await localPrivilegeClub.getAccount(customerSession.memberId);
+      if (account) {
+        const { memberId, tierStatus, aviosBalance } = account;
+        await bookingSession.update({ privilegeClub: { memberId, tierStatus, aviosBalance } });
+      }
+    }
+    // Interests the customer mentions shape which tours are recommended
+    const latestMessage = messages[messages.length - 1];
+    const mentionedInterests = typeof latestMessage?.content === 'string' ? extractTourInterests(latestMessage.content) : [];
+    const knownInterests = bookingSession.getState().interests || [];
+    if (mentionedInterests.some(interest => !knownInterests.includes(interest))) {
+      await bookingSession.update({ interests: Array.from(new Set([...knownInterests, ...mentionedInterests])) });
+    }
+    const bookingLedger = createBookingLedger(env);
+    const fxRates = createFxRateSource(env);
+    const availability = createAvailabilityService(env);
+    // Every tool call is checked against the step transition table first
+    const tools = guardBookingFunctions(createBookingFunctions(bookingSession, bookingLedger, fxRates, availability), bookingSession);
+    const currentStep = bookingSession.getState().currentStep || 'welcome';
+
+    // One attempt per model in the fallback chain
     let attemptNumber = 0;
-    const maxAttempts = 3;
+    const maxAttempts = Math.max(modelRegistry.getChain({ requireTools: profile.tools }).length, 1);
+    const failedModels: string[] = [];
 
     // Measure LLM performance
     const result = await measurePerformance.llm(async () => {
+      let lastError: Error | undefined;
+
       while (attemptNumber < maxAttempts) {
+        const model = getModelWithFallback(attemptNumber, { requireTools: profile.tools, registry: modelRegistry });
+        currentModel = model.modelId || `attempt-${attemptNumber + 1}`;
+
+        // Skip a model that keeps failing until its circuit breaker lets a request through again
+        if (!modelCircuitBreaker.allowRequest(currentModel)) {
+          logger.warn(`Skipping model with open circuit breaker: ${currentModel}`, { attempt: attemptNumber + 1 });
+          attemptNumber++;
+          continue;
+        }
+
+        const abortController = new AbortController();
         try {
-          const model = getModelWithFallback(attemptNumber);
-          currentModel = model.modelId || `attempt-${attemptNumber + 1}`;
-          
           logger.debug(`Attempting LLM request with model: ${currentModel}`, {
             attempt: attemptNumber + 1,
             totalAttempts: maxAttempts,
+            profile: profile.name,
           });
 
           const result = await streamText({
             model,
             messages,
-            tools: bookingFunctions,
-            system: generateSystemPrompt(conversationContext || {}),
-            temperature: createLLMConfig().temperature,
+            ...(profile.tools ? { tools } : {}),
+            system: profile.prompt === 'booking'
+              ? generateSystemPrompt({ ...conversationContext, currentStep })
+              : profile.prompt === 'terse' ? TERSE_SYSTEM_PROMPT : SIMPLE_SYSTEM_PROMPT,
+            temperature: modelRegistry.settings.temperature,
+            ...(profile.maxTokens ? { maxTokens: profile.maxTokens } : {}),
+            abortSignal: abortController.signal,
           });
 
+          // Errors while streaming only reach the client after this, so fall back on any before the first part
+          await waitForFirstPart(result, modelRegistry.get(currentModel)?.timeoutMs ?? 30000, abortController);
+          modelCircuitBreaker.recordSuccess(currentModel);
+
           logger.info('LLM request successful', {
             model: currentModel,
             attempt: attemptNumber + 1,
@@ -189,6 +318,11 @@ export const POST: APIRoute = async ({ request }) => {
 
           return result;
         } catch (error: any) {
+          abortController.abort();
+          modelCircuitBreaker.recordFailure(currentModel);
+          failedModels.push(currentModel);
+          lastError = error;
+
           logger.error(`LLM attempt ${attemptNumber + 1} failed`, {
             model: currentModel,
             error: error.message,
@@ -210,8 +344,8 @@ export const POST: APIRoute = async ({ request }) => {
         }
       }
       
-      throw new Error('All LLM models failed');
-    }, currentModel, { messagesCount: messages.length });
+      throw lastError || new Error('All models are temporarily unavailable');
+    }, () => currentModel, { messagesCount: messages.length });
 
     // Track successful LLM metrics
     const responseTime = Date.now() - startTime;
@@ -220,15 +354,20 @@ export const POST: APIRoute = async ({ request }) => {
       tokensUsed,
       responseTime,
       success: true,
+      attempts: attemptNumber + 1,
+      failedModels,
     });
 
-    // Create streaming response with minimal headers
-    const response = result.toTextStreamResponse();
+    // Data stream, so useChat receives tool calls and their results as toolInvocations
+    const response = result.toDataStreamResponse();
     
-    // Add only essential headers for streaming
-    Object.entries(corsHeaders).forEach(([key, value]) => {
+    // Security, CORS and rate limit headers on the stream as on every other response,
+    // and which model answered after any fallback
+    Object.entries(securityCheck.headers).forEach(([key, value]) => {
       response.headers.set(key, value);
     });
+    response.headers.set('X-Model-Used', currentModel);
+    response.headers.set('X-Model-Attempts', String(attemptNumber + 1));
     
     // Ensure no compression or caching for streaming
     response.headers.set('Cache-Control', 'no-cache');
@@ -236,6 +375,7 @@ export const POST: APIRoute = async ({ request }) => {
 
     logger.info('Chat API request completed successfully', {
       model: currentModel,
+      profile: profile.name,
       responseTime,
       tokensUsed,
     });
@@ -280,21 +420,14 @@ export const POST: APIRoute = async ({ request }) => {
     } else if (error.message?.includes('authentication')) {
       errorMessage = 'Authentication failed. Please check API configuration.';
       statusCode = 401;
+    } else if (error.message?.includes('temporarily unavailable')) {
+      errorMessage = 'The assistant is temporarily unavailable. Please try again in a moment.';
+      statusCode = 503;
     }
 
-    return new Response(
-      JSON.stringify({ 
-        error: errorMessage,
-        type: error.name || 'UnknownError',
-        retryable: statusCode === 429 || statusCode >= 500
-      }),
-      { 
-        status: statusCode,
-        headers: { 
-          'Content-Type': 'application/json',
-          ...corsHeaders,
-        }
-      }
-    );
+    return errorResponse(statusCode, {
+      error: errorMessage,
+      type: error.name || 'UnknownError',
+    }, securityCheck.headers);
   }
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+/**
+ * API endpoint for the 3-D Secure challenge page
+ * The customer passes or fails their bank's check here; the booking tools then capture
+ * the same authorisation when the customer confirms the booking again in the chat
+ */
+
+import type { APIRoute } from 'astro';
+import { localPaymentProvider } from '../../../../lib/payment-provider';
+import { security, securityMiddleware } from '../../../../utils/security';
+import { logger } from '../../../../utils/monitoring';
+
+export const OPTIONS: APIRoute = async ({ request }) => {
+  return new Response(null, {
+    status: 200,
+    headers: security.getCorsHeaders(request.headers.get('origin') || ''),
+  });
+};
+
+export const POST: APIRoute = async ({ params, request }) => {
+  const securityCheck = securityMiddleware(request);
+  const headers = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...securityCheck.headers,
+  };
+
+  if (!securityCheck.allowed) {
+    return new Response(
+      JSON.stringify({ success: false, error: securityCheck.errors?.[0] || 'Request not allowed' }),
+      { status: securityCheck.status ?? 429, headers }
+    );
+  }
+
+  let passed = true;
+  try {
+    ({ passed = true } = await request.json());
+  } catch {
+    return new Response(JSON.stringify({ success: false, error: 'Invalid JSON body' }), { status: 400, headers });
+  }
+
+  try {
+    const payment = localPaymentProvider.completeChallenge(params.id || '', passed !== false);
+    return new Response(
+      JSON.stringify({ success: payment.status === 'authorised', status: payment.status, cardLast4: payment.cardLast4 }),
+      { status: 200, headers }
+    );
+  } catch (error) {
+    logger.warn('3-D Secure challenge could not be completed', {
+      paymentId: params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return new Response(
+      JSON.stringify({ success: false, error: 'No 3-D Secure check is waiting for this payment' }),
+      { status: 409, headers }
+    );
+  }
+};
@@ -0,0 +1,72 @@
+/**
+ * API endpoint for tokenising cards from the payment form
+ * Card details go straight to the payment provider; only the token, brand and last 4 digits come back,
+ * so the card number and CVV never enter the chat transcript, the conversation state or the logs
+ */
+
+import type { APIRoute } from 'astro';
+import { localPaymentProvider } from '../../../lib/payment-provider';
+import { validatePaymentForm } from '../../../utils/form-utils';
+import { security, securityMiddleware } from '../../../utils/security';
+import { logger } from '../../../utils/monitoring';
+
+export const OPTIONS: APIRoute = async ({ request }) => {
+  return new Response(null, {
+    status: 200,
+    headers: security.getCorsHeaders(request.headers.get('origin') || ''),
+  });
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const securityCheck = securityMiddleware(request);
+  const headers = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...securityCheck.headers,
+  };
+
+  if (!securityCheck.allowed) {
+    return new Response(
+      JSON.stringify({ success: false, error: securityCheck.errors?.[0] || 'Request not allowed' }),
+      { status: securityCheck.status ?? 429, headers }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = undefined;
+  }
+  if (!body || typeof body !== 'object') {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+      { status: 400, headers }
+    );
+  }
+
+  try {
+    const { cardNumber, expiryDate, cvv, nameOnCard } = body as Record<string, string>;
+    const card = { cardNumber, expiryDate, cvv, nameOnCard };
+
+    const errors = validatePaymentForm({ ...card, paymentMethod: 'credit-card' });
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid card details', errors }),
+        { status: 400, headers }
+      );
+    }
+
+    const { token, brand, last4 } = await localPaymentProvider.tokenise(card);
+    return new Response(JSON.stringify({ success: true, token, brand, last4 }), { status: 200, headers });
+  } catch (error) {
+    // The request body holds the card, so only the error message is logged
+    logger.error('Card tokenisation failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return new Response(
+      JSON.stringify({ success: false, error: 'Card could not be tokenised' }),
+      { status: 500, headers }
+    );
+  }
+};
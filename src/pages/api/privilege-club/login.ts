@@ -0,0 +1,83 @@
+/**
+ * API endpoint for signing in to Privilege Club from the chat
+ * The email and password are checked here and never enter the chat; the signed-in member is recorded on the
+ * customer's server-issued session, and the booking tools load their account from Privilege Club for it
+ */
+
+import type { APIRoute } from 'astro';
+import { localPrivilegeClub } from '../../../lib/privilege-club';
+import { localCustomerSessions, customerSessionCookie } from '../../../lib/customer-session';
+import { validateLoginForm } from '../../../utils/form-utils';
+import { security, securityMiddleware } from '../../../utils/security';
+import { logger } from '../../../utils/monitoring';
+
+export const OPTIONS: APIRoute = async ({ request }) => {
+  return new Response(null, {
+    status: 200,
+    headers: security.getCorsHeaders(request.headers.get('origin') || ''),
+  });
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const securityCheck = securityMiddleware(request);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...securityCheck.headers,
+  };
+
+  if (!securityCheck.allowed) {
+    return new Response(
+      JSON.stringify({ success: false, error: securityCheck.errors?.[0] || 'Request not allowed' }),
+      { status: securityCheck.status ?? 429, headers }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = undefined;
+  }
+  if (!body || typeof body !== 'object') {
+    return new Response(JSON.stringify({ success: false, error: 'Invalid JSON body' }), { status: 400, headers });
+  }
+
+  try {
+    const { email, password } = body as Record<string, string>;
+    const errors = validateLoginForm({ email, password });
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid login details', errors }),
+        { status: 400, headers }
+      );
+    }
+
+    // The same answer whether the email or the password is wrong, so member emails can't be probed
+    const account = await localPrivilegeClub.signIn(email, password);
+    if (!account) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Your email or password is incorrect' }),
+        { status: 401, headers }
+      );
+    }
+
+    const { session, issued } = await localCustomerSessions.resume(request);
+    await localCustomerSessions.signIn(session, account.memberId);
+    if (issued) {
+      headers['Set-Cookie'] = customerSessionCookie(session, request);
+    }
+
+    const { memberName, tierStatus, aviosBalance } = account;
+    return new Response(JSON.stringify({ success: true, memberName, tierStatus, aviosBalance }), { status: 200, headers });
+  } catch (error) {
+    // The request body holds the password, so only the error message is logged
+    logger.error('Privilege Club sign-in failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return new Response(
+      JSON.stringify({ success: false, error: 'Privilege Club sign-in is unavailable' }),
+      { status: 500, headers }
+    );
+  }
+};
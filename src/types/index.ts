@@ -3,6 +3,7 @@ export interface CustomerData {
   name: string;
   privilegeClubNumber: string;
   email?: string;
+  currency?: Currency; // Market currency prices are quoted in, USD when unset
 }
 
 export interface BookingData {
@@ -10,13 +11,69 @@ export interface BookingData {
   route: FlightRoute;
   passengers: number;
   status: 'confirmed' | 'pending' | 'cancelled';
+  travelDates?: TravelDates;
+  flightTimes?: FlightTimes;
+  passengerMix?: PassengerMix;
+}
+
+// Party make-up on the booking; children are 2-11 and infants under 2
+export interface PassengerMix {
+  adults: number;
+  children: number;
+  infants: number;
 }
 
 export interface FlightRoute {
   origin: string;
   destination: string;
-  stops: string[];
+  stops: string[]; // Connection airports, e.g. ['DOH']
   routing: string;
+  segments?: FlightSegment[];
+}
+
+export type TripType = 'one-way' | 'return' | 'open-jaw' | 'multi-city';
+
+// Journey a stopover can be added to
+export type StopoverTiming = 'outbound' | 'return';
+
+// A Doha connection on the itinerary where a stopover can be added
+export interface StopoverPosition {
+  timing: StopoverTiming;
+  from: string; // Airport the journey starts from
+  to: string; // Airport the journey ends at
+  arrival: FlightSegment; // Flight landing in Doha
+  departure: FlightSegment; // Onward flight from Doha
+}
+
+// One flight on the itinerary; times are local at each airport (YYYY-MM-DDTHH:mm)
+export interface FlightSegment {
+  flightNumber: string;
+  origin: string;
+  destination: string;
+  departure: string;
+  arrival: string;
+}
+
+// Dates the itinerary lands in Doha on each journey (ISO yyyy-mm-dd)
+export interface TravelDates {
+  outbound: string;
+  return?: string; // One-way trips have no return journey
+}
+
+// Local Doha times (HH:mm) a stopover on each journey starts and ends
+export interface DohaFlightTimes {
+  arrival: string;
+  departure: string;
+  arrivalFlight?: string;
+  departureFlight?: string;
+}
+
+export type FlightTimes = Partial<Record<StopoverTiming, DohaFlightTimes>>;
+
+// Hotel nights of a stopover; checkOut is the morning the onward flight leaves
+export interface StopoverDates {
+  checkIn: string;
+  checkOut: string;
 }
 
 // Stopover-Specific Models
@@ -32,10 +89,12 @@ export interface StopoverCategory {
 
 export interface HotelOption {
   id: string;
+  stopoverCategoryId: string; // StopoverCategory the hotel is offered under
   name: string;
-  category: '4-star' | '5-star' | '5-star deluxe';
+  category: '3-star' | '4-star' | '5-star' | '5-star deluxe';
   starRating: number;
-  pricePerNight: number;
+  pricePerNight: number; // Per room
+  maxOccupancy: number; // Guests per room
   image: string;
   amenities: string[];
 }
@@ -45,6 +104,7 @@ export interface TourOption {
   name: string;
   description: string;
   duration: string;
+  durationMinutes: number; // Parsed from duration, for scheduling
   price: number;
   image: string;
   highlights: string[];
@@ -55,6 +115,7 @@ export interface SelectedTour {
   tour: TourOption;
   quantity: number;
   totalPrice: number;
+  date?: string; // Day the stopover planner puts the tour on (ISO yyyy-mm-dd); the first day until planned
 }
 
 export interface TransferOption {
@@ -74,6 +135,8 @@ export interface SelectedExtras {
 export interface StopoverSelection {
   timing: 'outbound' | 'return';
   duration: number;
+  dates?: StopoverDates; // Priced at catalog rates when unset
+  passengers: number;
   stopovertype: StopoverCategory;
   hotel: HotelOption;
   extras: SelectedExtras;
@@ -85,16 +148,21 @@ export interface LoginData {
   password: string;
 }
 
+export type TierStatus = 'Silver' | 'Gold' | 'Platinum';
+
 export interface PrivilegeClubAccount {
   memberId: string;
   memberName: string;
-  tierStatus: 'Silver' | 'Gold' | 'Platinum';
+  tierStatus: TierStatus;
   aviosBalance: number;
   isLoggedIn: boolean;
 }
 
+// Cash + Avios puts part of the total on Avios and charges the rest to a card
+export type PaymentMethod = 'credit-card' | 'avios' | 'cash-avios';
+
 export interface PaymentData {
-  method: 'credit-card' | 'avios';
+  method: PaymentMethod;
   creditCard?: CreditCardData;
   aviosRedemption?: AviosPaymentData;
 }
@@ -106,10 +174,44 @@ export interface CreditCardData {
   nameOnCard: string;
 }
 
+// Card held by the payment provider: the token and masked summary are all the chat ever sees of it
+export interface CardToken {
+  token: string;
+  brand: string;
+  last4: string;
+}
+
+// Card payment lifecycle at the payment provider: authorised (after any 3-D Secure challenge),
+// then captured when the booking is confirmed, or voided; refunds go back against the capture
+export type PaymentStatus =
+  | 'pending'
+  | 'requires-action'
+  | 'authorised'
+  | 'declined'
+  | 'captured'
+  | 'voided'
+  | 'partially-refunded'
+  | 'refunded';
+
+// Card payment as the payment provider records it
+export interface ProviderPayment {
+  id: string;
+  reference: string; // Quote the payment was taken for
+  amount: number; // Authorised amount
+  currency: Currency;
+  status: PaymentStatus;
+  capturedAmount: number;
+  refundedAmount: number;
+  cardLast4: string;
+  challengeUrl?: string; // Where the customer completes 3-D Secure while the payment requires action
+  declineReason?: string;
+}
+
 export interface AviosPaymentData {
   aviosUsed: number;
   remainingBalance: number;
-  conversionRate: number; // 125 Avios per $1
+  conversionRate: number; // Avios per $1 at the member's tier
+  cashAmount: number; // Charged to card in the quote currency, 0 when paying fully with Avios
 }
 
 // Message and Interaction Models
@@ -135,7 +237,7 @@ export interface MessageMetadata {
 }
 
 export interface RichContent {
-  type: 'carousel' | 'card' | 'form' | 'summary' | 'stopover-categories' | 'hotels' | 'stopover-options' | 'stopover-extras' | 'tours';
+  type: 'carousel' | 'card' | 'form' | 'summary' | 'stopover-categories' | 'hotels' | 'stopover-options' | 'stopover-extras' | 'tours' | 'itinerary-timeline';
   data: any;
 }
 
@@ -183,9 +285,14 @@ export interface FormContent {
   fields: FormField[];
   submitLabel: string;
   data?: {
+    quoteId?: string; // Quote the payment is taken against
     totalAmount?: number;
     totalAviosPrice?: number;
     aviosBalance?: number;
+    tierStatus?: TierStatus;
+    currency?: Currency;
+    aviosToUse?: number; // Starting Cash + Avios allocation
+    paymentMethod?: PaymentMethod; // Method the payment was started with; the form is locked to it
   };
 }
 
@@ -228,14 +335,98 @@ export type ConversationStep =
   | 'payment'
   | 'confirmation';
 
+export interface StepTransition {
+  from: ConversationStep;
+  to: ConversationStep;
+  tool: string;
+  timestamp: number;
+}
+
 // Pricing and Booking State Models
+// Currencies customers can be quoted in; the catalog is priced in USD
+export type Currency = 'USD' | 'GBP' | 'EUR' | 'QAR' | 'THB';
+
+// Exchange rates from USD captured at a point in time
+export interface FxSnapshot {
+  base: 'USD';
+  rates: Record<Currency, number>;
+  asOf: string;
+  source: 'kv' | 'local';
+}
+
+// Kinds of promo code marketing hands out
+export type PromoCodeType = 'percent-off' | 'fixed-off' | 'free-transfer' | 'free-night';
+
+export interface PromoCode {
+  code: string;
+  type: PromoCodeType;
+  description: string;
+  value?: number; // Percent for percent-off, USD for fixed-off
+  minimumNights?: number;
+  validFrom?: string; // First stopover check-in date the code applies to (ISO yyyy-mm-dd)
+  validUntil?: string; // Last stopover check-in date the code applies to (ISO yyyy-mm-dd)
+}
+
+// Discount applied automatically when a stopover combines enough of the package
+export interface BundleDiscount {
+  id: string;
+  label: string;
+  minimumNights?: number;
+  minimumTours?: number; // Different tours booked with the hotel
+  requiresTransfers?: boolean;
+  percentOff: number;
+  appliesTo: Array<'hotelCost' | 'transfersCost' | 'toursCost'>;
+}
+
+// One discount line on a quote, in the quote's currency
+export interface PricingDiscount {
+  source: 'promo-code' | 'bundle';
+  id: string; // Promo code or bundle id
+  label: string;
+  amount: number; // Taken off the total
+}
+
+// Taxes and fees added to a quote; the card surcharge is added once the payment method is known
+export type PricingTaxType = 'tourism-fee' | 'vat' | 'card-surcharge';
+
+// One tax or fee line on a quote, in the quote's currency
+export interface PricingTax {
+  type: PricingTaxType;
+  label: string;
+  amount: number;
+}
+
 export interface PricingBreakdown {
+  currency: Currency;
   hotelCost: number;
   flightFareDifference: number;
   transfersCost: number;
   toursCost: number;
+  discounts?: PricingDiscount[]; // Bundle and promo code discounts, already taken off totalCashPrice
+  taxes?: PricingTax[]; // Taxes and fees, already included in totalCashPrice
   totalCashPrice: number;
   totalAviosPrice: number;
+  fxSnapshot?: FxSnapshot; // Locked when the quote is converted from USD
+}
+
+// One priced line of a quote, in the quote's currency; discounts are negative
+export interface QuoteLineItem {
+  type: 'hotel' | 'flight' | 'transfers' | 'tour' | 'discount' | 'tax';
+  label: string;
+  amount: number;
+}
+
+// Server-side quote the booking summary shows and payment is taken against
+export interface Quote {
+  id: string;
+  currency: Currency;
+  lineItems: QuoteLineItem[];
+  total: number; // Cash total, before any card surcharge
+  cardTotal: number; // What paying the whole total by card charges, card surcharge included
+  breakdown: PricingBreakdown;
+  createdAt: number;
+  expiresAt: number;
+  hash: string; // Over everything above, so a changed quote is refused at payment
 }
 
 export interface BookingState {
@@ -243,10 +434,117 @@ export interface BookingState {
   originalBooking: BookingData;
   stopoverSelection?: StopoverSelection;
   pricing?: PricingBreakdown;
-  paymentStatus: 'pending' | 'processing' | 'completed';
+  paymentStatus: PaymentStatus;
+}
+
+// Catalog price for a product over an inclusive date range (ISO yyyy-mm-dd)
+export interface RatePeriod {
+  season: string;
+  startDate: string;
+  endDate: string;
+  price: number;
+}
+
+// Rate periods per hotel or tour id; dates outside every period use the catalog price
+export type RateCalendar = Record<string, RatePeriod[]>;
+
+// Rooms held or sold for one hotel night, or seats for one tour departure (ISO yyyy-mm-dd)
+export interface InventoryItem {
+  type: 'room' | 'tour';
+  productId: string;
+  date: string;
+  quantity: number;
+}
+
+// Short-lived hold on inventory while a customer reviews and pays, one per conversation
+export interface InventoryHold {
+  conversationId: string;
+  items: InventoryItem[];
+  expiresAt: number;
+}
+
+// Inventory item that cannot be held, with what is left
+export interface AvailabilityShortfall {
+  item: InventoryItem;
+  remaining: number;
+}
+
+// Refund or extra charge raised when a confirmed booking is amended or cancelled
+export interface BookingAdjustment {
+  reason: 'amendment' | 'cancellation';
+  type: 'refund' | 'charge' | 'none';
+  amount: number;
+  currency: Currency | 'AVIOS';
+  aviosAmount?: number; // Avios returned alongside a cash refund on Cash + Avios bookings
+  previousTotal: number;
+  newTotal: number;
+  timestamp: number;
+}
+
+// Confirmed stopover booking stored in the booking ledger, looked up by PNR
+export interface ConfirmedBooking {
+  pnr: string;
+  conversationId: string;
+  customerSessionId?: string; // Server-issued session that made the booking, which can amend or cancel it
+  memberId?: string; // Privilege Club member signed in when it was booked, who can also amend or cancel it
+  status: BookingData['status'];
+  bookingState: BookingState;
+  paymentMethod: PaymentMethod;
+  paymentId?: string; // Payment provider's id for the card payment, which refunds go against
+  aviosRedemption?: AviosPaymentData;
+  adjustments?: BookingAdjustment[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Stopover Itinerary Models
+export interface ItineraryEvent {
+  type: 'flight' | 'transfer' | 'tour';
+  title: string;
+  startTime: string; // Local Doha time (HH:mm)
+  endTime?: string;
+  tourId?: string;
+}
+
+export interface ItineraryDay {
+  date: string;
+  events: ItineraryEvent[];
+}
+
+// Errors block a booking; warnings are shown with it
+export interface ScheduleIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  tourId?: string;
+}
+
+export interface StopoverItinerary {
+  days: ItineraryDay[];
+  issues: ScheduleIssue[];
 }
 
 // Tour Recommendation Models
+export type TourInterest = 'marine-life' | 'culture' | 'adventure' | 'sightseeing' | 'food' | 'photography';
+
+// What makes a tour a good fit, used to score recommendations
+export interface TourProfile {
+  interests: TourInterest[];
+  startTime: string; // Local departure time (HH:mm)
+  minimumAge: number; // 0 when infants can join
+  bestMonths: number[]; // 1-12, empty when the tour is as good all year
+  inSeasonReason?: string;
+  offSeasonReason?: string;
+}
+
+// Everything known about the stopover that tour recommendations are scored against
+export interface TourRecommendationContext {
+  dates?: StopoverDates;
+  nights: number;
+  times?: DohaFlightTimes;
+  passengerMix?: PassengerMix;
+  interests?: TourInterest[];
+}
+
 export interface RecommendedTour extends TourOption {
   isRecommended: boolean;
   recommendationReason: string;
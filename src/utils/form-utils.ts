@@ -1,14 +1,47 @@
 // Form utility functions for input masking and validation
 
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'diners' | 'jcb' | 'unionpay' | 'unknown';
+
+interface CardBrandRules {
+  label: string;
+  iinRanges: Array<[string, string]>; // Inclusive ranges of leading digits
+  lengths: number[];
+  cvvLength: number;
+  gaps: number[]; // Digit positions a space goes before
+}
+
+const DEFAULT_GAPS = [4, 8, 12, 16];
+const MAX_CARD_LENGTH = 19;
+
+export const CARD_BRANDS: Record<Exclude<CardBrand, 'unknown'>, CardBrandRules> = {
+  visa: { label: 'Visa', iinRanges: [['4', '4']], lengths: [13, 16, 19], cvvLength: 3, gaps: DEFAULT_GAPS },
+  mastercard: { label: 'Mastercard', iinRanges: [['51', '55'], ['2221', '2720']], lengths: [16], cvvLength: 3, gaps: DEFAULT_GAPS },
+  amex: { label: 'American Express', iinRanges: [['34', '34'], ['37', '37']], lengths: [15], cvvLength: 4, gaps: [4, 10] },
+  diners: { label: 'Diners Club', iinRanges: [['300', '305'], ['3095', '3095'], ['36', '36'], ['38', '39']], lengths: [14, 15, 16, 17, 18, 19], cvvLength: 3, gaps: [4, 10] },
+  jcb: { label: 'JCB', iinRanges: [['3528', '3589']], lengths: [16, 17, 18, 19], cvvLength: 3, gaps: DEFAULT_GAPS },
+  unionpay: { label: 'UnionPay', iinRanges: [['62', '62']], lengths: [16, 17, 18, 19], cvvLength: 3, gaps: DEFAULT_GAPS }
+};
+
+const cardDigits = (cardNumber: string): string => (cardNumber || '').replace(/\D/g, '');
+
+// Brand rules for a card number, once enough digits are typed to tell
+const getCardBrandRules = (cardNumber: string): CardBrandRules | undefined => {
+  const brand = getCardType(cardNumber);
+  return brand === 'unknown' ? undefined : CARD_BRANDS[brand];
+};
+
 export const formatCreditCardNumber = (value: string): string => {
-  // Remove all non-digit characters
-  const digits = value.replace(/\D/g, '');
+  const rules = getCardBrandRules(value);
+  const gaps = rules?.gaps || DEFAULT_GAPS;
   
-  // Add spaces every 4 digits
-  const formatted = digits.replace(/(\d{4})(?=\d)/g, '$1 ');
+  // Remove all non-digit characters, up to the longest number the brand issues
+  const digits = cardDigits(value).substring(0, rules ? Math.max(...rules.lengths) : MAX_CARD_LENGTH);
   
-  // Limit to 19 characters (16 digits + 3 spaces)
-  return formatted.substring(0, 19);
+  // Add spaces where the brand groups its digits
+  return digits
+    .split('')
+    .map((digit, index) => (gaps.includes(index) ? ` ${digit}` : digit))
+    .join('');
 };
 
 export const formatExpiryDate = (value: string): string => {
@@ -23,15 +56,31 @@ export const formatExpiryDate = (value: string): string => {
   return digits;
 };
 
-export const formatCVV = (value: string): string => {
-  // Remove all non-digit characters and limit to 4 digits
-  return value.replace(/\D/g, '').substring(0, 4);
+export const formatCVV = (value: string, cardNumber: string = ''): string => {
+  // Remove all non-digit characters and limit to the card's CVV length (4 digits before the brand is known)
+  return value.replace(/\D/g, '').substring(0, getCardBrandRules(cardNumber)?.cvvLength || 4);
+};
+
+export const passesLuhnCheck = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    // Double every second digit from the right
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
 };
 
 export const validateCreditCardNumber = (cardNumber: string): boolean => {
-  // Remove spaces and check if it's 16 digits
-  const digits = cardNumber.replace(/\s/g, '');
-  return /^\d{16}$/.test(digits);
+  // Spaces and dashes are allowed as typed; the rest must be a number of a brand we accept, of that brand's length
+  if (!/^[\d\s-]+$/.test(cardNumber || '')) return false;
+  const digits = cardDigits(cardNumber);
+  const rules = getCardBrandRules(digits);
+  return !!rules && rules.lengths.includes(digits.length) && passesLuhnCheck(digits);
 };
 
 export const validateExpiryDate = (expiryDate: string): boolean => {
@@ -50,8 +99,9 @@ export const validateExpiryDate = (expiryDate: string): boolean => {
   return year > currentYear || (year === currentYear && month >= currentMonth);
 };
 
-export const validateCVV = (cvv: string): boolean => {
-  return /^\d{3,4}$/.test(cvv);
+export const validateCVV = (cvv: string, cardNumber: string = ''): boolean => {
+  const cvvLength = getCardBrandRules(cardNumber)?.cvvLength;
+  return cvvLength ? new RegExp(`^\\d{${cvvLength}}$`).test(cvv) : /^\d{3,4}$/.test(cvv);
 };
 
 export const validateEmail = (email: string): boolean => {
@@ -59,14 +109,23 @@ export const validateEmail = (email: string): boolean => {
   return emailRegex.test(email);
 };
 
-export const getCardType = (cardNumber: string): string => {
-  const digits = cardNumber.replace(/\s/g, '');
+export const getCardType = (cardNumber: string): CardBrand => {
+  const digits = cardDigits(cardNumber);
   
-  if (digits.startsWith('4')) return 'visa';
-  if (digits.startsWith('5') || digits.startsWith('2')) return 'mastercard';
-  if (digits.startsWith('3')) return 'amex';
+  // Compare the leading digits with each brand's IIN ranges; a brand is only known once enough digits are typed
+  const brands = Object.keys(CARD_BRANDS) as Array<Exclude<CardBrand, 'unknown'>>;
+  const brand = brands.find(candidate =>
+    CARD_BRANDS[candidate].iinRanges.some(([start, end]) => {
+      const prefix = digits.substring(0, start.length);
+      return prefix.length === start.length && prefix >= start && prefix <= end;
+    })
+  );
   
-  return 'unknown';
+  return brand || 'unknown';
+};
+
+export const getCardBrandLabel = (brand: CardBrand): string => {
+  return brand === 'unknown' ? '' : CARD_BRANDS[brand].label;
 };
 
 export interface ValidationError {
@@ -77,17 +136,21 @@ export interface ValidationError {
 export const validatePaymentForm = (formData: any): ValidationError[] => {
   const errors: ValidationError[] = [];
   
-  if (formData.paymentMethod === 'credit-card') {
+  // Avios come from the member already signed in to Privilege Club; Cash + Avios also needs a card for the cash share
+  const paysByCard = formData.paymentMethod === 'credit-card' || formData.paymentMethod === 'cash-avios';
+
+  if (paysByCard) {
     if (!formData.cardNumber || !validateCreditCardNumber(formData.cardNumber)) {
-      errors.push({ field: 'cardNumber', message: 'Please enter a valid 16-digit card number' });
+      errors.push({ field: 'cardNumber', message: 'Please enter a valid card number' });
     }
     
     if (!formData.expiryDate || !validateExpiryDate(formData.expiryDate)) {
       errors.push({ field: 'expiryDate', message: 'Please enter a valid expiry date (MM/YY)' });
     }
     
-    if (!formData.cvv || !validateCVV(formData.cvv)) {
-      errors.push({ field: 'cvv', message: 'Please enter a valid CVV (3-4 digits)' });
+    if (!formData.cvv || !validateCVV(formData.cvv, formData.cardNumber)) {
+      const cvvLength = getCardBrandRules(formData.cardNumber)?.cvvLength;
+      errors.push({ field: 'cvv', message: `Please enter a valid CVV (${cvvLength || '3-4'} digits)` });
     }
     
     if (!formData.nameOnCard || formData.nameOnCard.trim().length < 2) {
@@ -95,15 +158,37 @@ export const validatePaymentForm = (formData: any): ValidationError[] => {
     }
   }
   
-  if (formData.paymentMethod === 'avios') {
-    if (!formData.email || !validateEmail(formData.email)) {
-      errors.push({ field: 'email', message: 'Please enter a valid email address' });
-    }
-    
-    if (!formData.password || formData.password.length < 1) {
-      errors.push({ field: 'password', message: 'Please enter your password' });
-    }
+  return errors;
+};
+
+export const validateLoginForm = (formData: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!formData.email || !validateEmail(formData.email)) {
+    errors.push({ field: 'email', message: 'Please enter a valid email address' });
   }
-  
+
+  if (!formData.password || formData.password.length < 1) {
+    errors.push({ field: 'password', message: 'Please enter your password' });
+  }
+
   return errors;
-};
\ No newline at end of file
+};
+
+// Card fields that only ever go to the payment provider, never into the chat
+export const CARD_DETAIL_FIELDS = ['cardNumber', 'expiryDate', 'cvv', 'nameOnCard'] as const;
+
+export const omitCardDetails = (formData: Record<string, any>): Record<string, any> => {
+  return Object.fromEntries(
+    Object.entries(formData).filter(([field]) => !(CARD_DETAIL_FIELDS as readonly string[]).includes(field))
+  );
+};
+
+// Privilege Club login fields, sent only to the sign-in endpoint and never into the chat
+export const LOGIN_CREDENTIAL_FIELDS = ['email', 'password'] as const;
+
+export const omitLoginCredentials = (formData: Record<string, any>): Record<string, any> => {
+  return Object.fromEntries(
+    Object.entries(formData).filter(([field]) => !(LOGIN_CREDENTIAL_FIELDS as readonly string[]).includes(field))
+  );
+};
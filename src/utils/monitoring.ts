@@ -230,6 +230,8 @@ class MonitoringService {
     responseTime: number;
     success: boolean;
     functionCalls?: number;
+    attempts?: number; // Models tried, including the one that answered
+    failedModels?: string[]; // Models that failed before one answered
   }): void {
     this.trackPerformance('llm_response_time', metrics.responseTime, 'ms', {
       model: metrics.model,
@@ -252,6 +254,8 @@ class MonitoringService {
       responseTime: metrics.responseTime,
       success: metrics.success,
       functionCalls: metrics.functionCalls,
+      attempts: metrics.attempts,
+      failedModels: metrics.failedModels,
     });
   }
 
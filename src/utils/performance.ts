@@ -81,9 +81,10 @@ class PerformanceMonitor {
    */
   measureLLMResponse<T>(
     operation: () => Promise<T>,
-    model: string,
+    model: string | (() => string), // A getter names the model known only once the operation ends, e.g. after fallback
     context?: Record<string, any>
   ): Promise<T> {
+    const modelName = () => typeof model === 'function' ? model() : model;
     const timer = this.createTimer('llm_response');
     timer.start();
     
@@ -94,7 +95,7 @@ class PerformanceMonitor {
         const duration = timer.end();
         
         analytics.trackLLM({
-          model,
+          model: modelName(),
           tokensUsed: 0, // Will be updated by actual LLM call
           responseTime: duration,
           success: true,
@@ -107,7 +108,7 @@ class PerformanceMonitor {
         const duration = timer.end();
         
         analytics.trackLLM({
-          model,
+          model: modelName(),
           tokensUsed: 0,
           responseTime: duration,
           success: false,
@@ -321,7 +322,7 @@ export const performanceMonitor = new PerformanceMonitor();
 // Convenience functions
 export const measurePerformance = {
   timer: (name: string) => performanceMonitor.createTimer(name),
-  llm: <T>(operation: () => Promise<T>, model: string, context?: Record<string, any>) => 
+  llm: <T>(operation: () => Promise<T>, model: string | (() => string), context?: Record<string, any>) => 
     performanceMonitor.measureLLMResponse(operation, model, context),
   component: (name: string, renderFn: () => void) => 
     performanceMonitor.measureComponentRender(name, renderFn),
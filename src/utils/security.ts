@@ -197,6 +197,20 @@ class SecurityService {
       .trim();
   }
 
+  /**
+   * Mask anything that looks like a card number down to its last 4 digits
+   */
+  redactCardData(input: string): string {
+    if (typeof input !== 'string') {
+      return '';
+    }
+
+    return input.replace(/\b\d(?:[ -]?\d){12,18}\b/g, (match) => {
+      const digits = match.replace(/\D/g, '');
+      return `•••• ${digits.slice(-4)}`;
+    });
+  }
+
   /**
    * Validate API request
    */
@@ -321,10 +335,22 @@ export function securityMiddleware(request: Request): {
   allowed: boolean;
   headers: Record<string, string>;
   errors?: string[];
+  status?: number; // HTTP status to reject the request with
 } {
   const url = new URL(request.url);
   const origin = request.headers.get('origin') || '';
   
+  // Browsers send an Origin on cross-site requests; only configured origins may call the API
+  if (origin && !security.validateCorsOrigin(origin)) {
+    logger.warn('Request from disallowed origin', { origin, path: url.pathname });
+    return {
+      allowed: false,
+      headers: security.getCorsHeaders(),
+      errors: ['Origin not allowed'],
+      status: 403,
+    };
+  }
+
   // Get client ID for rate limiting
   const clientId = security.getClientId({
     headers: Object.fromEntries(request.headers.entries()),
@@ -344,6 +370,7 @@ export function securityMiddleware(request: Request): {
         'X-RateLimit-Reset': rateLimit.resetTime.toString(),
       },
       errors: ['Rate limit exceeded'],
+      status: 429,
     };
   }
 
@@ -359,6 +386,7 @@ export function securityMiddleware(request: Request): {
       allowed: false,
       headers: security.getCorsHeaders(origin),
       errors: validation.errors,
+      status: 400,
     };
   }
 
@@ -377,7 +405,9 @@ export function securityMiddleware(request: Request): {
 
 // Cleanup interval (run every 5 minutes)
 if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
+  const cleanupTimer = setInterval(() => {
     security.cleanupRateLimitStore();
   }, 5 * 60 * 1000);
+  // Don't keep a Node process (or a test run) alive just for the cleanup
+  (cleanupTimer as { unref?: () => void }).unref?.();
 }
\ No newline at end of file